@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BrandingData } from '../extractors/PDFExtractor.js';
+import { OverrideRecord, applyBrandingOverrides, applyTokenOverrides, loadBrandOverrides } from './BrandOverrides.js';
+import { generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+
+const branding: BrandingData = {
+  colors: [
+    { name: 'Azul Corporativo', hex: '#003366', rgb: 'rgb(0, 51, 102)', category: 'primary' },
+    { name: 'PANTONE 286 C', hex: '#0033a0', rgb: 'rgb(0, 51, 160)' }
+  ],
+  typography: [{ family: 'Inter', category: 'heading', weights: ['400'] }],
+  logos: []
+};
+
+describe('applyBrandingOverrides', () => {
+  it('fija colores, renombra muestras y fuerza tipografías', () => {
+    const records: OverrideRecord[] = [];
+    const data = applyBrandingOverrides(branding, {
+      colors: { pin: { secondary: 'PANTONE 286 C', accent: '#FF6600' }, rename: { '#003366': 'Azul Marca' } },
+      typography: { heading: { family: 'Georgia', weights: ['700'] } }
+    }, records);
+
+    assert.equal(data.colors.find(color => color.category === 'secondary')?.hex, '#0033a0');
+    assert.equal(data.colors.find(color => color.category === 'accent')?.hex, '#ff6600');
+    assert.equal(data.colors.find(color => color.hex === '#003366')?.name, 'Azul Marca');
+    assert.deepEqual(data.typography[0], { family: 'Georgia', category: 'heading', source: 'manual', weights: ['700'] });
+    assert.deepEqual(records.map(record => record.kind), ['pin', 'pin', 'rename', 'font']);
+  });
+
+  it('rechaza fijar una muestra que no existe', () => {
+    assert.throws(() => applyBrandingOverrides(branding, { colors: { pin: { primary: 'Verde' } } }, []), /Verde/);
+  });
+});
+
+describe('applyTokenOverrides', () => {
+  it('asigna los valores fijos y recupera los bloqueados de la versión anterior', () => {
+    const previous = generateDefaultDesignTokens();
+    previous.colors.primary.base = '#112233';
+
+    const records: OverrideRecord[] = [];
+    const tokens = applyTokenOverrides(generateDefaultDesignTokens(), {
+      set: { 'spacing.xxl': '80px' },
+      lock: ['colors.primary']
+    }, previous, records);
+
+    assert.equal(tokens.spacing?.xxl, '80px');
+    assert.equal(tokens.colors.primary.base, '#112233');
+    assert.deepEqual(records.map(record => [record.kind, record.target]), [['lock', 'colors.primary'], ['set', 'spacing.xxl']]);
+  });
+
+  it('rechaza un valor fijo sobre un grupo de tokens', () => {
+    assert.throws(() => applyTokenOverrides(generateDefaultDesignTokens(), { set: { 'colors.primary': '#000000' } }, undefined, []), /grupo de tokens/);
+  });
+});
+
+describe('loadBrandOverrides', () => {
+  for (const tokenPath of ['__proto__.polluted', 'colors.constructor.prototype', 'spacing.__proto__']) {
+    it(`rechaza la ruta "${tokenPath}" sin tocar el prototipo`, () => {
+      assert.throws(() => loadBrandOverrides({ set: { [tokenPath]: 'x' } }), /no válida/);
+      assert.throws(() => applyTokenOverrides(generateDefaultDesignTokens(), { set: { [tokenPath]: 'x' } }, undefined, []), /no válida/);
+      assert.equal(({} as Record<string, unknown>).polluted, undefined);
+    });
+  }
+
+  it('rechaza las rutas fuera de los grupos de tokens', () => {
+    assert.throws(() => loadBrandOverrides({ set: { 'colours.primary.base': '#000000' } }), /grupo de tokens desconocido/);
+    assert.throws(() => loadBrandOverrides({ lock: ['colors.brand'] }), /grupo de tokens desconocido/);
+    assert.throws(() => loadBrandOverrides({ lock: ['metadata.version'] }), /metadatos/);
+  });
+
+  it('acepta las rutas de los grupos conocidos', () => {
+    const overrides = loadBrandOverrides({ set: { 'typography.sizes.md': '18px' }, lock: ['colors.primary', 'shadows'] });
+    assert.deepEqual(overrides.lock, ['colors.primary', 'shadows']);
+  });
+});
@@ -0,0 +1,350 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { JsonSchema, assertValid } from '../../utils/schema.js';
+import { hexToRgb, rgbToString } from '../../utils/color.js';
+import { BrandingData, ColorInfo, HEX_COLOR_PATTERN, TypographyInfo } from '../extractors/PDFExtractor.js';
+import { FontRole } from '../extractors/FontExtractor.js';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+import { listBrandsWith, readBrandFile, writeBrandFile } from '../resources/Workspace.js';
+import { DesignTokens } from './DesignTokenExtractor.js';
+import fs from 'fs';
+
+// Papel de marca al que se puede fijar un color
+type ColorRole = NonNullable<ColorInfo['category']>;
+
+// Tipografía forzada para un papel
+interface FontOverride {
+  family?: string;
+  weights?: string[];
+  italic?: boolean;
+}
+
+// Correcciones manuales de los datos extraídos (brand.overrides.json)
+export interface BrandOverrides {
+  colors?: {
+    // Color de cada papel: un HEX o el nombre de una muestra extraída
+    pin?: Partial<Record<ColorRole, string>>;
+    // Nombre nuevo de las muestras, por HEX o por nombre extraído
+    rename?: Record<string, string>;
+  };
+  typography?: Partial<Record<FontRole, FontOverride>>;
+  // Valores fijos de tokens por ruta ("colors.secondary.base": "#123456")
+  set?: Record<string, string | number>;
+  // Rutas de tokens (o grupos, como "colors.accent") que conservan el valor de
+  // la versión anterior de la marca
+  lock?: string[];
+}
+
+// Corrección aplicada, tal como se registra en metadata.overrides
+export interface OverrideRecord {
+  kind: 'pin' | 'rename' | 'font' | 'set' | 'lock';
+  // Papel, muestra o ruta del token corregido
+  target: string;
+  value: unknown;
+  // Valor extraído o generado al que sustituye
+  previous?: unknown;
+}
+
+// Archivo de las correcciones de cada marca en el workspace
+const OVERRIDES_FILE = 'overrides.json';
+
+const ROLE_SCHEMA: JsonSchema = { type: 'string', minLength: 1 };
+
+// Grupos de tokens que admiten valores fijos y bloqueos, con sus subgrupos
+// (null si cada clave es un token); los metadatos no se pueden corregir
+const TOKEN_GROUPS: Record<string, readonly string[] | null> = {
+  colors: ['primary', 'secondary', 'accent', 'neutral', 'on', 'semantic', 'schemes', 'feedback'],
+  typography: ['families', 'fonts', 'weights', 'sizes', 'lineHeights'],
+  spacing: null,
+  breakpoints: null,
+  shadows: null,
+  borders: ['radius', 'width']
+};
+
+// Claves que darían acceso al prototipo de los objetos
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const fontOverrideSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    family: { type: 'string', minLength: 1 },
+    weights: { type: 'array', items: { type: 'string', pattern: '^[1-9]00$' } },
+    italic: { type: 'boolean' }
+  },
+  additionalProperties: false
+};
+
+// Esquema JSON de BrandOverrides
+export const brandOverridesSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    colors: {
+      type: 'object',
+      properties: {
+        pin: {
+          type: 'object',
+          properties: { primary: ROLE_SCHEMA, secondary: ROLE_SCHEMA, accent: ROLE_SCHEMA, neutral: ROLE_SCHEMA },
+          additionalProperties: false
+        },
+        rename: { type: 'object', additionalProperties: { type: 'string', minLength: 1 } }
+      },
+      additionalProperties: false
+    },
+    typography: {
+      type: 'object',
+      properties: { heading: fontOverrideSchema, body: fontOverrideSchema, accent: fontOverrideSchema },
+      additionalProperties: false
+    },
+    set: { type: 'object', additionalProperties: { type: ['string', 'number'] } },
+    lock: { type: 'array', items: { type: 'string', minLength: 1 } }
+  },
+  additionalProperties: false
+};
+
+// Esquema JSON de OverrideRecord
+export const overrideRecordSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['pin', 'rename', 'font', 'set', 'lock'] },
+    target: { type: 'string' }
+  },
+  required: ['kind', 'target']
+};
+
+/**
+ * Lee las correcciones de un objeto o de un archivo JSON en disco
+ */
+export function loadBrandOverrides(input: unknown): BrandOverrides {
+  let overrides = input;
+
+  if (typeof input === 'string') {
+    if (!fs.existsSync(input)) {
+      throw new McpError(ErrorCode.InvalidParams, `El archivo de correcciones no existe: ${input}`);
+    }
+    try {
+      overrides = JSON.parse(fs.readFileSync(input, 'utf-8'));
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `El archivo de correcciones no es un JSON válido: ${input}`);
+    }
+  }
+
+  assertValid(brandOverridesSchema, overrides, '$.overrides');
+
+  const validated = overrides as BrandOverrides;
+  Object.keys(validated.set || {}).forEach(tokenPath => assertTokenPath(tokenPath, 'set'));
+  (validated.lock || []).forEach(tokenPath => assertTokenPath(tokenPath, 'lock'));
+  return validated;
+}
+
+/**
+ * Comprueba que la ruta de un valor fijo o de un bloqueo apunta a un grupo de
+ * tokens conocido y no contiene claves del prototipo
+ */
+function assertTokenPath(tokenPath: string, field: 'set' | 'lock'): void {
+  const keys = tokenPath.split('.');
+
+  if (keys.some(key => !key || FORBIDDEN_KEYS.has(key))) {
+    throw new McpError(ErrorCode.InvalidParams, `Ruta de token no válida en overrides.${field}: ${tokenPath}`);
+  }
+
+  const [group, subgroup] = keys;
+  if (group === 'metadata') {
+    throw new McpError(ErrorCode.InvalidParams, `No se pueden corregir los metadatos de los tokens: ${tokenPath}`);
+  }
+  if (!(group in TOKEN_GROUPS)) {
+    throw new McpError(ErrorCode.InvalidParams, `overrides.${field} apunta a un grupo de tokens desconocido: ${tokenPath} (grupos: ${Object.keys(TOKEN_GROUPS).join(', ')})`);
+  }
+
+  const subgroups = TOKEN_GROUPS[group];
+  if (subgroups && subgroup !== undefined && !subgroups.includes(subgroup)) {
+    throw new McpError(ErrorCode.InvalidParams, `overrides.${field} apunta a un grupo de tokens desconocido: ${tokenPath} (${group}: ${subgroups.join(', ')})`);
+  }
+}
+
+/**
+ * Valor propio de una clave de un objeto (nunca el heredado del prototipo)
+ */
+function ownValue(node: unknown, key: string): unknown {
+  return node && typeof node === 'object' && Object.prototype.hasOwnProperty.call(node, key)
+    ? (node as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Correcciones guardadas de una marca en el workspace (undefined si no tiene)
+ */
+export async function readStoredOverrides(brand: string): Promise<BrandOverrides | undefined> {
+  const text = await readBrandFile(brand, OVERRIDES_FILE);
+  if (text === undefined) return undefined;
+
+  try {
+    return loadBrandOverrides(JSON.parse(text));
+  } catch (error) {
+    logger.warn(`Se ignoran las correcciones guardadas de ${brand}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Guarda las correcciones de una marca en el workspace, para las siguientes generaciones
+ */
+export async function storeOverrides(brand: string, overrides: BrandOverrides): Promise<void> {
+  await writeBrandFile(brand, OVERRIDES_FILE, JSON.stringify(overrides, null, 2));
+}
+
+/**
+ * Busca una muestra por HEX o por nombre (sin distinguir mayúsculas)
+ */
+function findColor(colors: ColorInfo[], reference: string): ColorInfo | undefined {
+  const normalized = reference.trim().toLowerCase();
+  return colors.find(color => color.hex.toLowerCase() === normalized)
+    || colors.find(color => color.name.trim().toLowerCase() === normalized);
+}
+
+/**
+ * Aplica las correcciones de colores y tipografías a los datos de marca, antes
+ * de generar los tokens. Los colores fijados pasan a ser los primeros de su
+ * papel (los que usan los tokens) y las tipografías forzadas, las de su papel.
+ * Las muestras se buscan por su nombre extraído: se fijan antes de renombrarlas.
+ */
+export function applyBrandingOverrides(data: BrandingData, overrides: BrandOverrides, records: OverrideRecord[]): BrandingData {
+  let colors = [...data.colors];
+  let typography = [...data.typography];
+
+  for (const [role, reference] of Object.entries(overrides.colors?.pin || {}) as Array<[ColorRole, string]>) {
+    const previous = colors.find(color => color.category === role);
+    const existing = findColor(colors, reference);
+
+    if (!existing && !new RegExp(HEX_COLOR_PATTERN).test(reference)) {
+      throw new McpError(ErrorCode.InvalidParams, `No hay ninguna muestra "${reference}" para fijar como ${role}`);
+    }
+
+    const pinned: ColorInfo = existing
+      ? { ...existing, category: role }
+      : { name: role, hex: reference.toLowerCase(), rgb: rgbToString(hexToRgb(reference)), category: role, source: 'manual' };
+    colors = [pinned, ...colors.filter(color => color !== existing)];
+    records.push({ kind: 'pin', target: `colors.${role}`, value: pinned.hex, previous: previous?.hex });
+  }
+
+  for (const [reference, name] of Object.entries(overrides.colors?.rename || {})) {
+    const color = findColor(colors, reference);
+    if (!color) {
+      logger.warn(`Corrección ignorada: no hay ninguna muestra "${reference}" que renombrar`);
+      continue;
+    }
+    colors = colors.map(entry => (entry === color ? { ...entry, name } : entry));
+    records.push({ kind: 'rename', target: color.hex, value: name, previous: color.name });
+  }
+
+  for (const [role, font] of Object.entries(overrides.typography || {}) as Array<[FontRole, FontOverride]>) {
+    const previous = typography.find(entry => entry.category === role);
+    const family = font.family || previous?.family;
+    if (!family) {
+      logger.warn(`Corrección ignorada: no hay tipografía de ${role} a la que aplicar los pesos`);
+      continue;
+    }
+
+    const base = typography.find(entry => entry.family.toLowerCase() === family.toLowerCase());
+    const forced: TypographyInfo = {
+      ...(base || {}),
+      family,
+      category: role,
+      source: 'manual',
+      ...(font.weights ? { weights: font.weights } : {}),
+      ...(font.italic !== undefined ? { italic: font.italic } : {})
+    };
+    typography = [forced, ...typography.filter(entry => entry !== previous)];
+    records.push({
+      kind: 'font',
+      target: `typography.${role}`,
+      value: { family, ...(font.weights ? { weights: font.weights } : {}), ...(font.italic !== undefined ? { italic: font.italic } : {}) },
+      previous: previous ? { family: previous.family, ...(previous.weights ? { weights: previous.weights } : {}) } : undefined
+    });
+  }
+
+  return { ...data, colors, typography };
+}
+
+/**
+ * Valor de una ruta de los tokens ("colors.primary.500")
+ */
+function getTokenPath(tokens: DesignTokens, tokenPath: string): unknown {
+  return tokenPath.split('.').reduce<unknown>(ownValue, tokens);
+}
+
+/**
+ * Asigna el valor de una ruta de los tokens, creando los grupos que falten
+ */
+function setTokenPath(tokens: DesignTokens, tokenPath: string, value: unknown): void {
+  const keys = tokenPath.split('.');
+  let node = tokens as unknown as Record<string, unknown>;
+
+  for (const key of keys.slice(0, -1)) {
+    const child = ownValue(node, key);
+    if (!child || typeof child !== 'object') node[key] = {};
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Aplica los bloqueos y los valores fijos a los tokens generados: las rutas
+ * bloqueadas recuperan el valor de la versión anterior de la marca y los
+ * valores fijos se asignan tal cual (prevalecen sobre los bloqueos)
+ */
+export function applyTokenOverrides(
+  tokens: DesignTokens,
+  overrides: BrandOverrides,
+  previousTokens: DesignTokens | undefined,
+  records: OverrideRecord[]
+): DesignTokens {
+  for (const tokenPath of overrides.lock || []) {
+    assertTokenPath(tokenPath, 'lock');
+    const locked = previousTokens ? getTokenPath(previousTokens, tokenPath) : undefined;
+    if (locked === undefined) {
+      logger.info(`Bloqueo sin efecto: la versión anterior no tiene el token ${tokenPath}`);
+      continue;
+    }
+
+    const current = getTokenPath(tokens, tokenPath);
+    setTokenPath(tokens, tokenPath, structuredClone(locked));
+    if (JSON.stringify(current) !== JSON.stringify(locked)) {
+      records.push({ kind: 'lock', target: tokenPath, value: locked, previous: current });
+    }
+  }
+
+  for (const [tokenPath, value] of Object.entries(overrides.set || {})) {
+    assertTokenPath(tokenPath, 'set');
+    const current = getTokenPath(tokens, tokenPath);
+    if (current !== null && typeof current === 'object') {
+      throw new McpError(ErrorCode.InvalidParams, `${tokenPath} es un grupo de tokens; indica la ruta de un token concreto`);
+    }
+
+    setTokenPath(tokens, tokenPath, value);
+    records.push({ kind: 'set', target: tokenPath, value, previous: current });
+  }
+
+  return tokens;
+}
+
+/**
+ * Registra las correcciones guardadas de cada marca como recursos MCP
+ * (brand://<marca>/overrides.json)
+ */
+export function registerBrandOverridesResources(resources: ResourceRegistry): void {
+  resources.register({
+    uriTemplate: 'brand://{brand}/overrides.json',
+    name: 'Correcciones de marca',
+    description: 'Correcciones manuales de la marca (colores fijados, muestras renombradas, tipografías forzadas, valores fijos y tokens bloqueados) que se aplican en cada generación de tokens',
+    mimeType: 'application/json',
+    list: async () => (await listBrandsWith(OVERRIDES_FILE)).map(brand => ({
+      uri: `brand://${brand}/${OVERRIDES_FILE}`,
+      name: `Correcciones de ${brand}`,
+      mimeType: 'application/json'
+    })),
+    read: async ({ brand }, uri) => {
+      const text = await readBrandFile(brand, OVERRIDES_FILE);
+      return text === undefined ? undefined : { uri, mimeType: 'application/json', text };
+    }
+  });
+}
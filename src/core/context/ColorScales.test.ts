@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hexToRgb, rgbToOklch } from '../../utils/color.js';
+import { SCALE_STEPS, generateTonalScale, naturalStep, stepOf } from './ColorScales.js';
+
+const lightness = (hex: string) => rgbToOklch(hexToRgb(hex)).l;
+
+describe('generateTonalScale', () => {
+  for (const brand of ['#0033a0', '#ff6600', '#f5e6c8', '#1a1a2e']) {
+    it(`conserva ${brand} en su paso y ordena la escala de claro a oscuro`, () => {
+      const scale = generateTonalScale(brand);
+
+      assert.equal(scale.base, brand);
+      assert.equal(scale[naturalStep(brand)], brand);
+      assert.equal(stepOf(scale, brand.toUpperCase()), naturalStep(brand));
+      for (let index = 1; index < SCALE_STEPS.length; index++) {
+        assert.ok(lightness(scale[SCALE_STEPS[index]]) < lightness(scale[SCALE_STEPS[index - 1]]), SCALE_STEPS[index]);
+      }
+    });
+  }
+});
@@ -0,0 +1,132 @@
+import { OKLCH, contrastRatio, hexToRgb, oklchToRgb, rgbToHex, rgbToOklch } from '../../utils/color.js';
+
+// Pasos de una escala tonal, del más claro al más oscuro
+export const SCALE_STEPS = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900'] as const;
+
+export type ScaleStep = typeof SCALE_STEPS[number];
+
+// Escala tonal: cada paso es un color hexadecimal; "base" es el color de marca exacto
+export type TonalScale = Record<string, string>;
+
+// Luminosidad OKLCH de referencia de cada paso
+const STEP_LIGHTNESS: Record<ScaleStep, number> = {
+  '50': 0.97,
+  '100': 0.93,
+  '200': 0.87,
+  '300': 0.79,
+  '400': 0.7,
+  '500': 0.61,
+  '600': 0.52,
+  '700': 0.44,
+  '800': 0.36,
+  '900': 0.27
+};
+
+// Luminosidad de los extremos de la escala cuando el color de marca está cerca de ellos
+const LIGHTEST = 0.975;
+const DARKEST = 0.22;
+
+// Fracción del croma que se pierde en cada extremo (los tonos muy claros y muy
+// oscuros con todo el croma resultan chillones o se salen de la gama)
+const LIGHT_CHROMA_FALLOFF = 0.85;
+const DARK_CHROMA_FALLOFF = 0.45;
+
+// Croma de los neutros teñidos con el tono de la marca
+const TINTED_NEUTRAL_CHROMA = 0.012;
+
+/**
+ * Paso de la escala cuya luminosidad de referencia es la más cercana a la del color
+ */
+export function naturalStep(hex: string): ScaleStep {
+  const { l } = rgbToOklch(hexToRgb(hex));
+  return SCALE_STEPS.reduce((best, step) =>
+    Math.abs(STEP_LIGHTNESS[step] - l) < Math.abs(STEP_LIGHTNESS[best] - l) ? step : best
+  );
+}
+
+/**
+ * Genera una escala tonal (50-900) a partir de un color de marca en OKLCH.
+ * El color de marca ocupa, sin modificar, el paso con la luminosidad más
+ * parecida; el resto de pasos conservan su tono y reparten la luminosidad
+ * entre el color y los extremos, con menos croma cuanto más se alejan de él.
+ */
+export function generateTonalScale(hex: string): TonalScale {
+  const brand = rgbToOklch(hexToRgb(hex));
+  const anchor = naturalStep(hex);
+  const anchorIndex = SCALE_STEPS.indexOf(anchor);
+  const lightest = Math.max(LIGHTEST, brand.l);
+  const darkest = Math.min(DARKEST, brand.l);
+
+  const scale: TonalScale = {};
+  SCALE_STEPS.forEach((step, index) => {
+    if (index === anchorIndex) {
+      scale[step] = rgbToHex(hexToRgb(hex));
+      return;
+    }
+
+    const lighter = index < anchorIndex;
+    const end = lighter ? SCALE_STEPS[0] : SCALE_STEPS[SCALE_STEPS.length - 1];
+    // Avance desde el color de marca (0) hasta el extremo de la escala (1)
+    const t = (STEP_LIGHTNESS[step] - STEP_LIGHTNESS[anchor]) / (STEP_LIGHTNESS[end] - STEP_LIGHTNESS[anchor]);
+    const target = lighter ? lightest : darkest;
+    const falloff = lighter ? LIGHT_CHROMA_FALLOFF : DARK_CHROMA_FALLOFF;
+
+    const color: OKLCH = {
+      l: brand.l + (target - brand.l) * t,
+      c: brand.c * (1 - falloff * Math.pow(t, 1.5)),
+      h: brand.h
+    };
+    scale[step] = rgbToHex(oklchToRgb(color));
+  });
+
+  scale.base = rgbToHex(hexToRgb(hex));
+  return scale;
+}
+
+/**
+ * Tiñe una escala de neutros con el tono del color indicado, conservando la
+ * luminosidad de cada paso. Los pasos que no son de la escala (white, black)
+ * no se modifican.
+ */
+export function tintNeutralScale(neutral: TonalScale, tintHex: string): TonalScale {
+  const { h } = rgbToOklch(hexToRgb(tintHex));
+
+  const scale: TonalScale = { ...neutral };
+  SCALE_STEPS.forEach(step => {
+    if (!neutral[step]) return;
+    // Los extremos se tiñen menos para que sigan leyéndose como blanco y negro
+    const chroma = TINTED_NEUTRAL_CHROMA * (step === '50' || step === '900' ? 0.5 : 1);
+    const { l } = rgbToOklch(hexToRgb(neutral[step]));
+    scale[step] = rgbToHex(oklchToRgb({ l, c: chroma, h }));
+  });
+
+  return scale;
+}
+
+/**
+ * Paso de la escala en el que está el color indicado: el que tiene ese mismo
+ * color o, si no hay ninguno, el de luminosidad más parecida
+ */
+export function stepOf(scale: TonalScale, hex: string): ScaleStep {
+  return SCALE_STEPS.find(step => scale[step]?.toLowerCase() === hex.toLowerCase()) || naturalStep(hex);
+}
+
+/**
+ * Paso de la escala más cercano a "from" cuyo contraste con el color
+ * "against" alcanza el mínimo; a igual distancia se prefiere el más oscuro
+ */
+export function nearestReadableStep(
+  scale: TonalScale,
+  from: ScaleStep,
+  against: string,
+  minimum: number,
+  exclude?: ScaleStep
+): ScaleStep | undefined {
+  const origin = SCALE_STEPS.indexOf(from);
+  const distance = (step: ScaleStep) => Math.abs(SCALE_STEPS.indexOf(step) - origin);
+
+  return SCALE_STEPS
+    .filter(step => scale[step] && step !== exclude)
+    .filter(step => contrastRatio(hexToRgb(scale[step]), hexToRgb(against)) >= minimum)
+    .sort((a, b) => distance(a) - distance(b) || SCALE_STEPS.indexOf(b) - SCALE_STEPS.indexOf(a))[0];
+}
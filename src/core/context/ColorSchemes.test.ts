@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { contrastRatio, hexToRgb, relativeLuminance } from '../../utils/color.js';
+import { generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+import { generateTonalScale } from './ColorScales.js';
+import { generateOnColors } from './ContrastAuditor.js';
+import { generateSemanticColors } from './SemanticTokens.js';
+import { COLOR_SCHEMES, generateColorSchemes, generateDarkColorTokens, resolveColorSchemes } from './ColorSchemes.js';
+
+const ratio = (first: string, second: string) => contrastRatio(hexToRgb(first), hexToRgb(second));
+
+// Paleta de marca con un primario oscuro y un acento claro
+function brandColors() {
+  const colors = generateDefaultDesignTokens().colors;
+  colors.primary = generateTonalScale('#0033a0');
+  colors.accent = generateTonalScale('#ffd400');
+  colors.on = generateOnColors(colors);
+  colors.semantic = generateSemanticColors(colors);
+  return colors;
+}
+
+describe('generateColorSchemes', () => {
+  it('genera todos los esquemas con texto legible sobre su fondo', () => {
+    const colors = brandColors();
+    colors.schemes = generateColorSchemes(colors);
+    const resolved = resolveColorSchemes(colors);
+
+    assert.deepEqual(Object.keys(resolved), [...COLOR_SCHEMES]);
+    for (const [name, scheme] of Object.entries(resolved)) {
+      assert.ok(ratio(scheme.text, scheme.background) >= 4.5, name);
+      assert.ok(ratio(scheme['button-primary-fg'], scheme['button-primary-bg']) >= 4.5, name);
+    }
+    assert.equal(resolved.primary.background, '#0033a0');
+  });
+});
+
+describe('generateDarkColorTokens', () => {
+  it('invierte los neutros y sustituye el color de marca que no se lee sobre el fondo oscuro', () => {
+    const colors = brandColors();
+    const dark = generateDarkColorTokens(colors);
+
+    assert.equal(dark.neutral.white, colors.neutral['900']);
+    assert.equal(dark.neutral['50'], colors.neutral['900']);
+    assert.notEqual(dark.primary.base, '#0033a0');
+    assert.ok(relativeLuminance(hexToRgb(dark.primary.base)) > relativeLuminance(hexToRgb('#0033a0')));
+  });
+});
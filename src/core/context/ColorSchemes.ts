@@ -0,0 +1,221 @@
+import { contrastRatio, hexToRgb } from '../../utils/color.js';
+import { DesignTokens } from './DesignTokenExtractor.js';
+import { SCALE_STEPS, TonalScale, nearestReadableStep, stepOf } from './ColorScales.js';
+import { generateOnColors, pickOnColor } from './ContrastAuditor.js';
+import { SemanticColor, colorReference, generateSemanticColors, resolveSemanticColors } from './SemanticTokens.js';
+
+// Esquemas de color que se generan: claro, oscuro y uno por cada color de marca
+export const COLOR_SCHEMES = ['light', 'dark', 'primary', 'secondary', 'accent'] as const;
+
+export type ColorSchemeName = typeof COLOR_SCHEMES[number];
+
+// Descripción de cada esquema, para los comentarios y la documentación de los formatos
+export const COLOR_SCHEME_DESCRIPTIONS: Record<ColorSchemeName, string> = {
+  light: 'Claro: la capa semántica del tema',
+  dark: 'Oscuro: la paleta invertida',
+  primary: 'Primario: fondo del color primario con el acento como resalte',
+  secondary: 'Secundario: fondo del color secundario con el primario como resalte',
+  accent: 'Acento sobre neutro: fondo neutro claro con el acento como resalte'
+};
+
+// Escalas de la marca
+type BrandScale = 'primary' | 'secondary' | 'accent';
+
+// Contraste mínimo de los colores de marca sobre el fondo oscuro (texto normal, WCAG AA)
+const DARK_MODE_MINIMUM_CONTRAST = 4.5;
+
+// Contraste mínimo del texto (WCAG 1.4.3), de los elementos gráficos (WCAG
+// 1.4.11) y con el que un borde se distingue del fondo
+const TEXT_CONTRAST = 4.5;
+const NON_TEXT_CONTRAST = 3;
+const BORDER_CONTRAST = 1.5;
+
+/**
+ * Contraste entre dos colores hexadecimales
+ */
+function contrast(a: string, b: string): number {
+  return contrastRatio(hexToRgb(a), hexToRgb(b));
+}
+
+/**
+ * Invierte una escala tonal (50 <-> 900, 100 <-> 800...) para el modo oscuro
+ */
+function mirrorScale(scale: TonalScale): TonalScale {
+  const mirrored: TonalScale = { ...scale };
+  SCALE_STEPS.forEach((step, index) => {
+    const opposite = SCALE_STEPS[SCALE_STEPS.length - 1 - index];
+    if (scale[opposite]) mirrored[step] = scale[opposite];
+  });
+  return mirrored;
+}
+
+/**
+ * Deriva la paleta del modo oscuro: los neutros se invierten (el fondo pasa a
+ * ser el neutro más oscuro y el texto el más claro), las escalas de marca
+ * también, y el color de marca se sustituye por el tono más cercano de su
+ * escala que se lee sobre el fondo oscuro
+ */
+export function generateDarkColorTokens(colors: DesignTokens['colors']): DesignTokens['colors'] {
+  const neutral = mirrorScale(colors.neutral);
+  neutral['white'] = colors.neutral['900'];
+  neutral['black'] = colors.neutral['50'];
+  const background = neutral['white'];
+
+  const darkScale = (scale: TonalScale): TonalScale => {
+    const mirrored = mirrorScale(scale);
+    const brand = scale.base || scale['500'];
+    const readable = (hex: string) => contrast(hex, background) >= DARK_MODE_MINIMUM_CONTRAST;
+
+    // Pasos más claros que el color de marca, del más cercano al más lejano
+    const lighter = SCALE_STEPS.filter(step => scale[step]).reverse().filter(step =>
+      contrast(scale[step], background) > contrast(brand, background));
+    const replacement = lighter.find(step => readable(scale[step]));
+
+    mirrored.base = readable(brand) || !replacement ? brand : scale[replacement];
+    return mirrored;
+  };
+
+  const dark: DesignTokens['colors'] = {
+    primary: darkScale(colors.primary),
+    secondary: darkScale(colors.secondary),
+    accent: darkScale(colors.accent),
+    neutral,
+    feedback: { ...colors.feedback }
+  };
+  dark.on = generateOnColors(dark);
+  dark.semantic = generateSemanticColors(dark);
+
+  return dark;
+}
+
+/**
+ * Referencia al token de la paleta que tiene un color (primero los colores de
+ * marca, después los neutros y los tonos de las escalas), o el propio color si
+ * no está en la paleta
+ */
+function paletteReference(colors: DesignTokens['colors'], hex: string): string {
+  const normalized = hex.toLowerCase();
+  const scales: Array<[string, Record<string, string>]> = [
+    ['neutral', colors.neutral],
+    ['primary', colors.primary],
+    ['secondary', colors.secondary],
+    ['accent', colors.accent]
+  ];
+
+  for (const [group, scale] of scales) {
+    if (scale.base?.toLowerCase() === normalized) return colorReference(group, 'base');
+  }
+
+  for (const [group, scale] of scales) {
+    const key = Object.keys(scale).find(step => step !== 'base' && scale[step].toLowerCase() === normalized);
+    if (key) return colorReference(group, key);
+  }
+
+  return hex;
+}
+
+/**
+ * Tono de una escala legible sobre un color: el de partida si alcanza el
+ * mínimo (y no se excluye) o el paso más cercano que lo alcanza
+ */
+function readableShade(scale: TonalScale, from: string, against: string, minimum: number, excludeFrom = false): string | undefined {
+  if (!excludeFrom && contrast(from, against) >= minimum) return from;
+
+  const origin = stepOf(scale, from);
+  const step = nearestReadableStep(scale, origin, against, minimum, excludeFrom ? origin : undefined);
+  return step && scale[step];
+}
+
+/**
+ * Colores semánticos de un esquema sobre un fondo de la paleta, con un color
+ * de marca como resalte (enlaces, foco y botón). El texto es el neutro que
+ * alcanza AA sobre el fondo y los colores de resalte se sustituyen por el
+ * tono más cercano de su escala que se lee sobre él o, si ninguno lo hace,
+ * por el color del texto.
+ */
+function brandScheme(
+  colors: DesignTokens['colors'],
+  backgroundScale: TonalScale,
+  background: string,
+  highlight: BrandScale
+): Record<SemanticColor, string> {
+  const { neutral } = colors;
+  const text = pickOnColor(background, neutral);
+  const lightBackground = text !== (neutral['white'] || '#ffffff');
+
+  // La superficie es el paso contiguo al fondo, hacia el lado del texto
+  const backgroundIndex = SCALE_STEPS.indexOf(stepOf(backgroundScale, background));
+  const surfaceStep = SCALE_STEPS[Math.min(Math.max(backgroundIndex + (lightBackground ? 1 : -1), 0), SCALE_STEPS.length - 1)];
+  const surfaceCandidate = backgroundScale[surfaceStep];
+  const surface = surfaceCandidate && contrast(text, surfaceCandidate) >= TEXT_CONTRAST ? surfaceCandidate : background;
+
+  const textMuted = readableShade(neutral, neutral['500'], background, TEXT_CONTRAST) || text;
+  const borderStep = nearestReadableStep(neutral, lightBackground ? '200' : '700', background, BORDER_CONTRAST);
+  const border = borderStep ? neutral[borderStep] : textMuted;
+
+  const scale = colors[highlight];
+  const brand = scale.base || scale['500'];
+  const link = readableShade(scale, brand, background, TEXT_CONTRAST) || text;
+  const linkHover = link === text ? text : readableShade(scale, link, background, TEXT_CONTRAST, true) || link;
+  const focusRing = readableShade(scale, brand, background, NON_TEXT_CONTRAST) || text;
+
+  // El botón conserva el color de marca si se distingue del fondo
+  const buttonBackground = contrast(brand, background) >= NON_TEXT_CONTRAST ? brand : link;
+  const buttonScale = buttonBackground === text ? neutral : scale;
+  const buttonForeground = pickOnColor(buttonBackground, neutral);
+  const buttonHover = readableShade(buttonScale, buttonBackground, buttonForeground, TEXT_CONTRAST, true) || buttonBackground;
+
+  const accent = colors.accent.base || colors.accent['500'];
+  const sale = readableShade(colors.accent, accent, background, TEXT_CONTRAST) || text;
+  const badgeBackground = contrast(accent, background) >= NON_TEXT_CONTRAST ? accent : buttonBackground;
+
+  return {
+    background,
+    surface,
+    text,
+    'text-muted': textMuted,
+    border,
+    link,
+    'link-hover': linkHover,
+    'focus-ring': focusRing,
+    'button-primary-bg': buttonBackground,
+    'button-primary-fg': buttonForeground,
+    'button-primary-hover': buttonHover,
+    sale,
+    'badge-bg': badgeBackground,
+    'badge-fg': pickOnColor(badgeBackground, neutral),
+    'inverse-bg': text,
+    'inverse-fg': background
+  };
+}
+
+/**
+ * Genera los esquemas de color del tema. Cada esquema es un juego completo de
+ * colores semánticos, expresados como referencias a la paleta: el claro es la
+ * capa semántica, el oscuro sale de la paleta invertida y los de marca usan el
+ * color de marca como fondo (o un neutro claro, en el de acento).
+ */
+export function generateColorSchemes(colors: DesignTokens['colors']): Record<ColorSchemeName, Record<string, string>> {
+  const toReferences = (values: Record<string, string>) => Object.fromEntries(
+    Object.entries(values).map(([key, hex]) => [key, paletteReference(colors, hex)])
+  );
+
+  return {
+    light: { ...(colors.semantic || generateSemanticColors(colors)) },
+    dark: toReferences(resolveSemanticColors(generateDarkColorTokens(colors))),
+    primary: toReferences(brandScheme(colors, colors.primary, colors.primary.base || colors.primary['500'], 'accent')),
+    secondary: toReferences(brandScheme(colors, colors.secondary, colors.secondary.base || colors.secondary['500'], 'primary')),
+    accent: toReferences(brandScheme(colors, colors.neutral, colors.neutral['50'] || colors.neutral['white'] || '#ffffff', 'accent'))
+  };
+}
+
+/**
+ * Esquemas de color de los tokens (o los generados a partir de la paleta si
+ * los tokens no los traen) resueltos a hexadecimal
+ */
+export function resolveColorSchemes(colors: DesignTokens['colors']): Record<string, Record<string, string>> {
+  const schemes = colors.schemes || generateColorSchemes(colors);
+  return Object.fromEntries(
+    Object.entries(schemes).map(([name, scheme]) => [name, resolveSemanticColors({ ...colors, semantic: scheme })])
+  );
+}
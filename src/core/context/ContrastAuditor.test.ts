@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { contrastRatio, hexToRgb } from '../../utils/color.js';
+import { generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+import { auditContrast, pickOnColor } from './ContrastAuditor.js';
+
+const ratio = (first: string, second: string) => contrastRatio(hexToRgb(first), hexToRgb(second));
+
+describe('pickOnColor', () => {
+  it('elige blanco sobre colores oscuros y un tono oscuro sobre los claros', () => {
+    const neutral = generateDefaultDesignTokens().colors.neutral;
+
+    assert.equal(pickOnColor('#0033a0', neutral), neutral.white);
+    assert.notEqual(pickOnColor('#ffd400', neutral), neutral.white);
+    assert.ok(ratio(pickOnColor('#ffd400', neutral), '#ffd400') >= 4.5);
+  });
+});
+
+describe('auditContrast', () => {
+  it('propone un tono de la misma escala para la combinación que no cumple', () => {
+    const tokens = generateDefaultDesignTokens();
+    const audit = auditContrast(tokens, 'AA', {
+      pairs: [{ name: 'Texto claro', foreground: 'neutral.300', background: 'neutral.white' }]
+    });
+    const [result] = audit.results;
+
+    assert.deepEqual([audit.passed, audit.failed], [0, audit.results.length]);
+    assert.equal(result.wcag, 'fail');
+    assert.match(result.suggestion!.token, /^neutral\.\d00$/);
+    assert.ok(result.suggestion!.ratio >= 4.5);
+  });
+
+  it('exige más contraste en el nivel AAA', () => {
+    const tokens = generateDefaultDesignTokens();
+    const pairs = [{ name: 'Texto', foreground: 'neutral.600', background: 'neutral.white' }];
+    const contrast = ratio(tokens.colors.neutral['600'], tokens.colors.neutral.white);
+
+    assert.equal(auditContrast(tokens, 'AA', { pairs }).results[0].passes, contrast >= 4.5);
+    assert.equal(auditContrast(tokens, 'AAA', { pairs }).results[0].passes, contrast >= 7);
+  });
+});
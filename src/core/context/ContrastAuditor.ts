@@ -0,0 +1,282 @@
+import { logger } from '../../utils/logger.js';
+import { apcaContrast, contrastRatio, hexToRgb } from '../../utils/color.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { DesignTokens, designTokensSchema } from './DesignTokenExtractor.js';
+import { nearestReadableStep, stepOf } from './ColorScales.js';
+import { colorGroup, generateSemanticColors, referencedPath, resolveColorValue } from './SemanticTokens.js';
+
+// Nivel de conformidad WCAG que se exige a las combinaciones
+export type ContrastLevel = 'AA' | 'AAA';
+
+// Combinación de texto y fondo que usa el tema, con los colores como rutas de token
+export interface ContrastPair {
+  name: string;
+  foreground: string;
+  background: string;
+  // Texto grande (18pt, o 14pt en negrita): se le exige menos contraste
+  largeText?: boolean;
+  // Elemento gráfico o de interfaz, como el indicador de foco (WCAG 1.4.11)
+  nonText?: boolean;
+}
+
+// Tono alternativo de la misma escala que cumple el nivel exigido
+export interface ContrastSuggestion {
+  token: string;
+  hex: string;
+  ratio: number;
+}
+
+// Resultado de la auditoría de una combinación
+export interface ContrastResult {
+  name: string;
+  // Esquema de color de la combinación; sin él, la capa semántica del tema
+  scheme?: string;
+  foreground: { token: string; hex: string };
+  background: { token: string; hex: string };
+  ratio: number;
+  // Contraste APCA (Lc), solo informativo
+  apca?: number;
+  // Mayor nivel WCAG que alcanza la combinación
+  wcag: 'AAA' | 'AA' | 'fail';
+  passes: boolean;
+  suggestion?: ContrastSuggestion;
+}
+
+export interface ContrastAudit {
+  level: ContrastLevel;
+  passed: number;
+  failed: number;
+  results: ContrastResult[];
+}
+
+// Contraste mínimo por nivel para texto normal, texto grande (WCAG 1.4.3 y
+// 1.4.6) y elementos gráficos (WCAG 1.4.11, que no tiene nivel AAA)
+const MINIMUM_RATIO: Record<ContrastLevel, { normal: number; large: number; nonText: number }> = {
+  AA: { normal: 4.5, large: 3, nonText: 3 },
+  AAA: { normal: 7, large: 4.5, nonText: 3 }
+};
+
+// Combinaciones de colores semánticos que usan las hojas de estilo del tema
+export const THEME_CONTRAST_PAIRS: ContrastPair[] = [
+  { name: 'Texto', foreground: 'semantic.text', background: 'semantic.background' },
+  { name: 'Texto sobre superficie', foreground: 'semantic.text', background: 'semantic.surface' },
+  { name: 'Texto secundario', foreground: 'semantic.text-muted', background: 'semantic.background' },
+  { name: 'Enlaces y botón secundario', foreground: 'semantic.link', background: 'semantic.background' },
+  { name: 'Enlaces (hover)', foreground: 'semantic.link-hover', background: 'semantic.background' },
+  { name: 'Indicador de foco', foreground: 'semantic.focus-ring', background: 'semantic.background', nonText: true },
+  { name: 'Precio rebajado', foreground: 'semantic.sale', background: 'semantic.background' },
+  { name: 'Botón principal', foreground: 'semantic.button-primary-fg', background: 'semantic.button-primary-bg' },
+  { name: 'Botón principal (hover)', foreground: 'semantic.button-primary-fg', background: 'semantic.button-primary-hover' },
+  { name: 'Contador del carrito', foreground: 'semantic.badge-fg', background: 'semantic.badge-bg' },
+  { name: 'Sección invertida', foreground: 'semantic.inverse-fg', background: 'semantic.inverse-bg' }
+];
+
+// Escalas que reciben un color "on-*" para el texto que se coloca sobre ellas
+const ON_COLOR_SCALES = ['primary', 'secondary', 'accent'] as const;
+
+/**
+ * Resuelve una ruta de token de color ("semantic.link", "primary.base"...).
+ * Los tokens sin capa semántica se auditan con la que se generaría a partir
+ * de su paleta.
+ */
+function resolveColor(colors: DesignTokens['colors'], token: string): string | undefined {
+  const [group, key] = token.split('.');
+
+  if (group === 'semantic') {
+    const semantic: Record<string, string> = colors.semantic || generateSemanticColors(colors);
+    return semantic[key] ? resolveColorValue(colors, semantic[key]) : undefined;
+  }
+
+  return resolveColorValue(colors, `{${token}}`);
+}
+
+/**
+ * Token de la paleta del que sale el color de una ruta: los colores semánticos
+ * se siguen hasta la referencia que contienen
+ */
+function paletteToken(colors: DesignTokens['colors'], token: string): string {
+  const [group, key] = token.split('.');
+  if (group !== 'semantic') return token;
+
+  const semantic: Record<string, string> = colors.semantic || generateSemanticColors(colors);
+  const path = semantic[key] ? referencedPath(semantic[key]) : undefined;
+  return path ? paletteToken(colors, path.join('.')) : token;
+}
+
+/**
+ * Contraste mínimo que debe alcanzar una combinación
+ */
+function minimumRatio(pair: ContrastPair, level: ContrastLevel): number {
+  if (pair.nonText) return MINIMUM_RATIO[level].nonText;
+  return pair.largeText ? MINIMUM_RATIO[level].large : MINIMUM_RATIO[level].normal;
+}
+
+/**
+ * Busca en la escala del color el paso más cercano que alcanza el contraste
+ * mínimo contra el otro color de la combinación
+ */
+function suggestShade(
+  colors: DesignTokens['colors'],
+  token: string,
+  against: string,
+  minimum: number
+): ContrastSuggestion | undefined {
+  const [group] = paletteToken(colors, token).split('.');
+  const scale = colorGroup(colors, group);
+  if (!scale || group === 'on' || group === 'semantic') return undefined;
+
+  const step = nearestReadableStep(scale, stepOf(scale, resolveColor(colors, token)!), against, minimum);
+  if (!step) return undefined;
+
+  return {
+    token: `${group}.${step}`,
+    hex: scale[step],
+    ratio: round(contrastRatio(hexToRgb(scale[step]), hexToRgb(against)))
+  };
+}
+
+/**
+ * Redondea a dos decimales
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Elige el color del texto que va sobre un color de marca: el blanco si
+ * alcanza AA, si no el neutro más oscuro y, como último recurso, el negro (el
+ * blanco o el negro siempre ofrecen al menos 4,58:1)
+ */
+export function pickOnColor(background: string, neutral: Record<string, string>): string {
+  const candidates = [neutral['white'] || '#ffffff', neutral['900'], neutral['black'] || '#000000'].filter(Boolean);
+  const ratio = (hex: string) => contrastRatio(hexToRgb(hex), hexToRgb(background));
+
+  return candidates.find(hex => ratio(hex) >= MINIMUM_RATIO.AA.normal)
+    || candidates.sort((a, b) => ratio(b) - ratio(a))[0];
+}
+
+/**
+ * Genera los colores "on-*" (texto sobre primario, secundario y acento) de
+ * modo que cumplan AA sobre el color de marca
+ */
+export function generateOnColors(colors: DesignTokens['colors']): Record<string, string> {
+  const onColors: Record<string, string> = {};
+
+  for (const scale of ON_COLOR_SCALES) {
+    onColors[scale] = pickOnColor(colors[scale].base || colors[scale]['500'], colors.neutral);
+  }
+
+  return onColors;
+}
+
+/**
+ * Audita el contraste WCAG 2.x de las combinaciones de color del tema, en la
+ * capa semántica y en cada esquema de color, y propone, para las que no
+ * cumplen, el tono más cercano de la misma escala que sí lo hace
+ */
+export function auditContrast(
+  tokens: DesignTokens,
+  level: ContrastLevel = 'AA',
+  options: { apca?: boolean; pairs?: ContrastPair[] } = {}
+): ContrastAudit {
+  const { apca = false, pairs = THEME_CONTRAST_PAIRS } = options;
+  const results: ContrastResult[] = [];
+
+  // Cada esquema se audita como si fuera la capa semántica
+  const targets: Array<[string | undefined, DesignTokens['colors']]> = [
+    [undefined, tokens.colors],
+    ...Object.entries(tokens.colors.schemes || {}).map(([scheme, semantic]): [string, DesignTokens['colors']] =>
+      [scheme, { ...tokens.colors, semantic }])
+  ];
+
+  for (const [scheme, colors] of targets) {
+    for (const pair of pairs) {
+      const foreground = resolveColor(colors, pair.foreground);
+      const background = resolveColor(colors, pair.background);
+      if (!foreground || !background) continue;
+
+      const ratio = contrastRatio(hexToRgb(foreground), hexToRgb(background));
+      const minimum = minimumRatio(pair, level);
+      const passes = ratio >= minimum;
+
+      const result: ContrastResult = {
+        name: pair.name,
+        scheme,
+        foreground: { token: pair.foreground, hex: foreground },
+        background: { token: pair.background, hex: background },
+        ratio: round(ratio),
+        wcag: ratio >= minimumRatio(pair, 'AAA') ? 'AAA' : ratio >= minimumRatio(pair, 'AA') ? 'AA' : 'fail',
+        passes
+      };
+
+      if (apca) {
+        result.apca = Math.round(apcaContrast(hexToRgb(foreground), hexToRgb(background)) * 10) / 10;
+      }
+
+      if (!passes) {
+        // Se corrige el texto si pertenece a una escala y, si no, el fondo
+        result.suggestion = suggestShade(colors, pair.foreground, background, minimum)
+          || suggestShade(colors, pair.background, foreground, minimum);
+      }
+
+      results.push(result);
+    }
+  }
+
+  const failed = results.filter(result => !result.passes).length;
+  return { level, passed: results.length - failed, failed, results };
+}
+
+/**
+ * Describe una combinación que no cumple, para avisos y errores
+ */
+export function describeFailure(result: ContrastResult): string {
+  const suggestion = result.suggestion
+    ? `; alternativa: ${result.suggestion.token} (${result.suggestion.hex}, ${result.suggestion.ratio}:1)`
+    : '';
+  const scheme = result.scheme ? ` (esquema ${result.scheme})` : '';
+  return `${result.name}${scheme}: ${result.foreground.token} sobre ${result.background.token} tiene un contraste de ${result.ratio}:1${suggestion}`;
+}
+
+/**
+ * Registra la herramienta MCP para auditar el contraste de los tokens de diseño
+ */
+export function registerContrastAuditTool(registry: ToolRegistry): void {
+  registry.register({
+    name: 'audit_design_tokens',
+    description: 'Audita el contraste WCAG de las combinaciones de color que usa el tema y propone tonos alternativos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        designTokens: {
+          ...designTokensSchema,
+          description: 'Tokens de diseño a auditar (o la URI del recurso brand://<marca>/tokens.json)'
+        },
+        level: {
+          type: 'string',
+          enum: ['AA', 'AAA'],
+          description: 'Nivel WCAG exigido (por defecto AA)'
+        },
+        apca: {
+          type: 'boolean',
+          description: 'Incluir el contraste APCA (Lc) de cada combinación, a título informativo'
+        }
+      },
+      required: ['designTokens'],
+      additionalProperties: false
+    },
+    resourceArguments: ['designTokens'],
+    handler: async (args) => {
+      const { designTokens, level = 'AA', apca } = args as {
+        designTokens: DesignTokens;
+        level?: ContrastLevel;
+        apca?: boolean;
+      };
+
+      logger.info(`Auditando el contraste de los tokens de diseño (WCAG ${level})`);
+      const audit = auditContrast(designTokens, level, { apca });
+
+      return JSON.stringify(audit, null, 2);
+    }
+  });
+}
@@ -1,7 +1,47 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../../utils/logger.js';
-import { BrandingData } from '../extractors/PDFExtractor.js';
+import { BrandingData, HEX_COLOR_PATTERN, brandPersonalitySchema, brandingDataSchema } from '../extractors/PDFExtractor.js';
+import { BrandPersonality } from '../extractors/PersonalityExtractor.js';
+import { FontRole } from '../extractors/FontExtractor.js';
+import { FontToken, classifyFont, findFontFiles, fontStack, fontTokenSchema, resolveFonts } from './FontResolver.js';
+import { MergeConflict, MergePrecedence, describeConflict, mergeBrandingData, parseFigmaData } from '../extractors/FigmaAdapter.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+import { listBrandsWith, readBrandFile, saveQuietly, workspaceId } from '../resources/Workspace.js';
+import { TokenVersionInputs, recordTokenVersion, sha256 } from './TokenHistory.js';
+import {
+  BrandOverrides,
+  OverrideRecord,
+  applyBrandingOverrides,
+  applyTokenOverrides,
+  brandOverridesSchema,
+  loadBrandOverrides,
+  overrideRecordSchema,
+  readStoredOverrides,
+  storeOverrides
+} from './BrandOverrides.js';
+import { JsonSchema } from '../../utils/schema.js';
+import { TypeLevel, TypeScaleStyle } from '../extractors/SpacingExtractor.js';
+import { ROOT_FONT_SIZE, pxToRem } from '../../utils/units.js';
+import { generateTonalScale, tintNeutralScale } from './ColorScales.js';
+import { auditContrast, describeFailure, generateOnColors } from './ContrastAuditor.js';
+import { COLOR_REFERENCE_PATTERN, formatColorReference, generateSemanticColors } from './SemanticTokens.js';
+import { generateColorSchemes } from './ColorSchemes.js';
+import {
+  ResolvedPersonality,
+  generateBorderTokens,
+  generateBreakpointTokens,
+  generateShadowTokens,
+  resolvePersonality
+} from './StyleTokens.js';
+import { applyDtcgTokens, convertTokensToDtcg, parseDtcgDocument } from './DtcgFormat.js';
+import {
+  generateDarkModeCSS,
+  generateJsModule,
+  generateLessVariables,
+  generateShopifySettings,
+  generateTailwindConfig
+} from './TokenFormats.js';
 
 // Interfaz para Design Tokens
 export interface DesignTokens {
@@ -16,6 +56,14 @@ export interface DesignTokens {
     version: string;
     description?: string;
     createdAt: string;
+    // Combinaciones del tema que no alcanzan el contraste WCAG AA
+    contrastWarnings?: string[];
+    // Valores en los que Figma y el manual no coinciden, y cuál se ha usado
+    mergeConflicts?: MergeConflict[];
+    // Rutas de los tokens DTCG importados que no corresponden a ningún grupo
+    ignoredDtcgTokens?: string[];
+    // Correcciones manuales aplicadas y el valor al que sustituyen
+    overrides?: OverrideRecord[];
   };
 }
 
@@ -24,6 +72,14 @@ interface ColorTokens {
   secondary: Record<string, string>;
   accent: Record<string, string>;
   neutral: Record<string, string>;
+  // Color del texto sobre cada color de marca (on-primary, on-secondary, on-accent)
+  on?: Record<string, string>;
+  // Capa semántica (background, text, link, button-primary-bg...): referencias
+  // a la paleta como "{primary.base}" o colores literales
+  semantic?: Record<string, string>;
+  // Esquemas de color (light, dark, primary...): un juego de colores semánticos
+  // por esquema, para las secciones que usan otro fondo
+  schemes?: Record<string, Record<string, string>>;
   feedback: {
     success: string;
     warning: string;
@@ -38,6 +94,8 @@ interface TypographyTokens {
     body: string;
     accent?: string;
   };
+  // Fuente resuelta de cada papel: handle de Shopify, archivos propios o fuente del sistema
+  fonts?: Partial<Record<FontRole, FontToken>>;
   weights: {
     light?: number;
     regular: number;
@@ -71,8 +129,35 @@ interface SpacingTokens {
   lg: string;
   xl: string;
   xxl: string;
+  gutter?: string;
+  margin?: string;
+  logoClearSpace?: string;
 }
 
+type SizeStep = Exclude<keyof TypographyTokens['sizes'], 'base'>;
+type SpacingStep = Exclude<keyof SpacingTokens, 'base' | 'gutter' | 'margin' | 'logoClearSpace'>;
+
+// Posición de cada tamaño en la escala respecto al texto (md); el tema usa
+// xxxl para .h0, xxl para h1, xl para h2, lg para h3 y md para h4
+const SIZE_STEPS: Record<SizeStep, number> = { xs: -2, sm: -1, md: 0, lg: 1, xl: 2, xxl: 3, xxxl: 4 };
+
+// Tamaño que fija cada nivel de la escala tipográfica del manual
+const TYPE_LEVEL_SIZES: Partial<Record<TypeLevel, SizeStep>> = {
+  display: 'xxxl',
+  h1: 'xxl',
+  h2: 'xl',
+  h3: 'lg',
+  h4: 'md',
+  small: 'sm',
+  caption: 'xs'
+};
+
+// Niveles cuyo interlineado fija line-height "tight" (titulares)
+const HEADING_LEVELS: TypeLevel[] = ['display', 'h1', 'h2', 'h3'];
+
+// Múltiplos de la unidad base para cada paso de espaciado (con base 8px: 4, 8, 16, 24, 32 y 48px)
+const SPACING_MULTIPLIERS: Record<SpacingStep, number> = { xs: 0.5, sm: 1, md: 2, lg: 3, xl: 4, xxl: 6 };
+
 interface BreakpointTokens {
   xs: string;
   sm: string;
@@ -101,6 +186,130 @@ interface BorderTokens {
   };
 }
 
+// Escala de color: cada paso (50, 100, ... 900) es un color hexadecimal
+const colorScaleSchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string', pattern: HEX_COLOR_PATTERN }
+};
+
+// Colores semánticos: color hexadecimal o referencia a la paleta
+const semanticColorsSchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string', pattern: `(${HEX_COLOR_PATTERN})|(${COLOR_REFERENCE_PATTERN})` }
+};
+
+const cssLengthSchema: JsonSchema = { type: 'string', minLength: 1 };
+
+// Esquema JSON de DesignTokens, usado para validar los tokens que envían los agentes
+export const designTokensSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    colors: {
+      type: 'object',
+      properties: {
+        primary: { ...colorScaleSchema, required: ['500'] },
+        secondary: { ...colorScaleSchema, required: ['500'] },
+        accent: { ...colorScaleSchema, required: ['500'] },
+        neutral: { ...colorScaleSchema, required: ['900'] },
+        on: colorScaleSchema,
+        semantic: semanticColorsSchema,
+        schemes: { type: 'object', additionalProperties: semanticColorsSchema },
+        feedback: {
+          type: 'object',
+          properties: {
+            success: { type: 'string', pattern: HEX_COLOR_PATTERN },
+            warning: { type: 'string', pattern: HEX_COLOR_PATTERN },
+            error: { type: 'string', pattern: HEX_COLOR_PATTERN },
+            info: { type: 'string', pattern: HEX_COLOR_PATTERN }
+          },
+          required: ['success', 'warning', 'error', 'info']
+        }
+      },
+      required: ['primary', 'secondary', 'accent', 'neutral', 'feedback']
+    },
+    typography: {
+      type: 'object',
+      properties: {
+        families: {
+          type: 'object',
+          properties: {
+            heading: { type: 'string', minLength: 1 },
+            body: { type: 'string', minLength: 1 },
+            accent: { type: 'string', minLength: 1 }
+          },
+          required: ['heading', 'body']
+        },
+        fonts: {
+          type: 'object',
+          properties: {
+            heading: fontTokenSchema,
+            body: fontTokenSchema,
+            accent: fontTokenSchema
+          },
+          additionalProperties: false
+        },
+        weights: {
+          type: 'object',
+          properties: {
+            regular: { type: 'number' },
+            bold: { type: 'number' }
+          },
+          additionalProperties: { type: 'number', minimum: 1, maximum: 1000 },
+          required: ['regular', 'bold']
+        },
+        sizes: {
+          type: 'object',
+          additionalProperties: cssLengthSchema,
+          required: ['base', 'xs', 'sm', 'md', 'lg', 'xl', 'xxl', 'xxxl']
+        },
+        lineHeights: {
+          type: 'object',
+          additionalProperties: { type: 'number', minimum: 0 },
+          required: ['tight', 'normal', 'loose']
+        }
+      },
+      required: ['families', 'weights', 'sizes', 'lineHeights']
+    },
+    spacing: { type: 'object', additionalProperties: cssLengthSchema },
+    breakpoints: { type: 'object', additionalProperties: cssLengthSchema },
+    shadows: { type: 'object', additionalProperties: { type: 'string' } },
+    borders: {
+      type: 'object',
+      properties: {
+        radius: { type: 'object', additionalProperties: cssLengthSchema },
+        width: { type: 'object', additionalProperties: cssLengthSchema }
+      }
+    },
+    metadata: {
+      type: 'object',
+      properties: {
+        brandName: { type: 'string' },
+        version: { type: 'string' },
+        description: { type: 'string' },
+        createdAt: { type: 'string' },
+        contrastWarnings: { type: 'array', items: { type: 'string' } },
+        mergeConflicts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              group: { type: 'string', enum: ['colors', 'typography', 'spacing', 'personality', 'brand'] },
+              name: { type: 'string' },
+              figma: { type: 'string' },
+              pdf: { type: 'string' },
+              resolution: { type: 'string', enum: ['figma', 'pdf'] }
+            },
+            required: ['group', 'name', 'figma', 'pdf', 'resolution']
+          }
+        },
+        ignoredDtcgTokens: { type: 'array', items: { type: 'string' } },
+        overrides: { type: 'array', items: overrideRecordSchema }
+      }
+    }
+  },
+  required: ['colors', 'typography']
+};
+
 /**
  * Genera valores por defecto para los tokens de color
  */
@@ -215,10 +424,18 @@ function generateDefaultSpacingTokens(): SpacingTokens {
   };
 }
 
+// Opciones de generación de la paleta
+interface ColorOptions {
+  // Teñir la escala de neutros con el tono del color primario
+  tintNeutrals?: boolean;
+}
+
 /**
- * Convierte la paleta de colores extraída en tokens de color
+ * Convierte la paleta de colores extraída en tokens de color: cada escala
+ * (primario, secundario y acento) se genera a partir del primer color de su
+ * categoría; las que no tienen color de marca conservan la escala por defecto
  */
-function convertColorsToTokens(colors: BrandingData['colors']): ColorTokens {
+function convertColorsToTokens(colors: BrandingData['colors'], options: ColorOptions = {}): ColorTokens {
   // Comenzar con tokens por defecto
   const tokens = generateDefaultColorTokens();
   
@@ -227,77 +444,250 @@ function convertColorsToTokens(colors: BrandingData['colors']): ColorTokens {
   const secondaryColors = colors.filter(c => c.category === 'secondary');
   const accentColors = colors.filter(c => c.category === 'accent');
   
-  // Si tenemos colores primarios, actualizar los tokens
   if (primaryColors.length > 0) {
-    // Actualizar el color primario (500) con el primer color primario encontrado
-    tokens.primary['500'] = primaryColors[0].hex;
+    tokens.primary = generateTonalScale(primaryColors[0].hex);
   }
   
-  // Si tenemos colores secundarios, actualizar los tokens
   if (secondaryColors.length > 0) {
-    tokens.secondary['500'] = secondaryColors[0].hex;
+    tokens.secondary = generateTonalScale(secondaryColors[0].hex);
   }
   
-  // Si tenemos colores de acento, actualizar los tokens
   if (accentColors.length > 0) {
-    tokens.accent['500'] = accentColors[0].hex;
+    tokens.accent = generateTonalScale(accentColors[0].hex);
   }
+
+  if (options.tintNeutrals && primaryColors.length > 0) {
+    tokens.neutral = tintNeutralScale(tokens.neutral, primaryColors[0].hex);
+  }
+
+  tokens.on = generateOnColors(tokens);
+  tokens.semantic = generateSemanticColors(tokens);
+  tokens.schemes = generateColorSchemes(tokens);
   
   return tokens;
 }
 
+/**
+ * Redondea a dos decimales
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Calcula los tamaños y las alturas de línea a partir de la escala tipográfica
+ * del manual. Los tamaños que el manual no declara se interpolan (en
+ * progresión geométrica) entre los declarados y el texto; por encima del
+ * mayor y por debajo del menor siguen la proporción de los tamaños por defecto.
+ */
+function applyTypeScale(tokens: TypographyTokens, styles: TypeScaleStyle[]): void {
+  // Un tamaño nulo dejaría la escala en Infinity/NaN al dividir por él
+  const typeScale = styles.filter(style => style.size > 0);
+  if (typeScale.length === 0) return;
+
+  const defaults = tokens.sizes;
+  const body = typeScale.find(style => style.level === 'body')?.size ?? ROOT_FONT_SIZE;
+  const known = new Map<SizeStep, number>([['md', body]]);
+  for (const style of typeScale) {
+    const step = TYPE_LEVEL_SIZES[style.level];
+    if (step) known.set(step, style.size);
+  }
+
+  const steps = (Object.keys(SIZE_STEPS) as SizeStep[]).sort((a, b) => SIZE_STEPS[a] - SIZE_STEPS[b]);
+  const anchors = steps.filter(step => known.has(step));
+  const sizes = { ...defaults, base: `${round(body)}px` };
+
+  for (const step of steps) {
+    const position = SIZE_STEPS[step];
+    const below = [...anchors].reverse().find(anchor => SIZE_STEPS[anchor] <= position);
+    const above = anchors.find(anchor => SIZE_STEPS[anchor] >= position);
+    let pixels: number;
+
+    if (below && above && below !== above) {
+      const t = (position - SIZE_STEPS[below]) / (SIZE_STEPS[above] - SIZE_STEPS[below]);
+      pixels = known.get(below)! * Math.pow(known.get(above)! / known.get(below)!, t);
+    } else {
+      const anchor = (below || above)!;
+      pixels = known.get(anchor)! * parseFloat(defaults[step]) / parseFloat(defaults[anchor]);
+    }
+    sizes[step] = pxToRem(pixels);
+  }
+  tokens.sizes = sizes;
+
+  const leading = (style: TypeScaleStyle) => (style.lineHeight ? style.lineHeight / style.size : undefined);
+  const headingLeadings = typeScale
+    .filter(style => HEADING_LEVELS.includes(style.level))
+    .map(leading)
+    .filter((value): value is number => value !== undefined);
+  const bodyLeading = typeScale.filter(style => style.level === 'body').map(leading)[0];
+
+  if (headingLeadings.length > 0) {
+    tokens.lineHeights.tight = round(Math.min(...headingLeadings));
+  }
+  if (bodyLeading !== undefined) {
+    tokens.lineHeights.normal = round(bodyLeading);
+    tokens.lineHeights.loose = Math.max(tokens.lineHeights.loose, round(bodyLeading + 0.5));
+  }
+}
+
 /**
  * Convierte la información tipográfica extraída en tokens de tipografía
  */
-function convertTypographyToTokens(typography: BrandingData['typography']): TypographyTokens {
+function convertTypographyToTokens(typography: BrandingData['typography'], spacing?: BrandingData['spacing']): TypographyTokens {
   // Comenzar con tokens por defecto
   const tokens = generateDefaultTypographyTokens();
   
-  // Encontrar fuentes para títulos y cuerpo
-  const headingFont = typography.find(t => t.category === 'heading');
-  const bodyFont = typography.find(t => t.category === 'body');
-  const accentFont = typography.find(t => t.category === 'accent');
+  // Encontrar fuentes para títulos y cuerpo; las familias sin papel cubren los
+  // que falten (la primera titulares, la siguiente texto) y una sola familia
+  // sirve para los dos
+  const uncategorized = typography.filter(t => !t.category);
+  const ownHeading = typography.find(t => t.category === 'heading') || uncategorized.shift();
+  const bodyFont = typography.find(t => t.category === 'body') || uncategorized.shift() || ownHeading;
+  const headingFont = ownHeading || bodyFont;
+  const accentFont = typography.find(t => t.category === 'accent') || uncategorized.shift();
   
   // Actualizar fuentes si existen
   if (headingFont) {
-    tokens.families.heading = `${headingFont.family}, sans-serif`;
+    tokens.families.heading = fontStack(headingFont.family, classifyFont(headingFont.family, headingFont.fallback));
   }
   
   if (bodyFont) {
-    tokens.families.body = `${bodyFont.family}, sans-serif`;
+    tokens.families.body = fontStack(bodyFont.family, classifyFont(bodyFont.family, bodyFont.fallback));
   }
   
   if (accentFont) {
-    tokens.families.accent = `${accentFont.family}, sans-serif`;
+    tokens.families.accent = fontStack(accentFont.family, classifyFont(accentFont.family, accentFont.fallback));
   }
+
+  // Tamaños y alturas de línea de la escala tipográfica del manual
+  applyTypeScale(tokens, spacing?.typeScale || []);
   
   return tokens;
 }
 
 /**
- * Genera Design Tokens completos a partir de datos de branding
+ * Convierte el espaciado extraído en tokens de espaciado: la escala del manual
+ * si tiene los seis pasos o, si no, múltiplos de la unidad base
  */
-function generateDesignTokens(brandingData: BrandingData): DesignTokens {
+function convertSpacingToTokens(spacing?: BrandingData['spacing']): SpacingTokens {
+  const tokens = generateDefaultSpacingTokens();
+  if (!spacing) return tokens;
+
+  const steps = Object.keys(SPACING_MULTIPLIERS) as SpacingStep[];
+  const scale = spacing.scale || [];
+  if (scale.length >= steps.length) {
+    steps.forEach((step, index) => {
+      tokens[step] = pxToRem(scale[index]);
+    });
+    tokens.base = `${round(spacing.base ?? scale[0])}px`;
+  } else if (spacing.base) {
+    steps.forEach(step => {
+      tokens[step] = pxToRem(spacing.base! * SPACING_MULTIPLIERS[step]);
+    });
+    tokens.base = `${round(spacing.base)}px`;
+  }
+
+  if (spacing.grid?.gutter) {
+    tokens.gutter = pxToRem(spacing.grid.gutter);
+  }
+  if (spacing.margins) {
+    tokens.margin = pxToRem(spacing.margins);
+  }
+  if (spacing.clearSpace?.size) {
+    tokens.logoClearSpace = pxToRem(spacing.clearSpace.size);
+  }
+
+  return tokens;
+}
+
+/**
+ * Genera Design Tokens completos a partir de datos de branding. La
+ * personalidad indicada prevalece sobre la deducida del manual.
+ */
+function generateDesignTokens(
+  brandingData: BrandingData,
+  colorOptions: ColorOptions = {},
+  personality?: BrandPersonality
+): DesignTokens {
   // Generar los diferentes grupos de tokens
-  const colorTokens = convertColorsToTokens(brandingData.colors);
-  const typographyTokens = convertTypographyToTokens(brandingData.typography);
-  const spacingTokens = generateDefaultSpacingTokens();
+  const colorTokens = convertColorsToTokens(brandingData.colors, colorOptions);
+  const typographyTokens = convertTypographyToTokens(brandingData.typography, brandingData.spacing);
+  const spacingTokens = convertSpacingToTokens(brandingData.spacing);
+  const style = resolvePersonality(brandingData.personality, personality);
   
   // Construir el objeto de design tokens completo
   return {
     colors: colorTokens,
     typography: typographyTokens,
     spacing: spacingTokens,
+    ...generateStyleTokens(colorTokens, style),
+    metadata: {
+      brandName: brandingData.brandName || DEFAULT_BRAND_NAME,
+      version: '1.0.0',
+      createdAt: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Genera los puntos de ruptura, las sombras (con el neutro más oscuro) y los
+ * bordes según la personalidad de la marca
+ */
+function generateStyleTokens(colors: ColorTokens, personality: ResolvedPersonality): Pick<DesignTokens, 'breakpoints' | 'shadows' | 'borders'> {
+  return {
+    breakpoints: generateBreakpointTokens(),
+    shadows: generateShadowTokens(personality, colors.neutral['900']),
+    borders: generateBorderTokens(personality)
+  };
+}
+
+/**
+ * Genera Design Tokens completos con los valores por defecto, como punto de
+ * partida de los tokens importados
+ */
+export function generateDefaultDesignTokens(personality?: BrandPersonality): DesignTokens {
+  const colorTokens = generateDefaultColorTokens();
+  colorTokens.on = generateOnColors(colorTokens);
+  colorTokens.semantic = generateSemanticColors(colorTokens);
+  colorTokens.schemes = generateColorSchemes(colorTokens);
+
+  return {
+    colors: colorTokens,
+    typography: generateDefaultTypographyTokens(),
+    spacing: generateDefaultSpacingTokens(),
+    ...generateStyleTokens(colorTokens, resolvePersonality(undefined, personality)),
     metadata: {
-      brandName: brandingData.brandName || 'Marca sin nombre',
+      brandName: DEFAULT_BRAND_NAME,
       version: '1.0.0',
       createdAt: new Date().toISOString()
     }
   };
 }
 
+// Nombre de los tokens de una marca que no lo indica
+const DEFAULT_BRAND_NAME = 'Marca sin nombre';
+
+// Formatos de salida de los tokens
+export const TOKEN_FORMATS = ['json', 'css', 'scss', 'dtcg', 'tailwind', 'js', 'less', 'css-dark', 'shopify-settings'] as const;
+
+export type TokenFormat = typeof TOKEN_FORMATS[number];
+
+// Tipo MIME de cada formato, para los recursos brand://<marca>/tokens.<formato>
+const TOKEN_FORMAT_MIME_TYPES: Record<TokenFormat, string> = {
+  json: 'application/json',
+  css: 'text/css',
+  scss: 'text/x-scss',
+  dtcg: 'application/json',
+  tailwind: 'text/javascript',
+  js: 'application/json',
+  less: 'text/x-less',
+  'css-dark': 'text/css',
+  'shopify-settings': 'application/json'
+};
+
 /**
- * Convierte los tokens a diferentes formatos
+ * Convierte los tokens a diferentes formatos. Los formatos de varios archivos
+ * (js y shopify-settings) se devuelven como JSON con el contenido de cada archivo.
  */
 function convertTokensToFormat(tokens: DesignTokens, format: string): string {
   switch (format) {
@@ -305,20 +695,52 @@ function convertTokensToFormat(tokens: DesignTokens, format: string): string {
       return JSON.stringify(tokens, null, 2);
       
     case 'css':
-      return generateCSSVariables(tokens);
+      return warningComments(tokens, '/* ', ' */') + generateCSSVariables(tokens);
       
     case 'scss':
-      return generateSCSSVariables(tokens);
+      return warningComments(tokens, '// ') + generateSCSSVariables(tokens);
+      
+    case 'dtcg':
+      return JSON.stringify(convertTokensToDtcg(tokens), null, 2);
+      
+    case 'tailwind':
+      return generateTailwindConfig(tokens);
+      
+    case 'js':
+      return JSON.stringify(generateJsModule(tokens), null, 2);
+      
+    case 'less':
+      return warningComments(tokens, '// ') + generateLessVariables(tokens);
+      
+    case 'css-dark':
+      return warningComments(tokens, '/* ', ' */') + generateDarkModeCSS(tokens, generateCSSVariables(tokens));
+      
+    case 'shopify-settings':
+      return JSON.stringify(generateShopifySettings(tokens), null, 2);
       
     default:
-      return JSON.stringify(tokens, null, 2);
+      throw new McpError(ErrorCode.InvalidParams, `Formato de tokens no soportado: ${format}. Formatos disponibles: ${TOKEN_FORMATS.join(', ')}`);
   }
 }
 
+/**
+ * Avisos de contraste, conflictos con Figma y tokens DTCG ignorados como
+ * comentarios al inicio de la hoja de estilos
+ */
+function warningComments(tokens: DesignTokens, open: string, close = ''): string {
+  const contrast = (tokens.metadata.contrastWarnings || [])
+    .map(warning => `${open}Aviso de contraste: ${warning}${close}\n`);
+  const conflicts = (tokens.metadata.mergeConflicts || [])
+    .map(conflict => `${open}Conflicto con Figma: ${describeConflict(conflict)}${close}\n`);
+  const ignored = (tokens.metadata.ignoredDtcgTokens || [])
+    .map(path => `${open}Token DTCG ignorado: ${path}${close}\n`);
+  return [...contrast, ...conflicts, ...ignored].join('');
+}
+
 /**
  * Genera variables CSS a partir de design tokens
  */
-function generateCSSVariables(tokens: DesignTokens): string {
+export function generateCSSVariables(tokens: DesignTokens): string {
   let css = `:root {\n`;
   
   // Variables de color
@@ -338,6 +760,15 @@ function generateCSSVariables(tokens: DesignTokens): string {
     css += `  --color-neutral-${key}: ${value};\n`;
   });
   
+  Object.entries(tokens.colors.on || {}).forEach(([key, value]) => {
+    css += `  --color-on-${key}: ${value};\n`;
+  });
+  
+  // Colores semánticos, como referencias a las variables de la paleta
+  Object.entries(tokens.colors.semantic || {}).forEach(([key, value]) => {
+    css += `  --color-${key}: ${formatColorReference(value, (group, step) => `var(--color-${group}-${step})`)};\n`;
+  });
+  
   Object.entries(tokens.colors.feedback).forEach(([key, value]) => {
     css += `  --color-${key}: ${value};\n`;
   });
@@ -369,7 +800,34 @@ function generateCSSVariables(tokens: DesignTokens): string {
     });
   }
   
+  // Puntos de ruptura, sombras y bordes
+  Object.entries(tokens.breakpoints || {}).forEach(([key, value]) => {
+    css += `  --breakpoint-${key}: ${value};\n`;
+  });
+  
+  Object.entries(tokens.shadows || {}).forEach(([key, value]) => {
+    css += `  --shadow-${key}: ${value};\n`;
+  });
+  
+  Object.entries(tokens.borders?.radius || {}).forEach(([key, value]) => {
+    css += `  --border-radius-${key}: ${value};\n`;
+  });
+  
+  Object.entries(tokens.borders?.width || {}).forEach(([key, value]) => {
+    css += `  --border-width-${key}: ${value};\n`;
+  });
+  
   css += `}\n`;
+  
+  // Esquemas de color, como clases que redefinen los colores semánticos
+  Object.entries(tokens.colors.schemes || {}).forEach(([name, scheme]) => {
+    css += `\n.color-scheme-${name} {\n`;
+    Object.entries(scheme).forEach(([key, value]) => {
+      css += `  --color-${key}: ${formatColorReference(value, (group, step) => `var(--color-${group}-${step})`)};\n`;
+    });
+    css += `}\n`;
+  });
+  
   return css;
 }
 
@@ -402,6 +860,33 @@ function generateSCSSVariables(tokens: DesignTokens): string {
     scss += `$color-neutral-${key}: ${value};\n`;
   });
   
+  if (tokens.colors.on) {
+    scss += `\n// Texto sobre colores de marca\n`;
+    Object.entries(tokens.colors.on).forEach(([key, value]) => {
+      scss += `$color-on-${key}: ${value};\n`;
+    });
+  }
+  
+  if (tokens.colors.semantic) {
+    scss += `\n// Colores semánticos\n`;
+    Object.entries(tokens.colors.semantic).forEach(([key, value]) => {
+      scss += `$color-${key}: ${formatColorReference(value, (group, step) => `$color-${group}-${step}`)};\n`;
+    });
+  }
+  
+  if (tokens.colors.schemes) {
+    scss += `\n// Esquemas de color\n`;
+    scss += `$color-schemes: (\n`;
+    Object.entries(tokens.colors.schemes).forEach(([name, scheme]) => {
+      scss += `  '${name}': (\n`;
+      Object.entries(scheme).forEach(([key, value]) => {
+        scss += `    '${key}': ${formatColorReference(value, (group, step) => `$color-${group}-${step}`)},\n`;
+      });
+      scss += `  ),\n`;
+    });
+    scss += `);\n`;
+  }
+  
   scss += `\n// Colores de Feedback\n`;
   Object.entries(tokens.colors.feedback).forEach(([key, value]) => {
     scss += `$color-${key}: ${value};\n`;
@@ -439,63 +924,264 @@ function generateSCSSVariables(tokens: DesignTokens): string {
     });
   }
   
+  // Puntos de ruptura, sombras y bordes
+  if (tokens.breakpoints) {
+    scss += `\n// Puntos de ruptura\n`;
+    Object.entries(tokens.breakpoints).forEach(([key, value]) => {
+      scss += `$breakpoint-${key}: ${value};\n`;
+    });
+  }
+  
+  if (tokens.shadows) {
+    scss += `\n// Sombras\n`;
+    Object.entries(tokens.shadows).forEach(([key, value]) => {
+      scss += `$shadow-${key}: ${value};\n`;
+    });
+  }
+  
+  if (tokens.borders) {
+    scss += `\n// Radios de borde\n`;
+    Object.entries(tokens.borders.radius).forEach(([key, value]) => {
+      scss += `$border-radius-${key}: ${value};\n`;
+    });
+    
+    scss += `\n// Grosores de borde\n`;
+    Object.entries(tokens.borders.width).forEach(([key, value]) => {
+      scss += `$border-width-${key}: ${value};\n`;
+    });
+  }
+  
   return scss;
 }
 
+// Fuente que prevalece en la combinación con Figma
+const mergeSourceSchema: JsonSchema = { type: 'string', enum: ['figma', 'pdf'] };
+
 /**
  * Registra la herramienta MCP para generación de tokens de diseño
  */
-export function registerDesignTokenTool(server: Server): void {
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    if (request.params.name !== 'generate_design_tokens') {
-      return; // No es esta herramienta, permitir que otro handler lo maneje
-    }
-    
-    try {
-      const { brandingData, figmaData, format = 'json' } = request.params.arguments as {
-        brandingData: BrandingData;
-        figmaData?: any;
-        format?: 'json' | 'css' | 'scss';
+export function registerDesignTokenTool(registry: ToolRegistry): void {
+  registry.register({
+    name: 'generate_design_tokens',
+    description: 'Genera tokens de diseño a partir de la identidad de marca extraída',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        brandingData: {
+          ...brandingDataSchema,
+          description: 'Datos de identidad de marca extraídos (o la URI del recurso brand://<marca>/branding.json)'
+        },
+        figmaData: {
+          type: ['object', 'array', 'string'],
+          description: 'Datos de Figma: variables locales, estilos o volcados de archivo/nodos de la API REST, salida de get_variable_defs del MCP de Figma, o la ruta (o lista de rutas) a esos volcados JSON en disco'
+        },
+        figmaPrecedence: {
+          type: ['string', 'object'],
+          properties: {
+            colors: mergeSourceSchema,
+            typography: mergeSourceSchema,
+            spacing: mergeSourceSchema,
+            personality: mergeSourceSchema,
+            brand: mergeSourceSchema
+          },
+          additionalProperties: false,
+          description: 'Fuente que prevalece cuando Figma y el manual no coinciden: "figma" (por defecto) o "pdf", para todo o por grupo ({ "colors": "figma", "typography": "pdf", ... })'
+        },
+        dtcgTokens: {
+          type: ['object', 'string'],
+          description: 'Tokens en formato W3C Design Tokens (DTCG), como objeto, JSON serializado o la URI brand://<marca>/tokens.dtcg; se aplican sobre los generados a partir de brandingData'
+        },
+        brand: {
+          type: 'string',
+          minLength: 1,
+          description: 'Identificador de la marca en el workspace (por defecto, el nombre de la marca)'
+        },
+        format: {
+          type: 'string',
+          enum: [...TOKEN_FORMATS],
+          description: 'Formato de salida para los tokens'
+        },
+        tintNeutrals: {
+          type: 'boolean',
+          description: 'Teñir la escala de neutros con el tono del color primario'
+        },
+        fontFiles: {
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+          description: 'Archivos de fuente de la marca (woff2, woff, ttf, otf) o carpetas con ellos, para las familias que no están en la biblioteca de fuentes de Shopify'
+        },
+        personality: {
+          ...brandPersonalitySchema,
+          description: 'Personalidad visual de la marca (esquinas: sharp, soft o rounded; sombras: flat, subtle o elevated); prevalece sobre la deducida del manual'
+        },
+        overrides: {
+          ...brandOverridesSchema,
+          type: ['object', 'string'],
+          description: 'Correcciones manuales (objeto o ruta a un brand.overrides.json): colores fijados a un papel, muestras renombradas, tipografías forzadas, valores fijos y tokens bloqueados. Se guardan en el workspace y se aplican en las siguientes generaciones de la marca'
+        },
+        contrast: {
+          type: 'string',
+          enum: ['warn', 'enforce'],
+          description: 'Qué hacer si alguna combinación del tema no alcanza el contraste WCAG AA: avisar (por defecto) o rechazar los tokens'
+        }
+      },
+      additionalProperties: false
+    },
+    resourceArguments: ['brandingData', 'dtcgTokens', 'overrides'],
+    handler: async (args) => {
+      const { brandingData, figmaData, figmaPrecedence = 'figma', dtcgTokens, brand, format = 'json', tintNeutrals, fontFiles = [], personality, overrides, contrast = 'warn' } = args as {
+        brandingData?: BrandingData;
+        figmaData?: unknown;
+        figmaPrecedence?: MergePrecedence;
+        dtcgTokens?: object | string;
+        brand?: string;
+        format?: TokenFormat;
+        tintNeutrals?: boolean;
+        fontFiles?: string[];
+        personality?: BrandPersonality;
+        overrides?: BrandOverrides | string;
+        contrast?: 'warn' | 'enforce';
       };
-      
-      if (!brandingData) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          'Se requieren los datos de branding (brandingData)'
-        );
+
+      if (!brandingData && !figmaData && !dtcgTokens) {
+        throw new McpError(ErrorCode.InvalidParams, 'Se necesitan datos de branding (brandingData), datos de Figma (figmaData) o tokens DTCG (dtcgTokens)');
       }
-      
-      logger.info(`Generando tokens de diseño a partir de datos de branding`);
-      
-      // Combinar datos de Figma si existen
-      const combinedData = figmaData ? { ...brandingData, ...figmaData } : brandingData;
-      
-      // Generar design tokens
-      const designTokens = generateDesignTokens(combinedData);
-      
-      // Convertir a formato solicitado
-      const result = convertTokensToFormat(designTokens, format);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: result
-          }
-        ]
+
+      if (typeof figmaPrecedence === 'string' && !['figma', 'pdf'].includes(figmaPrecedence)) {
+        throw new McpError(ErrorCode.InvalidParams, `Precedencia no soportada: ${figmaPrecedence}. Valores disponibles: figma, pdf`);
+      }
+
+      let designTokens: DesignTokens;
+      let conflicts: MergeConflict[] = [];
+      let combinedData: BrandingData | undefined = brandingData;
+      let figmaBranding: Partial<BrandingData> | undefined;
+      // Las correcciones indicadas sustituyen a las guardadas de la marca
+      let brandOverrides = overrides !== undefined ? loadBrandOverrides(overrides) : undefined;
+      const overrideRecords: OverrideRecord[] = [];
+      if (brandingData || figmaData) {
+        logger.info(`Generando tokens de diseño a partir de datos de branding`);
+
+        // Combinar los datos de Figma con los del manual
+        combinedData = brandingData || { colors: [], typography: [], logos: [] };
+        if (figmaData) {
+          figmaBranding = parseFigmaData(figmaData);
+          const merged = mergeBrandingData(combinedData, figmaBranding, figmaPrecedence);
+          combinedData = merged.data;
+          conflicts = merged.conflicts;
+          conflicts.forEach(conflict => logger.warn(`Conflicto con Figma. ${describeConflict(conflict)}`));
+        }
+
+        // Aplicar las correcciones manuales a los datos combinados
+        brandOverrides = brandOverrides || await readStoredOverrides(workspaceId(brand || combinedData.brandName || DEFAULT_BRAND_NAME));
+        if (brandOverrides) combinedData = applyBrandingOverrides(combinedData, brandOverrides, overrideRecords);
+
+        // Generar design tokens
+        designTokens = generateDesignTokens(combinedData, { tintNeutrals }, personality);
+        if (conflicts.length > 0) designTokens.metadata.mergeConflicts = conflicts;
+      } else {
+        designTokens = generateDefaultDesignTokens(personality);
+      }
+
+      // Los tokens DTCG prevalecen sobre los generados
+      if (dtcgTokens) {
+        logger.info(`Importando tokens en formato DTCG`);
+        const ignored: string[] = [];
+        designTokens = applyDtcgTokens(designTokens, parseDtcgDocument(dtcgTokens), ignored);
+        if (ignored.length > 0) designTokens.metadata.ignoredDtcgTokens = ignored;
+      }
+
+      // Los tokens bloqueados conservan el valor de la versión anterior de la
+      // marca y los valores fijos se asignan tal cual
+      const brandId = workspaceId(brand || designTokens.metadata.brandName);
+      brandOverrides = brandOverrides || await readStoredOverrides(brandId);
+      if (brandOverrides) {
+        const previousText = await readBrandFile(brandId, 'tokens.json');
+        applyTokenOverrides(designTokens, brandOverrides, previousText ? JSON.parse(previousText) : undefined, overrideRecords);
+      }
+      if (overrideRecords.length > 0) designTokens.metadata.overrides = overrideRecords;
+
+      // Resolver las fuentes de las familias finales: biblioteca de Shopify,
+      // archivos de la marca o fuentes del sistema
+      const fonts = resolveFonts(designTokens.typography.families, combinedData?.typography, findFontFiles(fontFiles));
+      designTokens.typography.fonts = fonts;
+      for (const [role, font] of Object.entries(fonts)) {
+        designTokens.typography.families[role as FontRole] = font.stack;
+      }
+
+      // Comprobar el contraste de las combinaciones de color del tema
+      const failures = auditContrast(designTokens).results
+        .filter(result => !result.passes)
+        .map(describeFailure);
+
+      if (failures.length > 0) {
+        if (contrast === 'enforce') {
+          throw new Error(`Los tokens no alcanzan el contraste WCAG AA:\n- ${failures.join('\n- ')}`);
+        }
+
+        failures.forEach(failure => logger.warn(`Contraste insuficiente. ${failure}`));
+        designTokens.metadata.contrastWarnings = failures;
+      }
+
+      // Los tokens se guardan en el workspace como una nueva versión del
+      // historial de la marca, junto con las entradas con las que se generaron,
+      // y se leen en cualquier formato como recurso brand://<marca>/tokens.<formato>
+      const inputs: TokenVersionInputs = {
+        ...(combinedData?.source ? { pdf: combinedData.source } : {}),
+        ...(combinedData?.sources ? { sources: combinedData.sources } : {}),
+        ...(figmaBranding ? { figma: { sha256: sha256(figmaBranding), snapshot: figmaBranding } } : {}),
+        ...(dtcgTokens ? { dtcg: { sha256: sha256(dtcgTokens) } } : {}),
+        ...(fontFiles.length > 0 ? { fontFiles } : {}),
+        ...(brandOverrides ? { overrides: { sha256: sha256(brandOverrides), snapshot: brandOverrides } } : {}),
+        options: Object.fromEntries(
+          Object.entries({ figmaPrecedence: figmaData ? figmaPrecedence : undefined, tintNeutrals, personality })
+            .filter(([, value]) => value !== undefined)
+        )
       };
-    } catch (error) {
-      logger.error('Error en la herramienta generate_design_tokens:', error);
-      
+      const saved = await saveQuietly('los tokens', async () => {
+        // Las correcciones indicadas pasan a ser las de la marca
+        if (overrides !== undefined && brandOverrides) await storeOverrides(brandId, brandOverrides);
+        designTokens.metadata.version = (await recordTokenVersion(brandId, designTokens, inputs)).version;
+      });
+
+      // Convertir a formato solicitado
+      const text = convertTokensToFormat(designTokens, format);
+
       return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
+        text,
+        resources: saved
+          ? [
+            `brand://${brandId}/tokens.${format}`,
+            `brand://${brandId}/history/${designTokens.metadata.version}.json`,
+            ...(overrides !== undefined ? [`brand://${brandId}/overrides.json`] : [])
+          ]
+          : []
       };
     }
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Registra los tokens guardados en el workspace como recursos MCP en cada
+ * formato de salida (brand://<marca>/tokens.<formato>)
+ */
+export function registerDesignTokenResources(resources: ResourceRegistry): void {
+  resources.register({
+    uriTemplate: 'brand://{brand}/tokens.{format}',
+    name: 'Design tokens',
+    description: `Design tokens generados con generate_design_tokens, en cualquiera de los formatos de salida (${TOKEN_FORMATS.join(', ')})`,
+    list: async () => (await listBrandsWith('tokens.json')).flatMap(brand =>
+      TOKEN_FORMATS.map(format => ({
+        uri: `brand://${brand}/tokens.${format}`,
+        name: `Tokens de ${brand} (${format})`,
+        mimeType: TOKEN_FORMAT_MIME_TYPES[format]
+      }))
+    ),
+    read: async ({ brand, format }, uri) => {
+      const text = await readBrandFile(brand, 'tokens.json');
+      if (text === undefined || !TOKEN_FORMATS.includes(format as TokenFormat)) return undefined;
+
+      const tokens = JSON.parse(text) as DesignTokens;
+      return { uri, mimeType: TOKEN_FORMAT_MIME_TYPES[format as TokenFormat], text: convertTokensToFormat(tokens, format) };
+    }
+  });
+}
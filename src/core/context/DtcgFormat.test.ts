@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+import { applyDtcgTokens } from './DtcgFormat.js';
+
+describe('applyDtcgTokens', () => {
+  it('aplica los tokens de los grupos conocidos y devuelve las rutas que ignora', () => {
+    const ignored: string[] = [];
+    const tokens = applyDtcgTokens(generateDefaultDesignTokens(), {
+      color: {
+        $type: 'color',
+        primary: { 500: { $value: '#ff0000' } },
+        brand: { main: { $value: '#00ff00' } }
+      },
+      motion: {
+        duration: { fast: { $type: 'duration', $value: '100ms' } }
+      }
+    }, ignored);
+
+    assert.equal(tokens.colors.primary['500'], '#ff0000');
+    assert.deepEqual(ignored, ['color.brand.main', 'motion.duration.fast']);
+  });
+
+  it('convierte los pesos con nombre y descarta los que no son pesos', () => {
+    const ignored: string[] = [];
+    const tokens = applyDtcgTokens(generateDefaultDesignTokens(), {
+      font: {
+        weight: {
+          $type: 'fontWeight',
+          regular: { $value: 'regular' },
+          bold: { $value: 'bold' },
+          extraBold: { $value: 'extra-bold' },
+          light: { $value: 300 },
+          medium: { $value: 'fancy' }
+        }
+      }
+    }, ignored);
+
+    assert.equal(tokens.typography.weights.regular, 400);
+    assert.equal(tokens.typography.weights.bold, 700);
+    assert.equal(tokens.typography.weights.extraBold, 800);
+    assert.equal(tokens.typography.weights.light, 300);
+    assert.equal(tokens.typography.weights.medium, 500);
+    assert.deepEqual(ignored, ['font.weight.medium']);
+  });
+});
@@ -0,0 +1,507 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { assertValid } from '../../utils/schema.js';
+import { DesignTokens, designTokensSchema } from './DesignTokenExtractor.js';
+import { formatColorReference } from './SemanticTokens.js';
+import { COLOR_SCHEME_DESCRIPTIONS, ColorSchemeName } from './ColorSchemes.js';
+
+// Tipos de token del formato del W3C Design Tokens Community Group que se usan
+export type DtcgType = 'color' | 'dimension' | 'fontFamily' | 'fontWeight' | 'number' | 'shadow';
+
+// Token DTCG: valor (o alias "{grupo.token}") y metadatos
+export interface DtcgToken {
+  $value: unknown;
+  $type?: DtcgType;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+// Grupo DTCG: tokens y subgrupos, con propiedades "$" heredables
+export type DtcgGroup = { [key: string]: unknown };
+
+// Sombra en formato DTCG
+interface DtcgShadow {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+// Espacio de nombres de las extensiones propias en los documentos DTCG
+const EXTENSION_NAMESPACE = 'brand-to-theme-mcp';
+
+// Escalas de la paleta, por orden de preferencia como destino de los aliases
+const PALETTE_GROUPS = ['neutral', 'primary', 'secondary', 'accent'] as const;
+
+// Nombres alternativos de los grupos raíz que se aceptan al importar
+const ROOT_ALIASES: Record<string, string> = {
+  colors: 'color',
+  typography: 'font',
+  breakpoints: 'breakpoint',
+  shadows: 'shadow',
+  borders: 'border'
+};
+
+// Nombres alternativos de los grupos tipográficos
+const FONT_GROUP_ALIASES: Record<string, string> = {
+  families: 'family',
+  fontFamily: 'family',
+  weights: 'weight',
+  fontWeight: 'weight',
+  sizes: 'size',
+  fontSize: 'size',
+  lineHeights: 'lineHeight',
+  'line-height': 'lineHeight'
+};
+
+// Pesos con nombre que admite el tipo fontWeight del formato DTCG
+const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  'extra-light': 200,
+  'ultra-light': 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  'semi-bold': 600,
+  'demi-bold': 600,
+  bold: 700,
+  'extra-bold': 800,
+  'ultra-bold': 800,
+  black: 900,
+  heavy: 900,
+  'extra-black': 950,
+  'ultra-black': 950
+};
+
+// Profundidad máxima de una cadena de aliases (evita ciclos)
+const MAX_ALIAS_DEPTH = 10;
+
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+
+/**
+ * Crea un token DTCG
+ */
+function token(value: unknown): DtcgToken {
+  return { $value: value };
+}
+
+/**
+ * Crea un grupo DTCG con el tipo de sus tokens
+ */
+function group(type: DtcgType, values: Record<string, unknown>): DtcgGroup {
+  const result: DtcgGroup = { $type: type };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) result[key] = token(value);
+  }
+  return result;
+}
+
+/**
+ * Separa una pila de fuentes CSS en la lista de familias de DTCG
+ */
+function splitFontStack(stack: string): string[] {
+  return stack.split(',').map(family => family.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+}
+
+/**
+ * Une la lista de familias de DTCG en una pila de fuentes CSS
+ */
+function joinFontStack(value: unknown): string {
+  return (Array.isArray(value) ? value.map(String) : [String(value)]).join(', ');
+}
+
+/**
+ * Divide una lista CSS por comas que no estén dentro de paréntesis
+ */
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Convierte una sombra CSS ("0 4px 8px rgba(0, 0, 0, 0.1)") en capas DTCG;
+ * devuelve undefined si no la reconoce
+ */
+function parseCssShadow(value: string): DtcgShadow | DtcgShadow[] | undefined {
+  const layers: DtcgShadow[] = [];
+
+  for (const layer of splitTopLevel(value)) {
+    const parts: string[] = layer.match(/\w+\([^)]*\)|\S+/g) || [];
+    const inset = parts.includes('inset');
+    const lengths = parts.filter(part => /^-?\d*\.?\d+([a-z%]+)?$/i.test(part));
+    const color = parts.find(part => part !== 'inset' && !lengths.includes(part));
+
+    if (lengths.length < 2 || lengths.length > 4 || !color) return undefined;
+
+    const [offsetX, offsetY, blur = '0px', spread = '0px'] = lengths;
+    layers.push({ color, offsetX, offsetY, blur, spread, ...(inset ? { inset } : {}) });
+  }
+
+  if (layers.length === 0) return undefined;
+  return layers.length === 1 ? layers[0] : layers;
+}
+
+/**
+ * Convierte una sombra DTCG (una capa o varias) en sombra CSS
+ */
+function formatCssShadow(value: unknown): string {
+  if (typeof value === 'string') return value;
+
+  const layers = (Array.isArray(value) ? value : [value]) as DtcgShadow[];
+  return layers
+    .map(layer => [layer.inset ? 'inset' : '', layer.offsetX, layer.offsetY, layer.blur, layer.spread, layer.color]
+      .filter(Boolean)
+      .join(' '))
+    .join(', ');
+}
+
+/**
+ * Convierte un valor de color DTCG (hexadecimal u objeto con "hex" o componentes sRGB) en hexadecimal
+ */
+function formatColor(value: unknown): string {
+  if (typeof value === 'string') return value;
+
+  const color = value as { hex?: string; colorSpace?: string; components?: number[] };
+  if (color?.hex) return color.hex;
+  if (color?.colorSpace === 'srgb' && Array.isArray(color.components)) {
+    return '#' + color.components
+      .slice(0, 3)
+      .map(channel => Math.round(Math.max(0, Math.min(1, channel)) * 255).toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  return String(value);
+}
+
+/**
+ * Convierte una dimensión DTCG ("16px" u objeto { value, unit }) en longitud CSS
+ */
+function formatDimension(value: unknown): string {
+  if (typeof value === 'object' && value !== null && 'value' in value) {
+    const dimension = value as { value: number; unit: string };
+    return `${dimension.value}${dimension.unit}`;
+  }
+  return String(value);
+}
+
+/**
+ * Convierte un fontWeight DTCG (número o nombre como "bold") en un peso
+ * numérico; undefined si no es un peso válido
+ */
+function parseFontWeight(value: unknown): number | undefined {
+  const weight = typeof value === 'string' && value.trim() in FONT_WEIGHT_NAMES
+    ? FONT_WEIGHT_NAMES[value.trim()]
+    : Number(value);
+  return Number.isFinite(weight) && weight >= 1 && weight <= 1000 ? weight : undefined;
+}
+
+/**
+ * Convierte los Design Tokens al formato del W3C Design Tokens Community
+ * Group. Los colores de marca exactos (base) y los colores de texto (on-*)
+ * se emiten como aliases de los tonos de la paleta cuando coinciden con uno.
+ */
+export function convertTokensToDtcg(tokens: DesignTokens): DtcgGroup {
+  const { colors, typography } = tokens;
+
+  // Ruta del primer tono de la paleta con cada color, para los aliases
+  const paletteIndex = new Map<string, string>();
+  for (const scale of PALETTE_GROUPS) {
+    for (const [key, hex] of Object.entries(colors[scale])) {
+      if (key === 'base') continue;
+      const normalized = hex.toLowerCase();
+      if (!paletteIndex.has(`${scale}:${normalized}`)) paletteIndex.set(`${scale}:${normalized}`, `{color.${scale}.${key}}`);
+      if (!paletteIndex.has(normalized)) paletteIndex.set(normalized, `{color.${scale}.${key}}`);
+    }
+  }
+
+  const color: DtcgGroup = { $type: 'color' };
+  for (const scale of PALETTE_GROUPS) {
+    const steps: DtcgGroup = {};
+    for (const [key, hex] of Object.entries(colors[scale])) {
+      steps[key] = token(key === 'base' ? paletteIndex.get(`${scale}:${hex.toLowerCase()}`) || hex : hex);
+    }
+    color[scale] = steps;
+  }
+
+  if (colors.on) {
+    const onColors: DtcgGroup = { $description: 'Color del texto sobre cada color de marca' };
+    for (const [key, hex] of Object.entries(colors.on)) {
+      onColors[key] = token(paletteIndex.get(hex.toLowerCase()) || hex);
+    }
+    color.on = onColors;
+  }
+
+  if (colors.semantic) {
+    const semantic: DtcgGroup = { $description: 'Colores semánticos del tema, como aliases de la paleta' };
+    for (const [key, value] of Object.entries(colors.semantic)) {
+      semantic[key] = token(formatColorReference(value, (scale, step) => `{color.${scale}.${step}}`));
+    }
+    color.semantic = semantic;
+  }
+
+  if (colors.schemes) {
+    const schemes: DtcgGroup = { $description: 'Esquemas de color: un juego de colores semánticos por esquema' };
+    for (const [name, scheme] of Object.entries(colors.schemes)) {
+      const values: DtcgGroup = {};
+      const description = COLOR_SCHEME_DESCRIPTIONS[name as ColorSchemeName];
+      if (description) values.$description = description;
+      for (const [key, value] of Object.entries(scheme)) {
+        values[key] = token(formatColorReference(value, (scale, step) => `{color.${scale}.${step}}`));
+      }
+      schemes[name] = values;
+    }
+    color.scheme = schemes;
+  }
+
+  const feedback: DtcgGroup = {};
+  for (const [key, hex] of Object.entries(colors.feedback)) {
+    feedback[key] = token(hex);
+  }
+  color.feedback = feedback;
+
+  const document: DtcgGroup = {
+    $description: `Tokens de diseño de ${tokens.metadata.brandName}`,
+    $extensions: { [EXTENSION_NAMESPACE]: { ...tokens.metadata } },
+    color,
+    font: {
+      family: group('fontFamily', {
+        heading: splitFontStack(typography.families.heading),
+        body: splitFontStack(typography.families.body),
+        accent: typography.families.accent ? splitFontStack(typography.families.accent) : undefined
+      }),
+      weight: group('fontWeight', typography.weights),
+      size: group('dimension', typography.sizes),
+      lineHeight: group('number', typography.lineHeights)
+    }
+  };
+
+  if (tokens.spacing) {
+    document.spacing = group('dimension', { ...tokens.spacing });
+  }
+
+  if (tokens.breakpoints) {
+    document.breakpoint = group('dimension', { ...tokens.breakpoints });
+  }
+
+  if (tokens.shadows) {
+    // Las sombras que no se pueden descomponer se conservan como texto CSS
+    const shadows: DtcgGroup = {};
+    for (const [key, value] of Object.entries(tokens.shadows)) {
+      const parsed = parseCssShadow(value);
+      shadows[key] = parsed ? { $type: 'shadow', $value: parsed } : token(value);
+    }
+    document.shadow = shadows;
+  }
+
+  if (tokens.borders) {
+    document.border = {
+      radius: group('dimension', { ...tokens.borders.radius }),
+      width: group('dimension', { ...tokens.borders.width })
+    };
+  }
+
+  return document;
+}
+
+/**
+ * Recorre un documento DTCG y devuelve sus tokens por ruta ("color.primary.500"),
+ * con el tipo heredado de los grupos
+ */
+function flattenDtcg(node: DtcgGroup, path: string[] = [], inheritedType?: DtcgType, tokens = new Map<string, DtcgToken>()) {
+  const type = (node.$type as DtcgType | undefined) || inheritedType;
+
+  if ('$value' in node) {
+    tokens.set(path.join('.'), { ...(node as unknown as DtcgToken), $type: type });
+    return tokens;
+  }
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key.startsWith('$') || typeof child !== 'object' || child === null) continue;
+    flattenDtcg(child as DtcgGroup, [...path, key], type, tokens);
+  }
+
+  return tokens;
+}
+
+/**
+ * Sustituye los aliases ("{color.neutral.white}") por el valor del token al que apuntan
+ */
+function resolveToken(tokens: Map<string, DtcgToken>, path: string, depth = 0): unknown {
+  const entry = tokens.get(path);
+  if (!entry) {
+    throw new McpError(ErrorCode.InvalidParams, `El alias DTCG {${path}} apunta a un token que no existe`);
+  }
+
+  const alias = typeof entry.$value === 'string' ? entry.$value.match(ALIAS_PATTERN) : null;
+  if (!alias) return entry.$value;
+
+  if (depth >= MAX_ALIAS_DEPTH) {
+    throw new McpError(ErrorCode.InvalidParams, `El alias DTCG {${path}} forma un ciclo`);
+  }
+
+  return resolveToken(tokens, alias[1], depth + 1);
+}
+
+/**
+ * Normaliza la ruta de un token a los nombres de grupo propios
+ * ("colors.primary.500" -> "color.primary.500", "typography.sizes.md" -> "font.size.md")
+ */
+function normalizePath(path: string): string[] {
+  const [root, ...rest] = path.split('.');
+  const normalizedRoot = ROOT_ALIASES[root] || root;
+
+  if (normalizedRoot === 'font' && rest.length > 0) {
+    rest[0] = FONT_GROUP_ALIASES[rest[0]] || rest[0];
+  }
+
+  return [normalizedRoot, ...rest];
+}
+
+/**
+ * Conserva como referencia a la paleta ("{primary.base}") el alias de un
+ * color semántico que apunta a un color de la paleta
+ */
+function semanticReference(value: unknown): string | undefined {
+  const alias = typeof value === 'string' ? value.match(ALIAS_PATTERN) : null;
+  if (!alias) return undefined;
+
+  const [root, group, key] = normalizePath(alias[1]);
+  const isPaletteGroup = group === 'on' || group === 'semantic' || PALETTE_GROUPS.includes(group as typeof PALETTE_GROUPS[number]);
+  return root === 'color' && isPaletteGroup && key ? `{${group}.${key}}` : undefined;
+}
+
+/**
+ * Indica si un valor parece un documento DTCG (algún token con "$value")
+ */
+export function isDtcgDocument(value: unknown): value is DtcgGroup {
+  if (typeof value !== 'object' || value === null) return false;
+  return flattenDtcg(value as DtcgGroup).size > 0;
+}
+
+/**
+ * Aplica sobre unos Design Tokens los tokens de un documento DTCG. Los
+ * grupos se reconocen por su ruta (color.primary.500, font.size.md,
+ * spacing.md...); los pesos con nombre ("bold") se convierten en números.
+ * Los tokens que no corresponden a ningún grupo propio o cuyo peso no es
+ * válido se ignoran (sus rutas se añaden a ignored y se avisan en el log) y
+ * los que faltan conservan el valor de partida.
+ */
+export function applyDtcgTokens(base: DesignTokens, document: DtcgGroup, ignored: string[] = []): DesignTokens {
+  const tokens: DesignTokens = JSON.parse(JSON.stringify(base));
+  const flattened = flattenDtcg(document);
+
+  // Vista de los tokens como grupos de valores, para asignarlos por ruta
+  type Groups = Record<string, Record<string, unknown> | undefined>;
+  const root = tokens as unknown as Groups;
+  const colors = tokens.colors as unknown as Groups;
+  const typography = tokens.typography as unknown as Groups;
+  let mapped = false;
+  const assign = (groups: Groups, name: string, key: string, value: unknown) => {
+    groups[name] = { ...groups[name], [key]: value };
+    mapped = true;
+  };
+
+  for (const path of flattened.keys()) {
+    const value = resolveToken(flattened, path);
+    const [group, first, second, third] = normalizePath(path);
+    mapped = false;
+
+    switch (group) {
+      case 'color':
+        if (third && first === 'scheme') {
+          const schemes = (colors.schemes || {}) as Groups;
+          assign(schemes, second, third, semanticReference(flattened.get(path)!.$value) || formatColor(value));
+          colors.schemes = schemes;
+        } else if (second && first === 'semantic') {
+          assign(colors, first, second, semanticReference(flattened.get(path)!.$value) || formatColor(value));
+        } else if (second && (first === 'feedback' || first === 'on' || PALETTE_GROUPS.includes(first as typeof PALETTE_GROUPS[number]))) {
+          assign(colors, first, second, formatColor(value));
+        }
+        break;
+
+      case 'font':
+        if (second && first === 'family') assign(typography, 'families', second, joinFontStack(value));
+        if (second && first === 'weight' && parseFontWeight(value) !== undefined) {
+          assign(typography, 'weights', second, parseFontWeight(value));
+        }
+        if (second && first === 'size') assign(typography, 'sizes', second, formatDimension(value));
+        if (second && first === 'lineHeight') assign(typography, 'lineHeights', second, Number(value));
+        break;
+
+      case 'spacing':
+        if (first) assign(root, 'spacing', first, formatDimension(value));
+        break;
+
+      case 'breakpoint':
+        if (first) assign(root, 'breakpoints', first, formatDimension(value));
+        break;
+
+      case 'shadow':
+        if (first) assign(root, 'shadows', first, formatCssShadow(value));
+        break;
+
+      case 'border':
+        if (second && (first === 'radius' || first === 'width')) {
+          root.borders = root.borders || { radius: {}, width: {} };
+          assign(root.borders as Groups, first, second, formatDimension(value));
+        }
+        break;
+    }
+
+    if (!mapped) ignored.push(path);
+  }
+
+  if (ignored.length > 0) {
+    logger.warn(`Tokens DTCG ignorados (no corresponden a ningún grupo de los tokens o su valor no es válido): ${ignored.join(', ')}`);
+  }
+
+  // Metadatos propios, si el documento los trae
+  const extension = (document.$extensions as Record<string, unknown> | undefined)?.[EXTENSION_NAMESPACE];
+  if (extension && typeof extension === 'object') {
+    tokens.metadata = { ...tokens.metadata, ...(extension as Partial<DesignTokens['metadata']>) };
+  }
+
+  assertValid(designTokensSchema, tokens, '$.dtcgTokens');
+  return tokens;
+}
+
+/**
+ * Lee un documento DTCG recibido como objeto o como JSON serializado
+ */
+export function parseDtcgDocument(input: unknown): DtcgGroup {
+  let document = input;
+
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, 'Los tokens DTCG (dtcgTokens) no son un JSON válido');
+    }
+  }
+
+  if (!isDtcgDocument(document)) {
+    throw new McpError(ErrorCode.InvalidParams, 'Los tokens DTCG (dtcgTokens) no contienen ningún token con $value');
+  }
+
+  return document;
+}
@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { findFontFiles, fontAssetName, generateFontFaceRules, resolveFont } from './FontResolver.js';
+
+describe('resolveFont', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'fonts-'));
+    for (const file of ['BrandSans-Regular.woff', 'BrandSans-Regular.woff2', 'BrandSans-BoldItalic.woff2', 'Otra-Bold.woff2', 'notas.txt']) {
+      fs.writeFileSync(path.join(directory, file), '');
+    }
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('usa la biblioteca de Shopify con el peso disponible más cercano', () => {
+    const font = resolveFont('heading', 'Playfair Display', { family: 'Playfair Display', weights: ['300'], italic: true });
+
+    assert.equal(font.source, 'shopify');
+    assert.equal(font.shopifyHandle, 'playfair_display_n4');
+    assert.deepEqual(font.weights, [400]);
+    assert.equal(font.italic, true);
+    assert.equal(font.stack, '"Playfair Display", Georgia, "Times New Roman", serif');
+  });
+
+  it('agrupa los archivos de la marca por peso y estilo', () => {
+    const files = findFontFiles([directory]);
+    const font = resolveFont('body', 'Brand Sans', undefined, files);
+
+    assert.equal(files.length, 4);
+    assert.equal(font.source, 'local');
+    assert.deepEqual(font.faces?.map(face => [face.weight, face.style, face.files.map(file => file.format)]), [
+      [400, 'normal', ['woff2', 'woff']],
+      [700, 'italic', ['woff2']]
+    ]);
+    assert.equal(fontAssetName(font, font.faces![1], font.faces![1].files[0]), 'brand-sans-700-italic.woff2');
+
+    const css = generateFontFaceRules({ body: font }, asset => `/assets/${asset}`);
+    assert.match(css, /font-family: "Brand Sans";/);
+    assert.ok(css.includes("src: url('/assets/brand-sans-400.woff2') format('woff2'),\n       url('/assets/brand-sans-400.woff') format('woff');"));
+    assert.match(css, /font-display: swap;/);
+  });
+
+  it('recurre a la fuente del sistema con una pila de su clasificación', () => {
+    const font = resolveFont('body', 'Corporate Slab');
+
+    assert.equal(font.source, 'system');
+    assert.equal(font.classification, 'serif');
+    assert.equal(font.stack, '"Corporate Slab", Georgia, "Times New Roman", serif');
+  });
+
+  it('rechaza las rutas de fuentes que no existen', () => {
+    assert.throws(() => findFontFiles([path.join(directory, 'falta')]), /no existe/);
+  });
+});
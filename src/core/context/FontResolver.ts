@@ -0,0 +1,458 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { JsonSchema } from '../../utils/schema.js';
+import { FontRole, parseFontName } from '../extractors/FontExtractor.js';
+import { TypographyInfo } from '../extractors/PDFExtractor.js';
+import { FontClassification, SHOPIFY_FONT_LIBRARY, SYSTEM_FONTS, SYSTEM_FONT_HANDLES } from './data/fontLibrary.js';
+import fs from 'fs';
+import path from 'path';
+
+// Origen de una fuente: biblioteca de Shopify, archivos propios o fuentes del sistema
+export type FontSource = 'shopify' | 'local' | 'system';
+
+// Formato de un archivo de fuente, tal como se declara en src: format()
+export type FontFileFormat = 'woff2' | 'woff' | 'truetype' | 'opentype';
+
+// Archivo de fuente proporcionado por la marca
+export interface FontFile {
+  path: string;
+  format: FontFileFormat;
+}
+
+// Variante (peso y estilo) de una fuente propia, con sus archivos en cada formato
+export interface FontFace {
+  weight: number;
+  style: 'normal' | 'italic';
+  files: FontFile[];
+}
+
+// Fuente resuelta de un papel tipográfico
+export interface FontToken {
+  family: string;
+  // Pila de fuentes con las de respaldo de su clasificación
+  stack: string;
+  classification: FontClassification;
+  source: FontSource;
+  // Handle de la biblioteca de Shopify para el ajuste font_picker ("inter_n4")
+  shopifyHandle?: string;
+  weights: number[];
+  italic: boolean;
+  // Variantes de las fuentes propias, que se sirven desde assets/
+  faces?: FontFace[];
+}
+
+// Valor de font-display de las reglas @font-face: el texto se muestra con la
+// fuente de respaldo mientras se descarga la de la marca
+export const FONT_DISPLAY = 'swap';
+
+// Número máximo de archivos de fuente que se precargan
+const MAX_PRELOADS = 2;
+
+// Fuentes de respaldo de cada clasificación
+const FALLBACK_STACKS: Record<FontClassification, string[]> = {
+  'sans-serif': ['"Helvetica Neue"', 'Arial', 'sans-serif'],
+  'serif': ['Georgia', '"Times New Roman"', 'serif'],
+  'monospace': ['ui-monospace', 'Menlo', 'Consolas', 'monospace'],
+  'display': ['"Arial Narrow"', 'Arial', 'sans-serif'],
+  'handwriting': ['"Brush Script MT"', 'cursive']
+};
+
+// Clasificación por el nombre de la familia, cuando no hay otra evidencia
+const CLASSIFICATION_PATTERNS: Array<[FontClassification, RegExp]> = [
+  ['monospace', /mono|code|courier|consolas|typewriter/i],
+  ['handwriting', /script|hand|brush|signature|marker/i],
+  ['serif', /(?<!sans[\s-]?)serif|slab|garamond|baskerville|bodoni|didot|caslon|times|georgia|minion|merriweather|playfair/i]
+];
+
+// Formatos de archivo de fuente por extensión, en orden de preferencia
+const FONT_FORMATS: Record<string, FontFileFormat> = {
+  '.woff2': 'woff2',
+  '.woff': 'woff',
+  '.ttf': 'truetype',
+  '.otf': 'opentype'
+};
+
+// Peso de cada papel cuando el manual no lo indica
+const ROLE_WEIGHTS: Record<FontRole, number> = {
+  heading: 700,
+  body: 400,
+  accent: 400
+};
+
+// Esquema JSON de FontToken
+export const fontTokenSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    family: { type: 'string', minLength: 1 },
+    stack: { type: 'string', minLength: 1 },
+    classification: { type: 'string', enum: ['serif', 'sans-serif', 'monospace', 'display', 'handwriting'] },
+    source: { type: 'string', enum: ['shopify', 'local', 'system'] },
+    shopifyHandle: { type: 'string' },
+    weights: { type: 'array', items: { type: 'number', minimum: 1, maximum: 1000 } },
+    italic: { type: 'boolean' },
+    faces: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          weight: { type: 'number', minimum: 1, maximum: 1000 },
+          style: { type: 'string', enum: ['normal', 'italic'] },
+          files: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                path: { type: 'string', minLength: 1 },
+                format: { type: 'string', enum: ['woff2', 'woff', 'truetype', 'opentype'] }
+              },
+              required: ['path', 'format']
+            }
+          }
+        },
+        required: ['weight', 'style', 'files']
+      }
+    }
+  },
+  required: ['family', 'stack', 'classification', 'source', 'weights', 'italic']
+};
+
+/**
+ * Normaliza un nombre de familia para compararlo ("Playfair-Display" -> "playfairdisplay")
+ */
+function normalizeFamily(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Primera familia de una pila de fuentes, sin comillas
+ */
+export function primaryFamily(stack: string): string {
+  return stack.split(',')[0].trim().replace(/^["']|["']$/g, '');
+}
+
+/**
+ * Escribe una familia para CSS: entre comillas si no es un identificador simple
+ */
+function formatFamily(family: string): string {
+  return /^[a-z][a-z0-9-]*$/i.test(family) ? family : `"${family.replace(/"/g, '')}"`;
+}
+
+/**
+ * Familia de la biblioteca de Shopify con el mismo nombre
+ */
+function libraryFont(family: string): [string, (typeof SHOPIFY_FONT_LIBRARY)[string]] | undefined {
+  const normalized = normalizeFamily(family);
+  return Object.entries(SHOPIFY_FONT_LIBRARY).find(([name]) => normalizeFamily(name) === normalized);
+}
+
+/**
+ * Clasifica una familia: por la biblioteca de Shopify, por las fuentes del
+ * sistema, por la familia genérica que indica el manual o por su nombre
+ */
+export function classifyFont(family: string, fallback?: TypographyInfo['fallback']): FontClassification {
+  const normalized = normalizeFamily(family);
+  const system = Object.entries(SYSTEM_FONTS).find(([name]) => normalizeFamily(name) === normalized)?.[1];
+
+  return libraryFont(family)?.[1][0]
+    || system
+    || fallback
+    || CLASSIFICATION_PATTERNS.find(([, pattern]) => pattern.test(family))?.[0]
+    || 'sans-serif';
+}
+
+/**
+ * Pila de fuentes de una familia con las de respaldo de su clasificación
+ */
+export function fontStack(family: string, classification: FontClassification): string {
+  const entries = [formatFamily(family), ...FALLBACK_STACKS[classification]];
+  const seen = new Set<string>();
+
+  return entries
+    .filter(entry => {
+      const key = normalizeFamily(entry);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .join(', ');
+}
+
+/**
+ * Peso disponible más cercano a uno pedido (a igual distancia, el más grueso)
+ */
+function nearestWeight(available: number[], target: number): number {
+  return [...available].sort((a, b) => Math.abs(a - target) - Math.abs(b - target) || b - a)[0] ?? target;
+}
+
+/**
+ * Handle de la biblioteca de Shopify de una familia, un peso y un estilo
+ */
+function shopifyHandle(family: string, weight: number, italic = false): string {
+  return `${family.toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${italic ? 'i' : 'n'}${Math.round(weight / 100)}`;
+}
+
+/**
+ * Busca los archivos de fuente indicados (archivos o carpetas con ellos)
+ */
+export function findFontFiles(paths: string[]): FontFile[] {
+  const files: FontFile[] = [];
+
+  for (const entry of paths) {
+    const resolved = path.resolve(entry);
+    if (!fs.existsSync(resolved)) {
+      throw new McpError(ErrorCode.InvalidParams, `El archivo de fuente no existe: ${entry}`);
+    }
+
+    const candidates = fs.statSync(resolved).isDirectory()
+      ? fs.readdirSync(resolved).sort().map(name => path.join(resolved, name))
+      : [resolved];
+
+    for (const candidate of candidates) {
+      const format = FONT_FORMATS[path.extname(candidate).toLowerCase()];
+      if (format) files.push({ path: candidate, format });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Variantes de una familia entre los archivos de fuente: los que empiezan por
+ * el nombre de la familia ("BrandSans-BoldItalic.woff2", "brand-sans-700.woff")
+ * agrupados por peso y estilo
+ */
+function facesOf(family: string, files: FontFile[]): FontFace[] {
+  const prefix = normalizeFamily(family);
+  const faces = new Map<string, FontFace>();
+  const formatOrder = Object.values(FONT_FORMATS);
+
+  for (const file of files) {
+    const name = normalizeFamily(path.basename(file.path, path.extname(file.path)));
+    if (!prefix || !name.startsWith(prefix)) continue;
+
+    const style = name.slice(prefix.length);
+    const parsed = parseFontName(`Font-${style}`);
+    const weight = Number(style.match(/[1-9]00/)?.[0]) || parsed.weight;
+    const key = `${weight}-${parsed.italic}`;
+    const face = faces.get(key) || { weight, style: parsed.italic ? 'italic' : 'normal', files: [] };
+    face.files.push(file);
+    faces.set(key, face);
+  }
+
+  return Array.from(faces.values())
+    .map(face => ({ ...face, files: face.files.sort((a, b) => formatOrder.indexOf(a.format) - formatOrder.indexOf(b.format)) }))
+    .sort((a, b) => a.weight - b.weight || a.style.localeCompare(b.style));
+}
+
+/**
+ * Resuelve la fuente de un papel: la biblioteca de Shopify si la familia está
+ * en ella, los archivos de la marca si los hay y, si no, la fuente del sistema
+ * con una pila de respaldo acorde a su clasificación
+ */
+export function resolveFont(role: FontRole, stack: string, hint?: TypographyInfo, files: FontFile[] = []): FontToken {
+  const family = primaryFamily(stack);
+  const requested = (hint?.weights || []).map(Number).filter(weight => weight > 0);
+  const target = role === 'heading' && requested.length > 0 ? Math.max(...requested) : ROLE_WEIGHTS[role];
+  const classification = classifyFont(family, hint?.fallback);
+  // Una pila completa de los tokens (más de una fuente de respaldo) se conserva
+  const resolvedStack = stack.split(',').length > 2 ? stack : fontStack(family, classification);
+
+  const library = libraryFont(family);
+  if (library) {
+    const [name, [, available, italic]] = library;
+    const weights = Array.from(new Set((requested.length > 0 ? requested : [ROLE_WEIGHTS.body, ROLE_WEIGHTS.heading])
+      .map(weight => nearestWeight(available, weight)))).sort((a, b) => a - b);
+
+    return {
+      family: name,
+      stack: resolvedStack === stack ? stack : fontStack(name, classification),
+      classification,
+      source: 'shopify',
+      shopifyHandle: shopifyHandle(name, nearestWeight(available, target)),
+      weights,
+      italic: italic && Boolean(hint?.italic)
+    };
+  }
+
+  const faces = facesOf(family, files);
+  if (faces.length > 0) {
+    return {
+      family,
+      stack: resolvedStack,
+      classification,
+      source: 'local',
+      weights: Array.from(new Set(faces.map(face => face.weight))),
+      italic: faces.some(face => face.style === 'italic'),
+      faces
+    };
+  }
+
+  return {
+    family,
+    stack: resolvedStack,
+    classification,
+    source: 'system',
+    weights: requested.length > 0 ? requested : [ROLE_WEIGHTS.body, ROLE_WEIGHTS.heading],
+    italic: Boolean(hint?.italic)
+  };
+}
+
+/**
+ * Resuelve las fuentes de titulares, texto y acento de los tokens. Las
+ * tipografías del manual aportan los pesos, la cursiva y la familia genérica.
+ */
+export function resolveFonts(
+  families: { heading: string; body: string; accent?: string },
+  hints: TypographyInfo[] = [],
+  files: FontFile[] = []
+): Partial<Record<FontRole, FontToken>> {
+  const fonts: Partial<Record<FontRole, FontToken>> = {};
+
+  for (const role of ['heading', 'body', 'accent'] as FontRole[]) {
+    const stack = families[role];
+    if (!stack) continue;
+
+    const family = normalizeFamily(primaryFamily(stack));
+    const hint = hints.find(info => info.category === role && normalizeFamily(info.family) === family)
+      || hints.find(info => normalizeFamily(info.family) === family);
+    fonts[role] = resolveFont(role, stack, hint, files);
+  }
+
+  return fonts;
+}
+
+/**
+ * Nombre en assets/ del archivo de una variante ("brand-sans-700-italic.woff2")
+ */
+export function fontAssetName(font: FontToken, face: FontFace, file: FontFile): string {
+  const slug = font.family.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'font';
+  const style = face.style === 'italic' ? '-italic' : '';
+  return `${slug}-${face.weight}${style}${path.extname(file.path).toLowerCase()}`;
+}
+
+/**
+ * Fuentes distintas de los tokens (una familia puede servir a varios papeles)
+ */
+export function uniqueFonts(fonts: Partial<Record<FontRole, FontToken>> = {}): FontToken[] {
+  const seen = new Set<string>();
+  return Object.values(fonts).filter((font): font is FontToken => {
+    if (!font || seen.has(font.family)) return false;
+    seen.add(font.family);
+    return true;
+  });
+}
+
+/**
+ * Reglas @font-face de las fuentes propias, con los archivos servidos desde
+ * assets/ (la URL de cada archivo la decide quien genera la hoja)
+ */
+export function generateFontFaceRules(fonts: Partial<Record<FontRole, FontToken>>, url: (asset: string) => string): string {
+  return uniqueFonts(fonts)
+    .filter(font => font.source === 'local')
+    .flatMap(font => (font.faces || []).map(face => {
+      const sources = face.files
+        .map(file => `url('${url(fontAssetName(font, face, file))}') format('${file.format}')`)
+        .join(',\n       ');
+      return `@font-face {
+  font-family: ${formatFamily(font.family)};
+  src: ${sources};
+  font-weight: ${face.weight};
+  font-style: ${face.style};
+  font-display: ${FONT_DISPLAY};
+}
+`;
+    }))
+    .join('\n');
+}
+
+/**
+ * Archivos de las fuentes propias que conviene precargar: la variante
+ * principal del texto y de los titulares, en el formato preferido
+ */
+export function fontPreloads(fonts: Partial<Record<FontRole, FontToken>>): Array<{ asset: string; format: FontFileFormat }> {
+  const preloads: Array<{ asset: string; format: FontFileFormat }> = [];
+
+  for (const role of ['body', 'heading'] as FontRole[]) {
+    const font = fonts[role];
+    if (font?.source !== 'local' || !font.faces?.length) continue;
+
+    const upright = font.faces.filter(face => face.style === 'normal');
+    const candidates = upright.length > 0 ? upright : font.faces;
+    const weight = nearestWeight(candidates.map(face => face.weight), role === 'heading' ? Math.max(...font.weights) : ROLE_WEIGHTS.body);
+    const face = candidates.find(candidate => candidate.weight === weight)!;
+    const asset = fontAssetName(font, face, face.files[0]);
+
+    if (!preloads.some(preload => preload.asset === asset)) preloads.push({ asset, format: face.files[0].format });
+  }
+
+  return preloads.slice(0, MAX_PRELOADS);
+}
+
+// Fuente de la biblioteca de Shopify tal como la ve Liquid (settings.type_body_font)
+export interface ShopifyFont {
+  family: string;
+  fallback_families: string;
+  weight: number;
+  style: 'normal' | 'italic';
+  handle: string;
+}
+
+/**
+ * Fuente de la biblioteca de Shopify que corresponde a un handle ("inter_n4")
+ */
+export function shopifyFontFromHandle(handle: string): ShopifyFont | undefined {
+  const match = handle.match(/^(.+)_([ni])([1-9])$/);
+  if (!match) return undefined;
+
+  const [, slug, style, weight] = match;
+  const system = Object.entries(SYSTEM_FONT_HANDLES).find(([, systemHandle]) => systemHandle === `${slug}_n4`);
+  const library = Object.entries(SHOPIFY_FONT_LIBRARY).find(([name]) => shopifyHandle(name, 400) === `${slug}_n4`);
+  if (!system && !library) return undefined;
+
+  const family = system ? system[0] : library![0];
+  const classification = system ? (system[0] as FontClassification) : library![1][0];
+  return {
+    family,
+    fallback_families: FALLBACK_STACKS[classification].filter(entry => entry !== family).join(', '),
+    weight: Number(weight) * 100,
+    style: style === 'i' ? 'italic' : 'normal',
+    handle
+  };
+}
+
+/**
+ * URL del archivo woff2 de una fuente de la biblioteca en el CDN de Shopify
+ * (como el filtro font_url de Liquid); vacía en las fuentes del sistema, que
+ * no se descargan
+ */
+export function shopifyFontUrl(font: ShopifyFont): string {
+  const slug = font.handle.replace(/_[ni][1-9]$/, '');
+  if (Object.values(SYSTEM_FONT_HANDLES).some(handle => handle === `${slug}_n4`)) return '';
+  return `https://fonts.shopifycdn.com/${slug}/${font.handle}.woff2`;
+}
+
+/**
+ * Variante de una fuente de la biblioteca con otro peso o estilo (como el
+ * filtro font_modify de Liquid); undefined si la familia no la tiene
+ */
+export function modifyShopifyFont(font: ShopifyFont, property: string, value: string): ShopifyFont | undefined {
+  const library = libraryFont(font.family)?.[1];
+  const available = library ? library[1] : [400, 700];
+  let { weight, style } = font;
+
+  if (property === 'weight') {
+    const index = available.indexOf(weight);
+    if (value === 'bold') weight = 700;
+    else if (value === 'normal') weight = 400;
+    else if (value === 'bolder') weight = available[index + 1] ?? -1;
+    else if (value === 'lighter') weight = available[index - 1] ?? -1;
+    else if (/^[+-]\d00$/.test(value)) weight = weight + Number(value);
+    else weight = Number(value);
+  } else if (property === 'style') {
+    style = value === 'italic' || value === 'oblique' ? 'italic' : 'normal';
+    if (style === 'italic' && library && !library[2]) return undefined;
+  }
+
+  if (!available.includes(weight)) return undefined;
+  const handle = font.handle.replace(/_[ni][1-9]$/, `_${style === 'italic' ? 'i' : 'n'}${weight / 100}`);
+  return { ...font, weight, style, handle };
+}
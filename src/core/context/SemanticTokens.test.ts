@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { contrastRatio, hexToRgb } from '../../utils/color.js';
+import { generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+import { generateTonalScale } from './ColorScales.js';
+import { formatColorReference, generateSemanticColors, referencedPath, resolveColorValue, resolveSemanticColors } from './SemanticTokens.js';
+
+const ratio = (first: string, second: string) => contrastRatio(hexToRgb(first), hexToRgb(second));
+
+describe('generateSemanticColors', () => {
+  it('expresa cada color semántico como referencia a la paleta', () => {
+    const colors = generateDefaultDesignTokens().colors;
+    colors.primary = generateTonalScale('#0033a0');
+    const semantic = generateSemanticColors(colors);
+
+    for (const [name, value] of Object.entries(semantic)) {
+      assert.ok(referencedPath(value), `${name}: ${value}`);
+    }
+    assert.equal(semantic['button-primary-bg'], '{primary.base}');
+  });
+
+  it('usa un tono legible de la escala para los enlaces de una marca clara', () => {
+    const colors = generateDefaultDesignTokens().colors;
+    colors.primary = generateTonalScale('#ffd400');
+    const resolved = resolveSemanticColors({ ...colors, semantic: generateSemanticColors(colors) });
+
+    assert.notEqual(resolved.link, '#ffd400');
+    assert.ok(ratio(resolved.link, resolved.background) >= 4.5);
+    assert.ok(ratio(resolved['focus-ring'], resolved.background) >= 3);
+  });
+});
+
+describe('resolveColorValue', () => {
+  it('sigue las referencias entre colores semánticos hasta la paleta', () => {
+    const colors = generateDefaultDesignTokens().colors;
+    colors.semantic = { ...colors.semantic!, 'badge-bg': '{semantic.link}' };
+
+    assert.equal(resolveColorValue(colors, '{semantic.badge-bg}'), resolveColorValue(colors, colors.semantic.link));
+    assert.equal(resolveColorValue(colors, '#123456'), '#123456');
+    assert.equal(resolveColorValue(colors, '{brand.main}'), undefined);
+  });
+});
+
+describe('formatColorReference', () => {
+  it('convierte las referencias y deja los colores literales', () => {
+    const css = (group: string, key: string) => `var(--color-${group}-${key})`;
+
+    assert.equal(formatColorReference('{neutral.900}', css), 'var(--color-neutral-900)');
+    assert.equal(formatColorReference('#ffffff', css), '#ffffff');
+  });
+});
@@ -0,0 +1,169 @@
+import { contrastRatio, hexToRgb } from '../../utils/color.js';
+import { DesignTokens } from './DesignTokenExtractor.js';
+import { SCALE_STEPS, ScaleStep, TonalScale, nearestReadableStep, stepOf } from './ColorScales.js';
+
+// Colores semánticos: el papel de cada color en el tema, independiente de la paleta
+export const SEMANTIC_COLORS = [
+  'background',
+  'surface',
+  'text',
+  'text-muted',
+  'border',
+  'link',
+  'link-hover',
+  'focus-ring',
+  'button-primary-bg',
+  'button-primary-fg',
+  'button-primary-hover',
+  'sale',
+  'badge-bg',
+  'badge-fg',
+  'inverse-bg',
+  'inverse-fg'
+] as const;
+
+export type SemanticColor = typeof SEMANTIC_COLORS[number];
+
+// Referencia a un token de la paleta ("{primary.base}", "{neutral.900}", "{on.primary}")
+export const COLOR_REFERENCE_PATTERN = '^\\{[a-z]+\\.[\\w-]+\\}$';
+
+const REFERENCE = new RegExp(COLOR_REFERENCE_PATTERN);
+
+// Grupos de colores con un valor por clave (todos salvo los esquemas, que anidan un nivel más)
+type ColorGroup = Exclude<keyof DesignTokens['colors'], 'schemes'>;
+
+const COLOR_GROUPS: readonly ColorGroup[] = ['primary', 'secondary', 'accent', 'neutral', 'on', 'semantic', 'feedback'];
+
+// Contraste mínimo del texto (WCAG 1.4.3) y de los indicadores de foco (WCAG 1.4.11)
+const TEXT_CONTRAST = 4.5;
+const NON_TEXT_CONTRAST = 3;
+
+/**
+ * Crea una referencia a un token de la paleta
+ */
+export function colorReference(group: string, key: string): string {
+  return `{${group}.${key}}`;
+}
+
+/**
+ * Ruta del token de la paleta al que apunta una referencia, o undefined si el
+ * valor es un color literal
+ */
+export function referencedPath(value: string): [string, string] | undefined {
+  if (!REFERENCE.test(value)) return undefined;
+  const [group, key] = value.slice(1, -1).split('.');
+  return [group, key];
+}
+
+/**
+ * Comprueba si un nombre es el de un grupo de colores de los tokens
+ */
+function isColorGroup(group: string): group is ColorGroup {
+  return (COLOR_GROUPS as readonly string[]).includes(group);
+}
+
+/**
+ * Colores de un grupo de los tokens por su nombre ("primary", "on"...), o
+ * undefined si el grupo no existe
+ */
+export function colorGroup(colors: DesignTokens['colors'], group: string): Record<string, string> | undefined {
+  return isColorGroup(group) ? colors[group] : undefined;
+}
+
+/**
+ * Resuelve un valor de color (hexadecimal o referencia a la paleta) a hexadecimal
+ */
+export function resolveColorValue(colors: DesignTokens['colors'], value: string): string | undefined {
+  const path = referencedPath(value);
+  if (!path) return value;
+
+  const [group, key] = path;
+  const scale = colorGroup(colors, group);
+  const target = scale?.[key] ?? (key === 'base' ? scale?.['500'] : undefined);
+
+  // Las referencias entre colores semánticos se siguen hasta la paleta
+  return target && group === 'semantic' ? resolveColorValue(colors, target) : target;
+}
+
+/**
+ * Referencia al color de marca de una escala o, si no alcanza el contraste
+ * mínimo sobre el fondo, al tono más cercano de la escala que lo alcanza
+ */
+function readableReference(colors: DesignTokens['colors'], group: 'primary' | 'secondary' | 'accent', background: string, minimum: number): string {
+  const scale: TonalScale = colors[group];
+  const brand = scale.base || scale['500'];
+  if (contrastRatio(hexToRgb(brand), hexToRgb(background)) >= minimum) {
+    return colorReference(group, scale.base ? 'base' : '500');
+  }
+
+  const step = nearestReadableStep(scale, stepOf(scale, brand), background, minimum);
+  return colorReference(group, step || (scale.base ? 'base' : '500'));
+}
+
+/**
+ * Referencia al tono hover de un color: el paso contiguo (más oscuro si lo
+ * hay) más cercano en el que el texto que va encima sigue siendo legible
+ */
+function hoverReference(scale: TonalScale, group: string, current: string, foreground: string): string {
+  const currentStep = stepOf(scale, current);
+  const index = SCALE_STEPS.indexOf(currentStep);
+  const darker: ScaleStep = SCALE_STEPS[Math.min(index + 1, SCALE_STEPS.length - 1)];
+
+  const step = nearestReadableStep(scale, darker, foreground, TEXT_CONTRAST, currentStep);
+  return step ? colorReference(group, step) : colorReference(group, currentStep);
+}
+
+/**
+ * Genera la capa semántica de colores a partir de la paleta. Cada color
+ * semántico es una referencia a un token de la paleta, de modo que cambiar la
+ * marca solo requiere cambiar la paleta; los que se usan como texto apuntan
+ * al tono de la escala que alcanza el contraste WCAG AA sobre el fondo.
+ */
+export function generateSemanticColors(colors: DesignTokens['colors']): Record<SemanticColor, string> {
+  const neutral = (key: string, fallback: string) => (colors.neutral[key] ? colorReference('neutral', key) : fallback);
+  const on = (group: string) => (colors.on?.[group] ? colorReference('on', group) : neutral('white', '#ffffff'));
+
+  const background = colors.neutral['white'] || '#ffffff';
+  const link = readableReference(colors, 'primary', background, TEXT_CONTRAST);
+  const buttonForeground = resolveColorValue(colors, on('primary'))!;
+
+  return {
+    background: neutral('white', '#ffffff'),
+    surface: neutral('50', '#f7f7f7'),
+    text: colorReference('neutral', '900'),
+    'text-muted': neutral('600', colorReference('neutral', '900')),
+    border: neutral('200', colorReference('neutral', '900')),
+    link,
+    'link-hover': hoverReference(colors.primary, 'primary', resolveColorValue(colors, link)!, background),
+    'focus-ring': readableReference(colors, 'primary', background, NON_TEXT_CONTRAST),
+    'button-primary-bg': colorReference('primary', colors.primary.base ? 'base' : '500'),
+    'button-primary-fg': on('primary'),
+    'button-primary-hover': hoverReference(colors.primary, 'primary', colors.primary.base || colors.primary['500'], buttonForeground),
+    sale: readableReference(colors, 'accent', background, TEXT_CONTRAST),
+    'badge-bg': colorReference('accent', colors.accent.base ? 'base' : '500'),
+    'badge-fg': on('accent'),
+    'inverse-bg': colorReference('secondary', colors.secondary.base ? 'base' : '500'),
+    'inverse-fg': on('secondary')
+  };
+}
+
+/**
+ * Colores semánticos de los tokens (o los generados a partir de la paleta si
+ * los tokens no los traen) resueltos a hexadecimal
+ */
+export function resolveSemanticColors(colors: DesignTokens['colors']): Record<string, string> {
+  const semantic = colors.semantic || generateSemanticColors(colors);
+  return Object.fromEntries(
+    Object.entries(semantic).map(([name, value]) => [name, resolveColorValue(colors, value) || value])
+  );
+}
+
+/**
+ * Escribe un valor de color en la sintaxis de un formato de salida: las
+ * referencias a la paleta se convierten con "format" y los colores literales
+ * se dejan tal cual
+ */
+export function formatColorReference(value: string, format: (group: string, key: string) => string): string {
+  const path = referencedPath(value);
+  return path ? format(path[0], path[1]) : value;
+}
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PERSONALITY, generateBorderTokens, generateShadowTokens, resolvePersonality } from './StyleTokens.js';
+
+describe('resolvePersonality', () => {
+  it('da prioridad a la personalidad explícita y completa la que falta', () => {
+    assert.deepEqual(resolvePersonality(), DEFAULT_PERSONALITY);
+    assert.deepEqual(resolvePersonality({ corners: 'rounded', radius: 10 }), { corners: 'rounded', elevation: 'subtle', radius: 10 });
+    // Otra forma de esquina descarta el radio del manual
+    assert.deepEqual(resolvePersonality({ corners: 'rounded', radius: 10 }, { corners: 'sharp' }), { corners: 'sharp', elevation: 'subtle' });
+  });
+});
+
+describe('generateBorderTokens', () => {
+  it('deriva los radios del radio del manual o de la forma de esquina', () => {
+    assert.deepEqual(generateBorderTokens({ corners: 'soft', elevation: 'flat', radius: 10 }).radius, { sm: '5px', md: '10px', lg: '20px', round: '9999px' });
+    assert.equal(generateBorderTokens({ corners: 'sharp', elevation: 'flat' }).radius.md, '0px');
+    assert.equal(generateBorderTokens({ corners: 'rounded', elevation: 'flat' }).radius.md, '12px');
+  });
+});
+
+describe('generateShadowTokens', () => {
+  it('genera sombras con el color indicado según la profundidad', () => {
+    assert.deepEqual(generateShadowTokens({ corners: 'soft', elevation: 'flat' }, '#000000'), { sm: 'none', md: 'none', lg: 'none' });
+    assert.equal(generateShadowTokens({ corners: 'soft', elevation: 'subtle' }, '#102030').md, '0 2px 6px rgba(16, 32, 48, 0.08)');
+    assert.equal(generateShadowTokens({ corners: 'soft', elevation: 'elevated' }, '#000000').lg.split('), ').length, 2);
+  });
+});
@@ -0,0 +1,101 @@
+import { hexToRgb } from '../../utils/color.js';
+import { BrandPersonality, CornerStyle, ElevationStyle } from '../extractors/PersonalityExtractor.js';
+import { DesignTokens } from './DesignTokenExtractor.js';
+
+// Personalidad de la marca con todos los valores decididos
+export interface ResolvedPersonality {
+  corners: CornerStyle;
+  elevation: ElevationStyle;
+  radius?: number;
+}
+
+type ShadowStep = 'sm' | 'md' | 'lg';
+
+// Personalidad que se usa cuando el manual no la indica
+export const DEFAULT_PERSONALITY: ResolvedPersonality = { corners: 'soft', elevation: 'subtle' };
+
+// Radio md de cada forma de esquina, en píxeles (sm es la mitad y lg el doble)
+const CORNER_RADIUS: Record<CornerStyle, number> = { sharp: 0, soft: 4, rounded: 12 };
+
+// Capas de cada sombra: desplazamiento vertical y desenfoque (px) y opacidad
+const SHADOW_LAYERS: Record<ElevationStyle, Record<ShadowStep, Array<[number, number, number]>>> = {
+  flat: { sm: [], md: [], lg: [] },
+  subtle: {
+    sm: [[1, 2, 0.06]],
+    md: [[2, 6, 0.08]],
+    lg: [[8, 24, 0.1]]
+  },
+  elevated: {
+    sm: [[1, 3, 0.12], [1, 2, 0.08]],
+    md: [[4, 8, 0.12], [2, 4, 0.08]],
+    lg: [[12, 32, 0.16], [4, 8, 0.08]]
+  }
+};
+
+// Puntos de ruptura: móvil, móvil grande, tableta, escritorio y ancho de página del tema
+const BREAKPOINTS: NonNullable<DesignTokens['breakpoints']> = {
+  xs: '375px',
+  sm: '576px',
+  md: '750px',
+  lg: '990px',
+  xl: '1200px'
+};
+
+/**
+ * Combina la personalidad deducida del manual con la indicada explícitamente
+ * (que prevalece) y completa lo que falte con la personalidad por defecto.
+ * Un radio del manual solo se conserva si no se indica otra forma de esquina.
+ */
+export function resolvePersonality(inferred?: BrandPersonality, explicit?: BrandPersonality): ResolvedPersonality {
+  const radius = explicit?.radius ?? (explicit?.corners ? undefined : inferred?.radius);
+
+  return {
+    corners: explicit?.corners || inferred?.corners || DEFAULT_PERSONALITY.corners,
+    elevation: explicit?.elevation || inferred?.elevation || DEFAULT_PERSONALITY.elevation,
+    ...(radius !== undefined ? { radius } : {})
+  };
+}
+
+/**
+ * Genera los radios y grosores de borde: el radio md es el del manual o el de
+ * la forma de esquina de la marca
+ */
+export function generateBorderTokens(personality: ResolvedPersonality): NonNullable<DesignTokens['borders']> {
+  const md = personality.radius ?? CORNER_RADIUS[personality.corners];
+
+  return {
+    radius: {
+      sm: `${Math.round(md / 2)}px`,
+      md: `${md}px`,
+      lg: `${md * 2}px`,
+      round: '9999px'
+    },
+    width: {
+      thin: '1px',
+      normal: '2px',
+      thick: '4px'
+    }
+  };
+}
+
+/**
+ * Genera las sombras sm, md y lg según la profundidad de la marca, con el
+ * color del neutro más oscuro de la paleta ("none" en las marcas planas)
+ */
+export function generateShadowTokens(personality: ResolvedPersonality, color: string): NonNullable<DesignTokens['shadows']> {
+  const { r, g, b } = hexToRgb(color);
+  const shadow = (step: ShadowStep) => {
+    const layers = SHADOW_LAYERS[personality.elevation][step];
+    if (layers.length === 0) return 'none';
+    return layers.map(([offset, blur, alpha]) => `0 ${offset}px ${blur}px rgba(${r}, ${g}, ${b}, ${alpha})`).join(', ');
+  };
+
+  return { sm: shadow('sm'), md: shadow('md'), lg: shadow('lg') };
+}
+
+/**
+ * Genera los puntos de ruptura
+ */
+export function generateBreakpointTokens(): NonNullable<DesignTokens['breakpoints']> {
+  return { ...BREAKPOINTS };
+}
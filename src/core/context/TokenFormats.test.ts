@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DesignTokens, generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+import { generateDarkModeCSS, generateJsModule, generateLessVariables, generateShopifySettings, generateTailwindConfig } from './TokenFormats.js';
+
+// Tokens por defecto con un color de marca exacto distinto del tono 500
+function brandTokens(): DesignTokens {
+  const tokens = generateDefaultDesignTokens();
+  tokens.colors.primary.base = '#123456';
+  tokens.metadata.brandName = 'Acme';
+  return tokens;
+}
+
+describe('generateTailwindConfig', () => {
+  it('usa el color de marca como DEFAULT, renombra los pasos y resuelve los colores semánticos', () => {
+    const tokens = brandTokens();
+    const config = generateTailwindConfig(tokens);
+    const exported = 'module.exports = ';
+    const { extend } = JSON.parse(config.slice(config.indexOf(exported) + exported.length, config.lastIndexOf(';'))).theme;
+
+    assert.match(config, /^\/\/ Design Tokens de Acme para Tailwind CSS/);
+    assert.equal(extend.colors.primary.DEFAULT, '#123456');
+    assert.equal(extend.colors.primary.base, undefined);
+    assert.equal(extend.fontSize['2xl'], tokens.typography.sizes.xxl);
+    assert.equal(extend.fontSize.xxl, undefined);
+    for (const value of Object.keys(tokens.colors.semantic!).map(key => extend.colors[key])) {
+      assert.match(value, /^#[0-9a-f]{6}$/i);
+    }
+  });
+});
+
+describe('generateLessVariables', () => {
+  it('declara las variables de cada grupo y referencia la paleta desde los colores semánticos', () => {
+    const tokens = brandTokens();
+    const less = generateLessVariables(tokens);
+
+    assert.ok(less.includes(`@color-primary-500: ${tokens.colors.primary['500']};`));
+    assert.ok(less.includes(`@spacing-md: ${tokens.spacing!.md};`));
+    assert.match(less, /^@color-[a-z-]+: @color-(primary|secondary|accent|neutral|on)-[\w]+;$/m);
+  });
+});
+
+describe('generateJsModule', () => {
+  it('exporta cada grupo con su declaración de tipos', () => {
+    const { 'tokens.js': js, 'tokens.d.ts': dts } = generateJsModule(brandTokens());
+
+    assert.match(js, /^export const colors = /m);
+    assert.match(js, /export default tokens;\n$/);
+    assert.match(dts, /^export declare const typography: \{/m);
+    assert.match(dts, /readonly base: string;/);
+  });
+});
+
+describe('generateDarkModeCSS', () => {
+  it('añade un bloque para el modo oscuro tras el CSS de partida', () => {
+    const css = generateDarkModeCSS(brandTokens(), ':root {}\n');
+
+    assert.ok(css.startsWith(':root {}\n'));
+    assert.match(css, /@media \(prefers-color-scheme: dark\) \{\n {2}:root \{\n {4}--color-primary-/);
+  });
+});
+
+describe('generateShopifySettings', () => {
+  it('devuelve el esquema sin theme_info y los datos de los ajustes', () => {
+    const settings = generateShopifySettings(brandTokens());
+    const schema = settings['config/settings_schema.json'] as Array<{ name: string }>;
+
+    assert.ok(schema.length > 0);
+    assert.ok(!schema.some(group => group.name === 'theme_info'));
+    assert.equal(typeof settings['config/settings_data.json'], 'object');
+  });
+});
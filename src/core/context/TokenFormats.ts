@@ -0,0 +1,201 @@
+import { generateSettingsData, generateSettingsSchema } from '../generators/theme/config.js';
+import { DesignTokens } from './DesignTokenExtractor.js';
+import { generateDarkColorTokens, resolveColorSchemes } from './ColorSchemes.js';
+import { formatColorReference, resolveSemanticColors } from './SemanticTokens.js';
+
+// Nombres de Tailwind para los pasos de tamaño y espaciado que no coinciden con los propios
+const TAILWIND_STEP_NAMES: Record<string, string> = { xxl: '2xl', xxxl: '3xl' };
+
+/**
+ * Declaraciones CSS de los colores
+ */
+function colorDeclarations(colors: DesignTokens['colors'], indent: string): string {
+  const groups: Array<[string, Record<string, string> | undefined]> = [
+    ['primary', colors.primary],
+    ['secondary', colors.secondary],
+    ['accent', colors.accent],
+    ['neutral', colors.neutral],
+    ['on', colors.on]
+  ];
+
+  let css = '';
+  for (const [name, scale] of groups) {
+    Object.entries(scale || {}).forEach(([key, value]) => {
+      css += `${indent}--color-${name}-${key}: ${value};\n`;
+    });
+  }
+  Object.entries(colors.feedback).forEach(([key, value]) => {
+    css += `${indent}--color-${key}: ${value};\n`;
+  });
+  Object.entries(colors.semantic || {}).forEach(([key, value]) => {
+    css += `${indent}--color-${key}: ${formatColorReference(value, (group, step) => `var(--color-${group}-${step})`)};\n`;
+  });
+
+  return css;
+}
+
+/**
+ * Genera variables CSS con un bloque @media (prefers-color-scheme: dark) que
+ * redefine los colores con la paleta oscura
+ */
+export function generateDarkModeCSS(tokens: DesignTokens, baseCss: string): string {
+  const dark = generateDarkColorTokens(tokens.colors);
+
+  let css = baseCss;
+  css += `\n@media (prefers-color-scheme: dark) {\n`;
+  css += `  :root {\n`;
+  css += colorDeclarations(dark, '    ');
+  css += `  }\n`;
+  css += `}\n`;
+  return css;
+}
+
+/**
+ * Genera variables Less a partir de design tokens
+ */
+export function generateLessVariables(tokens: DesignTokens): string {
+  let less = `// Design Tokens generados a partir de la identidad de marca\n`;
+  less += `// Marca: ${tokens.metadata.brandName}\n`;
+  less += `// Versión: ${tokens.metadata.version}\n`;
+
+  const section = (title: string, prefix: string, values: object | undefined) => {
+    if (!values) return;
+    less += `\n// ${title}\n`;
+    Object.entries(values).forEach(([key, value]) => {
+      less += `@${prefix}${key}: ${value};\n`;
+    });
+  };
+
+  section('Colores Primarios', 'color-primary-', tokens.colors.primary);
+  section('Colores Secundarios', 'color-secondary-', tokens.colors.secondary);
+  section('Colores de Acento', 'color-accent-', tokens.colors.accent);
+  section('Colores Neutrales', 'color-neutral-', tokens.colors.neutral);
+  section('Texto sobre colores de marca', 'color-on-', tokens.colors.on);
+  section('Colores de Feedback', 'color-', tokens.colors.feedback);
+  section('Colores semánticos', 'color-', tokens.colors.semantic && Object.fromEntries(
+    Object.entries(tokens.colors.semantic).map(([key, value]) => [key, formatColorReference(value, (group, step) => `@color-${group}-${step}`)])
+  ));
+  section('Tipografía', 'font-family-', tokens.typography.families);
+  section('Pesos tipográficos', 'font-weight-', tokens.typography.weights);
+  section('Tamaños de fuente', 'font-size-', tokens.typography.sizes);
+  section('Alturas de línea', 'line-height-', tokens.typography.lineHeights);
+  section('Espaciado', 'spacing-', tokens.spacing);
+  section('Puntos de ruptura', 'breakpoint-', tokens.breakpoints);
+  section('Sombras', 'shadow-', tokens.shadows);
+  section('Radios de borde', 'border-radius-', tokens.borders?.radius);
+  section('Grosores de borde', 'border-width-', tokens.borders?.width);
+
+  return less;
+}
+
+/**
+ * Renombra los pasos xxl y xxxl a la nomenclatura de Tailwind (2xl, 3xl)
+ */
+function tailwindSteps<T>(values: Record<string, T> | undefined): Record<string, T> | undefined {
+  if (!values) return undefined;
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [TAILWIND_STEP_NAMES[key] || key, value]));
+}
+
+/**
+ * Escala de color para Tailwind: el color de marca exacto es el valor DEFAULT
+ */
+function tailwindColorScale(scale: Record<string, string>): Record<string, string> {
+  const { base, ...steps } = scale;
+  return { ...steps, DEFAULT: base || scale['500'] };
+}
+
+/**
+ * Genera una configuración de Tailwind con los tokens en theme.extend
+ */
+export function generateTailwindConfig(tokens: DesignTokens): string {
+  const { colors, typography } = tokens;
+
+  const onColors = Object.fromEntries(Object.entries(colors.on || {}).map(([key, value]) => [`on-${key}`, value]));
+  const fontFamily = Object.fromEntries(Object.entries(typography.families)
+    .filter(([, stack]) => stack)
+    .map(([key, stack]) => [key, (stack as string).split(',').map(family => family.trim())]));
+
+  const extend: Record<string, unknown> = {
+    colors: {
+      primary: tailwindColorScale(colors.primary),
+      secondary: tailwindColorScale(colors.secondary),
+      accent: tailwindColorScale(colors.accent),
+      neutral: colors.neutral,
+      ...onColors,
+      ...colors.feedback,
+      // Tailwind no admite referencias: los colores semánticos van resueltos
+      ...resolveSemanticColors(colors)
+    },
+    fontFamily,
+    fontWeight: Object.fromEntries(Object.entries(typography.weights).map(([key, value]) => [key, String(value)])),
+    fontSize: tailwindSteps(typography.sizes),
+    lineHeight: Object.fromEntries(Object.entries(typography.lineHeights).map(([key, value]) => [key, String(value)])),
+    spacing: tailwindSteps(tokens.spacing as unknown as Record<string, string> | undefined),
+    screens: tokens.breakpoints,
+    boxShadow: tokens.shadows,
+    borderRadius: tokens.borders?.radius,
+    borderWidth: tokens.borders?.width
+  };
+
+  // Los grupos sin tokens no se incluyen
+  Object.keys(extend).forEach(key => extend[key] === undefined && delete extend[key]);
+
+  let config = `// Design Tokens de ${tokens.metadata.brandName} para Tailwind CSS\n`;
+  config += `/** @type {import('tailwindcss').Config} */\n`;
+  config += `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};\n`;
+  return config;
+}
+
+/**
+ * Tipo TypeScript de un valor JSON, con las propiedades de solo lectura
+ */
+function typeOfValue(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) return `readonly ${typeOfValue(value[0], indent)}[]`;
+  if (value !== null && typeof value === 'object') {
+    const inner = `${indent}  `;
+    const properties = Object.entries(value)
+      .map(([key, child]) => `${inner}readonly ${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${typeOfValue(child, inner)};`)
+      .join('\n');
+    return `{\n${properties}\n${indent}}`;
+  }
+  return typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string';
+}
+
+/**
+ * Genera un módulo ES con los tokens y su declaración de tipos (.d.ts)
+ */
+export function generateJsModule(tokens: DesignTokens): Record<string, string> {
+  // Los colores semánticos y los esquemas se exportan resueltos, listos para usar
+  const resolved: DesignTokens = {
+    ...tokens,
+    colors: { ...tokens.colors, semantic: resolveSemanticColors(tokens.colors), schemes: resolveColorSchemes(tokens.colors) }
+  };
+  const groups = Object.entries(resolved).filter(([, value]) => value !== undefined);
+
+  let js = `// Design Tokens de ${tokens.metadata.brandName}\n`;
+  let dts = `// Tipos de los Design Tokens de ${tokens.metadata.brandName}\n`;
+
+  for (const [name, value] of groups) {
+    js += `export const ${name} = ${JSON.stringify(value, null, 2)};\n\n`;
+    dts += `export declare const ${name}: ${typeOfValue(value)};\n\n`;
+  }
+
+  const names = groups.map(([name]) => name).join(', ');
+  js += `const tokens = { ${names} };\n\nexport default tokens;\n`;
+  dts += `declare const tokens: {\n${groups.map(([name]) => `  readonly ${name}: typeof ${name};`).join('\n')}\n};\n\nexport default tokens;\n`;
+
+  return { 'tokens.js': js, 'tokens.d.ts': dts };
+}
+
+/**
+ * Genera los fragmentos de config/settings_schema.json (sin el bloque
+ * theme_info) y config/settings_data.json de un tema de Shopify
+ */
+export function generateShopifySettings(tokens: DesignTokens): Record<string, unknown> {
+  const schema = JSON.parse(generateSettingsSchema(tokens, tokens.metadata.brandName)) as Array<{ name: string }>;
+
+  return {
+    'config/settings_schema.json': schema.filter(group => group.name !== 'theme_info'),
+    'config/settings_data.json': JSON.parse(generateSettingsData(tokens))
+  };
+}
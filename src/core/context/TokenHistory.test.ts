@@ -0,0 +1,71 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DesignTokens, generateDefaultDesignTokens } from './DesignTokenExtractor.js';
+import { diffDesignTokens, incrementVersion, listTokenVersions, readTokenVersion, recordTokenVersion, versionBump } from './TokenHistory.js';
+
+describe('diffDesignTokens', () => {
+  it('clasifica los cambios y decide el cambio de versión', () => {
+    const before = generateDefaultDesignTokens();
+    const changed: DesignTokens = JSON.parse(JSON.stringify(before));
+    changed.colors.primary['500'] = '#000000';
+    const added: DesignTokens = JSON.parse(JSON.stringify(changed));
+    added.typography.families.accent = 'Georgia, serif';
+    const removed: DesignTokens = JSON.parse(JSON.stringify(added));
+    delete removed.shadows;
+
+    assert.deepEqual(diffDesignTokens(before, changed).changed.map(change => change.path), ['colors.primary.500']);
+    assert.equal(versionBump(diffDesignTokens(before, changed)), 'patch');
+    assert.equal(versionBump(diffDesignTokens(changed, added)), 'minor');
+    assert.equal(versionBump(diffDesignTokens(added, removed)), 'major');
+    assert.equal(versionBump(diffDesignTokens(before, { ...before, metadata: { ...before.metadata, version: '9.9.9' } })), undefined);
+  });
+
+  it('incrementa la versión semver', () => {
+    assert.equal(incrementVersion('1.2.3', 'patch'), '1.2.4');
+    assert.equal(incrementVersion('1.2.3', 'minor'), '1.3.0');
+    assert.equal(incrementVersion('1.2.3', 'major'), '2.0.0');
+  });
+});
+
+describe('recordTokenVersion', () => {
+  let directory: string;
+  const workspace = process.env.BRAND_TO_THEME_WORKSPACE;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'token-history-'));
+    process.env.BRAND_TO_THEME_WORKSPACE = directory;
+  });
+
+  after(() => {
+    if (workspace === undefined) delete process.env.BRAND_TO_THEME_WORKSPACE;
+    else process.env.BRAND_TO_THEME_WORKSPACE = workspace;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('registra una versión por cada cambio y conserva la última si no hay cambios', async () => {
+    const tokens = generateDefaultDesignTokens();
+    const first = await recordTokenVersion('acme', tokens, {});
+    assert.equal(first.version, '1.0.0');
+    assert.equal(first.bump, 'initial');
+
+    tokens.colors.primary['500'] = '#000000';
+    const patched = await recordTokenVersion('acme', tokens, {});
+    assert.deepEqual([patched.version, patched.bump, patched.previous], ['1.0.1', 'patch', '1.0.0']);
+    assert.deepEqual(patched.summary, { added: 0, removed: 0, changed: 1 });
+
+    const unchanged = await recordTokenVersion('acme', tokens, {});
+    assert.equal(unchanged.version, '1.0.1');
+
+    delete tokens.shadows;
+    const major = await recordTokenVersion('acme', tokens, { options: { precedence: 'pdf' } });
+    assert.equal(major.version, '2.0.0');
+
+    assert.deepEqual(await listTokenVersions('acme'), ['1.0.0', '1.0.1', '2.0.0']);
+    assert.deepEqual((await readTokenVersion('acme', '2.0.0'))?.inputs, { options: { precedence: 'pdf' } });
+    const saved = JSON.parse(fs.readFileSync(path.join(directory, 'brands', 'acme', 'tokens.json'), 'utf-8'));
+    assert.equal(saved.metadata.version, '2.0.0');
+  });
+});
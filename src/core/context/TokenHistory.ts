@@ -0,0 +1,347 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+import { listBrandFiles, listBrandsWith, readBrandFile, workspaceId, writeBrandFile } from '../resources/Workspace.js';
+import { DesignTokens, designTokensSchema } from './DesignTokenExtractor.js';
+import { BrandSourceFile } from '../extractors/PDFExtractor.js';
+import { createHash } from 'crypto';
+
+// Valor de un token en la vista aplanada (las listas se comparan enteras)
+type TokenValue = string | number | boolean | null | unknown[];
+
+// Cambio de versión según el tipo de cambios: tokens eliminados, añadidos o modificados
+export type VersionBump = 'initial' | 'major' | 'minor' | 'patch';
+
+// Token añadido, eliminado o modificado, con su ruta ("colors.primary.500")
+export interface TokenChange {
+  path: string;
+  before?: TokenValue;
+  after?: TokenValue;
+}
+
+// Diferencias entre dos juegos de tokens
+export interface TokenDiff {
+  added: TokenChange[];
+  removed: TokenChange[];
+  changed: TokenChange[];
+}
+
+// Entradas con las que se generó una versión de los tokens
+export interface TokenVersionInputs {
+  // Manual del que se extrajeron los datos de marca
+  pdf?: { file: string; sha256: string };
+  // Archivos de los que se combinaron los datos de marca
+  sources?: BrandSourceFile[];
+  // Datos de Figma tal como se interpretaron
+  figma?: { sha256: string; snapshot: unknown };
+  // Tokens DTCG aplicados sobre los generados
+  dtcg?: { sha256: string };
+  fontFiles?: string[];
+  // Correcciones manuales de la marca aplicadas
+  overrides?: { sha256: string; snapshot: unknown };
+  // Opciones de la generación que cambian los tokens (personalidad, precedencia...)
+  options?: Record<string, unknown>;
+}
+
+// Versión registrada en el historial de la marca
+export interface TokenVersion {
+  version: string;
+  createdAt: string;
+  bump: VersionBump;
+  // Versión anterior con la que se compara
+  previous?: string;
+  summary: { added: number; removed: number; changed: number };
+  inputs: TokenVersionInputs;
+  tokens: DesignTokens;
+}
+
+// Directorio del historial dentro de cada marca del workspace
+const HISTORY_DIRECTORY = 'history';
+
+// Versión de los primeros tokens de una marca
+const INITIAL_VERSION = '1.0.0';
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+/**
+ * Hash SHA-256 de un contenido (los objetos se serializan como JSON)
+ */
+export function sha256(content: unknown): string {
+  const data = typeof content === 'string' || Buffer.isBuffer(content) ? content : JSON.stringify(content);
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Aplana los tokens en un mapa ruta -> valor, sin los metadatos
+ */
+export function flattenTokens(tokens: DesignTokens): Record<string, TokenValue> {
+  const flat: Record<string, TokenValue> = {};
+
+  const visit = (value: unknown, path: string) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, path ? `${path}.${key}` : key);
+      }
+    } else if (value !== undefined) {
+      flat[path] = value as TokenValue;
+    }
+  };
+
+  const { metadata: _metadata, ...values } = tokens;
+  visit(values, '');
+  return flat;
+}
+
+/**
+ * Compara dos juegos de tokens: tokens añadidos, eliminados y con otro valor
+ */
+export function diffDesignTokens(before: DesignTokens, after: DesignTokens): TokenDiff {
+  const previous = flattenTokens(before);
+  const current = flattenTokens(after);
+  const diff: TokenDiff = { added: [], removed: [], changed: [] };
+
+  for (const [path, value] of Object.entries(current)) {
+    if (!(path in previous)) {
+      diff.added.push({ path, after: value });
+    } else if (JSON.stringify(previous[path]) !== JSON.stringify(value)) {
+      diff.changed.push({ path, before: previous[path], after: value });
+    }
+  }
+
+  for (const [path, value] of Object.entries(previous)) {
+    if (!(path in current)) diff.removed.push({ path, before: value });
+  }
+
+  return diff;
+}
+
+/**
+ * Cambio de versión que corresponde a unas diferencias: eliminar tokens rompe
+ * los temas que los usan (major), añadirlos no (minor) y cambiar valores es
+ * un ajuste (patch); undefined si no hay cambios
+ */
+export function versionBump(diff: TokenDiff): Exclude<VersionBump, 'initial'> | undefined {
+  if (diff.removed.length > 0) return 'major';
+  if (diff.added.length > 0) return 'minor';
+  if (diff.changed.length > 0) return 'patch';
+  return undefined;
+}
+
+/**
+ * Incrementa una versión semver
+ */
+export function incrementVersion(version: string, bump: Exclude<VersionBump, 'initial'>): string {
+  const match = version.match(SEMVER_PATTERN);
+  const [major, minor, patch] = match ? match.slice(1).map(Number) : [1, 0, 0];
+
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+/**
+ * Compara dos versiones semver para ordenarlas
+ */
+function compareVersions(first: string, second: string): number {
+  const parse = (version: string) => (version.match(SEMVER_PATTERN)?.slice(1) || []).map(Number);
+  const [a, b] = [parse(first), parse(second)];
+  return (a[0] - b[0]) || (a[1] - b[1]) || (a[2] - b[2]);
+}
+
+/**
+ * Versiones del historial de una marca, de la más antigua a la más reciente
+ */
+export async function listTokenVersions(brand: string): Promise<string[]> {
+  return (await listBrandFiles(brand, HISTORY_DIRECTORY))
+    .map(file => file.replace(/\.json$/, ''))
+    .filter(version => SEMVER_PATTERN.test(version))
+    .sort(compareVersions);
+}
+
+/**
+ * Lee una versión del historial de una marca (undefined si no existe)
+ */
+export async function readTokenVersion(brand: string, version: string): Promise<TokenVersion | undefined> {
+  if (!SEMVER_PATTERN.test(version)) return undefined;
+  const text = await readBrandFile(brand, `${HISTORY_DIRECTORY}/${version}.json`);
+  return text === undefined ? undefined : JSON.parse(text);
+}
+
+/**
+ * Registra unos tokens en el historial de la marca como una nueva versión
+ * semver, según sus diferencias con la última. Si no hay diferencias se
+ * conserva la última versión. Los tokens guardados (tokens.json) son siempre
+ * los más recientes.
+ */
+export async function recordTokenVersion(brand: string, tokens: DesignTokens, inputs: TokenVersionInputs): Promise<TokenVersion> {
+  const versions = await listTokenVersions(brand);
+  const latest = versions.length > 0 ? await readTokenVersion(brand, versions[versions.length - 1]) : undefined;
+
+  const diff = latest ? diffDesignTokens(latest.tokens, tokens) : undefined;
+  const bump = diff ? versionBump(diff) : 'initial';
+
+  if (latest && !bump) {
+    logger.info(`Los tokens de ${brand} no cambian: se conserva la versión ${latest.version}`);
+    await writeBrandFile(brand, 'tokens.json', JSON.stringify(latest.tokens, null, 2));
+    return latest;
+  }
+
+  const version = latest && bump && bump !== 'initial' ? incrementVersion(latest.version, bump) : INITIAL_VERSION;
+  const entry: TokenVersion = {
+    version,
+    createdAt: new Date().toISOString(),
+    bump: bump || 'initial',
+    ...(latest ? { previous: latest.version } : {}),
+    summary: {
+      added: diff?.added.length || 0,
+      removed: diff?.removed.length || 0,
+      changed: diff?.changed.length || 0
+    },
+    inputs,
+    tokens: { ...tokens, metadata: { ...tokens.metadata, version } }
+  };
+
+  await writeBrandFile(brand, `${HISTORY_DIRECTORY}/${version}.json`, JSON.stringify(entry, null, 2));
+  await writeBrandFile(brand, 'tokens.json', JSON.stringify(entry.tokens, null, 2));
+  logger.info(`Tokens de ${brand}: versión ${version} (${entry.bump})`);
+
+  return entry;
+}
+
+/**
+ * Registra la herramienta MCP que compara versiones de los tokens
+ */
+export function registerTokenDiffTool(registry: ToolRegistry): void {
+  registry.register({
+    name: 'diff_design_tokens',
+    description: 'Compara dos versiones de los tokens de una marca (o dos juegos de tokens) y enumera los tokens añadidos, eliminados y modificados',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        brand: {
+          type: 'string',
+          minLength: 1,
+          description: 'Identificador de la marca en el workspace, para comparar versiones de su historial'
+        },
+        from: {
+          type: 'string',
+          pattern: SEMVER_PATTERN.source,
+          description: 'Versión de partida (por defecto, la anterior a "to")'
+        },
+        to: {
+          type: 'string',
+          pattern: SEMVER_PATTERN.source,
+          description: 'Versión de llegada (por defecto, la más reciente)'
+        },
+        before: {
+          ...designTokensSchema,
+          description: 'Tokens de partida (o la URI de un recurso de tokens), como alternativa a brand y from'
+        },
+        after: {
+          ...designTokensSchema,
+          description: 'Tokens de llegada (o la URI de un recurso de tokens), como alternativa a brand y to'
+        }
+      },
+      additionalProperties: false
+    },
+    resourceArguments: ['before', 'after'],
+    handler: async (args) => {
+      const { brand, from, to, before, after } = args as {
+        brand?: string;
+        from?: string;
+        to?: string;
+        before?: DesignTokens;
+        after?: DesignTokens;
+      };
+
+      if ((!before || !after) && !brand) {
+        throw new McpError(ErrorCode.InvalidParams, 'Se necesita la marca (brand) o los dos juegos de tokens (before y after)');
+      }
+
+      const brandId = brand ? workspaceId(brand) : undefined;
+      const versions = brandId ? await listTokenVersions(brandId) : [];
+      const readVersion = async (version: string) => {
+        const entry = await readTokenVersion(brandId!, version);
+        if (!entry) {
+          throw new McpError(ErrorCode.InvalidParams, `La marca ${brandId} no tiene la versión ${version}. Versiones disponibles: ${versions.join(', ') || 'ninguna'}`);
+        }
+        return entry.tokens;
+      };
+
+      // Sin versiones explícitas se compara la última versión con la anterior
+      const toVersion = after ? undefined : to || versions[versions.length - 1];
+      const fromVersion = before ? undefined : from || versions[versions.indexOf(toVersion || '') - 1];
+
+      if (!after && !toVersion) {
+        throw new McpError(ErrorCode.InvalidParams, `La marca ${brandId} no tiene tokens en el historial`);
+      }
+      if (!before && !fromVersion) {
+        throw new McpError(ErrorCode.InvalidParams, `La marca ${brandId} no tiene una versión anterior a ${toVersion} con la que comparar`);
+      }
+
+      const beforeTokens = before || await readVersion(fromVersion!);
+      const afterTokens = after || await readVersion(toVersion!);
+      const diff = diffDesignTokens(beforeTokens, afterTokens);
+
+      logger.info(`Comparando tokens: ${diff.added.length} añadidos, ${diff.removed.length} eliminados, ${diff.changed.length} modificados`);
+
+      return JSON.stringify({
+        ...(brandId ? { brand: brandId } : {}),
+        from: fromVersion || beforeTokens.metadata?.version,
+        to: toVersion || afterTokens.metadata?.version,
+        bump: versionBump(diff) || 'none',
+        summary: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length },
+        ...diff
+      }, null, 2);
+    }
+  });
+}
+
+/**
+ * Registra el historial de versiones de los tokens como recursos MCP
+ * (brand://<marca>/history.json y brand://<marca>/history/<versión>.json)
+ */
+export function registerTokenHistoryResources(resources: ResourceRegistry): void {
+  resources.register({
+    uriTemplate: 'brand://{brand}/history.json',
+    name: 'Historial de tokens',
+    description: 'Versiones de los tokens de la marca con el tipo de cambio, el resumen de diferencias y las entradas de cada generación',
+    mimeType: 'application/json',
+    list: async () => (await listBrandsWith(HISTORY_DIRECTORY)).map(brand => ({
+      uri: `brand://${brand}/history.json`,
+      name: `Historial de tokens de ${brand}`,
+      mimeType: 'application/json'
+    })),
+    read: async ({ brand }, uri) => {
+      const versions = await listTokenVersions(brand);
+      if (versions.length === 0) return undefined;
+
+      const entries = await Promise.all(versions.map(async version => {
+        const { tokens: _tokens, ...entry } = (await readTokenVersion(brand, version))!;
+        return entry;
+      }));
+      return { uri, mimeType: 'application/json', text: JSON.stringify(entries, null, 2) };
+    }
+  });
+
+  resources.register({
+    uriTemplate: 'brand://{brand}/history/{version}.json',
+    name: 'Versión de los tokens',
+    description: 'Una versión del historial de tokens de la marca, con sus entradas y los tokens completos',
+    mimeType: 'application/json',
+    list: async () => {
+      const brands = await listBrandsWith(HISTORY_DIRECTORY);
+      const entries = await Promise.all(brands.map(async brand => (await listTokenVersions(brand)).map(version => ({
+        uri: `brand://${brand}/history/${version}.json`,
+        name: `Tokens de ${brand} v${version}`,
+        mimeType: 'application/json'
+      }))));
+      return entries.flat();
+    },
+    read: async ({ brand, version }, uri) => {
+      const entry = await readTokenVersion(brand, version);
+      return entry ? { uri, mimeType: 'application/json', text: JSON.stringify(entry, null, 2) } : undefined;
+    }
+  });
+}
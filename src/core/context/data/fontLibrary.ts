@@ -0,0 +1,96 @@
+/**
+ * Familias de la biblioteca de fuentes de Shopify (las que se pueden elegir en
+ * un ajuste font_picker), con su clasificación, los pesos disponibles y si
+ * tienen cursiva. Los handles se forman con el nombre de la familia en
+ * minúsculas y guiones bajos más el estilo y el peso ("playfair_display_n7").
+ */
+
+// Clasificación tipográfica, que decide la pila de fuentes de respaldo
+export type FontClassification = 'serif' | 'sans-serif' | 'monospace' | 'display' | 'handwriting';
+
+// Clasificación, pesos disponibles y si la familia tiene cursiva
+export type LibraryFont = [FontClassification, number[], boolean];
+
+const ALL_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+export const SHOPIFY_FONT_LIBRARY: Record<string, LibraryFont> = {
+  'Archivo': ['sans-serif', ALL_WEIGHTS, true],
+  'Arvo': ['serif', [400, 700], true],
+  'Assistant': ['sans-serif', [200, 300, 400, 600, 700, 800], false],
+  'Avenir Next': ['sans-serif', [400, 500, 600, 700], true],
+  'Baskerville No 2': ['serif', [400, 700], true],
+  'Bitter': ['serif', ALL_WEIGHTS, true],
+  'Cabin': ['sans-serif', [400, 500, 600, 700], true],
+  'Cardo': ['serif', [400, 700], true],
+  'Chivo': ['sans-serif', ALL_WEIGHTS, true],
+  'Crimson Text': ['serif', [400, 600, 700], true],
+  'DM Sans': ['sans-serif', [400, 500, 700], true],
+  'Domine': ['serif', [400, 500, 600, 700], false],
+  'Dosis': ['sans-serif', [200, 300, 400, 500, 600, 700, 800], false],
+  'Fira Sans': ['sans-serif', ALL_WEIGHTS, true],
+  'Futura': ['sans-serif', [400, 500, 700], true],
+  'Harmonia Sans': ['sans-serif', [300, 400, 600, 700], true],
+  'Helvetica': ['sans-serif', [300, 400, 700], true],
+  'Inconsolata': ['monospace', [200, 300, 400, 500, 600, 700, 800, 900], false],
+  'Inter': ['sans-serif', ALL_WEIGHTS, false],
+  'Josefin Sans': ['sans-serif', [100, 200, 300, 400, 500, 600, 700], true],
+  'Karla': ['sans-serif', [200, 300, 400, 500, 600, 700, 800], true],
+  'Lato': ['sans-serif', [100, 300, 400, 700, 900], true],
+  'Libre Baskerville': ['serif', [400, 700], true],
+  'Libre Franklin': ['sans-serif', ALL_WEIGHTS, true],
+  'Lora': ['serif', [400, 500, 600, 700], true],
+  'Manrope': ['sans-serif', [200, 300, 400, 500, 600, 700, 800], false],
+  'Montserrat': ['sans-serif', ALL_WEIGHTS, true],
+  'Mulish': ['sans-serif', [200, 300, 400, 500, 600, 700, 800, 900], true],
+  'Neue Haas Unica': ['sans-serif', [300, 400, 500, 700], true],
+  'Noto Sans': ['sans-serif', [400, 700], true],
+  'Noto Serif': ['serif', [400, 700], true],
+  'Nunito': ['sans-serif', [200, 300, 400, 500, 600, 700, 800, 900], true],
+  'Nunito Sans': ['sans-serif', [200, 300, 400, 600, 700, 800, 900], true],
+  'Old Standard TT': ['serif', [400, 700], true],
+  'Open Sans': ['sans-serif', [300, 400, 500, 600, 700, 800], true],
+  'Oswald': ['display', [200, 300, 400, 500, 600, 700], false],
+  'Playfair Display': ['serif', [400, 500, 600, 700, 800, 900], true],
+  'Poppins': ['sans-serif', ALL_WEIGHTS, true],
+  'PT Sans': ['sans-serif', [400, 700], true],
+  'PT Serif': ['serif', [400, 700], true],
+  'Quicksand': ['sans-serif', [300, 400, 500, 600, 700], false],
+  'Raleway': ['sans-serif', ALL_WEIGHTS, true],
+  'Roboto': ['sans-serif', [100, 300, 400, 500, 700, 900], true],
+  'Roboto Condensed': ['sans-serif', [300, 400, 700], true],
+  'Roboto Mono': ['monospace', [100, 200, 300, 400, 500, 600, 700], true],
+  'Roboto Slab': ['serif', ALL_WEIGHTS, false],
+  'Rubik': ['sans-serif', [300, 400, 500, 600, 700, 800, 900], true],
+  'Source Code Pro': ['monospace', [200, 300, 400, 500, 600, 700, 800, 900], true],
+  'Space Grotesk': ['sans-serif', [300, 400, 500, 600, 700], false],
+  'Space Mono': ['monospace', [400, 700], true],
+  'Work Sans': ['sans-serif', ALL_WEIGHTS, true],
+  'Zilla Slab': ['serif', [300, 400, 500, 600, 700], true]
+};
+
+// Fuentes del sistema de la biblioteca, que Shopify no descarga
+export const SYSTEM_FONT_HANDLES: Record<'serif' | 'sans-serif' | 'monospace', string> = {
+  'serif': 'serif_n4',
+  'sans-serif': 'sans-serif_n4',
+  'monospace': 'monospace_n4'
+};
+
+// Fuentes instaladas en casi todos los sistemas, que no necesitan archivos
+export const SYSTEM_FONTS: Record<string, FontClassification> = {
+  'Arial': 'sans-serif',
+  'Helvetica Neue': 'sans-serif',
+  'Verdana': 'sans-serif',
+  'Tahoma': 'sans-serif',
+  'Trebuchet MS': 'sans-serif',
+  'Segoe UI': 'sans-serif',
+  'Georgia': 'serif',
+  'Times': 'serif',
+  'Times New Roman': 'serif',
+  'Palatino': 'serif',
+  'Garamond': 'serif',
+  'Courier': 'monospace',
+  'Courier New': 'monospace',
+  'Consolas': 'monospace',
+  'Impact': 'display',
+  'Comic Sans MS': 'handwriting'
+};
@@ -0,0 +1,218 @@
+import { Bounds, ImagePlacement, VectorPath } from './PDFContentAnalyzer.js';
+import { RGB, rgbToHex } from '../../utils/color.js';
+import { encodePng } from '../../utils/png.js';
+
+// Conjunto de trazados e imágenes que forman una pieza gráfica (p. ej. un logo)
+export interface ArtworkGroup {
+  page: number;
+  bounds: Bounds;
+  paths: VectorPath[];
+  images: ImagePlacement[];
+}
+
+// Imagen rasterizada
+export interface RenderedPng {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+// Submuestras verticales por píxel para el antialiasing
+const SUPERSAMPLING = 4;
+
+/**
+ * Redondea una coordenada para la salida SVG
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Genera un SVG con los trazados e imágenes de la pieza, con el origen en su
+ * esquina superior izquierda. Los trazados conservan las curvas originales.
+ */
+export function renderArtworkSvg(group: ArtworkGroup): string {
+  const { x, y, width, height } = group.bounds;
+  const top = y + height;
+
+  const images = group.images.map(image => {
+    const png = encodePng(image.width, image.height, image.rgba).toString('base64');
+    return `  <image x="${round(image.bounds.x - x)}" y="${round(top - (image.bounds.y + image.bounds.height))}" ` +
+      `width="${round(image.bounds.width)}" height="${round(image.bounds.height)}" preserveAspectRatio="none" ` +
+      `href="data:image/png;base64,${png}"/>`;
+  });
+
+  const paths = group.paths.map(path => {
+    const attributes = [
+      `d="${path.d}"`,
+      `fill="${path.fill ? rgbToHex(path.fill) : 'none'}"`,
+      path.evenOdd ? 'fill-rule="evenodd"' : '',
+      path.stroke ? `stroke="${rgbToHex(path.stroke)}" stroke-width="${round(path.lineWidth)}"` : ''
+    ].filter(Boolean);
+    return `    <path ${attributes.join(' ')}/>`;
+  });
+
+  // PDF tiene el eje Y hacia arriba: el grupo se invierte para pasar a coordenadas SVG
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}">`,
+    ...images,
+    `  <g transform="matrix(1 0 0 -1 ${round(-x)} ${round(top)})">`,
+    ...paths,
+    '  </g>',
+    '</svg>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Acumula la cobertura horizontal del tramo [from, to) en la fila indicada
+ */
+function addSpan(coverage: Float32Array, width: number, row: number, from: number, to: number, weight: number): void {
+  const start = Math.max(0, from);
+  const end = Math.min(width, to);
+  if (end <= start) return;
+
+  const first = Math.floor(start);
+  const last = Math.floor(end);
+  const offset = row * width;
+
+  if (first === last) {
+    coverage[offset + first] += (end - start) * weight;
+    return;
+  }
+
+  coverage[offset + first] += (first + 1 - start) * weight;
+  for (let column = first + 1; column < last; column++) {
+    coverage[offset + column] += weight;
+  }
+  if (last < width) {
+    coverage[offset + last] += (end - last) * weight;
+  }
+}
+
+/**
+ * Rellena polígonos (en píxeles) con la regla de relleno indicada y mezcla el
+ * color sobre la imagen RGBA
+ */
+function fillPolygons(rgba: Uint8Array, width: number, height: number, polygons: number[][][], color: RGB, evenOdd: boolean): void {
+  const edges: Array<{ x1: number; y1: number; x2: number; y2: number; direction: number }> = [];
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const [x1, y1] = polygon[i];
+      const [x2, y2] = polygon[(i + 1) % polygon.length];
+      if (y1 !== y2) edges.push({ x1, y1, x2, y2, direction: y2 > y1 ? 1 : -1 });
+    }
+  }
+  if (edges.length === 0) return;
+
+  const coverage = new Float32Array(width * height);
+  const minRow = Math.max(0, Math.floor(Math.min(...edges.map(edge => Math.min(edge.y1, edge.y2)))));
+  const maxRow = Math.min(height, Math.ceil(Math.max(...edges.map(edge => Math.max(edge.y1, edge.y2)))));
+
+  for (let row = minRow; row < maxRow; row++) {
+    for (let sample = 0; sample < SUPERSAMPLING; sample++) {
+      const scanY = row + (sample + 0.5) / SUPERSAMPLING;
+      const crossings = edges
+        .filter(edge => scanY >= Math.min(edge.y1, edge.y2) && scanY < Math.max(edge.y1, edge.y2))
+        .map(edge => ({ x: edge.x1 + ((scanY - edge.y1) * (edge.x2 - edge.x1)) / (edge.y2 - edge.y1), direction: edge.direction }))
+        .sort((a, b) => a.x - b.x);
+
+      let winding = 0;
+      for (let i = 0; i < crossings.length - 1; i++) {
+        winding += evenOdd ? 1 : crossings[i].direction;
+        const inside = evenOdd ? winding % 2 === 1 : winding !== 0;
+        if (inside) {
+          addSpan(coverage, width, row, crossings[i].x, crossings[i + 1].x, 1 / SUPERSAMPLING);
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < coverage.length; i++) {
+    const alpha = Math.min(1, coverage[i]);
+    if (alpha <= 0) continue;
+
+    const offset = i * 4;
+    const destinationAlpha = rgba[offset + 3] / 255;
+    const outAlpha = alpha + destinationAlpha * (1 - alpha);
+    const blend = (source: number, destination: number) =>
+      (source * alpha + destination * destinationAlpha * (1 - alpha)) / outAlpha;
+
+    rgba[offset] = Math.round(blend(color.r, rgba[offset]));
+    rgba[offset + 1] = Math.round(blend(color.g, rgba[offset + 1]));
+    rgba[offset + 2] = Math.round(blend(color.b, rgba[offset + 2]));
+    rgba[offset + 3] = Math.round(outAlpha * 255);
+  }
+}
+
+/**
+ * Convierte cada segmento de un trazo en un cuadrilátero del grosor de la línea
+ */
+function strokeToPolygons(polygons: number[][][], lineWidth: number): number[][][] {
+  const half = Math.max(lineWidth, 1) / 2;
+  const quads: number[][][] = [];
+
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length - 1; i++) {
+      const [x1, y1] = polygon[i];
+      const [x2, y2] = polygon[i + 1];
+      const length = Math.hypot(x2 - x1, y2 - y1);
+      if (length === 0) continue;
+
+      const nx = (-(y2 - y1) / length) * half;
+      const ny = ((x2 - x1) / length) * half;
+      quads.push([[x1 + nx, y1 + ny], [x2 + nx, y2 + ny], [x2 - nx, y2 - ny], [x1 - nx, y1 - ny]]);
+    }
+  }
+
+  return quads;
+}
+
+/**
+ * Rasteriza la pieza como PNG con fondo transparente. El lado mayor mide
+ * maxSize píxeles; una pieza formada por una sola imagen se exporta a su
+ * resolución original.
+ */
+export function renderArtworkPng(group: ArtworkGroup, maxSize = 512): RenderedPng {
+  if (group.paths.length === 0 && group.images.length === 1) {
+    const [image] = group.images;
+    return { width: image.width, height: image.height, data: encodePng(image.width, image.height, image.rgba) };
+  }
+
+  const { x, y, width, height } = group.bounds;
+  const scale = maxSize / Math.max(width, height, 1);
+  const pixelWidth = Math.max(1, Math.ceil(width * scale));
+  const pixelHeight = Math.max(1, Math.ceil(height * scale));
+  const rgba = new Uint8Array(pixelWidth * pixelHeight * 4);
+  const toPixels = ([px, py]: number[]) => [(px - x) * scale, (y + height - py) * scale];
+
+  // Imágenes: muestreo por vecino más cercano (se asume que no están rotadas)
+  for (const image of group.images) {
+    const [left, top] = toPixels([image.bounds.x, image.bounds.y + image.bounds.height]);
+    const drawWidth = image.bounds.width * scale;
+    const drawHeight = image.bounds.height * scale;
+
+    for (let row = Math.max(0, Math.floor(top)); row < Math.min(pixelHeight, Math.ceil(top + drawHeight)); row++) {
+      for (let column = Math.max(0, Math.floor(left)); column < Math.min(pixelWidth, Math.ceil(left + drawWidth)); column++) {
+        const sourceX = Math.min(image.width - 1, Math.floor(((column + 0.5 - left) / drawWidth) * image.width));
+        const sourceY = Math.min(image.height - 1, Math.floor(((row + 0.5 - top) / drawHeight) * image.height));
+        if (sourceX < 0 || sourceY < 0) continue;
+
+        const source = (sourceY * image.width + sourceX) * 4;
+        rgba.set(image.rgba.subarray(source, source + 4), (row * pixelWidth + column) * 4);
+      }
+    }
+  }
+
+  for (const path of group.paths) {
+    const polygons = path.polygons.map(polygon => polygon.map(toPixels));
+    if (path.fill) {
+      fillPolygons(rgba, pixelWidth, pixelHeight, polygons, path.fill, path.evenOdd);
+    }
+    if (path.stroke) {
+      fillPolygons(rgba, pixelWidth, pixelHeight, strokeToPolygons(polygons, path.lineWidth * scale), path.stroke, false);
+    }
+  }
+
+  return { width: pixelWidth, height: pixelHeight, data: encodePng(pixelWidth, pixelHeight, rgba) };
+}
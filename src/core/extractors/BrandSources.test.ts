@@ -0,0 +1,61 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { extractBrandSources } from './BrandSources.js';
+
+const PALETTE = { brand: { primary: { $value: '#0033A0' } }, neutral: ['#FFFFFF', '#222222'] };
+
+const LOGO = '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="50"><path fill="#0033a0" d="M0 0h50v50H0z"/><path fill="#ff6600" d="M50 0h50v50H50z"/></svg>';
+
+const STYLESHEET = 'body { font-family: "Inter", sans-serif; font-weight: 400; } h1 { font-family: "Inter"; font-weight: 700; color: #0033a0; }';
+
+describe('extractBrandSources', () => {
+  let directory: string;
+  const file = (name: string) => path.join(directory, name);
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'brand-sources-'));
+    fs.writeFileSync(file('paleta.json'), JSON.stringify(PALETTE));
+    fs.writeFileSync(file('logo-negativo.svg'), LOGO);
+    fs.writeFileSync(file('estilos.css'), STYLESHEET);
+    fs.writeFileSync(file('colores.txt'), '#0033a0');
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('combina las fuentes y anota de qué archivo procede cada dato', async () => {
+    const data = await extractBrandSources([file('paleta.json'), file('logo-negativo.svg'), file('estilos.css')]);
+
+    assert.deepEqual(data.sources?.map(source => [source.file, source.type]), [
+      ['paleta.json', 'json'],
+      ['logo-negativo.svg', 'svg'],
+      ['estilos.css', 'css']
+    ]);
+
+    // El mismo color de varias fuentes se combina y conserva el nombre de la primera
+    const primary = data.colors.find(color => color.hex === '#0033a0');
+    assert.equal(primary?.name, 'primary');
+    assert.equal(primary?.category, 'primary');
+    assert.deepEqual(primary?.origins?.map(origin => origin.file).slice(0, 2), ['paleta.json', 'logo-negativo.svg']);
+
+    const orange = data.colors.find(color => color.hex === '#ff6600');
+    assert.equal(orange?.name, `Color ${data.colors.indexOf(orange!) + 1}`);
+    assert.deepEqual(data.logos.map(logo => [logo.name, logo.variant]), [['logo-negativo', 'reversed']]);
+    assert.deepEqual(data.typography.map(font => font.family), ['Inter']);
+    assert.deepEqual(data.typography[0].origins, [{ file: 'estilos.css' }]);
+  });
+
+  it('acepta el tipo de una fuente cuya extensión no lo indica', async () => {
+    const data = await extractBrandSources([{ path: file('colores.txt'), type: 'css' }]);
+    assert.deepEqual(data.sources?.map(source => source.type), ['css']);
+  });
+
+  it('rechaza las fuentes de tipo desconocido o que no existen', async () => {
+    await assert.rejects(extractBrandSources([file('colores.txt')]), /No se reconoce el tipo/);
+    await assert.rejects(extractBrandSources([file('falta.json')]), /no existe/);
+  });
+});
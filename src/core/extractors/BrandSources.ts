@@ -0,0 +1,436 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { saveQuietly, workspaceId, writeBrandFile } from '../resources/Workspace.js';
+import { cmykToString, hexToRgb, isAchromatic, rgbToHex, rgbToString } from '../../utils/color.js';
+import {
+  BrandSourceFile,
+  BrandSourceType,
+  BrandingData,
+  ColorInfo,
+  ExtractOptions,
+  LogoInfo,
+  SourceOrigin,
+  TypographyInfo,
+  extractBrandingFromPDF,
+  extractOptionsSchema
+} from './PDFExtractor.js';
+import { parseColorNotations } from './ColorNotationParser.js';
+import { SwatchFileEntry, parseAco, parseAse } from './SwatchFileParser.js';
+import { extractStylesheet, extractSvgColors, svgDimensions } from './StylesheetExtractor.js';
+import { ColorCategory, inferColorCategory } from './SwatchLabeler.js';
+import { extractWebBranding } from './WebExtractor.js';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Fuente de datos de marca: la ruta de un archivo o la ruta con su tipo, si la
+// extensión no lo indica
+export type BrandSourceInput = string | { path: string; type?: BrandSourceType };
+
+// Datos extraídos de un archivo, antes de combinarlos con los del resto
+interface SourceExtraction {
+  source: BrandSourceFile;
+  data: Partial<BrandingData>;
+}
+
+// Tipo de fuente según la extensión del archivo
+const SOURCE_EXTENSIONS: Record<string, BrandSourceType> = {
+  '.pdf': 'pdf',
+  '.svg': 'svg',
+  '.ase': 'ase',
+  '.aco': 'aco',
+  '.css': 'css',
+  '.json': 'json',
+  '.html': 'html',
+  '.htm': 'html'
+};
+
+const BRAND_SOURCE_TYPES: BrandSourceType[] = ['pdf', 'svg', 'ase', 'aco', 'css', 'json', 'html'];
+
+// Nombres genéricos que el manual da a los colores sin etiqueta ("Color 3")
+const GENERIC_COLOR_NAME = /^Color \d+$/;
+
+// Grupos de una paleta JSON que no forman parte del nombre del color
+const PALETTE_GROUPS = /^(colou?rs?|colores|palette|paleta|brand|marca)$/i;
+
+// Variantes de logo según el nombre del archivo SVG
+const SVG_LOGO_KINDS: Array<[RegExp, Pick<LogoInfo, 'type' | 'variant'>]> = [
+  [/icon|isotipo|isotype|symbol|s[ií]mbolo|favicon|monogram/i, { type: 'icon', variant: 'icon' }],
+  [/negativ|revers|invers|white|blanco/i, { type: 'alternative', variant: 'reversed' }],
+  [/mono|one-?colou?r|una-?tinta/i, { type: 'alternative', variant: 'monochrome' }]
+];
+
+/**
+ * Tipo de una fuente: el indicado o el de la extensión del archivo
+ */
+function sourceTypeOf(input: BrandSourceInput): { filePath: string; type: BrandSourceType } {
+  const filePath = typeof input === 'string' ? input : input.path;
+  const type = (typeof input === 'string' ? undefined : input.type) || SOURCE_EXTENSIONS[path.extname(filePath).toLowerCase()];
+
+  if (!type) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No se reconoce el tipo de la fuente ${filePath}. Tipos disponibles: ${BRAND_SOURCE_TYPES.join(', ')} (por la extensión o con { path, type })`
+    );
+  }
+
+  return { filePath, type };
+}
+
+/**
+ * Añade el archivo de origen a cada elemento (con sus páginas, si se conocen);
+ * los que ya traen sus orígenes (las hojas de estilos de una web) los conservan
+ */
+function withOrigin<T extends { origins?: SourceOrigin[] }>(items: T[] | undefined, file: string, pagesOf: (item: T) => number[] | undefined = () => undefined): T[] {
+  return (items || []).map(item => {
+    const pages = pagesOf(item);
+    return { ...item, origins: item.origins || [{ file, ...(pages && pages.length > 0 ? { pages } : {}) }] };
+  });
+}
+
+/**
+ * Colores de un archivo de muestras (ASE o ACO). Las tintas planas se anotan
+ * como color directo y la categoría se deduce del nombre y del grupo.
+ */
+function swatchColors(entries: SwatchFileEntry[]): ColorInfo[] {
+  return entries.map(entry => {
+    const color: ColorInfo = { name: entry.name, hex: rgbToHex(entry.rgb), rgb: rgbToString(entry.rgb), source: 'swatch' };
+    const category = inferColorCategory(`${entry.group || ''} ${entry.name}`);
+
+    if (category) color.category = category;
+    if (entry.cmyk) color.cmyk = cmykToString(entry.cmyk);
+    if (entry.spot) color.spot = entry.name;
+    if (/^PANTONE\b/i.test(entry.name)) color.pantone = entry.name;
+    return color;
+  });
+}
+
+/**
+ * Logo y colores de un archivo SVG: el archivo se usa tal cual como logo (la
+ * variante se deduce del nombre) y sus rellenos y trazos, como colores de marca
+ * ordenados por el número de veces que se usan
+ */
+function extractSvgSource(filePath: string, svg: string): Partial<BrandingData> {
+  if (!/<svg[\s>]/i.test(svg)) {
+    throw new McpError(ErrorCode.InvalidParams, `El archivo no es un SVG válido: ${filePath}`);
+  }
+
+  const hexes = extractSvgColors(svg);
+  const colors: ColorInfo[] = hexes.map((hex, index) => ({ name: `Color ${index + 1}`, hex, rgb: rgbToString(hexToRgb(hex)), source: 'vector' }));
+
+  const name = path.basename(filePath, path.extname(filePath));
+  const kind = SVG_LOGO_KINDS.find(([pattern]) => pattern.test(name))?.[1] || { type: 'primary' as const, variant: 'primary' as const };
+  const logo: LogoInfo = {
+    name,
+    ...kind,
+    description: 'Logo SVG aportado como fuente',
+    ...svgDimensions(svg),
+    ...(hexes.length > 0 ? { colors: hexes } : {}),
+    files: { svg: path.resolve(filePath) }
+  };
+
+  return { colors, logos: [logo] };
+}
+
+/**
+ * Datos de una paleta JSON: datos con la estructura de extract_pdf_branding,
+ * una lista de colores (cadenas u objetos { name, hex | value | color }) o un
+ * objeto de colores, anidado o no ({ "brand": { "primary": "#0033a0" } },
+ * también con $value como en DTCG)
+ */
+function extractJsonSource(filePath: string, value: unknown): Partial<BrandingData> {
+  if (value && typeof value === 'object' && !Array.isArray(value) && (Array.isArray((value as BrandingData).colors) || Array.isArray((value as BrandingData).typography))) {
+    const { source: _source, sources: _sources, ...structured } = value as Partial<BrandingData>;
+    const colors = (structured.colors || [])
+      .filter(color => color && typeof color.hex === 'string' && parseColorNotations(color.hex).length > 0)
+      .map(color => ({ ...color, name: color.name || color.hex, hex: rgbToHex(hexToRgb(color.hex)) }));
+    const typography = (structured.typography || []).filter(font => font && typeof font.family === 'string' && font.family.trim());
+    return { ...structured, colors, typography, logos: structured.logos || [] };
+  }
+
+  const colors: ColorInfo[] = [];
+  const addColor = (name: string | undefined, notation: unknown, groupPath: string[], category?: unknown) => {
+    if (typeof notation !== 'string') return;
+    const declared = parseColorNotations(notation).find(color => color.format !== 'cmyk');
+    if (!declared) return;
+
+    const groupName = groupPath.filter(segment => !PALETTE_GROUPS.test(segment)).join(' / ').replace(/ \/ (\d+)$/, ' $1');
+    const label = name || (groupName && !/^\d+$/.test(groupName) ? groupName : `Color ${colors.length + 1}`);
+    const color: ColorInfo = { name: label, hex: rgbToHex(declared.rgb), rgb: rgbToString(declared.rgb), source: 'swatch', notations: [notation] };
+    const inferred = typeof category === 'string' && ['primary', 'secondary', 'accent', 'neutral'].includes(category)
+      ? category as ColorCategory
+      : inferColorCategory([...groupPath, label].join(' '));
+    if (inferred) color.category = inferred;
+    if (declared.pantone) color.pantone = declared.pantone;
+    colors.push(color);
+  };
+
+  const visit = (node: unknown, groupPath: string[]) => {
+    if (typeof node === 'string') {
+      addColor(undefined, node, groupPath);
+    } else if (Array.isArray(node)) {
+      // Los colores de una lista se numeran dentro de su grupo ("neutral 2")
+      node.forEach((item, index) => visit(item, node.length > 1 && typeof item === 'string' ? [...groupPath, String(index + 1)] : groupPath));
+    } else if (node && typeof node === 'object') {
+      const record = node as Record<string, unknown>;
+      const leaf = record.$value ?? record.hex ?? record.value ?? record.color;
+      if (typeof leaf === 'string') {
+        addColor(typeof record.name === 'string' ? record.name : undefined, leaf, groupPath, record.category);
+        return;
+      }
+      for (const [key, child] of Object.entries(record)) {
+        if (!key.startsWith('$')) visit(child, [...groupPath, key]);
+      }
+    }
+  };
+  visit(value, []);
+
+  if (colors.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, `El archivo JSON no contiene colores ni tipografías reconocibles: ${filePath}`);
+  }
+
+  return { colors, typography: [], logos: [] };
+}
+
+/**
+ * Extrae los datos de un archivo según su tipo
+ */
+async function extractSource(input: BrandSourceInput, options: ExtractOptions, logoSourceCount: number): Promise<SourceExtraction> {
+  const { filePath, type } = sourceTypeOf(input);
+  if (!fs.existsSync(filePath)) {
+    throw new McpError(ErrorCode.InvalidParams, `El archivo de la fuente no existe: ${filePath}`);
+  }
+  if (fs.statSync(filePath).isDirectory()) {
+    throw new McpError(ErrorCode.InvalidParams, `La fuente es un directorio; indica el archivo: ${filePath}`);
+  }
+
+  const buffer = fs.readFileSync(filePath);
+  const file = path.basename(filePath);
+  const source: BrandSourceFile = { file, type, sha256: createHash('sha256').update(buffer).digest('hex') };
+  const invalid = (error: unknown) =>
+    new McpError(ErrorCode.InvalidParams, `No se pudo leer ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+
+  // Con varios PDF o HTML, los logos de cada uno se exportan en su propio subdirectorio
+  const logoOutputDir = options.logoOutputDir && logoSourceCount > 1
+    ? path.join(options.logoOutputDir, workspaceId(path.basename(filePath, path.extname(filePath)), type))
+    : options.logoOutputDir;
+
+  let data: Partial<BrandingData>;
+  switch (type) {
+    case 'pdf': {
+      const { source: _source, ...extracted } = await extractBrandingFromPDF(filePath, { ...options, logoOutputDir });
+      data = extracted;
+      break;
+    }
+    case 'svg':
+      data = extractSvgSource(filePath, buffer.toString('utf-8'));
+      break;
+    case 'ase':
+    case 'aco':
+      try {
+        data = { colors: swatchColors(type === 'ase' ? parseAse(buffer) : parseAco(buffer)) };
+      } catch (error) {
+        throw invalid(error);
+      }
+      break;
+    case 'css':
+      data = extractStylesheet(buffer.toString('utf-8'));
+      break;
+    case 'json': {
+      let value: unknown;
+      try {
+        value = JSON.parse(buffer.toString('utf-8'));
+      } catch (error) {
+        throw invalid(error);
+      }
+      data = extractJsonSource(filePath, value);
+      break;
+    }
+    case 'html': {
+      const { sources: _sources, ...extracted } = await extractWebBranding(filePath, { ...options, logoOutputDir });
+      data = extracted;
+      break;
+    }
+  }
+
+  data.colors = withOrigin(data.colors, file, color => color.pages);
+  data.typography = withOrigin(data.typography, file);
+  data.logos = withOrigin(data.logos, file, logo => (logo.page ? [logo.page] : undefined));
+
+  logger.info(`${file} (${type}): ${data.colors.length} colores, ${data.typography.length} tipografías, ${data.logos.length} logos`);
+  return { source, data };
+}
+
+/**
+ * Une dos listas sin repetir valores
+ */
+function union<T>(first?: T[], second?: T[]): T[] | undefined {
+  return first || second ? Array.from(new Set([...(first || []), ...(second || [])])) : undefined;
+}
+
+/**
+ * Combina un color con el mismo de una fuente posterior: se conservan los
+ * campos de la primera, se completan los que falten y se suman los orígenes
+ */
+function mergeColor(target: ColorInfo, color: ColorInfo): void {
+  const name = GENERIC_COLOR_NAME.test(target.name) && !GENERIC_COLOR_NAME.test(color.name) ? color.name : target.name;
+  Object.assign(target, { ...color, ...target, name });
+  target.origins = [...(target.origins || []), ...(color.origins || [])];
+  const notations = union(target.notations, color.notations);
+  if (notations) target.notations = notations;
+}
+
+/**
+ * Combina una tipografía con la misma familia de una fuente posterior: se
+ * unen los pesos, los cuerpos y los orígenes
+ */
+function mergeTypography(target: TypographyInfo, font: TypographyInfo): void {
+  Object.assign(target, { ...font, ...target });
+  target.origins = [...(target.origins || []), ...(font.origins || [])];
+
+  const weights = union(target.weights, font.weights)?.sort((a, b) => Number(a) - Number(b));
+  const sizes = union(target.sizes, font.sizes)?.sort((a, b) => b - a);
+  const postScriptNames = union(target.postScriptNames, font.postScriptNames);
+  if (weights) target.weights = weights;
+  if (sizes) target.sizes = sizes;
+  if (postScriptNames) target.postScriptNames = postScriptNames;
+}
+
+/**
+ * Asigna categoría a los colores que no la tienen, como en el manual: los
+ * acromáticos son neutros y los cromáticos ocupan, por orden, los papeles de
+ * primario y secundario que sigan libres y el resto son acentos
+ */
+function assignMissingCategories(colors: ColorInfo[]): void {
+  const free = (['primary', 'secondary'] as const).filter(role => !colors.some(color => color.category === role));
+  let index = 0;
+
+  for (const color of colors) {
+    if (color.category) continue;
+    color.category = isAchromatic(hexToRgb(color.hex)) ? 'neutral' : free[index++] || 'accent';
+  }
+}
+
+/**
+ * Combina los datos de varias fuentes en unos solos datos de marca. Las
+ * fuentes se recorren en el orden indicado y la primera prevalece: los colores
+ * se identifican por HEX o referencia Pantone, las tipografías por familia y
+ * el resto (espaciado, personalidad, nombre) se toma de la primera fuente que
+ * lo tiene. Cada color, tipografía y logo conserva en origins los archivos (y
+ * páginas) de los que procede.
+ */
+function mergeBrandSources(extractions: SourceExtraction[]): BrandingData {
+  const data: BrandingData = { colors: [], typography: [], logos: [], sources: extractions.map(extraction => extraction.source) };
+
+  for (const { data: part } of extractions) {
+    for (const color of part.colors || []) {
+      const match = data.colors.find(candidate =>
+        candidate.hex.toLowerCase() === color.hex.toLowerCase() || (candidate.pantone && candidate.pantone === color.pantone)
+      );
+      if (match) mergeColor(match, color);
+      else data.colors.push({ ...color });
+    }
+
+    for (const font of part.typography || []) {
+      const match = data.typography.find(candidate => candidate.family.toLowerCase() === font.family.toLowerCase());
+      if (match) mergeTypography(match, font);
+      else data.typography.push({ ...font });
+    }
+
+    // Solo el primer logo principal es "primary"; el resto son secundarios
+    for (const logo of part.logos || []) {
+      const type = logo.type === 'primary' && data.logos.some(entry => entry.type === 'primary') ? 'secondary' : logo.type;
+      data.logos.push({ ...logo, type });
+    }
+
+    for (const key of ['spacing', 'personality', 'brandName', 'brandTagline'] as const) {
+      if (data[key] === undefined && part[key] !== undefined) Object.assign(data, { [key]: part[key] });
+    }
+  }
+
+  assignMissingCategories(data.colors);
+
+  // Los nombres genéricos se numeran de nuevo según su posición en la paleta combinada
+  data.colors.forEach((color, index) => {
+    if (GENERIC_COLOR_NAME.test(color.name)) color.name = `Color ${index + 1}`;
+  });
+
+  return data;
+}
+
+/**
+ * Extrae y combina los datos de marca de varias fuentes de distintos tipos
+ * (PDF, SVG, ASE, ACO, CSS, JSON y HTML)
+ */
+export async function extractBrandSources(inputs: BrandSourceInput[], options: ExtractOptions = {}): Promise<BrandingData> {
+  const logoSourceCount = inputs.filter(input => ['pdf', 'html'].includes(sourceTypeOf(input).type)).length;
+  const extractions: SourceExtraction[] = [];
+
+  for (const input of inputs) {
+    extractions.push(await extractSource(input, options, logoSourceCount));
+  }
+
+  return mergeBrandSources(extractions);
+}
+
+/**
+ * Registra la herramienta MCP para extraer la marca de varias fuentes
+ */
+export function registerBrandSourcesTool(registry: ToolRegistry): void {
+  registry.register({
+    name: 'extract_brand_sources',
+    description: 'Extrae la identidad de marca de varios archivos de distintos tipos (manuales PDF, logos SVG, muestras ASE/ACO, hojas de estilos CSS, paletas JSON y páginas HTML) y los combina en unos solos datos de marca, con el archivo y la página de los que procede cada color, tipografía y logo',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sources: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: ['string', 'object'],
+            minLength: 1,
+            properties: {
+              path: { type: 'string', minLength: 1 },
+              type: { type: 'string', enum: BRAND_SOURCE_TYPES }
+            },
+            required: ['path'],
+            additionalProperties: false
+          },
+          description: 'Rutas a los archivos de la marca, en orden de prioridad (el primero prevalece). El tipo se deduce de la extensión (.pdf, .svg, .ase, .aco, .css, .json, .html) o se indica con { path, type }'
+        },
+        extractOptions: {
+          ...extractOptionsSchema,
+          description: 'Opciones de extracción de los PDF y las páginas HTML (con varios, los logos de cada uno se exportan en un subdirectorio de logoOutputDir)'
+        },
+        brand: {
+          type: 'string',
+          minLength: 1,
+          description: 'Identificador de la marca en el workspace (por defecto, el nombre de la marca o, si no se detecta, el de la primera fuente)'
+        }
+      },
+      required: ['sources'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const { sources, extractOptions, brand } = args as {
+        sources: BrandSourceInput[];
+        extractOptions?: ExtractOptions;
+        brand?: string;
+      };
+
+      logger.info(`Extrayendo información de branding de ${sources.length} fuentes`);
+      const brandingData = await extractBrandSources(sources, extractOptions);
+
+      // Las imágenes de los logos se devuelven como rutas de archivo, no en línea
+      const text = JSON.stringify(brandingData, (key, value) => (key === 'imageData' ? undefined : value), 2);
+
+      // Los datos se guardan en el workspace como recurso brand://<marca>/branding.json
+      const first = sourceTypeOf(sources[0]).filePath;
+      const brandId = workspaceId(brand || brandingData.brandName || path.basename(first, path.extname(first)));
+      const saved = await saveQuietly('los datos de marca', () => writeBrandFile(brandId, 'branding.json', text));
+
+      return { text, resources: saved ? [`brand://${brandId}/branding.json`] : [] };
+    }
+  });
+}
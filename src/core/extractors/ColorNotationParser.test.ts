@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { groupDeclaredColors, parseColorNotations } from './ColorNotationParser.js';
+
+const swatches = (text: string) => groupDeclaredColors(parseColorNotations(text), text)
+  .map(swatch => swatch.declarations.map(declared => declared.notation));
+
+describe('groupDeclaredColors', () => {
+  it('combina las notaciones de una misma muestra', () => {
+    assert.deepEqual(swatches('Azul Corporativo\nHEX #003366 · RGB 0 51 102\nC:100 M:80 Y:30 K:20'), [
+      ['HEX #003366', 'RGB 0 51 102', 'C:100 M:80 Y:30 K:20']
+    ]);
+  });
+
+  it('no combina una muestra con el CMYK de la muestra vecina', () => {
+    assert.deepEqual(swatches('HEX #003366\nC:0 M:0 Y:0 K:100'), [['HEX #003366'], ['C:0 M:0 Y:0 K:100']]);
+  });
+
+  it('empareja las notaciones de muestras en columnas', () => {
+    const text = [
+      'Azul Corporativo        Negro',
+      'HEX #003366             HEX #231F20',
+      'C:100 M:80 Y:30 K:20    C:0 M:0 Y:0 K:100'
+    ].join('\n');
+
+    const [navy, black] = groupDeclaredColors(parseColorNotations(text), text);
+    assert.deepEqual(navy.cmyk, { c: 1, m: 0.8, y: 0.3, k: 0.2 });
+    assert.deepEqual(black.cmyk, { c: 0, m: 0, y: 0, k: 1 });
+  });
+
+  it('no combina notaciones separadas por más de una línea', () => {
+    assert.deepEqual(swatches('HEX #003366\n\nTexto\nRGB 0 51 102'), [['HEX #003366'], ['RGB 0 51 102']]);
+  });
+});
@@ -0,0 +1,206 @@
+import { logger } from '../../utils/logger.js';
+import { CMYK, RGB, cmykToRgb, deltaE, hexToRgb, hslToRgb, labToRgb } from '../../utils/color.js';
+import { PantoneFinish, lookupPantone, normalizePantoneName } from './data/pantone.js';
+
+// Notaciones de color que se reconocen en el texto de un manual
+export type ColorNotationFormat = 'hex' | 'rgb' | 'hsl' | 'lab' | 'pantone' | 'cmyk';
+
+// Color declarado en el texto, con su conversión a sRGB y la notación original
+export interface DeclaredColor {
+  format: ColorNotationFormat;
+  notation: string;
+  rgb: RGB;
+  index: number;
+  length: number;
+  cmyk?: CMYK;
+  pantone?: string;
+}
+
+// Muestra de color: notaciones consecutivas que describen el mismo color
+export interface DeclaredSwatch {
+  rgb: RGB;
+  index: number;
+  declarations: DeclaredColor[];
+  cmyk?: CMYK;
+  pantone?: string;
+}
+
+// Preferencia de notación para el valor de pantalla (de mayor a menor)
+const FORMAT_PRIORITY: ColorNotationFormat[] = ['hex', 'rgb', 'hsl', 'lab', 'pantone', 'cmyk'];
+
+// Distancia CIE76 máxima entre notaciones de una misma muestra: con más margen,
+// muestras vecinas (un azul marino y el negro) se confunden
+const SWATCH_MAX_DISTANCE = 10;
+
+// Separación máxima en caracteres y en líneas entre notaciones de una misma muestra
+const SWATCH_MAX_GAP = 160;
+const SWATCH_MAX_LINES = 1;
+
+const NUMBER = '(\\d{1,3}(?:[.,]\\d+)?)';
+const SIGNED_NUMBER = '(-?\\d{1,3}(?:[.,]\\d+)?)';
+const SEPARATOR = '\\s*[,/;]?\\s*';
+
+const PANTONE_NAMES =
+  '(?:Cool|Warm)\\s+Gr[ae]y\\s+\\d{1,2}|Process\\s+Blue|Reflex\\s+Blue|Warm\\s+Red|Rubine\\s+Red|' +
+  'Rhodamine\\s+Red|Red\\s+032|Orange\\s+021|Yellow|Purple|Violet|Green|Black|\\d{3,4}';
+
+const PATTERNS: Record<ColorNotationFormat, RegExp[]> = {
+  hex: [
+    /#([0-9A-Fa-f]{6}|[0-9A-Fa-f]{3})\b/g,
+    /\bHEX\s*:?\s*#?([0-9A-Fa-f]{6})\b/gi
+  ],
+  rgb: [
+    new RegExp(`\\bRGB\\s*:?\\s*\\(?\\s*${NUMBER}${SEPARATOR}${NUMBER}${SEPARATOR}${NUMBER}\\s*\\)?`, 'gi'),
+    new RegExp(`\\bR\\s*:?\\s*${NUMBER}${SEPARATOR}G\\s*:?\\s*${NUMBER}${SEPARATOR}B\\s*:?\\s*${NUMBER}\\b`, 'g')
+  ],
+  hsl: [
+    new RegExp(`\\bHSLA?\\s*:?\\s*\\(?\\s*${NUMBER}(?:°|deg)?${SEPARATOR}${NUMBER}%?${SEPARATOR}${NUMBER}%?\\s*\\)?`, 'gi')
+  ],
+  lab: [
+    new RegExp(`\\b(?:CIE\\s*)?L\\s*\\*?\\s*a\\s*\\*?\\s*b\\s*\\*?\\s*:?\\s*\\(?\\s*${SIGNED_NUMBER}${SEPARATOR}${SIGNED_NUMBER}${SEPARATOR}${SIGNED_NUMBER}\\s*\\)?`, 'gi'),
+    new RegExp(`\\bL\\s*\\*?\\s*:?\\s*${NUMBER}${SEPARATOR}a\\s*\\*?\\s*:?\\s*${SIGNED_NUMBER}${SEPARATOR}b\\s*\\*?\\s*:?\\s*${SIGNED_NUMBER}`, 'g')
+  ],
+  pantone: [
+    new RegExp(`\\b(?:PANTONE|PMS)\\s*(?:®|\\(R\\))?\\s*(${PANTONE_NAMES})(?:\\s*(C|U|Coated|Uncoated)\\b)?`, 'gi')
+  ],
+  cmyk: [
+    new RegExp(`\\bCMYK\\s*:?\\s*\\(?\\s*${NUMBER}%?${SEPARATOR}${NUMBER}%?${SEPARATOR}${NUMBER}%?${SEPARATOR}${NUMBER}%?\\s*\\)?`, 'gi'),
+    new RegExp(`\\bC\\s*:?\\s*${NUMBER}%?${SEPARATOR}M\\s*:?\\s*${NUMBER}%?${SEPARATOR}Y\\s*:?\\s*${NUMBER}%?${SEPARATOR}K\\s*:?\\s*${NUMBER}%?`, 'gi')
+  ]
+};
+
+/**
+ * Convierte un número del texto (admite coma decimal)
+ */
+function toNumber(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Interpreta los componentes CMYK: porcentajes (0-100) o fracciones (0-1)
+ */
+function toCmyk(values: number[]): CMYK | undefined {
+  if (values.some(value => value < 0 || value > 100)) return undefined;
+
+  const fractional = values.every(value => value <= 1) && values.some(value => value > 0 && value < 1);
+  const [c, m, y, k] = values.map(value => (fractional ? value : value / 100));
+  return { c, m, y, k };
+}
+
+/**
+ * Convierte una coincidencia de una notación a un color declarado
+ */
+function toDeclaredColor(format: ColorNotationFormat, match: RegExpMatchArray): DeclaredColor | undefined {
+  const base = { format, notation: match[0].trim(), index: match.index ?? 0, length: match[0].length };
+  const values = match.slice(1).filter(value => value !== undefined);
+
+  switch (format) {
+    case 'hex':
+      return { ...base, rgb: hexToRgb(values[0]) };
+
+    case 'rgb': {
+      const [r, g, b] = values.map(toNumber);
+      if ([r, g, b].some(channel => channel > 255)) return undefined;
+      return { ...base, rgb: { r: Math.round(r), g: Math.round(g), b: Math.round(b) } };
+    }
+
+    case 'hsl': {
+      const [h, s, l] = values.map(toNumber);
+      if (h > 360 || s > 100 || l > 100) return undefined;
+      return { ...base, rgb: hslToRgb({ h, s: s / 100, l: l / 100 }) };
+    }
+
+    case 'lab': {
+      const [l, a, b] = values.map(toNumber);
+      if (l > 100 || Math.abs(a) > 128 || Math.abs(b) > 128) return undefined;
+      return { ...base, rgb: labToRgb({ l, a, b }) };
+    }
+
+    case 'pantone': {
+      const finish: PantoneFinish = /^u/i.test(match[2] || '') ? 'U' : 'C';
+      const swatch = normalizePantoneName(match[1]);
+      const hex = lookupPantone(swatch, finish);
+      if (!hex) {
+        logger.debug(`Referencia Pantone sin valor en la tabla: ${base.notation}`);
+        return undefined;
+      }
+      return { ...base, rgb: hexToRgb(hex), pantone: `PANTONE ${swatch} ${finish}` };
+    }
+
+    case 'cmyk': {
+      const cmyk = toCmyk(values.map(toNumber));
+      if (!cmyk) return undefined;
+      return { ...base, rgb: cmykToRgb(cmyk), cmyk };
+    }
+  }
+}
+
+/**
+ * Busca en el texto todas las notaciones de color reconocidas (HEX, RGB, HSL,
+ * Lab, Pantone y CMYK) y las devuelve en orden de aparición
+ */
+export function parseColorNotations(text: string): DeclaredColor[] {
+  const found: DeclaredColor[] = [];
+
+  for (const format of FORMAT_PRIORITY) {
+    for (const pattern of PATTERNS[format]) {
+      for (const match of text.matchAll(pattern)) {
+        const declared = toDeclaredColor(format, match);
+        if (declared) found.push(declared);
+      }
+    }
+  }
+
+  // Descartar coincidencias solapadas (p. ej. la misma notación con dos patrones)
+  const sorted = found.sort((a, b) => a.index - b.index || b.length - a.length);
+  return sorted.filter((declared, position) =>
+    !sorted.slice(0, position).some(previous => declared.index < previous.index + previous.length)
+  );
+}
+
+/**
+ * Agrupa en muestras las notaciones cercanas que describen el mismo color
+ * (p. ej. "PANTONE 286 C · #0033A0 · RGB 0 51 160"). Solo se agrupan notaciones
+ * de la misma línea o de líneas contiguas y, si varias muestras encajan (muestras
+ * en columnas), la de color más parecido. El valor de pantalla de la muestra es
+ * el de la notación preferida: HEX, RGB, HSL, Lab, Pantone y CMYK
+ */
+export function groupDeclaredColors(declarations: DeclaredColor[], text: string): DeclaredSwatch[] {
+  const groups: Array<{ members: DeclaredColor[]; line: number; end: number }> = [];
+  let line = 0;
+  let scanned = 0;
+
+  for (const declared of declarations) {
+    for (; scanned < declared.index; scanned++) {
+      if (text[scanned] === '\n') line++;
+    }
+
+    const distance = (members: DeclaredColor[]) => Math.min(...members.map(member => deltaE(member.rgb, declared.rgb)));
+    const group = groups
+      .filter(candidate =>
+        line - candidate.line <= SWATCH_MAX_LINES &&
+        declared.index - candidate.end <= SWATCH_MAX_GAP &&
+        !candidate.members.some(member => member.format === declared.format) &&
+        distance(candidate.members) <= SWATCH_MAX_DISTANCE)
+      .sort((a, b) => distance(a.members) - distance(b.members))[0];
+
+    if (group) {
+      group.members.push(declared);
+      group.line = line;
+      group.end = declared.index + declared.length;
+    } else {
+      groups.push({ members: [declared], line, end: declared.index + declared.length });
+    }
+  }
+
+  return groups.map(({ members: group }) => {
+    const preferred = [...group].sort((a, b) => FORMAT_PRIORITY.indexOf(a.format) - FORMAT_PRIORITY.indexOf(b.format))[0];
+    return {
+      rgb: preferred.rgb,
+      index: group[0].index,
+      declarations: group,
+      cmyk: group.find(member => member.cmyk)?.cmyk,
+      pantone: group.find(member => member.pantone)?.pantone
+    };
+  });
+}
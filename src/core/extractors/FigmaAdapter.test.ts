@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BrandingData } from './PDFExtractor.js';
+import { mergeBrandingData, parseFigmaData } from './FigmaAdapter.js';
+
+// Archivo de Figma con estilos de titular y sin estilos de cuerpo
+const headingOnly = [
+  { name: 'Heading/H1', style: { fontFamily: 'Playfair Display', fontWeight: 700, fontSize: 48 } },
+  { name: 'Heading/H2', style: { fontFamily: 'Playfair Display', fontWeight: 700, fontSize: 32 } }
+];
+
+const manual: BrandingData = {
+  colors: [],
+  typography: [
+    { family: 'Playfair Display', category: 'heading' },
+    { family: 'Source Sans Pro', category: 'body' }
+  ],
+  logos: []
+};
+
+describe('parseFigmaData', () => {
+  it('solo asigna los papeles que define Figma', () => {
+    const typography = parseFigmaData(headingOnly).typography || [];
+
+    assert.deepEqual(typography.map(info => [info.family, info.category]), [['Playfair Display', 'heading']]);
+  });
+
+  it('lee las variables con el modo por defecto de su colección y resuelve los alias', () => {
+    const data = parseFigmaData({
+      meta: {
+        variableCollections: { c1: { id: 'c1', defaultModeId: 'm2' } },
+        variables: {
+          v1: { id: 'v1', name: 'Base/Navy', resolvedType: 'COLOR', variableCollectionId: 'c1', valuesByMode: { m1: { r: 1, g: 1, b: 1 }, m2: { r: 0, g: 0.2, b: 0.4 } } },
+          v2: { id: 'v2', name: 'Brand/Primary', resolvedType: 'COLOR', variableCollectionId: 'c1', valuesByMode: { m2: { type: 'VARIABLE_ALIAS', id: 'v1' } } }
+        }
+      }
+    });
+
+    assert.equal(data.colors?.find(color => color.name === 'Brand/Primary')?.hex, '#003366');
+  });
+
+  it('lee los estilos de un volcado de archivo desde los nodos que los usan', () => {
+    const data = parseFigmaData({
+      styles: {
+        'S:fill': { name: 'Brand/Primary', styleType: 'FILL' },
+        'S:text': { name: 'Heading/H1', styleType: 'TEXT' },
+        'S:shadow': { name: 'Shadow/Card', styleType: 'EFFECT' }
+      },
+      document: {
+        id: '0:0',
+        children: [
+          { id: '1:1', styles: { fill: 'S:fill' }, fills: [{ type: 'SOLID', color: { r: 0, g: 0.2, b: 0.4 } }] },
+          { id: '1:2', styles: { text: 'S:text' }, style: { fontFamily: 'Playfair Display', fontWeight: 700, fontSize: 48 } },
+          { id: '1:3', styles: { effect: 'S:shadow' }, effects: [{ type: 'DROP_SHADOW', offset: { x: 0, y: 8 }, radius: 24, color: { r: 0, g: 0, b: 0, a: 0.3 } }] }
+        ]
+      }
+    });
+
+    assert.equal(data.colors?.find(color => color.name === 'Brand/Primary')?.hex, '#003366');
+    assert.equal(data.typography?.[0]?.family, 'Playfair Display');
+    assert.equal(data.personality?.elevation, 'elevated');
+  });
+
+  it('deja sin papel las familias sin estilos reconocibles', () => {
+    const typography = parseFigmaData([
+      { name: 'Marca', style: { fontFamily: 'Inter' } },
+      { name: 'Notas', style: { fontFamily: 'Lora' } }
+    ]).typography || [];
+
+    assert.deepEqual(typography.map(info => [info.family, info.category]), [['Inter', undefined], ['Lora', undefined]]);
+  });
+});
+
+describe('mergeBrandingData', () => {
+  it('conserva la tipografía de texto del manual con un archivo de solo titulares', () => {
+    const { data, conflicts } = mergeBrandingData(manual, parseFigmaData(headingOnly));
+
+    assert.equal(data.typography.find(info => info.category === 'body')?.family, 'Source Sans Pro');
+    assert.equal(data.typography.find(info => info.category === 'heading')?.family, 'Playfair Display');
+    assert.deepEqual(conflicts.filter(conflict => conflict.group === 'typography'), []);
+  });
+});
@@ -0,0 +1,925 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { hexToRgb, isAchromatic, rgbToHex, rgbToString } from '../../utils/color.js';
+import { BrandingData, ColorInfo, SpacingInfo, TypographyInfo } from './PDFExtractor.js';
+import { BrandPersonality, ElevationStyle, cornerStyleForRadius } from './PersonalityExtractor.js';
+import { TypeLevel, TypeScaleStyle, typeLevelOf } from './SpacingExtractor.js';
+import { ColorCategory, inferColorCategory } from './SwatchLabeler.js';
+import fs from 'fs';
+import path from 'path';
+
+// Fuente que prevalece cuando la de Figma y la del manual no coinciden
+export type MergeSource = 'figma' | 'pdf';
+
+// Grupos de datos que se combinan por separado
+export type MergeGroup = 'colors' | 'typography' | 'spacing' | 'personality' | 'brand';
+
+// Precedencia de la combinación: una fuente para todo o una por grupo
+export type MergePrecedence = MergeSource | Partial<Record<MergeGroup, MergeSource>>;
+
+// Valor que difiere entre Figma y el manual, y cuál se ha usado
+export interface MergeConflict {
+  group: MergeGroup;
+  name: string;
+  figma: string;
+  pdf: string;
+  resolution: MergeSource;
+}
+
+// Resultado de combinar los datos del manual con los de Figma
+export interface MergedBrandingData {
+  data: BrandingData;
+  conflicts: MergeConflict[];
+}
+
+// Color de Figma en componentes de 0 a 1
+interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+// Variable local de Figma (API REST o de plugins) tal como llega
+interface FigmaVariable {
+  id?: string;
+  name?: string;
+  description?: string;
+  resolvedType?: string;
+  variableCollectionId?: string;
+  valuesByMode?: Record<string, unknown>;
+  scopes?: unknown;
+}
+
+// Colección de variables: solo se usa su modo por defecto
+interface FigmaVariableCollection {
+  id?: string;
+  defaultModeId?: string;
+}
+
+// Estilos y variables de Figma ya leídos, con su nombre completo ("Brand/Primary")
+interface FigmaColorStyle {
+  name: string;
+  hex: string;
+  description?: string;
+}
+
+interface FigmaTextStyle {
+  name: string;
+  family: string;
+  weight?: number;
+  // En píxeles
+  size?: number;
+  lineHeight?: number;
+  italic?: boolean;
+}
+
+interface FigmaShadow {
+  offsetY: number;
+  blur: number;
+  alpha: number;
+}
+
+interface FigmaEffectStyle {
+  name: string;
+  shadows: FigmaShadow[];
+}
+
+interface FigmaGridStyle {
+  name: string;
+  columns?: number;
+  gutter?: number;
+}
+
+interface FigmaNumber {
+  name: string;
+  value: number;
+  scopes: string[];
+}
+
+interface FigmaString {
+  name: string;
+  value: string;
+}
+
+interface FigmaStyles {
+  colors: FigmaColorStyle[];
+  texts: FigmaTextStyle[];
+  effects: FigmaEffectStyle[];
+  grids: FigmaGridStyle[];
+  numbers: FigmaNumber[];
+  strings: FigmaString[];
+}
+
+// Profundidad máxima al resolver alias de variables
+const MAX_ALIAS_DEPTH = 10;
+
+// Variables numéricas por su nombre o por su ámbito (scopes) en Figma
+const RADIUS_VARIABLE = /radius|radio|corner|esquina/i;
+const SPACING_VARIABLE = /spacing|space|espaciado|gap|padding|margin/i;
+const FONT_VARIABLE = /font|typeface|familia|tipograf/i;
+const SPACING_SCOPES = ['GAP', 'WIDTH_HEIGHT'];
+
+// Tipo de estilo que aplica cada clave de "styles" de un nodo (los trazos se
+// ignoran porque su color no está en los rellenos del nodo)
+const NODE_STYLE_KINDS: Record<string, string> = {
+  fill: 'FILL',
+  fills: 'FILL',
+  text: 'TEXT',
+  effect: 'EFFECT',
+  grid: 'GRID'
+};
+
+// Nombre del paso principal de una escala (base, default, 500...)
+const BASE_STEP = /(?:^|[\s/._-])(base|default|main|500)$/i;
+
+// Paso numérico de una escala ("Primary/700")
+const NUMERIC_STEP = /(?:^|[\s/._-])\d{2,3}$/;
+
+// Estilos de texto de titulares y de texto corrido, por su nombre
+const HEADING_STYLE = /heading|title|display|titular|t[íi]tulo|encabezado/i;
+const BODY_STYLE = /body|paragraph|texto|cuerpo|p[áa]rrafo/i;
+const HEADING_LEVELS: TypeLevel[] = ['display', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'subtitle'];
+
+// Sombras a partir de las cuales la marca se considera elevada
+const ELEVATED_BLUR = 12;
+const ELEVATED_ALPHA = 0.15;
+
+// Píxeles por punto tipográfico
+const PIXELS_PER_POINT = 4 / 3;
+
+/**
+ * Comprueba si un valor es un objeto JSON (no un array)
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Valores de un objeto o de un array
+ */
+function valuesOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return isObject(value) ? Object.values(value) : [];
+}
+
+/**
+ * Comprueba si un valor es una variable de Figma
+ */
+function isFigmaVariable(value: unknown): value is FigmaVariable {
+  return isObject(value)
+    && (value.valuesByMode === undefined || isObject(value.valuesByMode))
+    && ['id', 'name', 'description', 'resolvedType', 'variableCollectionId'].every(key => value[key] === undefined || typeof value[key] === 'string');
+}
+
+/**
+ * Texto no vacío o undefined
+ */
+function stringOf(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Número o undefined
+ */
+function numberOf(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Convierte un color de Figma (componentes de 0 a 1) en hexadecimal
+ */
+function figmaColorToHex(color: FigmaColor): string {
+  const channel = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255);
+  return rgbToHex({ r: channel(color.r), g: channel(color.g), b: channel(color.b) });
+}
+
+/**
+ * Comprueba si un valor es un color de Figma
+ */
+function isFigmaColor(value: unknown): value is FigmaColor {
+  return isObject(value) && typeof value.r === 'number' && typeof value.g === 'number' && typeof value.b === 'number';
+}
+
+/**
+ * Primer relleno sólido visible de una lista de rellenos de Figma
+ */
+function solidFill(paints: unknown): string | undefined {
+  const color = valuesOf(paints).filter(isObject).find(fill => fill.type === 'SOLID' && fill.visible !== false && isFigmaColor(fill.color))?.color;
+  return isFigmaColor(color) ? figmaColorToHex(color) : undefined;
+}
+
+/**
+ * Sombras proyectadas visibles de una lista de efectos de Figma
+ */
+function dropShadows(effects: unknown): FigmaShadow[] {
+  return valuesOf(effects)
+    .filter(isObject)
+    .filter(effect => effect.type === 'DROP_SHADOW' && effect.visible !== false)
+    .map(effect => ({
+      offsetY: Number(isObject(effect.offset) ? effect.offset.y : 0) || 0,
+      blur: Number(effect.radius) || 0,
+      alpha: isFigmaColor(effect.color) ? effect.color.a ?? 1 : 1
+    }));
+}
+
+/**
+ * Estilo de texto a partir de un TypeStyle de Figma
+ */
+function textStyle(name: string, style: Record<string, unknown>): FigmaTextStyle | undefined {
+  if (typeof style.fontFamily !== 'string' || !style.fontFamily.trim()) return undefined;
+
+  return {
+    name,
+    family: style.fontFamily.trim(),
+    weight: numberOf(style.fontWeight),
+    size: numberOf(style.fontSize),
+    lineHeight: numberOf(style.lineHeightPx),
+    italic: style.italic === true || /italic/i.test(stringOf(style.fontStyle) || '')
+  };
+}
+
+/**
+ * Guarda el valor de un estilo según su tipo (relleno, texto, efecto o retícula)
+ */
+function collectStyle(styles: FigmaStyles, name: string, type: string, node: Record<string, unknown>): void {
+  switch (type.toUpperCase()) {
+    case 'FILL': {
+      const hex = solidFill(node.fills ?? node.paints);
+      if (hex) styles.colors.push({ name, hex, description: stringOf(node.description) });
+      break;
+    }
+    case 'TEXT': {
+      const style = textStyle(name, isObject(node.style) ? node.style : node);
+      if (style) styles.texts.push(style);
+      break;
+    }
+    case 'EFFECT': {
+      const shadows = dropShadows(node.effects);
+      styles.effects.push({ name, shadows });
+      break;
+    }
+    case 'GRID': {
+      const grid = valuesOf(node.layoutGrids).filter(isObject).find(layout => layout.pattern === 'COLUMNS');
+      if (grid) styles.grids.push({ name, columns: numberOf(grid.count), gutter: numberOf(grid.gutterSize) });
+      break;
+    }
+  }
+}
+
+/**
+ * Tipo de un estilo de la lista simplificada ({ name, fills | style | effects })
+ */
+function inferStyleType(style: Record<string, unknown>): string | undefined {
+  if (typeof style.styleType === 'string') return style.styleType;
+  if (typeof style.type === 'string' && ['FILL', 'TEXT', 'EFFECT', 'GRID'].includes(style.type.toUpperCase())) return style.type;
+  if (style.fills || style.paints) return 'FILL';
+  if (style.style || style.fontFamily) return 'TEXT';
+  if (style.effects) return 'EFFECT';
+  if (style.layoutGrids) return 'GRID';
+  return undefined;
+}
+
+/**
+ * Lee las variables locales de Figma (respuesta de /v1/files/:key/variables/local
+ * o exportación de la API de plugins): cada variable toma el valor del modo
+ * por defecto de su colección y los alias se resuelven
+ */
+function collectVariables(styles: FigmaStyles, variables: unknown[], collections: Record<string, FigmaVariableCollection>): void {
+  const list = variables.filter(isFigmaVariable);
+  const byId = new Map<string, FigmaVariable>();
+  list.forEach(variable => typeof variable.id === 'string' && byId.set(variable.id, variable));
+
+  const valueOf = (variable: FigmaVariable, depth = 0): unknown => {
+    const modes = variable.valuesByMode || {};
+    const modeId = variable.variableCollectionId !== undefined ? collections[variable.variableCollectionId]?.defaultModeId : undefined;
+    const value = modeId !== undefined && modeId in modes ? modes[modeId] : Object.values(modes)[0];
+
+    if (isObject(value) && value.type === 'VARIABLE_ALIAS') {
+      const target = typeof value.id === 'string' ? byId.get(value.id) : undefined;
+      return target && depth < MAX_ALIAS_DEPTH ? valueOf(target, depth + 1) : undefined;
+    }
+    return value;
+  };
+
+  for (const variable of list) {
+    if (typeof variable.name !== 'string') continue;
+    const value = valueOf(variable);
+
+    switch (variable.resolvedType) {
+      case 'COLOR':
+        if (isFigmaColor(value)) {
+          styles.colors.push({ name: variable.name, hex: figmaColorToHex(value), description: variable.description || undefined });
+        }
+        break;
+      case 'FLOAT':
+        if (typeof value === 'number') {
+          styles.numbers.push({ name: variable.name, value, scopes: valuesOf(variable.scopes).filter((scope): scope is string => typeof scope === 'string') });
+        }
+        break;
+      case 'STRING':
+        if (typeof value === 'string') styles.strings.push({ name: variable.name, value });
+        break;
+    }
+  }
+}
+
+/**
+ * Lee los estilos de un volcado de archivo (/v1/files/:key) o de nodos
+ * (/v1/files/:key/nodes): el valor de cada estilo se toma del nodo que lo
+ * define o del primer nodo que lo usa
+ */
+function collectFileStyles(styles: FigmaStyles, document: Record<string, unknown>): void {
+  const metadata = new Map<string, { name: string; styleType: string }>();
+  const roots: Record<string, unknown>[] = [];
+
+  const addMetadata = (map: unknown) => {
+    if (!isObject(map)) return;
+    for (const [id, style] of Object.entries(map)) {
+      if (isObject(style) && typeof style.name === 'string' && typeof style.styleType === 'string') {
+        metadata.set(id, { name: style.name, styleType: style.styleType });
+      }
+    }
+  };
+
+  addMetadata(document.styles);
+  if (isObject(document.document)) roots.push(document.document);
+  for (const entry of valuesOf(document.nodes).filter(isObject)) {
+    addMetadata(entry.styles);
+    if (isObject(entry.document)) roots.push(entry.document);
+  }
+
+  const found = new Set<string>();
+  const use = (id: string, node: Record<string, unknown>) => {
+    const style = metadata.get(id);
+    if (!style || found.has(id)) return;
+    found.add(id);
+    collectStyle(styles, style.name, style.styleType, node);
+  };
+
+  const walk = (node: Record<string, unknown>) => {
+    if (typeof node.id === 'string') use(node.id, node);
+    if (isObject(node.styles)) {
+      for (const [kind, id] of Object.entries(node.styles)) {
+        if (typeof id === 'string' && NODE_STYLE_KINDS[kind] === metadata.get(id)?.styleType) use(id, node);
+      }
+    }
+    valuesOf(node.children).forEach(child => isObject(child) && walk(child));
+  };
+
+  roots.forEach(walk);
+}
+
+/**
+ * Lee la salida de get_variable_defs del MCP de Figma: un mapa de nombre a
+ * valor ("#0033A0", "Font(family: \"Inter\", size: 48...)", "Effect(...)", "16")
+ */
+function collectVariableDefs(styles: FigmaStyles, definitions: Record<string, unknown>): void {
+  const field = (text: string, key: string) => text.match(new RegExp(`\\b${key}:\\s*("([^"]*)"|[^,)]+)`, 'i'))?.slice(1).find(Boolean);
+
+  for (const [name, raw] of Object.entries(definitions)) {
+    const value = String(raw).trim();
+
+    if (/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+      styles.colors.push({ name, hex: value.slice(0, 7).toLowerCase() });
+    } else if (/^Font\(/i.test(value)) {
+      const family = field(value, 'family')?.replace(/"/g, '');
+      const number = (key: string) => {
+        const parsed = parseFloat(field(value, key) || '');
+        return Number.isFinite(parsed) ? parsed : undefined;
+      };
+      if (family) {
+        styles.texts.push({
+          name,
+          family,
+          weight: number('weight'),
+          size: number('size'),
+          lineHeight: number('lineHeight'),
+          italic: /italic/i.test(field(value, 'style') || '')
+        });
+      }
+    } else if (/^Effect\(/i.test(value)) {
+      const shadows: FigmaShadow[] = [];
+      if (/DROP_SHADOW/i.test(value)) {
+        const alpha = value.match(/color:\s*#[0-9a-f]{6}([0-9a-f]{2})/i);
+        const offset = value.match(/offset:\s*\(\s*-?[\d.]+\s*,\s*(-?[\d.]+)\s*\)/i);
+        shadows.push({
+          offsetY: offset ? parseFloat(offset[1]) : 0,
+          blur: parseFloat(field(value, 'radius') || '0') || 0,
+          alpha: alpha ? parseInt(alpha[1], 16) / 255 : 1
+        });
+      }
+      styles.effects.push({ name, shadows });
+    } else if (/^-?\d+(\.\d+)?$/.test(value)) {
+      styles.numbers.push({ name, value: parseFloat(value), scopes: [] });
+    } else if (value) {
+      styles.strings.push({ name, value });
+    }
+  }
+}
+
+/**
+ * Colecciones de variables por id, de una lista o de un mapa
+ */
+function toCollectionMap(collections: unknown): Record<string, FigmaVariableCollection> {
+  const entries = Array.isArray(collections)
+    ? collections.filter(isObject).map(collection => [collection.id, collection] as const)
+    : isObject(collections) ? Object.entries(collections) : [];
+
+  const map: Record<string, FigmaVariableCollection> = {};
+  for (const [id, collection] of entries) {
+    if (typeof id === 'string' && isObject(collection)) {
+      map[id] = { id, defaultModeId: stringOf(collection.defaultModeId) };
+    }
+  }
+  return map;
+}
+
+/**
+ * Lee un documento de Figma, sea cual sea su forma, y añade sus estilos y
+ * variables. Devuelve los datos de branding que ya traiga con la estructura
+ * del servidor (p. ej. los de una llamada anterior).
+ */
+function collectDocument(styles: FigmaStyles, document: unknown): Partial<BrandingData> | undefined {
+  if (Array.isArray(document)) {
+    // Lista de estilos simplificada o de variables de la API de plugins
+    if (document.every(item => isObject(item) && 'valuesByMode' in item)) {
+      collectVariables(styles, document, {});
+    } else {
+      for (const style of document) {
+        const type = isObject(style) && typeof style.name === 'string' ? inferStyleType(style) : undefined;
+        if (type) collectStyle(styles, style.name, type, style);
+      }
+    }
+    return undefined;
+  }
+
+  if (!isObject(document)) return undefined;
+
+  // Datos de branding con la estructura de extract_pdf_branding
+  if (Array.isArray(document.colors) || Array.isArray(document.typography)) {
+    return document as Partial<BrandingData>;
+  }
+
+  const meta = isObject(document.meta) ? document.meta : {};
+  const variables = meta.variables ?? document.variables;
+  if (variables) {
+    collectVariables(styles, valuesOf(variables), toCollectionMap(meta.variableCollections ?? document.variableCollections));
+  }
+
+  if (isObject(document.document) || isObject(document.nodes)) {
+    collectFileStyles(styles, document);
+  } else if (Array.isArray(document.styles)) {
+    collectDocument(styles, document.styles);
+  }
+
+  // Mapa plano de get_variable_defs
+  if (!variables && !document.document && !document.nodes && !document.styles
+    && Object.values(document).every(value => typeof value === 'string' || typeof value === 'number')) {
+    collectVariableDefs(styles, document);
+  }
+
+  return undefined;
+}
+
+/**
+ * Lee un volcado de Figma en disco (JSON)
+ */
+function readFigmaFile(filePath: string): unknown {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new McpError(ErrorCode.InvalidParams, `El archivo de Figma no existe: ${filePath}`);
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `El archivo de Figma no es un JSON válido: ${filePath}`);
+  }
+}
+
+/**
+ * Último segmento del nombre de un estilo ("Brand/Primary" -> "Primary")
+ */
+function leafName(name: string): string {
+  return name.split('/').pop()!.trim();
+}
+
+/**
+ * Normaliza un nombre para compararlo ("Brand/Primary-500" -> "brand primary 500")
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[/_.\-\s]+/g, ' ').trim();
+}
+
+/**
+ * Convierte los colores de Figma en colores de branding. Dentro de cada
+ * categoría el paso principal de la escala (base, default, 500 o sin paso)
+ * va primero, porque es el que se toma como color de marca.
+ */
+function toColorInfo(colors: FigmaColorStyle[]): ColorInfo[] {
+  const seen = new Set<string>();
+  const rank = (name: string) => (BASE_STEP.test(name) ? 0 : NUMERIC_STEP.test(name) ? 2 : 1);
+
+  const infos = colors
+    .filter(color => {
+      const key = normalizeName(color.name);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((color): ColorInfo => {
+      const rgb = hexToRgb(color.hex);
+      const category = inferColorCategory(color.name) || (isAchromatic(rgb) ? 'neutral' : undefined);
+      return {
+        name: color.name,
+        hex: color.hex,
+        rgb: rgbToString(rgb),
+        ...(category ? { category } : {}),
+        ...(color.description ? { usage: color.description } : {}),
+        source: 'figma'
+      };
+    })
+    .map((color, index) => ({ color, index }))
+    .sort((a, b) => rank(a.color.name) - rank(b.color.name) || a.index - b.index)
+    .map(({ color }) => color);
+
+  // Sin nombres de categoría, los primeros colores cromáticos distintos hacen
+  // de primario, secundario y acento (con un primario nombrado, el resto de
+  // colores son de componentes o de estado y se dejan sin categoría)
+  if (!infos.some(color => color.category === 'primary')) {
+    const free: ColorCategory[] = ['primary', 'secondary', 'accent'];
+    const used = new Set<string>();
+    for (const color of infos) {
+      if (free.length === 0) break;
+      if (!color.category && !used.has(color.hex)) color.category = free.shift();
+      used.add(color.hex);
+    }
+  }
+
+  return infos;
+}
+
+/**
+ * Agrupa los estilos de texto por familia y asigna a titulares la familia de
+ * los estilos de titular y a texto la de los estilos de cuerpo; las familias
+ * que no usa ningún papel se devuelven sin categoría
+ */
+function toTypographyInfo(texts: FigmaTextStyle[], fonts: FigmaString[]): TypographyInfo[] {
+  const families = new Map<string, FigmaTextStyle[]>();
+  for (const style of texts) {
+    families.set(style.family, [...(families.get(style.family) || []), style]);
+  }
+
+  const levelOf = (style: FigmaTextStyle) => typeLevelOf(leafName(style.name));
+  const isHeading = (style: FigmaTextStyle) => HEADING_STYLE.test(style.name) || HEADING_LEVELS.includes(levelOf(style)!);
+  const isBody = (style: FigmaTextStyle) => BODY_STYLE.test(style.name) || levelOf(style) === 'body';
+
+  // Familia más usada por los estilos de un papel
+  const familyFor = (matches: (style: FigmaTextStyle) => boolean) => Array.from(families.entries())
+    .map(([family, styles]) => [family, styles.filter(matches).length] as const)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  // Las variables de texto con nombre de fuente ("Font/Heading": "Inter") también cuentan
+  const fontVariable = (pattern: RegExp) => fonts.find(font => FONT_VARIABLE.test(font.name) && pattern.test(font.name))?.value;
+
+  const roles: Array<[NonNullable<TypographyInfo['category']>, string | undefined]> = [
+    ['heading', familyFor(isHeading) || fontVariable(HEADING_STYLE)],
+    ['body', familyFor(isBody) || fontVariable(BODY_STYLE)]
+  ];
+
+  // Solo se emiten los papeles que define Figma: sin estilos reconocibles, el
+  // reparto de familias lo hace generateDesignTokens (y no pisa al manual)
+  const remaining = Array.from(families.keys()).filter(family => !roles.some(([, assigned]) => assigned === family));
+
+  const describe = (family: string, category?: TypographyInfo['category']): TypographyInfo => {
+    const styles = families.get(family) || [];
+    const weights = Array.from(new Set(styles.map(style => style.weight).filter((weight): weight is number => weight !== undefined)))
+      .sort((a, b) => a - b);
+    const sizes = Array.from(new Set(styles.map(style => style.size).filter((size): size is number => size !== undefined)))
+      .sort((a, b) => b - a)
+      .map(size => Math.round((size / PIXELS_PER_POINT) * 10) / 10);
+
+    return {
+      family,
+      ...(category ? { category } : {}),
+      ...(weights.length > 0 ? { weights: weights.map(String) } : {}),
+      ...(sizes.length > 0 ? { sizes } : {}),
+      ...(styles.some(style => style.italic) ? { italic: true } : {}),
+      ...(styles.length > 0 ? { usage: `Estilos de Figma: ${styles.map(style => style.name).join(', ')}` } : {}),
+      source: 'figma'
+    };
+  };
+
+  const typography = roles
+    .filter((role): role is [NonNullable<TypographyInfo['category']>, string] => Boolean(role[1]))
+    .map(([category, family]) => describe(family, category));
+
+  // El resto de familias, sin papel
+  remaining.forEach(family => typography.push(describe(family)));
+
+  return typography;
+}
+
+/**
+ * Escala tipográfica, espaciado y retícula de los estilos y variables de Figma
+ */
+function toSpacingInfo(styles: FigmaStyles): SpacingInfo | undefined {
+  const spacing: SpacingInfo = {};
+
+  const typeScale: TypeScaleStyle[] = [];
+  for (const style of styles.texts) {
+    const level = typeLevelOf(leafName(style.name));
+    if (!level || !style.size || typeScale.some(entry => entry.level === level)) continue;
+    typeScale.push({ level, label: style.name, size: style.size, ...(style.lineHeight ? { lineHeight: style.lineHeight } : {}) });
+  }
+  if (typeScale.length > 0) spacing.typeScale = typeScale;
+
+  const spacingNumbers = styles.numbers.filter(number =>
+    SPACING_VARIABLE.test(number.name) || number.scopes.some(scope => SPACING_SCOPES.includes(scope)));
+  const scale = Array.from(new Set(spacingNumbers.map(number => number.value).filter(value => value > 0))).sort((a, b) => a - b);
+  if (scale.length > 0) spacing.scale = scale;
+
+  const base = spacingNumbers.find(number => /(?:^|[\s/._-])(base|unit|unidad)$/i.test(number.name));
+  if (base) spacing.base = base.value;
+
+  const grid = styles.grids[0];
+  if (grid && (grid.columns || grid.gutter)) {
+    spacing.grid = {
+      ...(grid.columns ? { columns: grid.columns } : {}),
+      ...(grid.gutter !== undefined ? { gutter: grid.gutter } : {})
+    };
+  }
+
+  return Object.keys(spacing).length > 0 ? spacing : undefined;
+}
+
+/**
+ * Personalidad visual a partir de los radios y las sombras de Figma: el radio
+ * es el de la variable base (md, default...) o la mediana de los declarados
+ */
+function toPersonality(styles: FigmaStyles): BrandPersonality | undefined {
+  const personality: BrandPersonality = {};
+  const evidence: string[] = [];
+
+  const radii = styles.numbers.filter(number =>
+    RADIUS_VARIABLE.test(number.name) || number.scopes.includes('CORNER_RADIUS'));
+  const finite = radii.filter(number => number.value < 9999);
+  if (finite.length > 0) {
+    const named = finite.find(number => /(?:^|[\s/._-])(md|base|default)$/i.test(number.name));
+    const sorted = finite.map(number => number.value).sort((a, b) => a - b);
+    personality.radius = named?.value ?? sorted[Math.floor(sorted.length / 2)];
+    personality.corners = cornerStyleForRadius(personality.radius);
+    evidence.push(...finite.map(number => `${number.name}: ${number.value}px`));
+  }
+
+  if (styles.effects.length > 0) {
+    const shadows = styles.effects.flatMap(effect => effect.shadows);
+    let elevation: ElevationStyle = 'flat';
+    if (shadows.length > 0) {
+      const layered = styles.effects.some(effect => effect.shadows.length > 1);
+      const strong = shadows.some(shadow => shadow.blur >= ELEVATED_BLUR || shadow.alpha >= ELEVATED_ALPHA);
+      elevation = layered || strong ? 'elevated' : 'subtle';
+    }
+    personality.elevation = elevation;
+    evidence.push(...styles.effects.map(effect => `Efecto ${effect.name}`));
+  }
+
+  if (!personality.corners && !personality.elevation) return undefined;
+  return { ...personality, evidence: evidence.slice(0, 6) };
+}
+
+/**
+ * Convierte los datos de Figma en datos de branding. Admite, como objeto,
+ * lista o ruta a un volcado JSON en disco:
+ * - variables locales (/v1/files/:key/variables/local o API de plugins)
+ * - volcados de archivo o de nodos con sus estilos (/v1/files/:key, /nodes)
+ * - listas de estilos ({ name, fills | style | effects })
+ * - la salida de get_variable_defs del MCP de Figma
+ * - datos con la estructura de extract_pdf_branding
+ */
+export function parseFigmaData(input: unknown): Partial<BrandingData> {
+  const documents = (Array.isArray(input) && input.some(item => typeof item === 'string') ? input : [input])
+    .map(document => (typeof document === 'string' ? readFigmaFile(document) : document));
+
+  const styles: FigmaStyles = { colors: [], texts: [], effects: [], grids: [], numbers: [], strings: [] };
+  const structured: Partial<BrandingData>[] = [];
+  for (const document of documents) {
+    const data = collectDocument(styles, document);
+    if (data) structured.push(data);
+  }
+
+  const data: Partial<BrandingData> = {
+    colors: [...structured.flatMap(entry => entry.colors || []), ...toColorInfo(styles.colors)],
+    typography: [...structured.flatMap(entry => entry.typography || []), ...toTypographyInfo(styles.texts, styles.strings)]
+  };
+
+  const spacing = structured.find(entry => entry.spacing)?.spacing || toSpacingInfo(styles);
+  if (spacing) data.spacing = spacing;
+
+  const personality = structured.find(entry => entry.personality)?.personality || toPersonality(styles);
+  if (personality) data.personality = personality;
+
+  const logos = structured.flatMap(entry => entry.logos || []);
+  if (logos.length > 0) data.logos = logos;
+
+  const named = structured.find(entry => entry.brandName);
+  if (named) data.brandName = named.brandName;
+
+  if (data.colors!.length === 0 && data.typography!.length === 0 && !spacing && !personality) {
+    throw new McpError(ErrorCode.InvalidParams, 'Los datos de Figma (figmaData) no contienen variables ni estilos reconocibles');
+  }
+
+  return data;
+}
+
+/**
+ * Fuente que prevalece en un grupo
+ */
+function winnerOf(precedence: MergePrecedence, group: MergeGroup): MergeSource {
+  return typeof precedence === 'string' ? precedence : precedence[group] || 'figma';
+}
+
+/**
+ * Combina los colores por nombre (el completo o el último segmento del de
+ * Figma) y, los que no coinciden así, por el color de marca de cada
+ * categoría. Los colores de la fuente que prevalece van primero, porque el
+ * primero de cada categoría es el que se toma como color de marca.
+ */
+function mergeColors(pdf: ColorInfo[], figma: ColorInfo[], winner: MergeSource, conflicts: MergeConflict[]): ColorInfo[] {
+  const pairs = new Map<ColorInfo, ColorInfo>();
+  const paired = new Set<ColorInfo>();
+
+  for (const color of figma) {
+    const names = [normalizeName(color.name), normalizeName(leafName(color.name))];
+    const match = pdf.find(candidate => !paired.has(candidate) && names.includes(normalizeName(candidate.name)));
+    if (match) {
+      pairs.set(color, match);
+      paired.add(match);
+    }
+  }
+
+  for (const category of ['primary', 'secondary', 'accent'] as ColorCategory[]) {
+    const figmaLead = figma.find(color => color.category === category);
+    const pdfLead = pdf.find(color => color.category === category);
+    if (figmaLead && pdfLead && !pairs.has(figmaLead) && !paired.has(pdfLead)) {
+      pairs.set(figmaLead, pdfLead);
+      paired.add(pdfLead);
+    }
+  }
+
+  // Cada pareja se combina una vez: los campos de la fuente que prevalece sobre los de la otra
+  const combined = new Map<ColorInfo, ColorInfo>();
+  for (const [figmaColor, pdfColor] of pairs) {
+    const name = figmaColor.name === pdfColor.name ? figmaColor.name : `${pdfColor.name} / ${figmaColor.name}`;
+    if (figmaColor.hex.toLowerCase() !== pdfColor.hex.toLowerCase()) {
+      conflicts.push({ group: 'colors', name, figma: figmaColor.hex, pdf: pdfColor.hex, resolution: winner });
+    }
+    if (figmaColor.category && pdfColor.category && figmaColor.category !== pdfColor.category) {
+      conflicts.push({ group: 'colors', name: `${name} (categoría)`, figma: figmaColor.category, pdf: pdfColor.category, resolution: winner });
+    }
+
+    const [first, second] = winner === 'figma' ? [figmaColor, pdfColor] : [pdfColor, figmaColor];
+    const color: ColorInfo = { ...second, ...first };
+    if (!first.category && second.category) color.category = second.category;
+    combined.set(figmaColor, color);
+    combined.set(pdfColor, color);
+  }
+
+  const figmaColors = figma.map(color => combined.get(color) || color);
+  const pdfColors = pdf.map(color => combined.get(color) || color);
+  return winner === 'figma'
+    ? [...figmaColors, ...pdf.filter(color => !paired.has(color))]
+    : [...pdfColors, ...figma.filter(color => !pairs.has(color))];
+}
+
+/**
+ * Combina las tipografías por papel (titulares, texto, acento) o, sin papel,
+ * por familia. Si las dos fuentes usan la misma familia se unen sus pesos y
+ * cuerpos; si no, se usa la de la fuente que prevalece.
+ */
+function mergeTypography(pdf: TypographyInfo[], figma: TypographyInfo[], winner: MergeSource, conflicts: MergeConflict[]): TypographyInfo[] {
+  const keyOf = (info: TypographyInfo) => info.category || `family:${info.family.toLowerCase()}`;
+  const [first, second] = winner === 'figma' ? [figma, pdf] : [pdf, figma];
+  const merged = first.map(info => ({ ...info }));
+
+  for (const info of second) {
+    const match = merged.find(candidate => keyOf(candidate) === keyOf(info));
+    if (!match) {
+      merged.push({ ...info });
+      continue;
+    }
+
+    if (match.family.toLowerCase() !== info.family.toLowerCase()) {
+      const [figmaInfo, pdfInfo] = winner === 'figma' ? [match, info] : [info, match];
+      conflicts.push({ group: 'typography', name: match.category || match.family, figma: figmaInfo.family, pdf: pdfInfo.family, resolution: winner });
+      continue;
+    }
+
+    const union = <T>(a?: T[], b?: T[]) => (a || b ? Array.from(new Set([...(a || []), ...(b || [])])) : undefined);
+    const weights = union(match.weights, info.weights)?.sort((a, b) => Number(a) - Number(b));
+    const sizes = union(match.sizes, info.sizes)?.sort((a, b) => b - a);
+    Object.assign(match, { ...info, ...match }, weights ? { weights } : {}, sizes ? { sizes } : {});
+  }
+
+  return merged;
+}
+
+/**
+ * Combina la escala tipográfica por nivel y el resto del espaciado por campo
+ */
+function mergeSpacing(pdf: SpacingInfo | undefined, figma: SpacingInfo | undefined, winner: MergeSource, conflicts: MergeConflict[]): SpacingInfo | undefined {
+  if (!pdf || !figma) return pdf || figma;
+
+  const [first, second] = winner === 'figma' ? [figma, pdf] : [pdf, figma];
+  const merged: SpacingInfo = { ...second, ...first };
+
+  for (const key of ['base', 'scale', 'grid', 'margins', 'clearSpace'] as const) {
+    if (figma[key] !== undefined && pdf[key] !== undefined && JSON.stringify(figma[key]) !== JSON.stringify(pdf[key])) {
+      conflicts.push({ group: 'spacing', name: key, figma: JSON.stringify(figma[key]), pdf: JSON.stringify(pdf[key]), resolution: winner });
+    }
+  }
+
+  if (first.typeScale || second.typeScale) {
+    const typeScale = [...(first.typeScale || [])];
+    for (const style of second.typeScale || []) {
+      const match = typeScale.find(candidate => candidate.level === style.level);
+      if (!match) {
+        typeScale.push(style);
+      } else if (match.size !== style.size) {
+        const [figmaStyle, pdfStyle] = winner === 'figma' ? [match, style] : [style, match];
+        conflicts.push({ group: 'spacing', name: `typeScale.${style.level}`, figma: `${figmaStyle.size}px`, pdf: `${pdfStyle.size}px`, resolution: winner });
+      }
+    }
+    merged.typeScale = typeScale;
+  }
+
+  if (first.rules || second.rules) {
+    merged.rules = Array.from(new Set([...(first.rules || []), ...(second.rules || [])]));
+  }
+
+  return merged;
+}
+
+/**
+ * Combina la personalidad visual campo a campo
+ */
+function mergePersonality(pdf: BrandPersonality | undefined, figma: BrandPersonality | undefined, winner: MergeSource, conflicts: MergeConflict[]): BrandPersonality | undefined {
+  if (!pdf || !figma) return pdf || figma;
+
+  for (const key of ['corners', 'elevation', 'radius'] as const) {
+    if (figma[key] !== undefined && pdf[key] !== undefined && figma[key] !== pdf[key]) {
+      conflicts.push({ group: 'personality', name: key, figma: String(figma[key]), pdf: String(pdf[key]), resolution: winner });
+    }
+  }
+
+  const [first, second] = winner === 'figma' ? [figma, pdf] : [pdf, figma];
+  const evidence = [...(first.evidence || []), ...(second.evidence || [])];
+  return { ...second, ...first, ...(evidence.length > 0 ? { evidence } : {}) };
+}
+
+/**
+ * Combina los datos de branding del manual con los de Figma. Los colores se
+ * emparejan por nombre, las tipografías por papel y el resto por campo; cuando
+ * los valores difieren se usa el de la fuente que prevalece (Figma, salvo que
+ * se indique otra cosa) y la diferencia se anota como conflicto.
+ */
+export function mergeBrandingData(
+  pdf: BrandingData,
+  figma: Partial<BrandingData>,
+  precedence: MergePrecedence = 'figma'
+): MergedBrandingData {
+  const conflicts: MergeConflict[] = [];
+
+  const data: BrandingData = {
+    ...pdf,
+    colors: mergeColors(pdf.colors, figma.colors || [], winnerOf(precedence, 'colors'), conflicts),
+    typography: mergeTypography(pdf.typography, figma.typography || [], winnerOf(precedence, 'typography'), conflicts),
+    logos: [...pdf.logos, ...(figma.logos || [])]
+  };
+
+  const spacing = mergeSpacing(pdf.spacing, figma.spacing, winnerOf(precedence, 'spacing'), conflicts);
+  if (spacing) data.spacing = spacing;
+
+  const personality = mergePersonality(pdf.personality, figma.personality, winnerOf(precedence, 'personality'), conflicts);
+  if (personality) data.personality = personality;
+
+  const brandWinner = winnerOf(precedence, 'brand');
+  for (const key of ['brandName', 'brandTagline'] as const) {
+    const [first, second] = brandWinner === 'figma' ? [figma[key], pdf[key]] : [pdf[key], figma[key]];
+    if (figma[key] && pdf[key] && figma[key] !== pdf[key]) {
+      conflicts.push({ group: 'brand', name: key, figma: figma[key]!, pdf: pdf[key]!, resolution: brandWinner });
+    }
+    if (first || second) data[key] = first || second;
+  }
+
+  return { data, conflicts };
+}
+
+/**
+ * Describe un conflicto de la combinación para los avisos y los comentarios
+ */
+export function describeConflict(conflict: MergeConflict): string {
+  const used = conflict.resolution === 'figma' ? 'Figma' : 'el manual';
+  return `${conflict.group}: ${conflict.name} difiere (Figma ${conflict.figma}, manual ${conflict.pdf}); se usa ${used}`;
+}
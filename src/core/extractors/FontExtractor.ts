@@ -0,0 +1,194 @@
+import { FontDescriptorInfo, FontUsage, PDFAnalysis } from './PDFContentAnalyzer.js';
+
+// Papel tipográfico de una familia en el documento
+export type FontRole = 'heading' | 'body' | 'accent';
+
+// Datos que se deducen del nombre PostScript de una fuente
+export interface ParsedFontName {
+  family: string;
+  weight: number;
+  italic: boolean;
+  // Prefijo de subconjunto ("ABCDEF+") si la fuente está incrustada parcialmente
+  subset?: string;
+}
+
+// Familia tipográfica detectada en las fuentes del PDF
+export interface DetectedTypeface {
+  family: string;
+  role?: FontRole;
+  // Pesos (100-900) usados en el papel de la familia, de menor a mayor
+  weights: number[];
+  italic: boolean;
+  embedded: boolean;
+  generic: FontUsage['generic'];
+  // Nombres PostScript de las fuentes de la familia, sin prefijo de subconjunto
+  postScriptNames: string[];
+  // Cuerpos de letra (en puntos) con los que se compone el texto del papel
+  sizes: number[];
+  characters: number;
+}
+
+// Pesos según las palabras de estilo del nombre (las compuestas van primero)
+const WEIGHT_KEYWORDS: Array<[RegExp, number]> = [
+  [/(extra|ultra)light/, 200],
+  [/(semi|demi)bold|demi/, 600],
+  [/(extra|ultra)bold|heavy/, 800],
+  [/thin|hairline/, 100],
+  [/light/, 300],
+  [/medium/, 500],
+  [/bold/, 700],
+  [/black|ultra|fat/, 900]
+];
+
+// Palabras de estilo que pueden aparecer pegadas al nombre de la familia ("ArialBold")
+const STYLE_SUFFIX = /(Thin|Hairline|ExtraLight|UltraLight|Light|Regular|Medium|SemiBold|DemiBold|Bold|ExtraBold|UltraBold|Heavy|Black|Italic|Oblique)+$/;
+
+// Sufijos de fabricante que no forman parte del nombre de la familia
+const VENDOR_SUFFIX = /(PSMT|PS|MT)$/;
+
+// Fuentes de símbolos, que no son tipografías de la marca
+const SYMBOL_FONT = /symbol|dingbats|wingdings|webdings/i;
+
+// Relación mínima entre un cuerpo de letra y el del texto principal para considerarlo titular
+const HEADING_SIZE_RATIO = 1.2;
+
+/**
+ * Separa las palabras de un nombre PostScript en estilo camello ("SourceCodePro" -> "Source Code Pro")
+ */
+function splitCamelCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/[_\s]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Deduce la familia, el peso y la cursiva de un nombre PostScript como
+ * "ABCDEF+BrandSans-SemiBoldItalic", "Arial,Bold" o "TimesNewRomanPS-BoldMT"
+ */
+export function parseFontName(postScriptName: string): ParsedFontName {
+  const subset = postScriptName.match(/^([A-Z]{6})\+/)?.[1];
+  const name = subset ? postScriptName.slice(subset.length + 1) : postScriptName;
+
+  let [base, style = ''] = name.split(/[-,]/, 2);
+  base = base.replace(VENDOR_SUFFIX, '');
+  style = style.replace(VENDOR_SUFFIX, '');
+
+  const suffix = base.match(STYLE_SUFFIX);
+  if (suffix && suffix.index) {
+    style = suffix[0] + style;
+    base = base.slice(0, suffix.index);
+  }
+
+  const normalizedStyle = style.toLowerCase();
+  const weight = WEIGHT_KEYWORDS.find(([pattern]) => pattern.test(normalizedStyle))?.[1] ?? 400;
+
+  return {
+    family: splitCamelCase(base),
+    weight,
+    italic: /italic|oblique|inclined|it$/.test(normalizedStyle),
+    subset
+  };
+}
+
+/**
+ * Nombre sin el prefijo de subconjunto
+ */
+function stripSubset(name: string): string {
+  return name.replace(/^[A-Z]{6}\+/, '');
+}
+
+/**
+ * Completa los datos del nombre con los del descriptor de la fuente (familia,
+ * peso e inclinación declarados) y los indicadores de estilo de pdf.js
+ */
+function describeFont(usage: FontUsage, descriptors: Map<string, FontDescriptorInfo>): ParsedFontName {
+  const parsed = parseFontName(usage.name);
+  const descriptor = descriptors.get(stripSubset(usage.name));
+
+  return {
+    family: descriptor?.family || parsed.family,
+    weight: descriptor?.weight || (parsed.weight === 400 && usage.bold ? 700 : parsed.weight),
+    italic: parsed.italic || Boolean(usage.italic) || (descriptor?.italicAngle ?? 0) !== 0,
+    subset: parsed.subset
+  };
+}
+
+/**
+ * Resume los usos de una familia (pesos, cuerpos, caracteres...) para un papel
+ */
+function summarize(
+  family: string,
+  usages: Array<FontUsage & { font: ParsedFontName }>,
+  role?: FontRole
+): DetectedTypeface {
+  return {
+    family,
+    role,
+    weights: Array.from(new Set(usages.map(usage => usage.font.weight))).sort((a, b) => a - b),
+    italic: usages.some(usage => usage.font.italic),
+    embedded: usages.some(usage => usage.embedded),
+    generic: usages[0].generic,
+    postScriptNames: Array.from(new Set(usages.map(usage => stripSubset(usage.name)))),
+    sizes: Array.from(new Set(usages.map(usage => usage.size))).sort((a, b) => b - a),
+    characters: usages.reduce((sum, usage) => sum + usage.characters, 0)
+  };
+}
+
+/**
+ * Detecta las familias tipográficas a partir de las fuentes con las que se
+ * compone el texto del PDF. El cuerpo de letra con más texto marca el texto
+ * principal: la familia que más texto compone con él es la de cuerpo y la
+ * que compone el texto más grande es la de titulares. Una misma familia
+ * puede ocupar los dos papeles, cada uno con sus propios pesos.
+ */
+export function detectTypefaces(analysis: PDFAnalysis): DetectedTypeface[] {
+  const descriptors = new Map(analysis.fontDescriptors.map(descriptor => [stripSubset(descriptor.name), descriptor]));
+  const usages = analysis.pages
+    .flatMap(page => page.fonts)
+    .filter(usage => !SYMBOL_FONT.test(usage.name))
+    .map(usage => ({ ...usage, font: describeFont(usage, descriptors) }))
+    .filter(usage => usage.font.family.length > 0);
+
+  if (usages.length === 0) return [];
+
+  // Cuerpo del texto principal: el que compone más caracteres
+  const charactersBySize = new Map<number, number>();
+  for (const usage of usages) {
+    charactersBySize.set(usage.size, (charactersBySize.get(usage.size) || 0) + usage.characters);
+  }
+  const bodySize = Array.from(charactersBySize.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+  const isHeading = (usage: FontUsage) => usage.size >= bodySize * HEADING_SIZE_RATIO;
+
+  const byFamily = new Map<string, typeof usages>();
+  for (const usage of usages) {
+    byFamily.set(usage.font.family, [...(byFamily.get(usage.font.family) || []), usage]);
+  }
+  const familyCharacters = (family: string, filter: (usage: FontUsage) => boolean) =>
+    (byFamily.get(family) || []).filter(filter).reduce((sum, usage) => sum + usage.characters, 0);
+
+  const families = Array.from(byFamily.keys());
+  const bodyFamily = families
+    .sort((a, b) => familyCharacters(b, usage => usage.size === bodySize) - familyCharacters(a, usage => usage.size === bodySize))[0];
+  const headingFamily = usages.some(isHeading)
+    ? usages.filter(isHeading).sort((a, b) => b.size - a.size || b.characters - a.characters)[0].font.family
+    : bodyFamily;
+
+  const typefaces: DetectedTypeface[] = [];
+  const headingUsages = byFamily.get(headingFamily)!.filter(isHeading);
+  typefaces.push(summarize(headingFamily, headingUsages.length > 0 ? headingUsages : byFamily.get(headingFamily)!, 'heading'));
+
+  const bodyUsages = byFamily.get(bodyFamily)!.filter(usage => !isHeading(usage));
+  typefaces.push(summarize(bodyFamily, bodyUsages.length > 0 ? bodyUsages : byFamily.get(bodyFamily)!, 'body'));
+
+  // El resto de familias, de más a menos texto; la primera es la de acento
+  const others = families
+    .filter(family => family !== headingFamily && family !== bodyFamily)
+    .sort((a, b) => familyCharacters(b, () => true) - familyCharacters(a, () => true));
+  others.forEach((family, index) => {
+    typefaces.push(summarize(family, byFamily.get(family)!, index === 0 ? 'accent' : undefined));
+  });
+
+  return typefaces;
+}
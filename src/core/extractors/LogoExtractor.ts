@@ -0,0 +1,233 @@
+import { PDFAnalysis, PageAnalysis, TextLine, VectorPath } from './PDFContentAnalyzer.js';
+import { ArtworkGroup, renderArtworkPng, renderArtworkSvg } from './ArtworkRenderer.js';
+import { assignLinesToAnchors, boundsDistance } from './SwatchLabeler.js';
+import { RGB, clusterColors, deltaE, rgbToHex, rgbToLab } from '../../utils/color.js';
+
+// Variantes de logo que se distinguen
+export type LogoVariant = 'primary' | 'monochrome' | 'reversed' | 'icon';
+
+// Logo extraído de las páginas del PDF
+export interface ExtractedLogo {
+  page: number;
+  variant: LogoVariant;
+  label?: string;
+  width: number;
+  height: number;
+  backgroundColor: string;
+  colors: string[];
+  png: Buffer;
+  svg?: string;
+}
+
+// Encabezados y rótulos que indican que una página muestra el logo
+export const LOGO_HEADING_PATTERN =
+  /\b(logos?|logotipos?|logotypes?|isotipos?|imagotipos?|isologos?|s[íi]mbolos?|symbols?|wordmarks?|brand\s?marks?)\b/i;
+
+// Pistas de variante en los rótulos cercanos, en inglés y en español
+const VARIANT_KEYWORDS: Array<[LogoVariant, RegExp]> = [
+  ['reversed', /\b(negativ[oa]|reversed?|invers[oa]|inverted|knock-?out|sobre fondo oscuro|on dark)\b/i],
+  ['monochrome', /\b(monocrom[oa]|monocrom[aá]tic[oa]|monochrome|una tinta|one[- ]colou?r|single[- ]colou?r|blanco y negro|black (and|&) white|escala de grises|grayscale)\b/i],
+  ['icon', /\b(isotipo|icono|icon|s[íi]mbolo|symbol|favicon|avatar|monograma|monogram)\b/i],
+  ['primary', /\b(principal|primary|main|positivo|positive)\b/i]
+];
+
+// Separación máxima (en puntos) entre elementos de un mismo logo
+const LOGO_GROUP_GAP = 12;
+
+// Tamaño mínimo (en puntos) de un logo
+const LOGO_MIN_SIZE = 12;
+
+// Número máximo de logos por documento
+const MAX_LOGOS = 8;
+
+/**
+ * Indica si una página tiene rótulos relacionados con el logo
+ */
+export function isLogoPage(page: { textLines: TextLine[] }): boolean {
+  return page.textLines.some(line => LOGO_HEADING_PATTERN.test(line.text));
+}
+
+/**
+ * Luminosidad perceptual de un color (L* de CIELAB, de 0 a 1)
+ */
+function lightness(rgb: RGB): number {
+  return rgbToLab(rgb).l / 100;
+}
+
+/**
+ * Agrupa los trazados e imágenes cercanos de una página en piezas gráficas.
+ * Los trazados formados solo por rectángulos (fondos, muestras de color,
+ * marcos) no forman parte de las piezas.
+ */
+function groupArtwork(page: PageAnalysis): ArtworkGroup[] {
+  const artwork = page.artwork;
+  if (!artwork) return [];
+
+  const pageArea = page.width * page.height;
+  const items: Array<{ bounds: VectorPath['bounds']; path?: VectorPath; image?: ArtworkGroup['images'][number] }> = [
+    ...artwork.paths.filter(path => !path.rectangle).map(path => ({ bounds: path.bounds, path })),
+    ...artwork.images
+      .filter(image => image.bounds.width * image.bounds.height < pageArea * 0.5)
+      .map(image => ({ bounds: image.bounds, image }))
+  ];
+
+  // Unión de elementos cercanos (union-find)
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (boundsDistance(items[i].bounds, items[j].bounds) <= LOGO_GROUP_GAP) {
+        parent[find(i)] = find(j);
+      }
+    }
+  }
+
+  const groups = new Map<number, ArtworkGroup>();
+  items.forEach((item, index) => {
+    const root = find(index);
+    const group = groups.get(root) || { page: page.page, bounds: item.bounds, paths: [], images: [] };
+    const x = Math.min(group.bounds.x, item.bounds.x);
+    const y = Math.min(group.bounds.y, item.bounds.y);
+    group.bounds = {
+      x,
+      y,
+      width: Math.max(group.bounds.x + group.bounds.width, item.bounds.x + item.bounds.width) - x,
+      height: Math.max(group.bounds.y + group.bounds.height, item.bounds.y + item.bounds.height) - y
+    };
+    if (item.path) group.paths.push(item.path);
+    if (item.image) group.images.push(item.image);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values()).filter(group =>
+    group.bounds.width >= LOGO_MIN_SIZE &&
+    group.bounds.height >= LOGO_MIN_SIZE &&
+    group.bounds.width < page.width * 0.9 &&
+    group.bounds.height < page.height * 0.9
+  );
+}
+
+/**
+ * Color del fondo sobre el que está la pieza: el rectángulo relleno más pequeño
+ * que la contiene o, si no hay ninguno, blanco (el papel)
+ */
+function backgroundColor(group: ArtworkGroup, page: PageAnalysis): RGB {
+  const { x, y, width, height } = group.bounds;
+  const container = (page.artwork?.paths || [])
+    .filter(path => path.rectangle && path.fill)
+    .filter(path =>
+      path.bounds.x <= x + 1 && path.bounds.y <= y + 1 &&
+      path.bounds.x + path.bounds.width >= x + width - 1 &&
+      path.bounds.y + path.bounds.height >= y + height - 1
+    )
+    .sort((a, b) => a.bounds.width * a.bounds.height - b.bounds.width * b.bounds.height)[0];
+
+  return container?.fill || { r: 255, g: 255, b: 255 };
+}
+
+/**
+ * Colores de la pieza (rellenos, trazos y píxeles opacos de sus imágenes),
+ * sin los que coinciden con el fondo
+ */
+function artworkColors(group: ArtworkGroup, background: RGB): RGB[] {
+  const samples: Array<{ rgb: RGB; weight: number }> = [];
+
+  for (const path of group.paths) {
+    const weight = path.bounds.width * path.bounds.height;
+    if (path.fill) samples.push({ rgb: path.fill, weight });
+    if (path.stroke) samples.push({ rgb: path.stroke, weight: weight * 0.1 });
+  }
+
+  for (const image of group.images) {
+    const pixels = image.width * image.height;
+    const step = Math.max(1, Math.floor(pixels / 2500));
+    for (let i = 0; i < pixels; i += step) {
+      if (image.rgba[i * 4 + 3] < 128) continue;
+      samples.push({ rgb: { r: image.rgba[i * 4], g: image.rgba[i * 4 + 1], b: image.rgba[i * 4 + 2] }, weight: 1 });
+    }
+  }
+
+  const clusters = clusterColors(samples, 10).filter(cluster => deltaE(cluster.rgb, background) >= 5);
+  const total = clusters.reduce((sum, cluster) => sum + cluster.weight, 0);
+  return clusters.filter(cluster => total > 0 && cluster.weight / total >= 0.05).map(cluster => cluster.rgb);
+}
+
+/**
+ * Clasifica la variante de un logo: primero por los rótulos cercanos y, si no
+ * la indican, por el fondo, los colores y la proporción de la pieza
+ */
+function classifyVariant(
+  group: ArtworkGroup,
+  label: string,
+  background: RGB,
+  colors: RGB[],
+  largestArea: number
+): LogoVariant {
+  const labelled = VARIANT_KEYWORDS.find(([, pattern]) => pattern.test(label));
+  if (labelled) return labelled[0];
+
+  const averageLightness = colors.length > 0
+    ? colors.reduce((sum, color) => sum + lightness(color), 0) / colors.length
+    : 0;
+  if (lightness(background) < 0.4 && averageLightness > lightness(background) + 0.3) {
+    return 'reversed';
+  }
+
+  const aspect = group.bounds.width / group.bounds.height;
+  if (aspect >= 0.8 && aspect <= 1.25 && group.bounds.width * group.bounds.height * 2 <= largestArea) {
+    return 'icon';
+  }
+
+  if (colors.length <= 1) {
+    return 'monochrome';
+  }
+
+  return 'primary';
+}
+
+/**
+ * Extrae los logos de las páginas con rótulos de logo: agrupa sus trazados e
+ * imágenes en piezas, las clasifica y las exporta como PNG y, si contienen
+ * trazados vectoriales, como SVG
+ */
+export function extractLogoArtwork(analysis: PDFAnalysis, maxSize = 512): ExtractedLogo[] {
+  const candidates = analysis.pages
+    .filter(page => page.artwork && isLogoPage(page))
+    .flatMap(page => groupArtwork(page).map(group => ({ group, page })))
+    .sort((a, b) => b.group.bounds.width * b.group.bounds.height - a.group.bounds.width * a.group.bounds.height)
+    .slice(0, MAX_LOGOS);
+
+  if (candidates.length === 0) return [];
+
+  const largestArea = candidates[0].group.bounds.width * candidates[0].group.bounds.height;
+  const lines = analysis.pages.flatMap(page => page.textLines);
+  const labels = assignLinesToAnchors(candidates.map(({ group }) => ({ page: group.page, bounds: group.bounds })), lines, 48);
+
+  const logos: ExtractedLogo[] = candidates.map(({ group, page }, index) => {
+    const background = backgroundColor(group, page);
+    const colors = artworkColors(group, background);
+    const labelLines = labels[index].sort((a, b) => b.bounds.y - a.bounds.y).map(line => line.text);
+    const png = renderArtworkPng(group, maxSize);
+
+    return {
+      page: group.page,
+      variant: classifyVariant(group, labelLines.join(' '), background, colors, largestArea),
+      label: labelLines[0],
+      width: png.width,
+      height: png.height,
+      backgroundColor: rgbToHex(background),
+      colors: colors.map(rgbToHex),
+      png: png.data,
+      svg: group.paths.length > 0 ? renderArtworkSvg(group) : undefined
+    };
+  });
+
+  // Una marca de una sola tinta no tiene versión "a color": si ningún logo es
+  // el principal, lo es el mayor de los que no son negativo ni isotipo
+  if (!logos.some(logo => logo.variant === 'primary')) {
+    const main = logos.find(logo => logo.variant === 'monochrome');
+    if (main) main.variant = 'primary';
+  }
+
+  return logos;
+}
@@ -0,0 +1,983 @@
+import pdfParse from 'pdf-parse';
+import pdfjs from 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js';
+import zlib from 'zlib';
+import { logger } from '../../utils/logger.js';
+import { CMYK, RGB, cmykToRgb } from '../../utils/color.js';
+
+const { OPS } = pdfjs;
+
+// Sin DOM no se pueden registrar las fuentes incrustadas como @font-face: sin
+// este ajuste pdf.js falla al cargarlas y nunca resuelve sus datos
+pdfjs.PDFJS.disableFontFace = true;
+
+// Subconjunto de la API de páginas de pdf.js que usa el analizador
+interface PDFPageProxy {
+  pageIndex: number;
+  view: number[];
+  getTextContent(options?: object): Promise<{ items: PDFTextItem[] }>;
+  getOperatorList(): Promise<{ fnArray: number[]; argsArray: Array<unknown[] | null> }>;
+  objs: { get(id: string): unknown };
+  commonObjs: { get(id: string, callback?: (data: unknown) => void): unknown };
+}
+
+// Datos de una fuente cargada por pdf.js que usa el analizador
+interface PDFFontData {
+  name: string;
+  missingFile?: boolean;
+  isMonospace?: boolean;
+  isSerifFont?: boolean;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+interface PDFTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  fontName: string;
+}
+
+// Imagen decodificada por pdf.js
+interface PDFImageData {
+  width: number;
+  height: number;
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+// Rectángulo en coordenadas de página (origen abajo a la izquierda, en puntos)
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Muestra de color pintada en una página, ponderada por el área que cubre
+export interface ColorSample {
+  rgb: RGB;
+  area: number;
+  page: number;
+  source: 'vector' | 'image';
+  bounds?: Bounds;
+  cmyk?: CMYK;
+  spot?: string;
+}
+
+// Línea de texto reconstruida a partir de los fragmentos de pdf.js
+export interface TextLine {
+  page: number;
+  text: string;
+  bounds: Bounds;
+  fontSize: number;
+}
+
+// Trazado vectorial pintado, en coordenadas de página
+export interface VectorPath {
+  // Datos del trazado en sintaxis SVG (eje Y hacia arriba, como en PDF)
+  d: string;
+  // Subtrazados aplanados (las curvas se aproximan por segmentos)
+  polygons: number[][][];
+  bounds: Bounds;
+  fill?: RGB;
+  stroke?: RGB;
+  lineWidth: number;
+  evenOdd: boolean;
+  // El trazado solo contiene rectángulos (fondos, muestras de color...)
+  rectangle: boolean;
+}
+
+// Imagen colocada en una página, decodificada a RGBA
+export interface ImagePlacement {
+  bounds: Bounds;
+  width: number;
+  height: number;
+  rgba: Uint8Array;
+}
+
+// Uso de una fuente en una página: cuerpo de letra y cantidad de texto compuesto
+export interface FontUsage {
+  page: number;
+  // Nombre PostScript de la fuente (BaseFont), con el prefijo de subconjunto si lo tiene
+  name: string;
+  // Cuerpo de letra efectivo, en puntos
+  size: number;
+  characters: number;
+  embedded: boolean;
+  generic: 'serif' | 'sans-serif' | 'monospace';
+  // Indicadores de estilo que pdf.js deduce del nombre (solo fuentes no incrustadas)
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// Descriptor de fuente (FontDescriptor) encontrado en el contenido sin procesar del PDF
+export interface FontDescriptorInfo {
+  name: string;
+  family?: string;
+  weight?: number;
+  italicAngle?: number;
+}
+
+// Elementos gráficos de una página (solo en las páginas que se piden)
+export interface PageArtwork {
+  paths: VectorPath[];
+  images: ImagePlacement[];
+}
+
+// Resultado del análisis de una página
+export interface PageAnalysis {
+  page: number;
+  width: number;
+  height: number;
+  colorSamples: ColorSample[];
+  textLines: TextLine[];
+  fonts: FontUsage[];
+  artwork?: PageArtwork;
+}
+
+// Opciones del análisis
+export interface AnalyzeOptions {
+  // Decide, a partir del texto de la página, si se conservan sus trazados e imágenes
+  collectArtwork?: (page: { page: number; textLines: TextLine[] }) => boolean;
+}
+
+// Definiciones de color encontradas en el contenido sin procesar del PDF
+export interface RawColorDefinitions {
+  cmyk: CMYK[];
+  spots: Array<{ name: string; cmyk: CMYK }>;
+}
+
+// Resultado completo del análisis del PDF
+export interface PDFAnalysis {
+  text: string;
+  numPages: number;
+  pages: PageAnalysis[];
+  rawColors: RawColorDefinitions;
+  fontDescriptors: FontDescriptorInfo[];
+}
+
+// Tipos de imagen de pdf.js (ImageKind)
+const IMAGE_KIND_GRAYSCALE_1BPP = 1;
+const IMAGE_KIND_RGB = 2;
+const IMAGE_KIND_RGBA = 3;
+
+// Número aproximado de píxeles que se muestrean por imagen
+const IMAGE_SAMPLE_TARGET = 2500;
+
+// Límites de los elementos gráficos que se conservan por página
+const MAX_ARTWORK_PATHS = 5000;
+const MAX_ARTWORK_IMAGE_PIXELS = 4_000_000;
+
+// Tiempo máximo de espera (ms) para que pdf.js resuelva los datos de una fuente
+const FONT_RESOLVE_TIMEOUT = 2000;
+
+// Segmentos con los que se aproxima cada curva de Bézier
+const CURVE_STEPS = 8;
+
+type Matrix = [number, number, number, number, number, number];
+
+/**
+ * Multiplica dos matrices de transformación afín de PDF
+ */
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ];
+}
+
+/**
+ * Factor de escala de área de una matriz (valor absoluto del determinante)
+ */
+function areaScale(matrix: Matrix): number {
+  return Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]);
+}
+
+/**
+ * Comprueba si los argumentos de un operador son una matriz de transformación
+ */
+function isMatrix(value: unknown): value is Matrix {
+  return Array.isArray(value) && value.length === 6 && value.every(item => typeof item === 'number');
+}
+
+/**
+ * Números de un argumento de operador (lista vacía si no es una lista)
+ */
+function numbersOf(value: unknown): number[] {
+  return Array.isArray(value) ? value.map(Number) : [];
+}
+
+/**
+ * Comprueba si un objeto de pdf.js es una imagen decodificada
+ */
+function isImageData(value: unknown): value is PDFImageData {
+  if (!value || typeof value !== 'object') return false;
+  const image = value as Record<string, unknown>;
+  return typeof image.width === 'number' && typeof image.height === 'number' && typeof image.kind === 'number'
+    && (image.data instanceof Uint8Array || image.data instanceof Uint8ClampedArray);
+}
+
+/**
+ * Datos de una fuente de pdf.js, si tiene nombre
+ */
+function toFontData(value: unknown): PDFFontData | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const font = value as Record<string, unknown>;
+  if (typeof font.name !== 'string' || !font.name) return undefined;
+
+  return {
+    name: font.name,
+    missingFile: font.missingFile === true,
+    isMonospace: font.isMonospace === true,
+    isSerifFont: font.isSerifFont === true,
+    bold: font.bold === true,
+    italic: font.italic === true
+  };
+}
+
+/**
+ * Rectángulo que contiene los puntos indicados. Se recorre con un bucle: un
+ * trazado puede tener tantos puntos que Math.min(...xs) desborda la pila
+ */
+function boundsOf(points: number[][]): Bounds | undefined {
+  if (points.length === 0) return undefined;
+
+  let [minX, minY] = points[0];
+  let [maxX, maxY] = points[0];
+  for (const [x, y] of points) {
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Une dos rectángulos (cualquiera de ellos puede no existir)
+ */
+function unionBounds(first?: Bounds, second?: Bounds): Bounds | undefined {
+  if (!first || !second) return first || second;
+
+  return boundsOf([
+    [first.x, first.y],
+    [first.x + first.width, first.y + first.height],
+    [second.x, second.y],
+    [second.x + second.width, second.y + second.height]
+  ]);
+}
+
+/**
+ * Aplica una matriz de transformación a un punto
+ */
+function applyMatrix([x, y]: number[], m: Matrix): number[] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/**
+ * Calcula el área y el perímetro (en unidades del espacio de usuario) de un
+ * trazado de constructPath, junto con sus vértices. Las curvas se aproximan
+ * por su polígono de control.
+ */
+function measurePath(ops: number[], coords: number[]): { area: number; perimeter: number; points: number[][] } {
+  let area = 0;
+  let perimeter = 0;
+  let subpath: number[][] = [];
+  const points: number[][] = [];
+  let index = 0;
+
+  const closeSubpath = () => {
+    points.push(...subpath);
+    if (subpath.length > 2) {
+      let shoelace = 0;
+      for (let i = 0; i < subpath.length; i++) {
+        const [x1, y1] = subpath[i];
+        const [x2, y2] = subpath[(i + 1) % subpath.length];
+        shoelace += x1 * y2 - x2 * y1;
+      }
+      area += Math.abs(shoelace) / 2;
+    }
+    for (let i = 1; i < subpath.length; i++) {
+      perimeter += Math.hypot(subpath[i][0] - subpath[i - 1][0], subpath[i][1] - subpath[i - 1][1]);
+    }
+    subpath = [];
+  };
+
+  for (const op of ops) {
+    switch (op) {
+      case OPS.rectangle: {
+        closeSubpath();
+        const [x, y, width, height] = coords.slice(index, index + 4);
+        area += Math.abs(width * height);
+        perimeter += 2 * (Math.abs(width) + Math.abs(height));
+        points.push([x, y], [x + width, y + height], [x, y + height], [x + width, y]);
+        index += 4;
+        break;
+      }
+      case OPS.moveTo:
+        closeSubpath();
+        subpath.push([coords[index], coords[index + 1]]);
+        index += 2;
+        break;
+      case OPS.lineTo:
+        subpath.push([coords[index], coords[index + 1]]);
+        index += 2;
+        break;
+      case OPS.curveTo:
+        subpath.push([coords[index], coords[index + 1]], [coords[index + 2], coords[index + 3]], [coords[index + 4], coords[index + 5]]);
+        index += 6;
+        break;
+      case OPS.curveTo2:
+      case OPS.curveTo3:
+        subpath.push([coords[index], coords[index + 1]], [coords[index + 2], coords[index + 3]]);
+        index += 4;
+        break;
+      case OPS.closePath:
+        closeSubpath();
+        break;
+    }
+  }
+  closeSubpath();
+
+  return { area, perimeter, points };
+}
+
+/**
+ * Traduce un trazado de constructPath a coordenadas de página: datos SVG y
+ * subtrazados aplanados para poder rasterizarlo
+ */
+function tracePath(ops: number[], coords: number[], ctm: Matrix): { d: string; polygons: number[][][]; rectangle: boolean } {
+  const commands: string[] = [];
+  const polygons: number[][][] = [];
+  let polygon: number[][] = [];
+  let current = [0, 0];
+  let rectangle = true;
+  let index = 0;
+
+  const point = (x: number, y: number) => applyMatrix([x, y], ctm);
+  const format = ([x, y]: number[]) => `${Math.round(x * 100) / 100} ${Math.round(y * 100) / 100}`;
+  const flush = () => {
+    if (polygon.length > 1) polygons.push(polygon);
+    polygon = [];
+  };
+  const curve = (c1: number[], c2: number[], end: number[]) => {
+    commands.push(`C${format(c1)} ${format(c2)} ${format(end)}`);
+    const start = current;
+    for (let step = 1; step <= CURVE_STEPS; step++) {
+      const t = step / CURVE_STEPS;
+      const mt = 1 - t;
+      polygon.push([0, 1].map(axis =>
+        mt ** 3 * start[axis] + 3 * mt * mt * t * c1[axis] + 3 * mt * t * t * c2[axis] + t ** 3 * end[axis]
+      ));
+    }
+    current = end;
+    rectangle = false;
+  };
+
+  for (const op of ops) {
+    switch (op) {
+      case OPS.rectangle: {
+        flush();
+        const [x, y, width, height] = coords.slice(index, index + 4);
+        const corners = [point(x, y), point(x + width, y), point(x + width, y + height), point(x, y + height)];
+        commands.push(`M${format(corners[0])}L${corners.slice(1).map(format).join(' ')}Z`);
+        polygons.push(corners);
+        current = corners[0];
+        index += 4;
+        break;
+      }
+      case OPS.moveTo:
+        flush();
+        current = point(coords[index], coords[index + 1]);
+        commands.push(`M${format(current)}`);
+        polygon.push(current);
+        index += 2;
+        break;
+      case OPS.lineTo:
+        current = point(coords[index], coords[index + 1]);
+        commands.push(`L${format(current)}`);
+        polygon.push(current);
+        rectangle = false;
+        index += 2;
+        break;
+      case OPS.curveTo:
+        curve(point(coords[index], coords[index + 1]), point(coords[index + 2], coords[index + 3]), point(coords[index + 4], coords[index + 5]));
+        index += 6;
+        break;
+      case OPS.curveTo2:
+        // "v": el primer punto de control es el punto actual
+        curve(current, point(coords[index], coords[index + 1]), point(coords[index + 2], coords[index + 3]));
+        index += 4;
+        break;
+      case OPS.curveTo3: {
+        // "y": el segundo punto de control es el punto final
+        const end = point(coords[index + 2], coords[index + 3]);
+        curve(point(coords[index], coords[index + 1]), end, end);
+        index += 4;
+        break;
+      }
+      case OPS.closePath:
+        commands.push('Z');
+        flush();
+        break;
+    }
+  }
+  flush();
+
+  return { d: commands.join(''), polygons, rectangle };
+}
+
+/**
+ * Convierte una imagen de pdf.js a RGBA de 8 bits por canal
+ */
+function toRgba(image: PDFImageData): Uint8Array | undefined {
+  const pixels = image.width * image.height;
+  if (!image.data || pixels === 0 || pixels > MAX_ARTWORK_IMAGE_PIXELS) return undefined;
+
+  const rgba = new Uint8Array(pixels * 4);
+
+  if (image.kind === IMAGE_KIND_RGBA) {
+    rgba.set(image.data.subarray(0, pixels * 4));
+    return rgba;
+  }
+
+  if (image.kind === IMAGE_KIND_RGB) {
+    for (let i = 0; i < pixels; i++) {
+      rgba[i * 4] = image.data[i * 3];
+      rgba[i * 4 + 1] = image.data[i * 3 + 1];
+      rgba[i * 4 + 2] = image.data[i * 3 + 2];
+      rgba[i * 4 + 3] = 255;
+    }
+    return rgba;
+  }
+
+  if (image.kind !== IMAGE_KIND_GRAYSCALE_1BPP) return undefined;
+
+  // Escala de grises de 1 bit por píxel: cada fila ocupa un número entero de bytes
+  const rowBytes = Math.ceil(image.width / 8);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const bit = image.data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+      const offset = (y * image.width + x) * 4;
+      rgba.fill(bit ? 255 : 0, offset, offset + 3);
+      rgba[offset + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+/**
+ * Muestrea los píxeles de una imagen y los agrupa en celdas de color cuantizadas
+ */
+function sampleImage(image: PDFImageData): Array<{ rgb: RGB; share: number }> {
+  if (!image?.data || (image.kind !== IMAGE_KIND_RGB && image.kind !== IMAGE_KIND_RGBA)) {
+    return [];
+  }
+
+  const channels = image.kind === IMAGE_KIND_RGBA ? 4 : 3;
+  const pixels = image.width * image.height;
+  const step = Math.max(1, Math.floor(Math.sqrt(pixels / IMAGE_SAMPLE_TARGET)));
+  const bins = new Map<number, { r: number; g: number; b: number; count: number }>();
+  let sampled = 0;
+
+  for (let y = 0; y < image.height; y += step) {
+    for (let x = 0; x < image.width; x += step) {
+      const offset = (y * image.width + x) * channels;
+      if (channels === 4 && image.data[offset + 3] < 128) continue;
+
+      const r = image.data[offset];
+      const g = image.data[offset + 1];
+      const b = image.data[offset + 2];
+      // Cuantización a 5 bits por canal
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bin = bins.get(key) || { r: 0, g: 0, b: 0, count: 0 };
+      bin.r += r;
+      bin.g += g;
+      bin.b += b;
+      bin.count++;
+      bins.set(key, bin);
+      sampled++;
+    }
+  }
+
+  if (sampled === 0) return [];
+
+  return Array.from(bins.values())
+    .map(bin => ({
+      rgb: { r: Math.round(bin.r / bin.count), g: Math.round(bin.g / bin.count), b: Math.round(bin.b / bin.count) },
+      share: bin.count / sampled
+    }))
+    .filter(bin => bin.share >= 0.02);
+}
+
+/**
+ * Número de glifos visibles de los argumentos de un operador de texto
+ */
+function countGlyphs(glyphs: unknown): number {
+  if (!Array.isArray(glyphs)) return 0;
+  return glyphs.filter(glyph => glyph && typeof glyph === 'object' && !glyph.isSpace).length;
+}
+
+/**
+ * Espera a que pdf.js resuelva los datos de una fuente cargada (nombre,
+ * indicadores de estilo...). Devuelve undefined si no llegan a tiempo.
+ */
+function resolveFont(page: PDFPageProxy, id: string): Promise<PDFFontData | undefined> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(undefined), FONT_RESOLVE_TIMEOUT);
+    page.commonObjs.get(id, data => {
+      clearTimeout(timer);
+      resolve(toFontData(data));
+    });
+  });
+}
+
+/**
+ * Recorre la lista de operadores de una página acumulando el área pintada con
+ * cada color de relleno y de trazo, además de los colores de las imágenes y
+ * el texto compuesto con cada fuente y cuerpo de letra.
+ * Si se pide, conserva también los trazados y las imágenes de la página.
+ */
+async function analyzePageGraphics(
+  page: PDFPageProxy,
+  collectArtwork: boolean
+): Promise<{ samples: ColorSample[]; fonts: FontUsage[]; artwork?: PageArtwork }> {
+  const pageNumber = page.pageIndex + 1;
+  const { fnArray, argsArray } = await page.getOperatorList();
+
+  const samples: ColorSample[] = [];
+  const artwork: PageArtwork | undefined = collectArtwork ? { paths: [], images: [] } : undefined;
+  const stack: Array<{ ctm: Matrix; fill: RGB; stroke: RGB; lineWidth: number; font?: string; fontSize: number }> = [];
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+  let textMatrix: Matrix = [1, 0, 0, 1, 0, 0];
+  let font: string | undefined;
+  let fontSize = 0;
+  // Caracteres compuestos por fuente y cuerpo de letra ("id|cuerpo")
+  const text = new Map<string, number>();
+  let fill: RGB = { r: 0, g: 0, b: 0 };
+  let stroke: RGB = { r: 0, g: 0, b: 0 };
+  let lineWidth = 1;
+  const emptyPath = (): { area: number; perimeter: number; bounds?: Bounds; traces: ReturnType<typeof tracePath>[] } =>
+    ({ area: 0, perimeter: 0, traces: [] });
+  let path = emptyPath();
+
+  const addPath = (paint: { fill?: RGB; stroke?: RGB; evenOdd?: boolean }) => {
+    if (!artwork || !path.bounds || path.traces.length === 0 || artwork.paths.length >= MAX_ARTWORK_PATHS) return;
+    artwork.paths.push({
+      d: path.traces.map(trace => trace.d).join(''),
+      polygons: path.traces.flatMap(trace => trace.polygons),
+      bounds: path.bounds,
+      fill: paint.fill && { ...paint.fill },
+      stroke: paint.stroke && { ...paint.stroke },
+      lineWidth: lineWidth * Math.sqrt(areaScale(ctm)),
+      evenOdd: paint.evenOdd || false,
+      rectangle: path.traces.every(trace => trace.rectangle)
+    });
+  };
+
+  const addSample = (rgb: RGB, area: number, source: ColorSample['source'], bounds?: Bounds) => {
+    if (area > 0) {
+      samples.push({ rgb: { ...rgb }, area, page: pageNumber, source, bounds });
+    }
+  };
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const fn = fnArray[i];
+    const args = argsArray[i] || [];
+
+    switch (fn) {
+      case OPS.save:
+        stack.push({ ctm, fill, stroke, lineWidth, font, fontSize });
+        break;
+      case OPS.restore: {
+        const state = stack.pop();
+        if (state) ({ ctm, fill, stroke, lineWidth, font, fontSize } = state);
+        break;
+      }
+      case OPS.beginText:
+        textMatrix = [1, 0, 0, 1, 0, 0];
+        break;
+      case OPS.setTextMatrix:
+        if (isMatrix(args)) textMatrix = args;
+        break;
+      case OPS.setFont:
+        font = typeof args[0] === 'string' ? args[0] : undefined;
+        fontSize = Number(args[1]) || 0;
+        break;
+      case OPS.showText:
+      case OPS.showSpacedText:
+      case OPS.nextLineShowText:
+      case OPS.nextLineSetSpacingShowText: {
+        const characters = countGlyphs(fn === OPS.nextLineSetSpacingShowText ? args[2] : args[0]);
+        const size = Math.round(Math.abs(fontSize) * Math.sqrt(areaScale(multiply(textMatrix, ctm))) * 10) / 10;
+        if (font && characters > 0 && size > 0) {
+          const key = `${font}|${size}`;
+          text.set(key, (text.get(key) || 0) + characters);
+        }
+        break;
+      }
+      case OPS.transform:
+        if (isMatrix(args)) ctm = multiply(args, ctm);
+        break;
+      case OPS.setLineWidth:
+        lineWidth = Number(args[0]) || 0;
+        break;
+      case OPS.setFillRGBColor: {
+        const [r, g, b] = numbersOf(args);
+        fill = { r, g, b };
+        break;
+      }
+      case OPS.setStrokeRGBColor: {
+        const [r, g, b] = numbersOf(args);
+        stroke = { r, g, b };
+        break;
+      }
+      case OPS.constructPath: {
+        const pathOps = numbersOf(args[0]);
+        const coords = numbersOf(args[1]);
+        const measured = measurePath(pathOps, coords);
+        path = {
+          area: path.area + measured.area,
+          perimeter: path.perimeter + measured.perimeter,
+          bounds: unionBounds(path.bounds, boundsOf(measured.points.map(point => applyMatrix(point, ctm)))),
+          traces: artwork ? [...path.traces, tracePath(pathOps, coords, ctm)] : path.traces
+        };
+        break;
+      }
+      case OPS.fill:
+      case OPS.eoFill:
+        addSample(fill, path.area * areaScale(ctm), 'vector', path.bounds);
+        addPath({ fill, evenOdd: fn === OPS.eoFill });
+        path = emptyPath();
+        break;
+      case OPS.stroke:
+      case OPS.closeStroke:
+        addSample(stroke, path.perimeter * lineWidth * areaScale(ctm), 'vector', path.bounds);
+        addPath({ stroke });
+        path = emptyPath();
+        break;
+      case OPS.fillStroke:
+      case OPS.eoFillStroke:
+      case OPS.closeFillStroke:
+      case OPS.closeEOFillStroke:
+        addSample(fill, path.area * areaScale(ctm), 'vector', path.bounds);
+        addSample(stroke, path.perimeter * lineWidth * areaScale(ctm), 'vector', path.bounds);
+        addPath({ fill, stroke, evenOdd: fn === OPS.eoFillStroke || fn === OPS.closeEOFillStroke });
+        path = emptyPath();
+        break;
+      case OPS.endPath:
+        path = emptyPath();
+        break;
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject: {
+        let image: PDFImageData | undefined;
+        try {
+          const data = fn === OPS.paintInlineImageXObject ? args[0] : typeof args[0] === 'string' ? page.objs.get(args[0]) : undefined;
+          image = isImageData(data) ? data : undefined;
+        } catch (error) {
+          logger.debug(`No se pudo leer la imagen ${args[0]} de la página ${pageNumber}`);
+        }
+        // Las imágenes se dibujan sobre el cuadrado unidad transformado por la CTM
+        const displayedArea = areaScale(ctm);
+        const bounds = boundsOf([[0, 0], [1, 0], [0, 1], [1, 1]].map(point => applyMatrix(point, ctm)));
+        for (const bin of image ? sampleImage(image) : []) {
+          addSample(bin.rgb, displayedArea * bin.share, 'image', bounds);
+        }
+
+        const rgba = artwork && image && bounds ? toRgba(image) : undefined;
+        if (artwork && image && bounds && rgba) {
+          artwork.images.push({ bounds, width: image.width, height: image.height, rgba });
+        }
+        break;
+      }
+    }
+  }
+
+  const resolved = new Map<string, PDFFontData | undefined>();
+  for (const id of new Set(Array.from(text.keys()).map(key => key.slice(0, key.lastIndexOf('|'))))) {
+    resolved.set(id, await resolveFont(page, id));
+  }
+
+  const fonts: FontUsage[] = [];
+  for (const [key, characters] of text) {
+    const separator = key.lastIndexOf('|');
+    const data = resolved.get(key.slice(0, separator));
+    if (!data) continue;
+
+    fonts.push({
+      page: pageNumber,
+      name: data.name,
+      size: Number(key.slice(separator + 1)),
+      characters,
+      embedded: !data.missingFile,
+      generic: data.isMonospace ? 'monospace' : data.isSerifFont ? 'serif' : 'sans-serif',
+      bold: data.bold || undefined,
+      italic: data.italic || undefined
+    });
+  }
+
+  return { samples, fonts, artwork };
+}
+
+/**
+ * Agrupa los fragmentos de texto de una página en líneas: fragmentos sobre la
+ * misma línea base y sin un hueco horizontal grande (p. ej. entre columnas)
+ */
+function buildTextLines(items: PDFTextItem[], pageNumber: number): TextLine[] {
+  const fragments = items
+    .filter(item => item.str.trim().length > 0)
+    .map(item => ({
+      str: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height || 10
+    }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: Array<{ y: number; fontSize: number; fragments: typeof fragments }> = [];
+
+  for (const fragment of fragments) {
+    const line = lines.find(candidate => {
+      const last = candidate.fragments[candidate.fragments.length - 1];
+      return Math.abs(candidate.y - fragment.y) < candidate.fontSize * 0.5 &&
+        fragment.x - (last.x + last.width) < candidate.fontSize * 3 &&
+        fragment.x >= last.x;
+    });
+
+    if (line) {
+      line.fragments.push(fragment);
+      line.fontSize = Math.max(line.fontSize, fragment.fontSize);
+    } else {
+      lines.push({ y: fragment.y, fontSize: fragment.fontSize, fragments: [fragment] });
+    }
+  }
+
+  return lines.map(line => {
+    let text = '';
+    let end: number | undefined;
+    for (const fragment of line.fragments) {
+      const gap = end === undefined ? 0 : fragment.x - end;
+      text += (gap > line.fontSize * 0.2 && !/\s$/.test(text) && !/^\s/.test(fragment.str) ? ' ' : '') + fragment.str;
+      end = fragment.x + fragment.width;
+    }
+
+    const x = line.fragments[0].x;
+    return {
+      page: pageNumber,
+      text: text.replace(/\s+/g, ' ').trim(),
+      bounds: { x, y: line.y, width: (end ?? x) - x, height: line.fontSize },
+      fontSize: line.fontSize
+    };
+  });
+}
+
+/**
+ * Texto de la página con el mismo criterio que pdf-parse: un salto de línea
+ * cada vez que cambia la coordenada vertical
+ */
+function renderPageText(items: PDFTextItem[]): string {
+  let lastY: number | undefined;
+  let text = '';
+
+  for (const item of items) {
+    if (lastY === item.transform[5] || lastY === undefined) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+
+  return text;
+}
+
+/**
+ * Decodifica el nombre de un color directo (#20 -> espacio)
+ */
+function decodePdfName(name: string): string {
+  return name.replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Contenido sin procesar del PDF: el archivo completo y cada stream que se
+ * puede descomprimir con FlateDecode (contenido de páginas, flujos de objetos...)
+ */
+function readRawChunks(buffer: Buffer): string[] {
+  const source = buffer.toString('latin1');
+  const chunks: string[] = [source];
+
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source)) !== null) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+
+    try {
+      chunks.push(zlib.inflateSync(buffer.subarray(start, end)).toString('latin1'));
+    } catch {
+      // No es un stream FlateDecode (o está dañado): el texto plano ya está en source
+    }
+    streamPattern.lastIndex = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Busca en los streams (descomprimidos cuando usan FlateDecode) los operadores
+ * CMYK (k/K) y las separaciones de color directo con alternativa CMYK, que
+ * pdf.js convierte a RGB antes de exponer la lista de operadores
+ */
+export function scanRawColorDefinitions(buffer: Buffer, chunks = readRawChunks(buffer)): RawColorDefinitions {
+  const cmyk = new Map<string, CMYK>();
+  const spots = new Map<string, { name: string; cmyk: CMYK }>();
+  const number = '(\\d*\\.?\\d+)';
+  const cmykOperator = new RegExp(`(?:^|[\\s\\]])${number}\\s+${number}\\s+${number}\\s+${number}\\s+[kK](?=\\s)`, 'g');
+  const separation = /\/Separation\s*\/([^\s/[\]<>()]+)\s*\/DeviceCMYK[\s\S]{0,200}?\/C1\s*\[\s*([\d.\s]+)\]/g;
+
+  for (const chunk of chunks) {
+    for (const found of chunk.matchAll(cmykOperator)) {
+      const [c, m, y, k] = found.slice(1, 5).map(Number);
+      if ([c, m, y, k].every(value => value <= 1)) {
+        cmyk.set(`${c} ${m} ${y} ${k}`, { c, m, y, k });
+      }
+    }
+
+    for (const found of chunk.matchAll(separation)) {
+      const values = found[2].trim().split(/\s+/).map(Number);
+      if (values.length === 4) {
+        const name = decodePdfName(found[1]);
+        spots.set(name, { name, cmyk: { c: values[0], m: values[1], y: values[2], k: values[3] } });
+      }
+    }
+  }
+
+  return { cmyk: Array.from(cmyk.values()), spots: Array.from(spots.values()) };
+}
+
+/**
+ * Decodifica una cadena literal de PDF ("(Brand Sans)") o hexadecimal ("<4272616E64>")
+ */
+function decodePdfString(value: string): string {
+  if (value.startsWith('<')) {
+    const hex = value.slice(1, -1).replace(/\s+/g, '');
+    return Buffer.from(hex, 'hex').toString('latin1').replace(/^\xfe\xff/, '').replace(/\x00/g, '');
+  }
+  return value.slice(1, -1).replace(/\\([()\\])/g, '$1');
+}
+
+/**
+ * Busca los descriptores de fuente (FontDescriptor) para completar lo que
+ * pdf.js no expone: la familia (FontFamily), el peso (FontWeight) y la
+ * inclinación (ItalicAngle) declarados
+ */
+export function scanFontDescriptors(buffer: Buffer, chunks = readRawChunks(buffer)): FontDescriptorInfo[] {
+  const descriptors = new Map<string, FontDescriptorInfo>();
+  const dictionary = /<<((?:(?!<<|>>)[\s\S])*\/Type\s*\/FontDescriptor(?:(?!<<|>>)[\s\S])*)>>/g;
+
+  for (const chunk of chunks) {
+    for (const found of chunk.matchAll(dictionary)) {
+      const body = found[1];
+      const name = body.match(/\/FontName\s*\/([^\s/[\]<>()]+)/)?.[1];
+      if (!name) continue;
+
+      const family = body.match(/\/FontFamily\s*(\((?:\\.|[^\\)])*\)|<[0-9A-Fa-f\s]*>)/)?.[1];
+      const weight = body.match(/\/FontWeight\s+(\d+)/)?.[1];
+      const italicAngle = body.match(/\/ItalicAngle\s+(-?\d*\.?\d+)/)?.[1];
+
+      descriptors.set(decodePdfName(name), {
+        name: decodePdfName(name),
+        family: family ? decodePdfString(family).trim() || undefined : undefined,
+        weight: weight ? Number(weight) : undefined,
+        italicAngle: italicAngle ? Number(italicAngle) : undefined
+      });
+    }
+  }
+
+  return Array.from(descriptors.values());
+}
+
+/**
+ * Asocia las definiciones CMYK y de color directo a las muestras cuyo RGB
+ * coincide con su conversión
+ */
+function annotateSamples(pages: PageAnalysis[], raw: RawColorDefinitions): void {
+  const matches = (a: RGB, b: RGB) => Math.abs(a.r - b.r) <= 2 && Math.abs(a.g - b.g) <= 2 && Math.abs(a.b - b.b) <= 2;
+  const cmykColors = raw.cmyk.map(cmyk => ({ cmyk, rgb: cmykToRgb(cmyk) }));
+  const spotColors = raw.spots.map(spot => ({ ...spot, rgb: cmykToRgb(spot.cmyk) }));
+
+  for (const sample of pages.flatMap(page => page.colorSamples)) {
+    if (sample.source !== 'vector') continue;
+
+    const spot = spotColors.find(candidate => matches(candidate.rgb, sample.rgb));
+    if (spot) {
+      sample.spot = spot.name;
+      sample.cmyk = spot.cmyk;
+      continue;
+    }
+
+    const process = cmykColors.find(candidate => matches(candidate.rgb, sample.rgb));
+    if (process) {
+      sample.cmyk = process.cmyk;
+    }
+  }
+}
+
+/**
+ * Analiza un PDF: extrae el texto, las líneas con su posición, las muestras de
+ * color y las fuentes usadas en cada página
+ */
+export async function analyzePDF(dataBuffer: Buffer, options: AnalyzeOptions = {}): Promise<PDFAnalysis> {
+  const pages: PageAnalysis[] = [];
+
+  // pdf.js lee el ArrayBuffer subyacente, que en buffers pequeños de Node es
+  // compartido; una copia garantiza que el documento empieza en el byte 0
+  const result = await pdfParse(new Uint8Array(dataBuffer), {
+    pagerender: async (page: PDFPageProxy) => {
+      const pageNumber = page.pageIndex + 1;
+      const [x0, y0, x1, y1] = page.view;
+      const { items } = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+
+      const textLines = buildTextLines(items, pageNumber);
+      const collectArtwork = options.collectArtwork?.({ page: pageNumber, textLines }) || false;
+
+      let graphics: { samples: ColorSample[]; fonts: FontUsage[]; artwork?: PageArtwork } = { samples: [], fonts: [] };
+      try {
+        graphics = await analyzePageGraphics(page, collectArtwork);
+      } catch (error) {
+        logger.warn(`No se pudo analizar el contenido gráfico de la página ${pageNumber}`);
+      }
+
+      pages.push({
+        page: pageNumber,
+        width: Math.abs(x1 - x0),
+        height: Math.abs(y1 - y0),
+        colorSamples: graphics.samples,
+        textLines,
+        fonts: graphics.fonts,
+        artwork: graphics.artwork
+      });
+
+      return renderPageText(items);
+    }
+  });
+
+  const chunks = readRawChunks(dataBuffer);
+  const rawColors = scanRawColorDefinitions(dataBuffer, chunks);
+  annotateSamples(pages, rawColors);
+
+  return {
+    text: result.text,
+    numPages: result.numpages,
+    pages,
+    rawColors,
+    fontDescriptors: scanFontDescriptors(dataBuffer, chunks)
+  };
+}
@@ -1,8 +1,19 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { CallToolRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../../utils/logger.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+import { listBrandsWith, readBrandFile, saveQuietly, workspaceId, workspacePath, writeBrandFile } from '../resources/Workspace.js';
+import { JsonSchema } from '../../utils/schema.js';
+import { RGB, clusterColors, cmykToString, deltaE, isAchromatic, rgbToHex, rgbToString } from '../../utils/color.js';
+import { ColorSample, PDFAnalysis, analyzePDF } from './PDFContentAnalyzer.js';
+import { DeclaredSwatch, groupDeclaredColors, parseColorNotations } from './ColorNotationParser.js';
+import { SwatchAnchor, buildLayoutText, labelSwatches, lineAt } from './SwatchLabeler.js';
+import { LogoVariant, extractLogoArtwork, isLogoPage } from './LogoExtractor.js';
+import { DetectedTypeface, detectTypefaces } from './FontExtractor.js';
+import { ClearSpaceRule, GridRule, TypeScaleStyle, extractSpacing } from './SpacingExtractor.js';
+import { BrandPersonality, extractPersonality } from './PersonalityExtractor.js';
+import { createHash } from 'crypto';
 import fs from 'fs';
-import pdfParse from 'pdf-parse';
+import path from 'path';
 
 // Interfaz para los datos de branding extraídos
 export interface BrandingData {
@@ -10,88 +21,467 @@ export interface BrandingData {
   typography: TypographyInfo[];
   logos: LogoInfo[];
   spacing?: SpacingInfo;
+  // Personalidad visual (esquinas y sombras), para los radios y sombras del tema
+  personality?: BrandPersonality;
   brandName?: string;
   brandTagline?: string;
+  // Manual del que se extraen los datos: nombre del archivo y hash SHA-256
+  source?: { file: string; sha256: string };
+  // Archivos de los que se extraen los datos (extract_brand_sources, extract_web_branding)
+  sources?: BrandSourceFile[];
 }
 
-interface ColorInfo {
+// Opciones de extracción de un manual
+export interface ExtractOptions {
+  extractColors?: boolean;
+  extractTypography?: boolean;
+  extractLogos?: boolean;
+  extractSpacing?: boolean;
+  extractPersonality?: boolean;
+  logoOutputDir?: string;
+}
+
+// Archivo de origen de un dato: nombre y páginas (desde 1) en las que aparece
+export interface SourceOrigin {
+  file: string;
+  pages?: number[];
+}
+
+// Archivo del que se extraen datos de marca
+export interface BrandSourceFile {
+  file: string;
+  type: BrandSourceType;
+  sha256: string;
+}
+
+// Tipos de archivo de los que se extraen datos de marca
+export type BrandSourceType = 'pdf' | 'svg' | 'ase' | 'aco' | 'css' | 'json' | 'html';
+
+export interface ColorInfo {
   name: string;
   hex: string;
   rgb?: string;
   cmyk?: string;
   category?: 'primary' | 'secondary' | 'accent' | 'neutral';
   usage?: string;
+  // Fracción del área total de las páginas pintada con este color (0-1)
+  coverage?: number;
+  // Páginas (desde 1) en las que aparece el color
+  pages?: number[];
+  // Origen de la evidencia: texto, contenido vectorial, imágenes incrustadas,
+  // archivos de muestras, hojas de estilos, Figma o una corrección manual
+  source?: 'text' | 'vector' | 'image' | 'swatch' | 'css' | 'figma' | 'manual';
+  // Archivos (y páginas) de los que procede el color
+  origins?: SourceOrigin[];
+  // Nombre del color directo de la separación (p. ej. "PANTONE 286 C")
+  spot?: string;
+  // Referencia Pantone normalizada (p. ej. "PANTONE 286 C")
+  pantone?: string;
+  // Notaciones del color tal como aparecen en el manual (HEX, CMYK, Pantone...)
+  notations?: string[];
 }
 
-interface TypographyInfo {
+export interface TypographyInfo {
   family: string;
   category?: 'heading' | 'body' | 'accent';
   weights?: string[];
   usage?: string;
+  // Familia genérica de respaldo (según los indicadores de la fuente)
+  fallback?: 'serif' | 'sans-serif' | 'monospace';
+  italic?: boolean;
+  // La fuente está incrustada en el PDF (completa o como subconjunto)
+  embedded?: boolean;
+  // Nombres PostScript de las fuentes del PDF (p. ej. "BrandSans-Bold")
+  postScriptNames?: string[];
+  // Cuerpos de letra (en puntos) con los que se compone el texto, de mayor a menor
+  sizes?: number[];
+  // Origen: fuentes del PDF, menciones en el texto, hojas de estilos, estilos
+  // de Figma o una corrección manual
+  source?: 'font' | 'text' | 'css' | 'figma' | 'manual';
+  // Archivos de los que procede la tipografía
+  origins?: SourceOrigin[];
 }
 
-interface LogoInfo {
+export interface LogoInfo {
   name: string;
   type: 'primary' | 'secondary' | 'alternative' | 'icon';
   description?: string;
+  // Imagen PNG del logo (no se incluye en la respuesta JSON de la herramienta)
   imageData?: Buffer;
+  variant?: LogoVariant;
+  // Dimensiones en píxeles del PNG exportado
+  width?: number;
+  height?: number;
+  backgroundColor?: string;
+  colors?: string[];
+  page?: number;
+  // Archivos exportados en disco
+  files?: {
+    png?: string;
+    svg?: string;
+  };
+  // Archivo (y página) del que procede el logo
+  origins?: SourceOrigin[];
 }
 
-interface SpacingInfo {
+// Medidas en píxeles CSS (las del manual en pt o mm se convierten)
+export interface SpacingInfo {
   base?: number;
   scale?: number[];
   rules?: string[];
+  // Estilos de la escala tipográfica ("H1 48pt / 56pt")
+  typeScale?: TypeScaleStyle[];
+  grid?: GridRule;
+  margins?: number;
+  // Zona de protección alrededor del logo
+  clearSpace?: ClearSpaceRule;
 }
 
+// Cobertura mínima para considerar un color pintado como parte de la paleta
+const MIN_COLOR_COVERAGE = 0.002;
+
+// Distancia CIE76 máxima para identificar un color declarado en el texto con uno pintado
+const DECLARED_COLOR_DISTANCE = 10;
+
+// Número máximo de colores en la paleta extraída
+const MAX_COLORS = 12;
+
+// Formato hexadecimal admitido para los colores (#rgb o #rrggbb)
+export const HEX_COLOR_PATTERN = '^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})$';
+
+// Esquema JSON de los archivos de origen de un dato (SourceOrigin[])
+const sourceOriginsSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      file: { type: 'string' },
+      pages: { type: 'array', items: { type: 'number', minimum: 1 } }
+    },
+    required: ['file']
+  }
+};
+
+// Esquema JSON de LogoInfo (sin imageData, que solo existe en memoria)
+export const logoInfoSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { type: 'string', enum: ['primary', 'secondary', 'alternative', 'icon'] },
+    description: { type: 'string' },
+    variant: { type: 'string', enum: ['primary', 'monochrome', 'reversed', 'icon'] },
+    width: { type: 'number', minimum: 1 },
+    height: { type: 'number', minimum: 1 },
+    backgroundColor: { type: 'string', pattern: HEX_COLOR_PATTERN },
+    colors: { type: 'array', items: { type: 'string', pattern: HEX_COLOR_PATTERN } },
+    page: { type: 'number', minimum: 1 },
+    files: {
+      type: 'object',
+      properties: {
+        png: { type: 'string' },
+        svg: { type: 'string' }
+      }
+    },
+    origins: sourceOriginsSchema
+  },
+  required: ['name', 'type']
+};
+
+// Esquema JSON de BrandPersonality
+export const brandPersonalitySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    corners: { type: 'string', enum: ['sharp', 'soft', 'rounded'] },
+    elevation: { type: 'string', enum: ['flat', 'subtle', 'elevated'] },
+    radius: { type: 'number', minimum: 0 },
+    evidence: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+// Esquema JSON de las opciones de extracción de un manual
+export const extractOptionsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    extractColors: {
+      type: 'boolean',
+      description: 'Extraer paleta de colores'
+    },
+    extractTypography: {
+      type: 'boolean',
+      description: 'Extraer información tipográfica'
+    },
+    extractLogos: {
+      type: 'boolean',
+      description: 'Extraer logos y variantes'
+    },
+    extractSpacing: {
+      type: 'boolean',
+      description: 'Extraer escala tipográfica, espaciado, retícula y zona de protección del logo'
+    },
+    extractPersonality: {
+      type: 'boolean',
+      description: 'Deducir la personalidad visual de la marca (esquinas y sombras) del texto del manual'
+    },
+    logoOutputDir: {
+      type: 'string',
+      minLength: 1,
+      description: 'Directorio donde guardar los logos exportados (por defecto, logos/<nombre-del-pdf> en el workspace)'
+    }
+  },
+  additionalProperties: false
+};
+
+// Esquema JSON de BrandingData, usado para validar los datos que envían los agentes
+export const brandingDataSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    colors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          hex: { type: 'string', pattern: HEX_COLOR_PATTERN },
+          rgb: { type: 'string' },
+          cmyk: { type: 'string' },
+          category: { type: 'string', enum: ['primary', 'secondary', 'accent', 'neutral'] },
+          usage: { type: 'string' },
+          coverage: { type: 'number', minimum: 0, maximum: 1 },
+          pages: { type: 'array', items: { type: 'number', minimum: 1 } },
+          source: { type: 'string', enum: ['text', 'vector', 'image', 'swatch', 'css', 'figma', 'manual'] },
+          origins: sourceOriginsSchema,
+          spot: { type: 'string' },
+          pantone: { type: 'string' },
+          notations: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name', 'hex']
+      }
+    },
+    typography: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          family: { type: 'string', minLength: 1 },
+          category: { type: 'string', enum: ['heading', 'body', 'accent'] },
+          weights: { type: 'array', items: { type: 'string' } },
+          usage: { type: 'string' },
+          fallback: { type: 'string', enum: ['serif', 'sans-serif', 'monospace'] },
+          italic: { type: 'boolean' },
+          embedded: { type: 'boolean' },
+          postScriptNames: { type: 'array', items: { type: 'string' } },
+          sizes: { type: 'array', items: { type: 'number', minimum: 0 } },
+          source: { type: 'string', enum: ['font', 'text', 'css', 'figma', 'manual'] },
+          origins: sourceOriginsSchema
+        },
+        required: ['family']
+      }
+    },
+    logos: {
+      type: 'array',
+      items: logoInfoSchema
+    },
+    spacing: {
+      type: 'object',
+      properties: {
+        base: { type: 'number', minimum: 0 },
+        scale: { type: 'array', items: { type: 'number' } },
+        rules: { type: 'array', items: { type: 'string' } },
+        typeScale: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              level: {
+                type: 'string',
+                enum: ['display', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'subtitle', 'body', 'small', 'caption']
+              },
+              label: { type: 'string' },
+              size: { type: 'number', exclusiveMinimum: 0 },
+              lineHeight: { type: 'number', minimum: 0 }
+            },
+            required: ['level', 'size']
+          }
+        },
+        grid: {
+          type: 'object',
+          properties: {
+            columns: { type: 'integer', minimum: 1 },
+            gutter: { type: 'number', minimum: 0 }
+          }
+        },
+        margins: { type: 'number', minimum: 0 },
+        clearSpace: {
+          type: 'object',
+          properties: {
+            size: { type: 'number', minimum: 0 },
+            multiple: { type: 'number', minimum: 0 },
+            reference: { type: 'string' }
+          }
+        }
+      }
+    },
+    personality: brandPersonalitySchema,
+    brandName: { type: 'string' },
+    brandTagline: { type: 'string' },
+    source: {
+      type: 'object',
+      properties: {
+        file: { type: 'string' },
+        sha256: { type: 'string', pattern: '^[0-9a-f]{64}$' }
+      },
+      required: ['file', 'sha256']
+    },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          type: { type: 'string', enum: ['pdf', 'svg', 'ase', 'aco', 'css', 'json', 'html'] },
+          sha256: { type: 'string', pattern: '^[0-9a-f]{64}$' }
+        },
+        required: ['file', 'type', 'sha256']
+      }
+    }
+  },
+  required: ['colors', 'typography', 'logos']
+};
+
 /**
- * Extrae colores de un texto de PDF
- * Busca patrones comunes de definición de colores como HEX, RGB, CMYK
+ * Extrae la paleta de colores de un PDF.
+ * Agrupa los colores pintados en las páginas (rellenos, trazos e imágenes) y
+ * los ordena por el área que cubren; las muestras declaradas en el texto (HEX,
+ * RGB, HSL, Lab, Pantone o CMYK) corrigen el valor exacto del grupo equivalente
+ * o se añaden sin cobertura.
+ * Las categorías se asignan por evidencia: los acromáticos son neutros y los
+ * cromáticos con más cobertura pasan a ser primario, secundario y acento.
  */
-function extractColors(text: string): ColorInfo[] {
-  const colors: ColorInfo[] = [];
-  
-  // Búsqueda de códigos hexadecimales
-  const hexPattern = /#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})/g;
-  const hexMatches = text.match(hexPattern) || [];
-  
-  // Crear entradas de color para cada coincidencia de hex
-  hexMatches.forEach((hex, index) => {
-    colors.push({
-      name: `Color ${index + 1}`,
-      hex: hex,
-      category: index === 0 ? 'primary' : (index === 1 ? 'secondary' : 'accent')
-    });
-  });
-  
-  // Búsqueda de colores RGB
-  const rgbPattern = /RGB\s*\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*\)/gi;
-  let rgbMatch;
-  while ((rgbMatch = rgbPattern.exec(text)) !== null) {
-    const rgb = `rgb(${rgbMatch[1]}, ${rgbMatch[2]}, ${rgbMatch[3]})`;
-    
-    // Convertir RGB a HEX
-    const r = parseInt(rgbMatch[1]);
-    const g = parseInt(rgbMatch[2]);
-    const b = parseInt(rgbMatch[3]);
-    const hex = '#' + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
-    
-    // Añadir solo si no existe ya un color con este hex
-    if (!colors.some(c => c.hex.toLowerCase() === hex.toLowerCase())) {
-      colors.push({
-        name: `Color RGB ${colors.length + 1}`,
-        hex: hex,
-        rgb: rgb
-      });
+function extractColors(text: string, analysis?: PDFAnalysis): ColorInfo[] {
+  const samples = (analysis?.pages || []).flatMap(page => page.colorSamples);
+  const totalArea = (analysis?.pages || []).reduce((total, page) => total + page.width * page.height, 0);
+
+  const clusters = clusterColors(samples.map(sample => ({ rgb: sample.rgb, weight: sample.area, data: sample })))
+    .map(cluster => ({ ...cluster, coverage: totalArea > 0 ? cluster.weight / totalArea : 0 }))
+    .filter(cluster => cluster.coverage >= MIN_COLOR_COVERAGE);
+
+  const candidates: Array<{ rgb: RGB; coverage: number; samples: ColorSample[]; swatch?: DeclaredSwatch }> = clusters.map(cluster => ({
+    rgb: cluster.rgb,
+    coverage: cluster.coverage,
+    samples: cluster.members.map(member => member.data as ColorSample)
+  }));
+
+  // Las notaciones se buscan en el texto por líneas para conocer su posición en la página
+  const textLines = (analysis?.pages || []).flatMap(page => page.textLines);
+  const layout = textLines.length > 0 ? buildLayoutText(textLines) : undefined;
+
+  const notationText = layout ? layout.text : text;
+  for (const swatch of groupDeclaredColors(parseColorNotations(notationText), notationText)) {
+    const distance = (rgb: RGB) => Math.min(...swatch.declarations.map(declared => deltaE(rgb, declared.rgb)));
+    const match = candidates
+      .filter(candidate => !candidate.swatch && distance(candidate.rgb) < DECLARED_COLOR_DISTANCE)
+      .sort((a, b) => distance(a.rgb) - distance(b.rgb))[0];
+
+    if (match) {
+      match.rgb = swatch.rgb;
+      match.swatch = swatch;
+    } else if (!candidates.some(candidate => candidate.swatch && rgbToHex(candidate.rgb) === rgbToHex(swatch.rgb))) {
+      candidates.push({ rgb: swatch.rgb, coverage: 0, samples: [], swatch });
     }
   }
-  
-  return colors;
+
+  const ranked = candidates
+    .sort((a, b) => b.coverage - a.coverage)
+    .slice(0, MAX_COLORS);
+
+  // Cada color se sitúa junto a su notación en el texto o, si no tiene, en su mayor área pintada
+  const anchors = ranked.map((candidate): SwatchAnchor | undefined => {
+    const line = layout && candidate.swatch ? lineAt(layout, candidate.swatch.index) : undefined;
+    if (line) return { page: line.page, bounds: line.bounds };
+
+    const largest = candidate.samples
+      .filter(sample => sample.bounds)
+      .sort((a, b) => b.area - a.area)[0];
+    return largest ? { page: largest.page, bounds: largest.bounds! } : undefined;
+  });
+  const labels = labelSwatches(anchors, textLines);
+
+  // Las categorías indicadas en el manual tienen prioridad; el resto se asigna
+  // por cobertura a los roles que sigan libres
+  const explicitCategories = new Set(labels.map(label => label.category));
+  const chromaticRoles = (['primary', 'secondary'] as const).filter(role => !explicitCategories.has(role));
+  let chromaticIndex = 0;
+
+  return ranked.map((candidate, index) => {
+    const label = labels[index];
+    const category = label.category || (isAchromatic(candidate.rgb)
+      ? 'neutral'
+      : chromaticRoles[chromaticIndex++] || 'accent');
+    const pages = Array.from(new Set(candidate.samples.map(sample => sample.page))).sort((a, b) => a - b);
+    const sources = new Set(candidate.samples.map(sample => sample.source));
+    const annotated = candidate.samples.find(sample => sample.spot) || candidate.samples.find(sample => sample.cmyk);
+    const cmyk = candidate.swatch?.cmyk || annotated?.cmyk;
+    const spot = annotated?.spot;
+    const pantone = candidate.swatch?.pantone || (spot && /^PANTONE\b/i.test(spot) ? spot : undefined);
+
+    const color: ColorInfo = {
+      name: label.name || pantone || spot || `Color ${index + 1}`,
+      hex: rgbToHex(candidate.rgb),
+      rgb: rgbToString(candidate.rgb),
+      category,
+      coverage: Math.round(candidate.coverage * 10000) / 10000,
+      pages,
+      source: sources.has('vector') ? 'vector' : sources.has('image') ? 'image' : 'text'
+    };
+
+    if (label.usage) color.usage = label.usage;
+    if (cmyk) color.cmyk = cmykToString(cmyk);
+    if (pantone) color.pantone = pantone;
+    if (spot) color.spot = spot;
+    if (candidate.swatch) color.notations = candidate.swatch.declarations.map(declared => declared.notation);
+
+    return color;
+  });
 }
 
+// Descripción del uso de cada papel tipográfico
+const TYPEFACE_USAGE: Record<NonNullable<DetectedTypeface['role']>, string> = {
+  heading: 'Titulares',
+  body: 'Texto principal',
+  accent: 'Textos destacados'
+};
+
 /**
- * Extrae información sobre tipografías de un texto PDF
+ * Extrae las tipografías de un PDF.
+ * Las familias, pesos y papeles salen de las fuentes con las que se compone
+ * el texto (diccionarios de fuente y descriptores); si el PDF no tiene texto
+ * compuesto con fuentes reconocibles, se buscan menciones de fuentes comunes
+ * en el texto.
  */
-function extractTypography(text: string): TypographyInfo[] {
+function extractTypography(text: string, analysis?: PDFAnalysis): TypographyInfo[] {
+  const detected = analysis ? detectTypefaces(analysis) : [];
+  if (detected.length > 0) {
+    return detected.map(typeface => ({
+      family: typeface.family,
+      category: typeface.role,
+      weights: typeface.weights.map(String),
+      usage: typeface.role ? `${TYPEFACE_USAGE[typeface.role]} (${typeface.sizes.join(', ')} pt)` : undefined,
+      fallback: typeface.generic,
+      italic: typeface.italic,
+      embedded: typeface.embedded,
+      postScriptNames: typeface.postScriptNames,
+      sizes: typeface.sizes,
+      source: 'font'
+    }));
+  }
+
+  return extractTypographyMentions(text);
+}
+
+/**
+ * Busca menciones de fuentes comunes en el texto del PDF
+ */
+function extractTypographyMentions(text: string): TypographyInfo[] {
   const typography: TypographyInfo[] = [];
   
   // Lista de fuentes comunes para buscar
@@ -109,7 +499,8 @@ function extractTypography(text: string): TypographyInfo[] {
     if (fontRegex.test(text)) {
       typography.push({
         family: font,
-        category: typography.length === 0 ? 'heading' : 'body'
+        category: typography.length === 0 ? 'heading' : 'body',
+        source: 'text'
       });
     }
   });
@@ -129,10 +520,81 @@ function extractTypography(text: string): TypographyInfo[] {
   return typography;
 }
 
+// Nombres y tipos de LogoInfo para cada variante extraída
+const LOGO_VARIANTS: Record<LogoVariant, { name: string; type: LogoInfo['type']; description: string }> = {
+  primary: { name: 'Logo Principal', type: 'primary', description: 'Logotipo principal extraído del PDF' },
+  monochrome: { name: 'Logo Monocromo', type: 'alternative', description: 'Versión a una tinta del logotipo' },
+  reversed: { name: 'Logo Negativo', type: 'alternative', description: 'Versión en negativo para fondos oscuros' },
+  icon: { name: 'Isotipo', type: 'icon', description: 'Versión de icono del logotipo' }
+};
+
+/**
+ * Directorio donde se guardan los logos exportados: el indicado en las opciones
+ * o logos/<nombre-del-pdf> en el workspace (no junto al PDF)
+ */
+function logoOutputDir(pdfPath: string, options: ExtractOptions): string {
+  if (options.logoOutputDir) {
+    return path.resolve(options.logoOutputDir);
+  }
+  return workspacePath('logos', workspaceId(path.parse(pdfPath).name, 'pdf'));
+}
+
 /**
- * Extrae información sobre logos (esta implementación es básica)
+ * Extrae los logos del PDF: las piezas gráficas de las páginas de logo se
+ * exportan como PNG (y SVG si son vectoriales) en el directorio de salida.
+ * Si no se encuentra ninguna, se recurre a las menciones en el texto.
  */
-function extractLogos(text: string): LogoInfo[] {
+async function extractLogos(text: string, analysis?: PDFAnalysis, outputDir?: string): Promise<LogoInfo[]> {
+  const extracted = analysis ? extractLogoArtwork(analysis) : [];
+  if (extracted.length === 0 || !outputDir) {
+    return extractLogoMentions(text);
+  }
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const used = new Map<string, number>();
+  let primaryFound = false;
+
+  const logos: LogoInfo[] = [];
+  for (const logo of extracted) {
+    const variant = LOGO_VARIANTS[logo.variant];
+    const count = (used.get(logo.variant) || 0) + 1;
+    used.set(logo.variant, count);
+
+    const baseName = `logo-${logo.variant}${count > 1 ? `-${count}` : ''}`;
+    const files: NonNullable<LogoInfo['files']> = { png: path.join(outputDir, `${baseName}.png`) };
+    await fs.promises.writeFile(files.png!, logo.png);
+    if (logo.svg) {
+      files.svg = path.join(outputDir, `${baseName}.svg`);
+      await fs.promises.writeFile(files.svg, logo.svg, 'utf-8');
+    }
+
+    // Solo el primer logo principal es "primary"; el resto son secundarios
+    const type: LogoInfo['type'] = variant.type === 'primary' && primaryFound ? 'secondary' : variant.type;
+    primaryFound = primaryFound || type === 'primary';
+
+    logos.push({
+      name: logo.label && logo.label.length <= 40 ? logo.label : variant.name,
+      type,
+      description: variant.description,
+      imageData: logo.png,
+      variant: logo.variant,
+      width: logo.width,
+      height: logo.height,
+      backgroundColor: logo.backgroundColor,
+      colors: logo.colors,
+      page: logo.page,
+      files
+    });
+  }
+
+  logger.info(`${logos.length} logos exportados en ${outputDir}`);
+  return logos;
+}
+
+/**
+ * Detecta logos a partir de las menciones en el texto, sin imagen
+ */
+function extractLogoMentions(text: string): LogoInfo[] {
   const logos: LogoInfo[] = [];
   
   // Buscar menciones de logos o variantes
@@ -189,7 +651,7 @@ function extractBrandName(text: string): string | undefined {
 /**
  * Extrae datos de branding de un PDF
  */
-async function extractBrandingFromPDF(pdfPath: string, options: any = {}): Promise<BrandingData> {
+export async function extractBrandingFromPDF(pdfPath: string, options: ExtractOptions = {}): Promise<BrandingData> {
   try {
     // Verificar si el archivo existe
     if (!fs.existsSync(pdfPath)) {
@@ -198,22 +660,31 @@ async function extractBrandingFromPDF(pdfPath: string, options: any = {}): Promi
     
     // Leer el archivo PDF
     const dataBuffer = fs.readFileSync(pdfPath);
-    const pdfData = await pdfParse(dataBuffer);
+    const analysis = await analyzePDF(dataBuffer, {
+      collectArtwork: options.extractLogos !== false ? isLogoPage : undefined
+    });
     
     // Extraer texto del PDF
-    const text = pdfData.text;
+    const text = analysis.text;
     
     // Extraer componentes de branding
-    const colors = options.extractColors !== false ? extractColors(text) : [];
-    const typography = options.extractTypography !== false ? extractTypography(text) : [];
-    const logos = options.extractLogos !== false ? extractLogos(text) : [];
+    const colors = options.extractColors !== false ? extractColors(text, analysis) : [];
+    const typography = options.extractTypography !== false ? extractTypography(text, analysis) : [];
+    const logos = options.extractLogos !== false ? await extractLogos(text, analysis, logoOutputDir(pdfPath, options)) : [];
+    const spacing = options.extractSpacing !== false
+      ? extractSpacing(analysis.pages.flatMap(page => page.textLines))
+      : undefined;
+    const personality = options.extractPersonality !== false ? extractPersonality(text) : undefined;
     const brandName = extractBrandName(text);
     
     return {
       colors,
       typography,
       logos,
-      brandName
+      spacing,
+      personality,
+      brandName,
+      source: { file: path.basename(pdfPath), sha256: createHash('sha256').update(dataBuffer).digest('hex') }
     };
   } catch (error) {
     logger.error('Error extracting branding from PDF:', error);
@@ -224,52 +695,68 @@ async function extractBrandingFromPDF(pdfPath: string, options: any = {}): Promi
 /**
  * Registra la herramienta MCP para extracción de PDF
  */
-export function registerPdfExtractorTool(server: Server): void {
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    if (request.params.name !== 'extract_pdf_branding') {
-      return; // No es esta herramienta, permitir que otro handler lo maneje
-    }
-    
-    try {
-      const { pdfPath, extractOptions } = request.params.arguments as { 
+export function registerPdfExtractorTool(registry: ToolRegistry): void {
+  registry.register({
+    name: 'extract_pdf_branding',
+    description: 'Extrae elementos visuales e identidad de marca desde un archivo PDF',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pdfPath: {
+          type: 'string',
+          minLength: 1,
+          description: 'Ruta al archivo PDF del manual de identidad corporativa'
+        },
+        extractOptions: extractOptionsSchema,
+        brand: {
+          type: 'string',
+          minLength: 1,
+          description: 'Identificador de la marca en el workspace (por defecto, el nombre de la marca o, si no se detecta, el del PDF)'
+        }
+      },
+      required: ['pdfPath'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const { pdfPath, extractOptions, brand } = args as {
         pdfPath: string;
-        extractOptions?: {
-          extractColors?: boolean;
-          extractTypography?: boolean;
-          extractLogos?: boolean;
-        };
+        brand?: string;
+        extractOptions?: ExtractOptions;
       };
-      
-      if (!pdfPath) {
-        throw new McpError(
-          ErrorCode.InvalidParams,
-          'Se requiere la ruta al archivo PDF (pdfPath)'
-        );
-      }
-      
+
       logger.info(`Extrayendo información de branding del PDF: ${pdfPath}`);
       const brandingData = await extractBrandingFromPDF(pdfPath, extractOptions);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(brandingData, null, 2)
-          }
-        ]
-      };
-    } catch (error) {
-      logger.error('Error en la herramienta extract_pdf_branding:', error);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
-      };
+
+      // Las imágenes de los logos se devuelven como rutas de archivo, no en línea
+      const text = JSON.stringify(brandingData, (key, value) => (key === 'imageData' ? undefined : value), 2);
+
+      // Los datos se guardan en el workspace como recurso brand://<marca>/branding.json
+      const brandId = workspaceId(brand || brandingData.brandName || path.basename(pdfPath, path.extname(pdfPath)));
+      const saved = await saveQuietly('los datos de marca', () => writeBrandFile(brandId, 'branding.json', text));
+
+      return { text, resources: saved ? [`brand://${brandId}/branding.json`] : [] };
+    }
+  });
+}
+
+/**
+ * Registra los datos de marca extraídos como recursos MCP
+ * (brand://<marca>/branding.json)
+ */
+export function registerBrandingResources(resources: ResourceRegistry): void {
+  resources.register({
+    uriTemplate: 'brand://{brand}/branding.json',
+    name: 'Datos de marca',
+    description: 'Colores, tipografías, logos, espaciado y personalidad extraídos del manual con extract_pdf_branding',
+    mimeType: 'application/json',
+    list: async () => (await listBrandsWith('branding.json')).map(brand => ({
+      uri: `brand://${brand}/branding.json`,
+      name: `Datos de marca de ${brand}`,
+      mimeType: 'application/json'
+    })),
+    read: async ({ brand }, uri) => {
+      const text = await readBrandFile(brand, 'branding.json');
+      return text === undefined ? undefined : { uri, mimeType: 'application/json', text };
     }
   });
-}
\ No newline at end of file
+}
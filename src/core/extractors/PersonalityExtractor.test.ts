@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractPersonality } from './PersonalityExtractor.js';
+
+describe('extractPersonality', () => {
+  it('reconoce las sombras proyectadas como elevación', () => {
+    assert.equal(extractPersonality('Las tarjetas usan sombras proyectadas para dar profundidad')?.elevation, 'elevated');
+    assert.equal(extractPersonality('Buttons use drop shadows')?.elevation, 'elevated');
+  });
+
+  it('no cuenta una mención de sombras sin calificar', () => {
+    assert.equal(extractPersonality('La sombra del texto sigue la guía de color'), undefined);
+    assert.equal(extractPersonality('Shadow color: #000000'), undefined);
+  });
+
+  for (const phrase of [
+    'No añadir sombras al logotipo',
+    'Nunca usar sombras',
+    'Avoid drop shadows',
+    "Don't add shadows to the logo",
+    'Evitar las sombras proyectadas',
+    'Diseño sin sombras'
+  ]) {
+    it(`trata "${phrase}" como diseño plano`, () => {
+      assert.equal(extractPersonality(phrase)?.elevation, 'flat');
+    });
+  }
+
+  it('limita la negación a su cláusula', () => {
+    const personality = extractPersonality('No usar degradados. Las tarjetas llevan sombras suaves');
+    assert.equal(personality?.elevation, 'subtle');
+  });
+
+  it('ignora las secciones de usos incorrectos hasta el final de la página', () => {
+    const text = [
+      'Esquinas redondeadas en botones y tarjetas',
+      '',
+      'Usos incorrectos',
+      'Añadir sombras proyectadas',
+      'Deformar el logotipo',
+      'Cambiar los colores',
+      '',
+      'Misuse',
+      'Drop shadows',
+      'Layered effects'
+    ].join('\n');
+
+    const personality = extractPersonality(text);
+    assert.equal(personality?.corners, 'rounded');
+    assert.equal(personality?.elevation, undefined);
+  });
+});
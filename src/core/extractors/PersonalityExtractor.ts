@@ -0,0 +1,140 @@
+import { LENGTH_UNIT_PATTERN, isLengthUnit, parseDecimal, toPixels } from '../../utils/units.js';
+
+// Forma de las esquinas de botones, tarjetas y campos
+export type CornerStyle = 'sharp' | 'soft' | 'rounded';
+
+// Uso de sombras para dar profundidad
+export type ElevationStyle = 'flat' | 'subtle' | 'elevated';
+
+// Personalidad visual de la marca: decide radios de borde y sombras
+export interface BrandPersonality {
+  corners?: CornerStyle;
+  elevation?: ElevationStyle;
+  // Radio de esquina declarado en el manual, en píxeles
+  radius?: number;
+  // Frases del manual de las que se deduce
+  evidence?: string[];
+}
+
+// Número máximo de frases que se conservan como evidencia
+const MAX_EVIDENCE = 6;
+
+// Menciones de cada forma de esquina, en inglés y en español (los límites de
+// palabra se comprueban con letras Unicode por las tildes)
+const CORNER_KEYWORDS: Array<[CornerStyle, RegExp]> = [
+  ['rounded', /(?<!\p{L})(esquinas? redondead[oa]s|bordes redondeados|formas? (?:redondeadas?|org[áa]nicas?|circulares)|curvas suaves|rounded (?:corners|edges|shapes)|soft corners|organic shapes|pill[- ]shaped?)(?!\p{L})/iu],
+  ['sharp', /(?<!\p{L})(esquinas? (?:rectas|vivas|en [áa]ngulo recto)|bordes (?:rectos|vivos)|[áa]ngulos rectos|sharp (?:corners|edges)|square corners|straight edges|formas? angulares|angular shapes)(?!\p{L})/iu]
+];
+
+// Menciones de cada nivel de profundidad; se comprueban en orden para que
+// "sombras suaves" no cuente como sombras marcadas. Una mención de sombras sin
+// calificar ("sombra") no indica ningún nivel.
+const ELEVATION_KEYWORDS: Array<[ElevationStyle, RegExp]> = [
+  ['flat', /(?<!\p{L})(dise[ñn]o plano|est[ée]tica plana|colores planos|flat (?:design|style|colors?)|minimalistas?|minimalist)(?!\p{L})/iu],
+  ['subtle', /(?<!\p{L})(sombras? (?:suaves?|sutil(?:es)?|ligeras?|difusas?)|(?:subtle|soft|light) shadows?)(?!\p{L})/iu],
+  ['elevated', /(?<!\p{L})(sombras? (?:proyectadas?|paralelas?|marcadas?|pronunciadas?|intensas?)|(?:drop|strong|deep|pronounced) shadows?|profundidad|depth|elevaci[óo]n|elevation|relieve|capas superpuestas|layered)(?!\p{L})/iu]
+];
+
+// Menciones de sombras, con o sin calificar
+const SHADOW_MENTION = /(?<!\p{L})(sombras?|shadows?|sombreado)(?!\p{L})/iu;
+
+// Negaciones y prohibiciones que convierten una mención de sombras en una
+// indicación de diseño plano ("No añadir sombras", "Avoid drop shadows")
+const NEGATION = /(?<!\p{L})(no|nunca|jam[áa]s|sin|evit(?:ar|e|en|a)|prohibid[oa]s?|avoid|never|without|don'?t|do not|not)(?!\p{L})/iu;
+
+// Separadores de las cláusulas de una línea, para que la negación de una no
+// afecte a las demás
+const CLAUSE_SEPARATOR = /[.;:!?]+\s|,\s*(?:pero|but)\s|\s[—–]\s/;
+
+// Encabezados de las secciones de usos incorrectos: lo que describen son
+// prohibiciones, no el estilo de la marca
+const MISUSE_HEADING = /(?<!\p{L})(usos? (?:incorrectos?|indebidos?|no permitidos?)|lo que no (?:se debe|hay que) hacer|qu[ée] no hacer|misuses?|incorrect (?:usage|use)s?|don'?ts)(?!\p{L})/iu;
+
+// Radio de esquina declarado ("radio de esquina: 8 px", "border radius 4px")
+const RADIUS = new RegExp(
+  `\\b(radio(?: de (?:esquina|borde|las esquinas))?|corner radius|border[- ]radius|radius)\\b[^\\d\\n]{0,20}?(\\d+(?:[.,]\\d+)?)\\s*(${LENGTH_UNIT_PATTERN})\\b`,
+  'i'
+);
+
+/**
+ * Cuenta las menciones de cada estilo en el texto y devuelve el más citado
+ */
+function dominantStyle<T extends string>(lines: string[], classify: (line: string) => T | undefined, evidence: string[]): T | undefined {
+  const votes = new Map<T, number>();
+
+  for (const line of lines) {
+    const style = classify(line);
+    if (!style) continue;
+
+    votes.set(style, (votes.get(style) || 0) + 1);
+    const quote = line.slice(0, 200);
+    if (evidence.length < MAX_EVIDENCE && !evidence.includes(quote)) evidence.push(quote);
+  }
+
+  return Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Nivel de profundidad que indica una línea: una cláusula que prohíbe o niega
+ * las sombras ("Nunca usar sombras") cuenta como diseño plano
+ */
+function elevationStyle(line: string): ElevationStyle | undefined {
+  for (const clause of line.split(CLAUSE_SEPARATOR)) {
+    if (SHADOW_MENTION.test(clause) && NEGATION.test(clause)) return 'flat';
+    const match = ELEVATION_KEYWORDS.find(([, pattern]) => pattern.test(clause));
+    if (match) return match[0];
+  }
+  return undefined;
+}
+
+/**
+ * Líneas del texto sin las secciones de usos incorrectos: cada una se descarta
+ * desde su encabezado hasta el final de la página (los bloques separados por
+ * una línea en blanco)
+ */
+function styleLines(text: string): string[] {
+  return text.split(/\n\s*\n/).flatMap(block => {
+    const lines = block.split(/\n+/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const misuse = lines.findIndex(line => MISUSE_HEADING.test(line));
+    return misuse >= 0 ? lines.slice(0, misuse) : lines;
+  });
+}
+
+/**
+ * Forma de esquina que corresponde a un radio en píxeles
+ */
+export function cornerStyleForRadius(radius: number): CornerStyle {
+  return radius === 0 ? 'sharp' : radius <= 4 ? 'soft' : 'rounded';
+}
+
+/**
+ * Deduce la personalidad visual de la marca del texto del manual: la forma
+ * de las esquinas y el uso de sombras se toman de las menciones más
+ * frecuentes y el radio, de una medida declarada. Devuelve undefined si el
+ * manual no dice nada al respecto.
+ */
+export function extractPersonality(text: string): BrandPersonality | undefined {
+  const lines = styleLines(text);
+  const evidence: string[] = [];
+  const personality: BrandPersonality = {};
+
+  const radius = lines.map(line => ({ line, match: line.match(RADIUS) })).find(({ match }) => match);
+  if (radius?.match) {
+    const unit = radius.match[3].toLowerCase();
+    personality.radius = Math.round(isLengthUnit(unit) ? toPixels(parseDecimal(radius.match[2]), unit) : parseDecimal(radius.match[2]));
+    evidence.push(radius.line.slice(0, 200));
+  }
+
+  personality.corners = dominantStyle(lines, line => CORNER_KEYWORDS.find(([, pattern]) => pattern.test(line))?.[0], evidence);
+  personality.elevation = dominantStyle(lines, elevationStyle, evidence);
+
+  // Un radio declarado fija la forma de las esquinas si el texto no la menciona
+  if (!personality.corners && personality.radius !== undefined) {
+    personality.corners = cornerStyleForRadius(personality.radius);
+  }
+
+  if (!personality.corners && !personality.elevation) return undefined;
+
+  personality.evidence = evidence;
+  return Object.fromEntries(Object.entries(personality).filter(([, value]) => value !== undefined)) as BrandPersonality;
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextLine } from './PDFContentAnalyzer.js';
+import { extractSpacing, typeLevelOf } from './SpacingExtractor.js';
+
+/**
+ * Líneas de una página, de arriba abajo; las celdas de una misma fila
+ * (separadas por " | ") comparten línea base
+ */
+function page(rows: string[]): TextLine[] {
+  return rows.flatMap((row, index) => row.split(' | ').map((text, cell) => ({
+    page: 1,
+    text,
+    bounds: { x: 50 + cell * 150, y: 700 - index * 20, width: 100, height: 10 },
+    fontSize: 10
+  })));
+}
+
+describe('extractSpacing', () => {
+  it('lee la escala tipográfica de una tabla en píxeles', () => {
+    const spacing = extractSpacing(page(['H1 | 48 pt | 56 pt', 'Body copy 16px / 1.5', 'Caption 12px']));
+
+    assert.deepEqual(spacing?.typeScale, [
+      { level: 'h1', label: 'H1', size: 64, lineHeight: 74.67 },
+      { level: 'body', label: 'Body copy', size: 16, lineHeight: 24 },
+      { level: 'caption', label: 'Caption', size: 12, lineHeight: undefined }
+    ]);
+  });
+
+  it('lee el espaciado, la retícula, los márgenes y la zona de protección', () => {
+    const spacing = extractSpacing(page([
+      'Unidad base: 8 px',
+      'Escala de espaciado: 4, 8, 16, 24, 32 px',
+      'Retícula de 12 columnas con medianil de 24 px',
+      'Márgenes de 48 px',
+      'Zona de protección: 2x la altura de la letra A'
+    ]));
+
+    assert.equal(spacing?.base, 8);
+    assert.deepEqual(spacing?.scale, [4, 8, 16, 24, 32]);
+    assert.deepEqual(spacing?.grid, { columns: 12, gutter: 24 });
+    assert.equal(spacing?.margins, 48);
+    assert.deepEqual(spacing?.clearSpace, { multiple: 2, reference: 'altura de la letra A' });
+  });
+
+  it('no devuelve nada si el texto no declara medidas', () => {
+    assert.equal(extractSpacing(page(['Nuestra historia', 'Valores de la marca'])), undefined);
+  });
+
+  it('reconoce los niveles en inglés y en español', () => {
+    assert.equal(typeLevelOf('Título 2'), 'h2');
+    assert.equal(typeLevelOf('Subtítulo'), 'subtitle');
+    assert.equal(typeLevelOf('Texto base'), 'body');
+    assert.equal(typeLevelOf('Logotipo'), undefined);
+  });
+});
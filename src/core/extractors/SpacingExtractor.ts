@@ -0,0 +1,291 @@
+import { TextLine } from './PDFContentAnalyzer.js';
+import { LENGTH_UNIT_PATTERN, LengthUnit, isLengthUnit, parseDecimal, toPixels } from '../../utils/units.js';
+
+// Niveles de la escala tipográfica
+export type TypeLevel = 'display' | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6' | 'subtitle' | 'body' | 'small' | 'caption';
+
+// Estilo tipográfico declarado en el manual ("H1 48pt / 56pt"), en píxeles
+export interface TypeScaleStyle {
+  level: TypeLevel;
+  label: string;
+  size: number;
+  lineHeight?: number;
+}
+
+// Retícula de maquetación, en píxeles
+export interface GridRule {
+  columns?: number;
+  gutter?: number;
+}
+
+// Zona de protección del logo: una medida fija (en píxeles) o un múltiplo de
+// un elemento del propio logo ("2x la altura de la letra A")
+export interface ClearSpaceRule {
+  size?: number;
+  multiple?: number;
+  reference?: string;
+}
+
+// Escala tipográfica, espaciado y retícula declarados en el manual
+export interface ExtractedSpacing {
+  // Unidad base de espaciado, en píxeles
+  base?: number;
+  // Escala de espaciado, en píxeles y de menor a mayor
+  scale?: number[];
+  // Reglas de espaciado tal como aparecen en el manual
+  rules: string[];
+  typeScale: TypeScaleStyle[];
+  grid?: GridRule;
+  // Márgenes de página, en píxeles
+  margins?: number;
+  clearSpace?: ClearSpaceRule;
+}
+
+// Nombres de cada nivel de la escala tipográfica, en inglés y en español
+const TYPE_LEVELS: Array<[TypeLevel | 'heading', RegExp]> = [
+  ['heading', /^(?:h|heading\s*|t[íi]tulo\s*|encabezado\s*)([1-6])\b/i],
+  ['display', /^(display|hero|titular principal)\b/i],
+  ['subtitle', /^(subt[íi]tulos?|subtitles?|subheadings?|subencabezados?)\b/i],
+  ['body', /^(body(?: text| copy)?|cuerpo(?: de texto)?|texto(?: base| principal| corrido)?|p[áa]rrafos?|paragraphs?)\b/i],
+  ['small', /^(small(?: text)?|texto peque[ñn]o|peque[ñn]o|notas?)\b/i],
+  ['caption', /^(captions?|leyendas?|pie de foto|legal)\b/i]
+];
+
+// Medida con unidad opcional ("48", "48pt", "12,5 mm")
+const MEASURE = `(\\d+(?:[.,]\\d+)?)\\s*(${LENGTH_UNIT_PATTERN})?\\b`;
+
+// Medida con unidad obligatoria ("20 mm")
+const LENGTH = `(\\d+(?:[.,]\\d+)?)\\s*(${LENGTH_UNIT_PATTERN})\\b`;
+
+// Cuerpo y, opcionalmente, interlineado de un estilo ("48pt / 56pt", "16px, interlineado 1.5", "48/56 pt")
+const SIZE_AND_LEADING = new RegExp(
+  `^[^\\d\\n]{0,40}?${MEASURE}(?:\\s*[/,;|]?\\s*(?:(?:interlineado|leading|line[- ]height|altura de l[íi]nea)\\s*:?\\s*)?` +
+  `(?<=[/,;|:a-z]\\s*)(\\d+(?:[.,]\\d+)?)\\s*(${LENGTH_UNIT_PATTERN}|%)?)?`,
+  'i'
+);
+
+// Unidad base de espaciado
+const BASE_UNIT = new RegExp(
+  `\\b(unidad base|unidad de espaciado|m[óo]dulo base|base unit|spacing unit|base spacing|espaciado base|grid unit|baseline grid|ret[íi]cula base)\\b[^\\d\\n]{0,30}?${MEASURE}`,
+  'i'
+);
+
+// Escala de espaciado ("Espaciado: 4, 8, 16, 24, 32 px")
+const SPACING_SCALE = new RegExp(
+  `\\b(escala de espaciados?|spacing scale|espaciados?|spacing)\\b[^\\d\\n]{0,20}?` +
+  `((?:\\d+(?:\\.\\d+)?\\s*(?:${LENGTH_UNIT_PATTERN})?\\s*[,;/|·]?\\s*){3,})`,
+  'i'
+);
+
+// Número de columnas de la retícula ("12 columnas", "12-column grid")
+const GRID_COLUMNS = /\b(\d{1,2})[\s-]*(columnas|columns?|cols?)\b/i;
+
+// Medianil entre columnas
+const GUTTER = new RegExp(`\\b(medianil(?:es)?|gutters?|calles?|separaci[óo]n entre columnas|gap)\\b[^\\d\\n]{0,20}?${LENGTH}`, 'i');
+
+// Márgenes de página
+const MARGINS = new RegExp(`\\b(m[áa]rgen(?:es)?|margins?)\\b[^\\d\\n]{0,30}?${LENGTH}`, 'i');
+
+// Zona de protección del logo
+const CLEAR_SPACE = /\b(zona de (?:protecci[óo]n|seguridad|respeto)|[áa]rea de (?:protecci[óo]n|respeto|reserva|seguridad)|espacio (?:de respeto|libre|de protecci[óo]n)|margen de seguridad|clear\s?space|exclusion zone|safe (?:area|zone)|protected area)\b/i;
+
+// Múltiplo de la zona de protección ("2x", "2 veces", "el doble")
+const CLEAR_SPACE_MULTIPLE = /(\d+(?:[.,]\d+)?)\s*(?:x|×|veces|times)(?![a-z])/i;
+
+// Elemento del logo que sirve de referencia ("la altura de la letra A")
+const CLEAR_SPACE_REFERENCE = /\b((?:altura|height|ancho|width|tama[ñn]o|size|di[áa]metro|diameter)\s+(?:de(?:l)?|of)\s+(?:la\s+|el\s+|the\s+)?[^.,;\n]{1,40})/i;
+
+/**
+ * Redondea a dos decimales
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Convierte una medida del manual a píxeles. Sin unidad se asume pt, la
+ * unidad habitual de los manuales impresos.
+ */
+function measureToPixels(value: string, unit?: string): number {
+  const normalized = unit?.toLowerCase();
+  const lengthUnit: LengthUnit = normalized && isLengthUnit(normalized) ? normalized : 'pt';
+  return round(toPixels(parseDecimal(value), lengthUnit));
+}
+
+/**
+ * Une las líneas de texto que comparten línea base en filas completas, para
+ * leer las tablas (p. ej. "H1 | 48 pt | 56 pt") como una sola línea
+ */
+function joinRows(lines: TextLine[]): Array<{ page: number; text: string }> {
+  const ordered = [...lines].sort((a, b) => a.page - b.page || b.bounds.y - a.bounds.y || a.bounds.x - b.bounds.x);
+  const rows: Array<{ page: number; y: number; size: number; lines: TextLine[] }> = [];
+
+  for (const line of ordered) {
+    const row = rows[rows.length - 1];
+    if (row && row.page === line.page && Math.abs(row.y - line.bounds.y) < Math.min(row.size, line.fontSize) * 0.5) {
+      row.lines.push(line);
+    } else {
+      rows.push({ page: line.page, y: line.bounds.y, size: line.fontSize, lines: [line] });
+    }
+  }
+
+  return rows.map(row => ({
+    page: row.page,
+    text: row.lines.sort((a, b) => a.bounds.x - b.bounds.x).map(line => line.text).join(' ')
+  }));
+}
+
+/**
+ * Nivel de la escala tipográfica que nombra una etiqueta ("H1", "Body copy", "Subtítulo")
+ */
+export function typeLevelOf(label: string): TypeLevel | undefined {
+  for (const [level, pattern] of TYPE_LEVELS) {
+    const match = label.trim().match(pattern);
+    if (match) return level === 'heading' ? (`h${match[1]}` as TypeLevel) : level;
+  }
+
+  return undefined;
+}
+
+/**
+ * Lee un estilo de la escala tipográfica al principio de una fila
+ */
+function parseTypeScaleStyle(row: string): TypeScaleStyle | undefined {
+  const text = row.replace(/^[\s•·\-–—*]+/, '');
+
+  for (const [level, pattern] of TYPE_LEVELS) {
+    const label = text.match(pattern);
+    if (!label) continue;
+
+    const measures = text.slice(label[0].length).match(SIZE_AND_LEADING);
+    if (!measures) return undefined;
+
+    const [, sizeValue, sizeUnit, leadingValue, leadingUnit] = measures;
+    // "48/56 pt": la unidad del interlineado vale también para el cuerpo
+    const unit = sizeUnit || (leadingUnit && leadingUnit !== '%' ? leadingUnit : undefined);
+    if (!unit && !leadingValue) return undefined;
+
+    const size = measureToPixels(sizeValue, unit);
+    let lineHeight: number | undefined;
+    if (leadingValue) {
+      const leading = parseDecimal(leadingValue);
+      if (leadingUnit === '%') {
+        lineHeight = round((size * leading) / 100);
+      } else if (!leadingUnit && leading < 4) {
+        // Interlineado como proporción del cuerpo ("16px / 1.5")
+        lineHeight = round(size * leading);
+      } else {
+        lineHeight = measureToPixels(leadingValue, leadingUnit || unit);
+      }
+    }
+
+    // Un segundo número que no puede ser el interlineado (p. ej. un peso) se descarta
+    if (lineHeight !== undefined && (lineHeight < size * 0.8 || lineHeight > size * 3)) {
+      lineHeight = undefined;
+    }
+
+    if (size <= 0) return undefined;
+    return {
+      level: level === 'heading' ? (`h${label[1]}` as TypeLevel) : level,
+      label: label[0].trim(),
+      size,
+      lineHeight
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Lee la zona de protección del logo de una regla y de la fila siguiente,
+ * donde suele continuar la explicación
+ */
+function parseClearSpace(text: string): ClearSpaceRule | undefined {
+  const absolute = text.match(new RegExp(LENGTH, 'i'));
+  const multiple = text.match(CLEAR_SPACE_MULTIPLE);
+  const reference = text.match(CLEAR_SPACE_REFERENCE)?.[1].trim();
+
+  if (multiple || reference) {
+    const factor = multiple ? parseDecimal(multiple[1]) : /\b(doble|twice|double)\b/i.test(text) ? 2 : /\b(mitad|half)\b/i.test(text) ? 0.5 : 1;
+    return { multiple: factor, reference };
+  }
+  if (absolute) {
+    return { size: measureToPixels(absolute[1], absolute[2]) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Extrae la escala tipográfica ("H1 48pt / 56pt"), la unidad y la escala de
+ * espaciado, la retícula, los márgenes y la zona de protección del logo de
+ * las líneas de texto del manual. Las medidas se convierten a píxeles CSS.
+ */
+export function extractSpacing(lines: TextLine[]): ExtractedSpacing | undefined {
+  const rows = joinRows(lines);
+  const result: ExtractedSpacing = { rules: [], typeScale: [] };
+  const levels = new Set<TypeLevel>();
+  const addRule = (text: string) => {
+    const rule = text.replace(/\s+/g, ' ').trim().slice(0, 200);
+    if (!result.rules.includes(rule)) result.rules.push(rule);
+  };
+
+  rows.forEach((row, index) => {
+    const style = parseTypeScaleStyle(row.text);
+    if (style) {
+      // Si un nivel aparece varias veces (ejemplos, tablas repetidas...) vale el primero
+      if (!levels.has(style.level)) {
+        levels.add(style.level);
+        result.typeScale.push(style);
+      }
+      return;
+    }
+
+    if (CLEAR_SPACE.test(row.text)) {
+      const next = rows[index + 1]?.page === row.page ? rows[index + 1].text : '';
+      const own = parseClearSpace(row.text);
+      const continued = own ? undefined : parseClearSpace(next);
+      if ((own || continued) && !result.clearSpace) result.clearSpace = own || continued;
+      addRule(continued ? `${row.text} ${next}` : row.text);
+      return;
+    }
+
+    const base = row.text.match(BASE_UNIT);
+    if (base && result.base === undefined) {
+      result.base = measureToPixels(base[2], base[3] || 'px');
+      addRule(row.text);
+    }
+
+    const scale = row.text.match(SPACING_SCALE);
+    if (scale && !result.scale) {
+      const unit = scale[2].match(new RegExp(`(${LENGTH_UNIT_PATTERN})\\b`, 'i'))?.[1] || 'px';
+      const values = (scale[2].match(/\d+(?:\.\d+)?/g) || []).map(value => measureToPixels(value, unit));
+      result.scale = Array.from(new Set(values)).filter(value => value > 0).sort((a, b) => a - b);
+      addRule(row.text);
+    }
+
+    const columns = row.text.match(GRID_COLUMNS);
+    const gutter = row.text.match(GUTTER);
+    if (columns || gutter) {
+      result.grid = {
+        columns: result.grid?.columns ?? (columns ? Number(columns[1]) : undefined),
+        gutter: result.grid?.gutter ?? (gutter ? measureToPixels(gutter[2], gutter[3]) : undefined)
+      };
+      addRule(row.text);
+    }
+
+    const margins = row.text.match(MARGINS);
+    if (margins && result.margins === undefined) {
+      result.margins = measureToPixels(margins[2], margins[3]);
+      addRule(row.text);
+    }
+  });
+
+  // Sin unidad base declarada, la escala de espaciado empieza por ella
+  if (result.base === undefined && result.scale && result.scale.length > 0) {
+    result.base = result.scale[0];
+  }
+
+  const empty = result.typeScale.length === 0 && result.rules.length === 0;
+  return empty ? undefined : result;
+}
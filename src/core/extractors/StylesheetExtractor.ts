@@ -0,0 +1,229 @@
+import { RGB, hexToRgb, rgbToHex, rgbToString } from '../../utils/color.js';
+import { parseColorNotations } from './ColorNotationParser.js';
+import { ColorInfo, TypographyInfo } from './PDFExtractor.js';
+import { FontRole } from './FontExtractor.js';
+import { inferColorCategory } from './SwatchLabeler.js';
+
+// Regla de una hoja de estilos: selector (o at-rule) y declaraciones
+export interface CssRule {
+  selector: string;
+  declarations: Array<[string, string]>;
+}
+
+// Propiedades cuyos valores son colores de la interfaz
+const COLOR_PROPERTIES = /^(color|background(-color)?|border(-\w+)*-color|border(-(top|right|bottom|left))?|outline(-color)?|fill|stroke|text-decoration-color|caret-color|accent-color)$/;
+
+// Familias genéricas de CSS, que no son la fuente de la marca
+const GENERIC_FAMILIES = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif',
+  'ui-monospace', 'ui-rounded', 'emoji', 'math', 'fangsong', 'inherit', 'initial', 'unset', 'revert'
+]);
+
+// Selectores y nombres de variable de cada papel tipográfico
+const FONT_ROLE_PATTERNS: Array<[FontRole, RegExp]> = [
+  ['heading', /(^|[\s,>+~])h[1-6]\b|heading|headline|title|titular|display/i],
+  ['accent', /accent|acento|highlight|destacad/i],
+  ['body', /(^|[\s,>+~])(body|html|p)\b|:root|body|text|copy|paragraph|base/i]
+];
+
+// Variables CSS con una pila de fuentes ("--font-heading", "--font-family-body")
+const FONT_VARIABLE = /^--(font|ff|typeface|family)(-family)?(-|$)/i;
+
+// Variables de fuente que no son una familia (tamaños, pesos...)
+const FONT_METRIC_VARIABLE = /size|weight|height|spacing|style|scale/i;
+
+// Pesos de font-weight con nombre
+const NAMED_WEIGHTS: Record<string, string> = { normal: '400', bold: '700' };
+
+// Colores con nombre de CSS más habituales en las hojas de estilos
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', gray: '#808080', grey: '#808080', silver: '#c0c0c0',
+  red: '#ff0000', maroon: '#800000', orange: '#ffa500', yellow: '#ffff00', green: '#008000',
+  teal: '#008080', blue: '#0000ff', navy: '#000080', purple: '#800080'
+};
+
+/**
+ * Divide una hoja de estilos en reglas (las de @media y @supports se leen como
+ * las demás; los comentarios y las sentencias como @import se descartan)
+ */
+export function parseRules(css: string): CssRule[] {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '').replace(/@[-\w]+[^{};]*;/g, '');
+  const rules: CssRule[] = [];
+
+  for (const match of source.matchAll(/([^{}]+)\{([^{}]*)\}/g)) {
+    const declarations = match[2]
+      .split(';')
+      .map(declaration => declaration.match(/^\s*([-\w]+)\s*:\s*([\s\S]+?)\s*$/))
+      .filter((entry): entry is RegExpMatchArray => entry !== null)
+      .map(entry => [entry[1].toLowerCase(), entry[2].replace(/\s*!important$/i, '')] as [string, string]);
+    rules.push({ selector: match[1].trim(), declarations });
+  }
+
+  return rules;
+}
+
+/**
+ * Primer color declarado en un valor CSS (#hex, rgb(), hsl() o un color con nombre)
+ */
+export function colorOf(value: string): RGB | undefined {
+  const declared = parseColorNotations(value).find(color => color.format !== 'pantone' && color.format !== 'cmyk');
+  if (declared) return declared.rgb;
+
+  const named = value.replace(/url\([^)]*\)/gi, '').toLowerCase().match(/(?<![-\w])([a-z]+)(?![-\w])/g)?.find(word => word in NAMED_COLORS);
+  return named ? hexToRgb(NAMED_COLORS[named]) : undefined;
+}
+
+/**
+ * Colores de los rellenos y trazos de un SVG (atributos y estilos), ordenados
+ * por el número de veces que se usan
+ */
+export function extractSvgColors(svg: string): string[] {
+  const uses = new Map<string, number>();
+  const paints = [
+    ...Array.from(svg.matchAll(/\b(?:fill|stroke|stop-color|color)\s*=\s*["']([^"']+)["']/gi), match => match[1]),
+    ...Array.from(svg.matchAll(/\b(?:fill|stroke|stop-color)\s*:\s*([^;"'}]+)/gi), match => match[1])
+  ];
+
+  for (const paint of paints) {
+    const rgb = colorOf(paint);
+    if (!rgb) continue;
+    const hex = rgbToHex(rgb);
+    uses.set(hex, (uses.get(hex) || 0) + 1);
+  }
+
+  return [...uses.entries()].sort((a, b) => b[1] - a[1]).map(([hex]) => hex);
+}
+
+/**
+ * Dimensiones de un SVG, de su viewBox o de sus atributos width y height
+ */
+export function svgDimensions(svg: string): { width?: number; height?: number } {
+  const viewBox = svg.match(/<svg[^>]*\sviewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+  const dimension = (attribute: string) => Number(svg.match(new RegExp(`<svg[^>]*\\s${attribute}\\s*=\\s*["']([\\d.]+)(px)?["']`, 'i'))?.[1]) || undefined;
+  const width = viewBox ? Number(viewBox[1]) : dimension('width');
+  const height = viewBox ? Number(viewBox[2]) : dimension('height');
+  return width && height ? { width: Math.round(width), height: Math.round(height) } : {};
+}
+
+/**
+ * Peso numérico de un valor de font-weight ("bold" -> "700")
+ */
+export function fontWeightOf(value: string | undefined): string | undefined {
+  const weight = value?.trim().toLowerCase();
+  if (!weight) return undefined;
+  return NAMED_WEIGHTS[weight] || (/^[1-9]00$/.test(weight) ? weight : undefined);
+}
+
+/**
+ * Nombre legible de una variable CSS ("--color-brand-primary" -> "Brand Primary")
+ */
+export function variableName(property: string): string {
+  return property
+    .replace(/^--/, '')
+    .replace(/^(colou?r|clr|font-family|font|ff)-/i, '')
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Papel tipográfico de un selector o del nombre de una variable
+ */
+export function fontRoleOf(text: string): FontRole | undefined {
+  return FONT_ROLE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Familia principal de una pila de fuentes y su familia genérica de respaldo
+ */
+export function parseFontStack(value: string): { family?: string; fallback?: TypographyInfo['fallback'] } {
+  const families = value.split(',').map(family => family.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+  const family = families.find(entry => !GENERIC_FAMILIES.has(entry.toLowerCase()) && !/^var\(/i.test(entry));
+  const generic = families.map(entry => entry.toLowerCase()).find(entry => ['serif', 'sans-serif', 'monospace'].includes(entry));
+  return { family, fallback: generic as TypographyInfo['fallback'] };
+}
+
+/**
+ * Extrae colores y tipografías de la hoja de estilos de la web de la marca.
+ * Los colores de las variables CSS llevan su nombre y su categoría si el
+ * nombre la indica ("--color-primary"); los colores usados directamente en
+ * las reglas se añaden después. Todos se ordenan por el número de veces que
+ * se usan. Las familias salen de font-family (la primera que no es genérica),
+ * con el papel del selector o de la variable y los pesos de @font-face.
+ */
+export function extractStylesheet(css: string): { colors: ColorInfo[]; typography: TypographyInfo[] } {
+  const rules = parseRules(css);
+  const declarations = rules.flatMap(rule => rule.declarations.map(([property, value]) => ({ selector: rule.selector, property, value })));
+
+  // Usos de cada variable (var(--x)) para ordenar los colores por relevancia
+  const references = new Map<string, number>();
+  for (const { value } of declarations) {
+    for (const match of value.matchAll(/var\(\s*(--[-\w]+)/g)) {
+      references.set(match[1], (references.get(match[1]) || 0) + 1);
+    }
+  }
+
+  const colors = new Map<string, { color: ColorInfo; uses: number; order: number }>();
+  const addColor = (rgb: RGB, name: string | undefined, uses: number, category?: ColorInfo['category'], notation?: string) => {
+    const hex = rgbToHex(rgb);
+    const existing = colors.get(hex);
+    if (existing) {
+      existing.uses += uses;
+      if (name && /^Color \d+$/.test(existing.color.name)) existing.color.name = name;
+      if (!existing.color.category && category) existing.color.category = category;
+      return;
+    }
+
+    const color: ColorInfo = { name: name || `Color ${colors.size + 1}`, hex, rgb: rgbToString(rgb), source: 'css' };
+    if (category) color.category = category;
+    if (notation) color.notations = [notation];
+    colors.set(hex, { color, uses, order: colors.size });
+  };
+
+  for (const { property, value } of declarations) {
+    if (!property.startsWith('--')) continue;
+    const rgb = colorOf(value);
+    if (rgb) addColor(rgb, variableName(property), 1 + (references.get(property) || 0), inferColorCategory(property.replace(/[-_]+/g, ' ')), value);
+  }
+
+  for (const { property, value } of declarations) {
+    if (!COLOR_PROPERTIES.test(property) || /var\(/i.test(value)) continue;
+    const rgb = colorOf(value);
+    if (rgb) addColor(rgb, undefined, 1);
+  }
+
+  // Cada papel se asigna a la primera familia que lo tiene, en el orden de la hoja
+  const fonts = new Map<string, TypographyInfo>();
+  const addFont = (value: string, context: string, weight?: string) => {
+    const { family, fallback } = parseFontStack(value);
+    if (!family) return;
+
+    const key = family.toLowerCase();
+    const font = fonts.get(key) || { family, source: 'css' };
+    const category = fontRoleOf(context);
+    if (!font.category && category && ![...fonts.values()].some(entry => entry.category === category)) font.category = category;
+    if (!font.fallback && fallback) font.fallback = fallback;
+    if (weight) font.weights = Array.from(new Set([...(font.weights || []), weight])).sort((a, b) => Number(a) - Number(b));
+    fonts.set(key, font);
+  };
+
+  for (const rule of rules) {
+    const weight = fontWeightOf(rule.declarations.find(([property]) => property === 'font-weight')?.[1]);
+
+    for (const [property, value] of rule.declarations) {
+      if (FONT_VARIABLE.test(property) && !FONT_METRIC_VARIABLE.test(property)) {
+        addFont(value, property);
+      } else if (property === 'font-family') {
+        addFont(value, rule.selector, weight);
+      }
+    }
+  }
+
+  return {
+    colors: [...colors.values()]
+      .sort((a, b) => (b.uses - a.uses) || (a.order - b.order))
+      .map(entry => entry.color),
+    typography: [...fonts.values()]
+  };
+}
@@ -0,0 +1,194 @@
+import { CMYK, RGB, cmykToRgb, hslToRgb, labToRgb } from '../../utils/color.js';
+
+// Muestra de un archivo de muestras de Adobe (ASE) o de Photoshop (ACO)
+export interface SwatchFileEntry {
+  name: string;
+  rgb: RGB;
+  cmyk?: CMYK;
+  // Color directo (tinta plana, p. ej. un Pantone)
+  spot?: boolean;
+  // Grupo de muestras al que pertenece en el archivo
+  group?: string;
+}
+
+// Tipos de bloque de un archivo ASE
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR_ENTRY = 0x0001;
+
+// Tipo de color de un bloque ASE que indica una tinta plana
+const ASE_SPOT = 1;
+
+// Espacios de color de un archivo ACO
+const ACO_RGB = 0;
+const ACO_HSB = 1;
+const ACO_CMYK = 2;
+const ACO_LAB = 7;
+const ACO_GRAYSCALE = 8;
+
+const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+/**
+ * Lee una cadena UTF-16BE de longitud conocida, sin el terminador nulo
+ */
+function readUtf16(buffer: Buffer, offset: number, length: number): string {
+  let text = '';
+  for (let index = 0; index < length; index++) {
+    const code = buffer.readUInt16BE(offset + index * 2);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+}
+
+/**
+ * Lee un archivo Adobe Swatch Exchange (.ase): muestras RGB, CMYK, Lab y
+ * grises, con su nombre y el grupo al que pertenecen
+ */
+export function parseAse(buffer: Buffer): SwatchFileEntry[] {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'ASEF') {
+    throw new Error('No es un archivo Adobe Swatch Exchange (falta la cabecera ASEF)');
+  }
+
+  const blockCount = buffer.readUInt32BE(8);
+  const swatches: SwatchFileEntry[] = [];
+  let group: string | undefined;
+  let offset = 12;
+
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.length; block++) {
+    const type = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt32BE(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+
+    if (type === ASE_GROUP_END) {
+      group = undefined;
+      continue;
+    }
+    if (type !== ASE_GROUP_START && type !== ASE_COLOR_ENTRY) continue;
+
+    const nameLength = buffer.readUInt16BE(start);
+    const name = readUtf16(buffer, start + 2, nameLength);
+    if (type === ASE_GROUP_START) {
+      group = name || undefined;
+      continue;
+    }
+
+    let cursor = start + 2 + nameLength * 2;
+    const model = buffer.toString('ascii', cursor, cursor + 4).trim();
+    cursor += 4;
+    const values = (count: number) => Array.from({ length: count }, (_, index) => buffer.readFloatBE(cursor + index * 4));
+
+    let rgb: RGB;
+    let cmyk: CMYK | undefined;
+    let channels: number;
+    if (model === 'RGB') {
+      const [r, g, b] = values(3);
+      rgb = { r: clamp(r * 255), g: clamp(g * 255), b: clamp(b * 255) };
+      channels = 3;
+    } else if (model === 'CMYK') {
+      const [c, m, y, k] = values(4);
+      cmyk = { c, m, y, k };
+      rgb = cmykToRgb(cmyk);
+      channels = 4;
+    } else if (model === 'LAB') {
+      const [l, a, b] = values(3);
+      rgb = labToRgb({ l: l * 100, a, b });
+      channels = 3;
+    } else if (model === 'Gray') {
+      const [gray] = values(1);
+      rgb = { r: clamp(gray * 255), g: clamp(gray * 255), b: clamp(gray * 255) };
+      channels = 1;
+    } else {
+      continue;
+    }
+
+    const colorType = buffer.readUInt16BE(cursor + channels * 4);
+    swatches.push({
+      name: name || `Color ${swatches.length + 1}`,
+      rgb,
+      ...(cmyk ? { cmyk } : {}),
+      ...(colorType === ASE_SPOT ? { spot: true } : {}),
+      ...(group ? { group } : {})
+    });
+  }
+
+  return swatches;
+}
+
+/**
+ * Convierte un color de un archivo ACO (cuatro componentes de 16 bits) a sRGB
+ */
+function acoColor(space: number, [w, x, y, z]: number[]): { rgb: RGB; cmyk?: CMYK } | undefined {
+  switch (space) {
+    case ACO_RGB:
+      return { rgb: { r: clamp(w / 257), g: clamp(x / 257), b: clamp(y / 257) } };
+    case ACO_HSB: {
+      // HSB a HSL: mismo tono, con la saturación y la luminosidad equivalentes
+      const h = (w / 65535) * 360;
+      const s = x / 65535;
+      const v = y / 65535;
+      const l = v * (1 - s / 2);
+      const saturation = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+      return { rgb: hslToRgb({ h, s: saturation, l }) };
+    }
+    case ACO_CMYK: {
+      // Photoshop guarda las tintas invertidas (65535 es 0 %)
+      const [c, m, yellow, k] = [w, x, y, z].map(value => 1 - value / 65535);
+      const cmyk = { c, m, y: yellow, k };
+      return { rgb: cmykToRgb(cmyk), cmyk };
+    }
+    case ACO_LAB: {
+      const signed = (value: number) => (value > 32767 ? value - 65536 : value);
+      return { rgb: labToRgb({ l: w / 100, a: signed(x) / 100, b: signed(y) / 100 }) };
+    }
+    case ACO_GRAYSCALE: {
+      const gray = clamp(255 - (w / 10000) * 255);
+      return { rgb: { r: gray, g: gray, b: gray } };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Lee un archivo de muestras de Photoshop (.aco). Si tiene la sección de la
+ * versión 2 se usan sus nombres; si no, las muestras se numeran.
+ */
+export function parseAco(buffer: Buffer): SwatchFileEntry[] {
+  const readSection = (offset: number): { swatches: SwatchFileEntry[]; version: number; end: number } | undefined => {
+    if (offset + 4 > buffer.length) return undefined;
+    const version = buffer.readUInt16BE(offset);
+    const count = buffer.readUInt16BE(offset + 2);
+    if (version !== 1 && version !== 2) return undefined;
+
+    const swatches: SwatchFileEntry[] = [];
+    let cursor = offset + 4;
+    for (let index = 0; index < count; index++) {
+      if (cursor + 10 > buffer.length) throw new Error('El archivo de muestras ACO está truncado');
+      const space = buffer.readUInt16BE(cursor);
+      const components = [0, 1, 2, 3].map(component => buffer.readUInt16BE(cursor + 2 + component * 2));
+      cursor += 10;
+
+      let name = '';
+      if (version === 2) {
+        const length = buffer.readUInt32BE(cursor + 2);
+        name = readUtf16(buffer, cursor + 6, length);
+        cursor += 6 + length * 2;
+      }
+
+      const color = acoColor(space, components);
+      if (color) swatches.push({ name: name || `Color ${index + 1}`, ...color });
+    }
+
+    return { swatches, version, end: cursor };
+  };
+
+  const first = readSection(0);
+  if (!first) {
+    throw new Error('No es un archivo de muestras de Photoshop (versión no reconocida)');
+  }
+
+  const second = first.version === 1 ? readSection(first.end) : undefined;
+  return second && second.version === 2 ? second.swatches : first.swatches;
+}
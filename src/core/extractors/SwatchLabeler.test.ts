@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextLine } from './PDFContentAnalyzer.js';
+import { SwatchAnchor, labelSwatches } from './SwatchLabeler.js';
+
+// Muestra de 60 x 60 pt en la página 1
+const swatch: SwatchAnchor = { page: 1, bounds: { x: 50, y: 500, width: 60, height: 60 } };
+
+const line = (text: string, y: number, fontSize = 10, x = 50): TextLine => ({
+  page: 1,
+  text,
+  fontSize,
+  bounds: { x, y, width: text.length * fontSize * 0.5, height: fontSize }
+});
+
+describe('labelSwatches', () => {
+  it('toma el nombre de la etiqueta más cercana y no del título de la página', () => {
+    const [label] = labelSwatches([swatch], [
+      line('Acme Brand Manual', 600, 24),
+      line('Brand colours 2024', 580, 18),
+      line('Primary Navy — use for headers', 485),
+      line('HEX #1B2A4A', 470),
+      line('Texto del cuerpo de la página', 300)
+    ]);
+
+    assert.equal(label.name, 'Primary Navy');
+    assert.equal(label.usage, 'use for headers');
+    assert.equal(label.category, 'primary');
+  });
+
+  it('lee la categoría escrita después del guion de la etiqueta', () => {
+    const [label] = labelSwatches([swatch], [
+      line('Azul Noche — secundario', 485),
+      line('HEX #14213D', 470)
+    ]);
+
+    assert.equal(label.name, 'Azul Noche');
+    assert.equal(label.category, 'secondary');
+  });
+
+  it('lee la categoría de la línea de título encima de la etiqueta', () => {
+    const [label] = labelSwatches([swatch], [
+      line('Color secundario', 570, 14),
+      line('Azul Noche', 485),
+      line('HEX #14213D', 470),
+      line('Texto del cuerpo de la página', 300)
+    ]);
+
+    assert.equal(label.name, 'Azul Noche');
+    assert.equal(label.category, 'secondary');
+  });
+});
@@ -0,0 +1,240 @@
+import { Bounds, TextLine } from './PDFContentAnalyzer.js';
+import { parseColorNotations } from './ColorNotationParser.js';
+
+// Categorías de color de la paleta
+export type ColorCategory = 'primary' | 'secondary' | 'accent' | 'neutral';
+
+// Línea de texto con su posición dentro del texto por líneas del documento
+export interface LayoutLine extends TextLine {
+  start: number;
+  end: number;
+}
+
+// Texto del documento reconstruido por líneas, con la posición de cada una
+export interface LayoutText {
+  text: string;
+  lines: LayoutLine[];
+}
+
+// Posición de una muestra de color en el documento
+export interface SwatchAnchor {
+  page: number;
+  bounds: Bounds;
+}
+
+// Nombre, uso y categoría encontrados junto a una muestra
+export interface SwatchLabel {
+  name?: string;
+  usage?: string;
+  category?: ColorCategory;
+}
+
+// Distancia máxima (en puntos) entre una línea de texto y la muestra que describe
+const LABEL_MAX_DISTANCE = 60;
+
+// Palabras clave de cada categoría, en inglés y en español
+const CATEGORY_KEYWORDS: Array<[ColorCategory, RegExp]> = [
+  ['primary', /\b(primary|main|primari[oa]s?|principal(es)?)\b/i],
+  ['secondary', /\b(secondary|secundari[oa]s?|complementari[oa]s?|complementary)\b/i],
+  ['accent', /\b(accents?|acentos?|highlights?|destacad[oa]s?)\b/i],
+  ['neutral', /\b(neutrals?|neutr[oa]s?|neutrales)\b/i]
+];
+
+// Texto que describe el uso de un color
+const USAGE_PATTERN = /^(use|used|usage|for|uso|usos|usar|utiliza|utilizar|para|aplica|aplicar|ideal|recommended|recomendado)\b|\b(use|used|uso|usar|para|for)\b/i;
+
+// Etiqueta explícita de uso ("Uso: titulares")
+const USAGE_LABEL = /^(usos?|use|usage|aplicaci[oó]n(es)?)\s*:\s*(.+)$/i;
+
+// Encabezados genéricos de la sección de color, que no nombran una muestra
+const GENERIC_HEADING = /^(colou?r(es|s)?|paleta|palette)\b/i;
+
+// Proporción sobre el cuerpo de texto de la página a partir de la cual una
+// línea es un título o un encabezado, no la etiqueta de una muestra
+const HEADING_SIZE_RATIO = 1.3;
+
+/**
+ * Reconstruye el texto del documento a partir de las líneas posicionadas,
+ * de modo que cada carácter se pueda relacionar con su línea
+ */
+export function buildLayoutText(textLines: TextLine[]): LayoutText {
+  const lines: LayoutLine[] = [];
+  let text = '';
+
+  for (const line of textLines) {
+    const start = text.length;
+    text += line.text;
+    lines.push({ ...line, start, end: text.length });
+    text += '\n';
+  }
+
+  return { text, lines };
+}
+
+/**
+ * Línea que contiene la posición indicada del texto por líneas
+ */
+export function lineAt(layout: LayoutText, index: number): LayoutLine | undefined {
+  return layout.lines.find(line => index >= line.start && index < line.end);
+}
+
+/**
+ * Deduce la categoría de un color a partir de palabras clave (primario, secondary...)
+ */
+export function inferColorCategory(text: string): ColorCategory | undefined {
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Distancia entre dos rectángulos (0 si se solapan)
+ */
+export function boundsDistance(a: Bounds, b: Bounds): number {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Asigna cada línea de texto al elemento más cercano de su página (muestra,
+ * logo...) si está a menos de la distancia máxima
+ */
+export function assignLinesToAnchors(
+  anchors: Array<SwatchAnchor | undefined>,
+  lines: TextLine[],
+  maxDistance = LABEL_MAX_DISTANCE
+): TextLine[][] {
+  const assigned: TextLine[][] = anchors.map(() => []);
+
+  for (const line of lines) {
+    let nearest = -1;
+    let nearestDistance = maxDistance;
+
+    anchors.forEach((anchor, index) => {
+      if (!anchor || anchor.page !== line.page) return;
+      const distance = boundsDistance(anchor.bounds, line.bounds);
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest !== -1) assigned[nearest].push(line);
+  }
+
+  return assigned;
+}
+
+/**
+ * Texto de la línea sin las notaciones de color ni sus etiquetas (HEX, CMYK...)
+ */
+function stripNotations(text: string): string {
+  let result = text;
+  for (const declared of parseColorNotations(text).reverse()) {
+    result = result.slice(0, declared.index) + ' ' + result.slice(declared.index + declared.length);
+  }
+
+  return result
+    .replace(/\b(HEX|RGB|CMYK|HSL|PANTONE|PMS)\b\s*:?/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s—–\-|·:,;/]+|[\s—–\-|·:,;/]+$/g, '');
+}
+
+/**
+ * Indica si un fragmento puede ser el nombre de una muestra
+ */
+function isNameLike(fragment: string): boolean {
+  const words = fragment.split(/\s+/);
+  return /\p{L}/u.test(fragment) &&
+    words.length <= 5 &&
+    fragment.length <= 40 &&
+    !GENERIC_HEADING.test(fragment) &&
+    !USAGE_PATTERN.test(fragment);
+}
+
+/**
+ * Cuerpo de texto habitual de cada página: la mediana de los cuerpos de sus líneas
+ */
+function bodySizes(lines: TextLine[]): Map<number, number> {
+  const sizes = new Map<number, number[]>();
+  for (const line of lines) {
+    if (line.fontSize > 0) sizes.set(line.page, [...(sizes.get(line.page) || []), line.fontSize]);
+  }
+
+  return new Map(Array.from(sizes.entries(), ([page, values]) => {
+    const sorted = values.sort((a, b) => a - b);
+    return [page, sorted[Math.floor(sorted.length / 2)]];
+  }));
+}
+
+/**
+ * Encabezado con categoría más cercano por encima de la muestra (p. ej. "Colores secundarios")
+ */
+function headingCategory(anchor: SwatchAnchor, lines: TextLine[]): ColorCategory | undefined {
+  const top = anchor.bounds.y + anchor.bounds.height;
+  const heading = lines
+    .filter(line => line.page === anchor.page && line.bounds.y >= top && line.text.split(/\s+/).length <= 6)
+    .filter(line => inferColorCategory(line.text))
+    .sort((a, b) => a.bounds.y - b.bounds.y)[0];
+
+  return heading ? inferColorCategory(heading.text) : undefined;
+}
+
+/**
+ * Busca el nombre, el uso y la categoría de cada muestra en las líneas de texto
+ * que la rodean. Cada línea se asigna a la muestra más cercana de su página y
+ * se recorren de la más próxima a la más lejana: la primera línea corta es el
+ * nombre (los títulos y encabezados, más grandes que el cuerpo de texto de la
+ * página, no nombran la muestra) y las frases de uso ("use for headers",
+ * "Uso: titulares") forman la descripción de uso. La categoría sale del nombre,
+ * de cualquier otro fragmento o línea de la muestra ("Azul Noche — secundario",
+ * "Color secundario") o, si ninguno la indica, del encabezado de sección más
+ * cercano por encima.
+ */
+export function labelSwatches(anchors: Array<SwatchAnchor | undefined>, lines: TextLine[]): SwatchLabel[] {
+  const assigned = assignLinesToAnchors(anchors, lines);
+  const bodySize = bodySizes(lines);
+
+  return anchors.map((anchor, index) => {
+    if (!anchor) return {};
+
+    let name: string | undefined;
+    const usage: string[] = [];
+    const categories: ColorCategory[] = [];
+    const ordered = [...assigned[index]].sort((a, b) =>
+      boundsDistance(anchor.bounds, a.bounds) - boundsDistance(anchor.bounds, b.bounds) ||
+      b.bounds.y - a.bounds.y ||
+      a.bounds.x - b.bounds.x
+    );
+
+    for (const line of ordered) {
+      const remainder = stripNotations(line.text);
+      if (!remainder) continue;
+
+      const category = inferColorCategory(remainder);
+      if (category) categories.push(category);
+
+      const size = bodySize.get(line.page);
+      if (size && line.fontSize >= size * HEADING_SIZE_RATIO) continue;
+
+      const labelled = remainder.match(USAGE_LABEL);
+      if (labelled) {
+        usage.push(labelled[3].trim());
+        continue;
+      }
+
+      for (const fragment of remainder.split(/\s+[—–|·]\s+|\s+-\s+/).map(part => part.trim()).filter(Boolean)) {
+        if (!name && isNameLike(fragment)) {
+          name = fragment;
+        } else if (/\p{L}/u.test(fragment) && (USAGE_PATTERN.test(fragment) || fragment.split(/\s+/).length > 3)) {
+          usage.push(fragment);
+        }
+      }
+    }
+
+    return {
+      name,
+      usage: usage.length > 0 ? usage.join(' ') : undefined,
+      category: (name && inferColorCategory(name)) || categories[0] || headingCategory(anchor, lines)
+    };
+  });
+}
@@ -0,0 +1,117 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WebFetcher, WebResource, extractWebBranding } from './WebExtractor.js';
+
+const PAGE = `<!doctype html>
+<html>
+<head>
+  <title>Inicio – Acme</title>
+  <link rel="stylesheet" href="/css/site.css">
+  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700">
+  <link rel="icon" type="image/svg+xml" href="/favicon.svg">
+</head>
+<body>
+  <header class="site-header">
+    <a class="logo" href="/"><img src="/img/logo.svg" alt="Acme logo"></a>
+  </header>
+  <section class="hero"><h1>Hola</h1><a class="btn" href="/tienda">Comprar</a></section>
+</body>
+</html>`;
+
+const STYLESHEET = `
+:root { --brand: #0a7d5c; }
+body { font-family: "Inter", sans-serif; color: #222222; background: #ffffff; }
+.site-header, .hero { background: var(--brand); }
+.btn { background: #ff6600; color: #ffffff; border-radius: 8px; }
+`;
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="120" height="40"><rect width="120" height="40" fill="#0a7d5c"/></svg>';
+
+/**
+ * Fetcher que sirve los recursos indicados y registra las URL pedidas
+ */
+function stubFetcher(resources: Record<string, string>, requested: string[] = []): WebFetcher {
+  return async (url: string): Promise<WebResource> => {
+    requested.push(url);
+    if (!(url in resources)) throw new Error('404');
+    return { url, body: Buffer.from(resources[url]) };
+  };
+}
+
+describe('extractWebBranding', () => {
+  let directory: string;
+  const workspace = process.env.BRAND_TO_THEME_WORKSPACE;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'web-extractor-'));
+    process.env.BRAND_TO_THEME_WORKSPACE = path.join(directory, 'workspace');
+  });
+
+  after(() => {
+    if (workspace === undefined) delete process.env.BRAND_TO_THEME_WORKSPACE;
+    else process.env.BRAND_TO_THEME_WORKSPACE = workspace;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('descarga la página y sus recursos con el fetcher indicado', async () => {
+    const requested: string[] = [];
+    const fetcher = stubFetcher({
+      'https://acme.test/': PAGE,
+      'https://acme.test/css/site.css': STYLESHEET,
+      'https://acme.test/img/logo.svg': SVG,
+      'https://acme.test/favicon.svg': SVG
+    }, requested);
+
+    const data = await extractWebBranding('https://acme.test/', {}, fetcher);
+
+    assert.equal(data.brandName, 'Acme');
+    assert.deepEqual(data.sources?.map(source => [source.file, source.type]), [
+      ['https://acme.test/', 'html'],
+      ['https://acme.test/css/site.css', 'css']
+    ]);
+    assert.ok(data.colors.some(color => color.hex === '#0a7d5c'));
+    assert.ok(data.colors.some(color => color.hex === '#ff6600'));
+    assert.ok(data.typography.some(font => font.family === 'Inter'));
+    assert.deepEqual(data.logos.map(logo => logo.type), ['primary', 'icon']);
+    assert.deepEqual(fs.readdirSync(path.join(directory, 'workspace', 'logos')), ['acme-test']);
+    // Las fuentes de Google se leen del enlace, sin descargarlo
+    assert.ok(!requested.some(url => url.includes('fonts.googleapis.com')));
+  });
+
+  it('informa de que no se pudo descargar la página', async () => {
+    await assert.rejects(extractWebBranding('https://acme.test/', {}, stubFetcher({})), /No se pudo descargar https:\/\/acme\.test\//);
+  });
+
+  it('omite el recurso de una página local con un escape "%" mal formado', async () => {
+    const site = path.join(directory, 'site');
+    fs.mkdirSync(path.join(site, 'css'), { recursive: true });
+    fs.writeFileSync(path.join(site, 'index.html'), PAGE
+      .replace('/css/site.css', 'css/site.css')
+      .replace('<link rel="icon"', '<link rel="stylesheet" href="css/100%.css"><link rel="icon"'));
+    fs.writeFileSync(path.join(site, 'css', 'site.css'), STYLESHEET);
+
+    const requested: string[] = [];
+    const data = await extractWebBranding(site, { extractLogos: false }, stubFetcher({}, requested));
+
+    assert.deepEqual(data.sources?.map(source => source.file), ['index.html', path.join('css', 'site.css')]);
+    assert.ok(data.colors.some(color => color.hex === '#0a7d5c'));
+    // De una página local no se descargan los recursos remotos
+    assert.deepEqual(requested, []);
+  });
+
+  it('guarda los logos de una página local en el workspace y no en el sitio', async () => {
+    const site = path.join(directory, 'local-site');
+    fs.mkdirSync(path.join(site, 'img'), { recursive: true });
+    fs.writeFileSync(path.join(site, 'index.html'), PAGE);
+    fs.writeFileSync(path.join(site, 'img', 'logo.svg'), SVG);
+
+    const data = await extractWebBranding(site, {}, stubFetcher({}));
+
+    assert.deepEqual(data.logos.map(logo => logo.type), ['primary']);
+    assert.ok(fs.readdirSync(path.join(directory, 'workspace', 'logos', 'local-site')).length > 0);
+    assert.deepEqual(fs.readdirSync(site).sort(), ['img', 'index.html']);
+  });
+});
@@ -0,0 +1,1053 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import axios from 'axios';
+import { logger } from '../../utils/logger.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { saveQuietly, workspaceId, workspacePath, writeBrandFile } from '../resources/Workspace.js';
+import { RGB, clusterColors, isAchromatic, rgbToHex, rgbToString } from '../../utils/color.js';
+import { isLengthUnit, parseDecimal, toPixels } from '../../utils/units.js';
+import { parseColorNotations } from './ColorNotationParser.js';
+import {
+  BrandSourceFile,
+  BrandingData,
+  ColorInfo,
+  ExtractOptions,
+  LogoInfo,
+  TypographyInfo,
+  extractOptionsSchema
+} from './PDFExtractor.js';
+import { BrandPersonality, cornerStyleForRadius } from './PersonalityExtractor.js';
+import { FontRole } from './FontExtractor.js';
+import { CssRule, colorOf, extractSvgColors, fontRoleOf, fontWeightOf, parseFontStack, parseRules, svgDimensions, variableName } from './StylesheetExtractor.js';
+import { inferColorCategory } from './SwatchLabeler.js';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Recurso descargado de la web: URL final (tras las redirecciones) y contenido
+export interface WebResource {
+  url: string;
+  body: Buffer;
+  contentType?: string;
+}
+
+// Descarga una URL; se puede sustituir (p. ej. en pruebas o para usar una caché)
+export type WebFetcher = (url: string) => Promise<WebResource>;
+
+// Elemento de la página con sus atributos y el elemento que lo contiene
+interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  classes: string[];
+  parent?: HtmlElement;
+  // Marcado completo de un <svg> en línea
+  svg?: string;
+  // Estilos calculados: declaración ganadora de cada propiedad, con las heredadas
+  computed: Map<string, StyleValue>;
+}
+
+// Valor de una propiedad y hoja de estilos de la que procede
+interface StyleValue {
+  value: string;
+  file: string;
+  selector: string;
+}
+
+// Hoja de estilos de la página (archivo enlazado, bloque <style> o atributo style)
+interface Stylesheet {
+  file: string;
+  rules: CssRule[];
+}
+
+// Página cargada: HTML, hojas de estilos y archivos leídos
+interface WebPage {
+  // URL o ruta absoluta del HTML
+  location: string;
+  html: string;
+  elements: HtmlElement[];
+  stylesheets: Stylesheet[];
+  sources: BrandSourceFile[];
+  // Carga un recurso referenciado por la página (hojas de estilos, imágenes)
+  load: (reference: string) => Promise<{ file: string; body: Buffer } | undefined>;
+}
+
+// Papel de un color en la página
+type ColorRole = 'background' | 'text' | 'action' | 'border';
+
+// Color usado en la página con su peso (área y papel de los elementos)
+interface ColorUse {
+  rgb: RGB;
+  weight: number;
+  roles: Map<ColorRole, number>;
+  files: Set<string>;
+  // Variable CSS de la que procede el valor ("--color-primary")
+  variable?: string;
+}
+
+// Tipografía usada en la página con su peso y sus papeles
+interface FontUse {
+  font: TypographyInfo;
+  weight: number;
+  roles: Map<FontRole, number>;
+  files: Set<string>;
+}
+
+// Declaración de una regla ya emparejada con la página
+interface MatchedDeclaration {
+  property: string;
+  value: string;
+  specificity: number;
+  order: number;
+  selector: string;
+  file: string;
+}
+
+// Tiempo máximo de cada descarga
+const FETCH_TIMEOUT = 15000;
+
+// Número máximo de colores en la paleta extraída
+const MAX_COLORS = 12;
+
+// Peso mínimo (fracción del total) para que un color forme parte de la paleta
+const MIN_COLOR_SHARE = 0.005;
+
+// Distancia CIE76 por debajo de la cual dos colores de la web se consideran el mismo
+const SAME_COLOR_DISTANCE = 1;
+
+// Número máximo de reglas que se conservan como evidencia de la personalidad
+const MAX_EVIDENCE = 6;
+
+// Elementos sin etiqueta de cierre
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// Peso del área que ocupa cada elemento según su etiqueta (el resto pesa 1)
+const AREA_WEIGHTS: Record<string, number> = {
+  html: 40, body: 40, header: 12, footer: 12, main: 12, section: 10, nav: 8, aside: 6, article: 6, form: 3, div: 2, table: 2
+};
+
+// Clases e identificadores de las zonas grandes de la página
+const LARGE_AREA_HINT = /hero|banner|header|footer|section|jumbotron|masthead|announcement|slideshow/i;
+
+// Peso de los botones: ocupan poco, pero su color es el de la marca
+const ACTION_WEIGHT = 6;
+
+// Clases e identificadores de los botones y llamadas a la acción
+const ACTION_HINT = /(^|[^a-z])(btn|button|boton|cta)([^a-z]|$)/i;
+
+// Peso de una regla que no coincide con ningún elemento (estados, otras páginas)
+const UNMATCHED_WEIGHT = 0.5;
+
+// Factor de las reglas de estado (:hover, :focus...), que no se ven de entrada
+const STATE_FACTOR = 0.25;
+const STATE_PSEUDO_CLASS = /:(hover|focus|focus-visible|focus-within|active|visited)\b/i;
+
+// Fracción del área de un elemento que pinta cada propiedad de color
+const COLOR_PROPERTY_ROLES: Array<[RegExp, ColorRole, number]> = [
+  [/^background(-color|-image)?$/, 'background', 1],
+  [/^(color|fill|stroke)$/, 'text', 0.3],
+  [/^(border(-(top|right|bottom|left))?(-color)?|outline(-color)?)$/, 'border', 0.1]
+];
+
+// Propiedades que heredan los elementos de su contenedor
+const INHERITED_PROPERTIES = new Set(['color', 'font-family', 'font-weight', 'font-style', 'fill']);
+
+// Uso que se anota en cada color según su papel principal
+const COLOR_USAGE: Record<ColorRole, string> = {
+  background: 'Fondos',
+  text: 'Texto',
+  action: 'Botones y enlaces',
+  border: 'Bordes y separadores'
+};
+
+// Uso que se anota en cada tipografía según su papel
+const TYPEFACE_USAGE: Record<FontRole, string> = {
+  heading: 'Titulares',
+  body: 'Texto principal',
+  accent: 'Textos destacados'
+};
+
+// Fuentes de iconos, que no son tipografías de la marca
+const ICON_FONT = /icon|awesome|glyph|material symbols|dashicons|slick/i;
+
+// Pistas de que una imagen o un SVG es el logo
+const LOGO_HINT = /logo|brand|marca|site-?title/i;
+
+// Títulos genéricos de la portada, que no son el nombre de la marca
+const HOME_TITLE = /^(inicio|home( ?page)?|p[áa]gina (de )?inicio|portada|bienvenid[oa]s?|welcome)$/i;
+
+// Selectores de los componentes cuyo radio de borde define las esquinas
+const COMPONENT_SELECTOR = /(^|[^a-z])(btn|button|card|input|field|select|textarea|badge|tile|product)([^a-z]|$)/i;
+
+/**
+ * Descarga una URL con axios
+ */
+async function httpFetcher(url: string): Promise<WebResource> {
+  const response = await axios.get<ArrayBuffer>(url, {
+    responseType: 'arraybuffer',
+    timeout: FETCH_TIMEOUT,
+    headers: { 'User-Agent': 'brand-to-theme-mcp' }
+  });
+  const contentType = response.headers['content-type'];
+  return {
+    url: response.request?.res?.responseUrl || url,
+    body: Buffer.from(response.data),
+    ...(typeof contentType === 'string' ? { contentType } : {})
+  };
+}
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+const sha256 = (buffer: Buffer) => createHash('sha256').update(buffer).digest('hex');
+
+/**
+ * Decodifica las entidades HTML más habituales de un atributo o un texto
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Decodifica un componente de URL; undefined si tiene escapes "%" mal formados
+ * (decodeURIComponent lanza un URIError)
+ */
+function decodeUrlComponent(text: string): string | undefined {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Contenido de una URL data: (base64 o codificada como URL)
+ */
+function decodeDataUri(uri: string): Buffer | undefined {
+  const match = uri.match(/^data:([^,]*),([\s\S]*)$/i);
+  if (!match) return undefined;
+  return /;base64$/i.test(match[1]) ? Buffer.from(match[2], 'base64') : Buffer.from(decodeUrlComponent(match[2]) ?? match[2], 'utf-8');
+}
+
+/**
+ * Lee los elementos de un documento HTML en orden, con sus atributos y su
+ * contenedor. Los <svg> en línea se guardan completos (sus elementos internos
+ * no se recorren) y el contenido de <script>, <style> y <template> se descarta.
+ */
+function parseHtml(html: string): HtmlElement[] {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|template|noscript)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '');
+  const elements: HtmlElement[] = [];
+  const open: HtmlElement[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+  for (let match = tagPattern.exec(source); match; match = tagPattern.exec(source)) {
+    const tag = match[2].toLowerCase();
+
+    if (match[1]) {
+      const index = open.map(element => element.tag).lastIndexOf(tag);
+      if (index >= 0) open.length = index;
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of match[3].matchAll(/([^\s=/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+      attributes[attribute[1].toLowerCase()] = decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+    }
+
+    const element: HtmlElement = {
+      tag,
+      attributes,
+      classes: (attributes.class || '').split(/\s+/).filter(Boolean),
+      parent: open[open.length - 1],
+      computed: new Map()
+    };
+    elements.push(element);
+
+    if (tag === 'svg') {
+      const end = source.slice(match.index).search(/<\/svg\s*>/i);
+      const length = end >= 0 ? end + source.slice(match.index + end).indexOf('>') + 1 : match[0].length;
+      element.svg = source.slice(match.index, match.index + length);
+      tagPattern.lastIndex = match.index + length;
+    } else if (!VOID_ELEMENTS.has(tag) && !match[3].trim().endsWith('/')) {
+      open.push(element);
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Comprueba si un elemento cumple un selector simple compuesto
+ * ("a.btn.primary", "#header", "[data-logo]", "*")
+ */
+function matchesCompound(element: HtmlElement, compound: string): boolean {
+  for (const part of compound.matchAll(/\[\s*([-\w:]+)\s*(?:([~|^$*]?=)\s*["']?([^"'\]]*)["']?\s*)?\]|([#.]?)((?:\\.|[-\w])+)|\*/g)) {
+    if (part[1]) {
+      const actual = element.attributes[part[1].toLowerCase()];
+      if (actual === undefined) return false;
+      const expected = part[3];
+      if (!part[2]) continue;
+      const matches = {
+        '=': actual === expected,
+        '~=': actual.split(/\s+/).includes(expected),
+        '|=': actual === expected || actual.startsWith(`${expected}-`),
+        '^=': actual.startsWith(expected),
+        '$=': actual.endsWith(expected),
+        '*=': actual.includes(expected)
+      }[part[2]];
+      if (!matches) return false;
+    } else if (part[5]) {
+      const name = part[5].replace(/\\(.)/g, '$1');
+      if (part[4] === '#' && element.attributes.id !== name) return false;
+      if (part[4] === '.' && !element.classes.includes(name)) return false;
+      if (!part[4] && element.tag !== name.toLowerCase()) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Divide un selector complejo en sus selectores compuestos, sin pseudoclases
+ * ni pseudoelementos (los combinadores se tratan todos como descendencia)
+ */
+function selectorCompounds(selector: string): string[] {
+  return selector
+    .replace(/:root\b/gi, 'html')
+    .replace(/::?[-\w]+(\((?:[^()]|\([^()]*\))*\))?/g, '')
+    .replace(/\s*[>+~]\s*/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Comprueba si un elemento cumple un selector: el último compuesto debe
+ * coincidir con el elemento y los anteriores, con alguno de sus contenedores
+ */
+function matchesSelector(element: HtmlElement, compounds: string[]): boolean {
+  if (compounds.length === 0 || !matchesCompound(element, compounds[compounds.length - 1])) return false;
+
+  let ancestor = element.parent;
+  for (let index = compounds.length - 2; index >= 0; index--) {
+    while (ancestor && !matchesCompound(ancestor, compounds[index])) ancestor = ancestor.parent;
+    if (!ancestor) return false;
+    ancestor = ancestor.parent;
+  }
+  return true;
+}
+
+/**
+ * Especificidad de un selector (identificadores, clases y atributos, etiquetas)
+ */
+function specificityOf(selector: string): number {
+  const ids = (selector.match(/#[-\w]+/g) || []).length;
+  const classes = (selector.match(/\.[-\w]+|\[[^\]]*\]|:(?!:)[-\w]+/g) || []).length;
+  const tags = (selector.replace(/\[[^\]]*\]|\([^)]*\)/g, '').match(/(^|[\s>+~])[a-zA-Z][\w-]*/g) || []).length;
+  return ids * 10000 + classes * 100 + tags;
+}
+
+/**
+ * Sustituye las referencias var(--x) por el valor de la variable (o el de
+ * respaldo); devuelve también las variables usadas, en orden
+ */
+function resolveVariables(value: string, variables: Map<string, string>): { value: string; references: string[] } {
+  let resolved = value;
+  const references: string[] = [];
+
+  for (let depth = 0; depth < 5 && /var\(/i.test(resolved); depth++) {
+    resolved = resolved.replace(/var\(\s*(--[-\w]+)\s*(?:,\s*((?:[^()]|\([^()]*\))*))?\)/g, (_, name: string, fallback?: string) => {
+      references.push(name);
+      return variables.get(name) ?? fallback ?? '';
+    });
+  }
+
+  return { value: resolved, references };
+}
+
+/**
+ * Colores de un valor CSS (todos los de un degradado o el de una propiedad)
+ */
+function valueColors(value: string): RGB[] {
+  const declared = parseColorNotations(value).filter(color => color.format !== 'pantone' && color.format !== 'cmyk');
+  if (declared.length > 0) return declared.map(color => color.rgb);
+  const named = colorOf(value);
+  return named ? [named] : [];
+}
+
+/**
+ * Peso del área de un elemento: el de su etiqueta, más si es una zona grande
+ * de la página y el de los botones si es una llamada a la acción
+ */
+function elementWeight(element: HtmlElement): { weight: number; action: boolean } {
+  const hints = `${element.attributes.id || ''} ${element.classes.join(' ')}`;
+  const button = element.tag === 'button' ||
+    (element.tag === 'input' && /^(submit|button)$/i.test(element.attributes.type || '')) ||
+    ACTION_HINT.test(hints);
+
+  if (button) return { weight: ACTION_WEIGHT, action: true };
+
+  const weight = Math.max(AREA_WEIGHTS[element.tag] || 1, LARGE_AREA_HINT.test(hints) ? AREA_WEIGHTS.section : 0);
+  return { weight, action: element.tag === 'a' };
+}
+
+/**
+ * Carga la página: el HTML (de una URL, un archivo o el index.html de un
+ * directorio), sus hojas de estilos enlazadas, los bloques <style> y los
+ * atributos style. De una página local no se descargan los recursos remotos.
+ */
+async function loadPage(source: string, fetcher: WebFetcher): Promise<WebPage> {
+  let location: string;
+  let body: Buffer;
+  let load: WebPage['load'];
+
+  if (isUrl(source)) {
+    let page: WebResource;
+    try {
+      page = await fetcher(source);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `No se pudo descargar ${source}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    location = page.url || source;
+    body = page.body;
+    load = async (reference) => {
+      const data = decodeDataUri(reference);
+      if (data) return { file: location, body: data };
+
+      let url = reference;
+      try {
+        url = new URL(reference, location).href;
+        const resource = await fetcher(url);
+        return { file: resource.url || url, body: resource.body };
+      } catch (error) {
+        logger.warn(`No se pudo descargar ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }
+    };
+  } else {
+    if (!fs.existsSync(source)) {
+      throw new McpError(ErrorCode.InvalidParams, `No existe el archivo o directorio de la web: ${source}`);
+    }
+
+    let root = path.resolve(source);
+    location = root;
+    if (fs.statSync(root).isDirectory()) {
+      const pages = fs.readdirSync(root).filter(file => /\.html?$/i.test(file)).sort();
+      const index = pages.find(file => /^index\.html?$/i.test(file)) || pages[0];
+      if (!index) {
+        throw new McpError(ErrorCode.InvalidParams, `El directorio no contiene ningún archivo HTML: ${source}`);
+      }
+      location = path.join(root, index);
+    } else {
+      root = path.dirname(root);
+    }
+
+    body = fs.readFileSync(location);
+    const directory = path.dirname(location);
+    load = async (reference) => {
+      const data = decodeDataUri(reference);
+      if (data) return { file: path.basename(location), body: data };
+      if (/^([a-z]+:)?\/\//i.test(reference)) {
+        logger.warn(`No se descargan los recursos remotos de una página local: ${reference}`);
+        return undefined;
+      }
+
+      const relative = decodeUrlComponent(reference.replace(/[?#].*$/, ''));
+      if (relative === undefined) {
+        logger.warn(`La ruta del recurso ${reference} de la página no es válida`);
+        return undefined;
+      }
+      const filePath = relative.startsWith('/') ? path.join(root, relative) : path.resolve(directory, relative);
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        logger.warn(`No se encontró el recurso ${reference} de la página`);
+        return undefined;
+      }
+      return { file: path.relative(root, filePath) || path.basename(filePath), body: fs.readFileSync(filePath) };
+    };
+  }
+
+  const html = body.toString('utf-8');
+  const file = isUrl(location) ? location : path.basename(location);
+  const elements = parseHtml(html);
+  const sources: BrandSourceFile[] = [{ file, type: 'html', sha256: sha256(body) }];
+  const stylesheets: Stylesheet[] = [];
+
+  // Las hojas enlazadas y los bloques <style> se aplican en el orden del documento
+  const styleBlocks = Array.from(html.replace(/<!--[\s\S]*?-->/g, '').matchAll(/<style\b[^>]*>([\s\S]*?)<\/style\s*>|<link\b[^>]*>/gi));
+  for (const block of styleBlocks) {
+    if (block[1] !== undefined) {
+      stylesheets.push({ file, rules: parseRules(block[1]) });
+      continue;
+    }
+
+    const link = parseHtml(block[0])[0];
+    const href = link?.attributes.href;
+    if (!href || !/(^|\s)stylesheet(\s|$)/i.test(link.attributes.rel || '') || /^print$/i.test(link.attributes.media || '')) continue;
+    // Las familias y pesos de Google Fonts se leen del enlace, sin descargarlo
+    if (/fonts\.googleapis\.com/i.test(href)) {
+      stylesheets.push({ file, rules: googleFontRules(href) });
+      continue;
+    }
+
+    const stylesheet = await load(href);
+    if (!stylesheet) continue;
+    stylesheets.push({ file: stylesheet.file, rules: parseRules(stylesheet.body.toString('utf-8')) });
+    if (!sources.some(entry => entry.file === stylesheet.file)) {
+      sources.push({ file: stylesheet.file, type: 'css', sha256: sha256(stylesheet.body) });
+    }
+  }
+
+  return { location, html, elements, stylesheets, sources, load };
+}
+
+/**
+ * Reglas @font-face equivalentes a un enlace de Google Fonts
+ * ("family=Inter:wght@400;700")
+ */
+function googleFontRules(href: string): CssRule[] {
+  const query = decodeEntities(href).split('?')[1] || '';
+  return query.split('&')
+    .filter(parameter => parameter.startsWith('family='))
+    .flatMap(parameter => decodeUrlComponent(parameter.slice(7).replace(/\+/g, ' '))?.split('|') || [])
+    .flatMap(family => {
+      const [name, axes = ''] = family.split(':');
+      const weights = axes.match(/[1-9]00/g) || ['400'];
+      return weights.map(weight => ({
+        selector: '@font-face',
+        declarations: [['font-family', `"${name.trim()}"`], ['font-weight', weight], ...(/ital/.test(axes) ? [['font-style', 'italic']] : [])] as Array<[string, string]>
+      }));
+    });
+}
+
+/**
+ * Calcula los estilos de cada elemento: para cada propiedad gana la
+ * declaración más específica (y, a igualdad, la última), los atributos style
+ * prevalecen y las propiedades heredables pasan del contenedor. Devuelve las
+ * reglas que no coinciden con ningún elemento.
+ */
+function computeStyles(page: WebPage, variables: Map<string, string>): Array<{ rule: CssRule; file: string }> {
+  const unmatched: Array<{ rule: CssRule; file: string }> = [];
+  const matched = new Map<HtmlElement, MatchedDeclaration[]>();
+  let order = 0;
+
+  for (const { file, rules } of page.stylesheets) {
+    for (const rule of rules) {
+      if (rule.selector.startsWith('@')) continue;
+      let matches = 0;
+
+      for (const selector of rule.selector.split(',').map(entry => entry.trim()).filter(Boolean)) {
+        const compounds = selectorCompounds(selector);
+        const specificity = specificityOf(selector);
+        const state = STATE_PSEUDO_CLASS.test(selector);
+
+        for (const element of page.elements) {
+          if (state || !matchesSelector(element, compounds)) continue;
+          matches++;
+          const declarations = matched.get(element) || [];
+          for (const [property, value] of rule.declarations) {
+            declarations.push({ property, value, specificity, order: order++, selector, file });
+          }
+          matched.set(element, declarations);
+        }
+      }
+
+      if (matches === 0) unmatched.push({ rule, file });
+    }
+  }
+
+  const pageFile = page.sources[0].file;
+  for (const element of page.elements) {
+    const declarations = [...(matched.get(element) || [])].sort((a, b) => (a.specificity - b.specificity) || (a.order - b.order));
+    const inline = element.attributes.style ? parseRules(`x{${element.attributes.style}}`)[0]?.declarations || [] : [];
+
+    if (element.parent) {
+      for (const [property, style] of element.parent.computed) {
+        if (INHERITED_PROPERTIES.has(property)) element.computed.set(property, style);
+      }
+    }
+    for (const { property, value, selector, file } of declarations) {
+      applyDeclaration(element, property, { value, file, selector }, variables);
+    }
+    for (const [property, value] of inline) {
+      applyDeclaration(element, property, { value, file: pageFile, selector: `<${element.tag} style>` }, variables);
+    }
+  }
+
+  return unmatched;
+}
+
+/**
+ * Aplica una declaración a los estilos calculados de un elemento (el atajo
+ * font fija también la familia y el peso)
+ */
+function applyDeclaration(element: HtmlElement, property: string, style: StyleValue, variables: Map<string, string>): void {
+  element.computed.set(property, style);
+  if (property !== 'font') return;
+
+  const { value } = resolveVariables(style.value, variables);
+  const family = value.match(/(?:^|\s)[\d.]+(?:px|pt|em|rem|%)(?:\/\S+)?\s+(.+)$/)?.[1];
+  const weight = value.split(/\s+/).map(fontWeightOf).find(Boolean);
+  if (family) element.computed.set('font-family', { ...style, value: family });
+  if (weight) element.computed.set('font-weight', { ...style, value: weight });
+}
+
+/**
+ * Colores de la página ponderados por el área y el papel de los elementos que
+ * los usan: los fondos de las zonas grandes pesan más que el texto y los
+ * bordes, y los botones y enlaces marcan los colores de acción
+ */
+function extractWebColors(page: WebPage, variables: Map<string, string>, unmatched: Array<{ rule: CssRule; file: string }>): ColorInfo[] {
+  const uses = new Map<string, ColorUse>();
+  const addUse = (value: string, file: string, role: ColorRole, weight: number) => {
+    const resolved = resolveVariables(value, variables);
+    for (const rgb of valueColors(resolved.value)) {
+      const hex = rgbToHex(rgb);
+      // El color toma el nombre de la variable que lo declara (en un degradado
+      // con varias, la suya)
+      const variable = resolved.references.find(name => {
+        const declared = colorOf(resolveVariables(variables.get(name) || '', variables).value);
+        return declared !== undefined && rgbToHex(declared) === hex;
+      });
+      const use: ColorUse = uses.get(hex) || { rgb, weight: 0, roles: new Map(), files: new Set() };
+      use.weight += weight;
+      use.roles.set(role, (use.roles.get(role) || 0) + weight);
+      use.files.add(file);
+      if (!use.variable && variable) use.variable = variable;
+      uses.set(hex, use);
+    }
+  };
+  const propertyRole = (property: string) => COLOR_PROPERTY_ROLES.find(([pattern]) => pattern.test(property));
+
+  for (const element of page.elements) {
+    const { weight, action } = elementWeight(element);
+    for (const [property, style] of element.computed) {
+      const role = propertyRole(property);
+      if (!role) continue;
+      addUse(style.value, style.file, action && role[1] !== 'border' ? 'action' : role[1], weight * role[2]);
+    }
+  }
+
+  for (const { rule, file } of unmatched) {
+    const last = selectorCompounds(rule.selector.split(',')[0]).pop() || '';
+    const action = ACTION_HINT.test(last) || /^(a|button)\b/i.test(last);
+    const factor = STATE_PSEUDO_CLASS.test(rule.selector) ? STATE_FACTOR : 1;
+    for (const [property, value] of rule.declarations) {
+      const role = propertyRole(property);
+      if (role) addUse(value, file, action && role[1] !== 'border' ? 'action' : role[1], UNMATCHED_WEIGHT * role[2] * factor);
+    }
+  }
+
+  // Las variables de color que no se usan en ninguna regla también son de la marca
+  for (const { file, rules } of page.stylesheets) {
+    for (const [property, value] of rules.flatMap(rule => rule.declarations)) {
+      if (!property.startsWith('--')) continue;
+      const rgb = colorOf(resolveVariables(value, variables).value);
+      if (rgb && !uses.has(rgbToHex(rgb))) addUse(`var(${property})`, file, 'text', UNMATCHED_WEIGHT);
+    }
+  }
+
+  // Los colores casi idénticos se agrupan y conservan el valor del más usado
+  const clusters = clusterColors([...uses.values()].map(use => ({ rgb: use.rgb, weight: use.weight, data: use })), SAME_COLOR_DISTANCE);
+  const total = clusters.reduce((sum, cluster) => sum + cluster.weight, 0);
+
+  // Los colores de variables con nombre de categoría se conservan aunque se usen poco
+  const palette = clusters
+    .map(cluster => {
+      const variable = cluster.members.map(member => member.data!.variable).find(Boolean);
+      const category = variable ? inferColorCategory(variable.replace(/[-_]+/g, ' ')) : undefined;
+      return { cluster, variable, category };
+    })
+    .filter(({ cluster, category }) => total > 0 && (cluster.weight / total >= MIN_COLOR_SHARE || category))
+    .slice(0, MAX_COLORS)
+    .map(({ cluster, variable, category }, index) => {
+      const main = cluster.members[0].data!;
+      const roles = new Map<ColorRole, number>();
+      for (const member of cluster.members) {
+        for (const [role, weight] of member.data!.roles) roles.set(role, (roles.get(role) || 0) + weight);
+      }
+      const role = [...roles.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+      const color: ColorInfo = {
+        name: variable ? variableName(variable) : `Color ${index + 1}`,
+        hex: rgbToHex(main.rgb),
+        rgb: rgbToString(main.rgb),
+        usage: COLOR_USAGE[role],
+        coverage: Math.round((cluster.weight / total) * 10000) / 10000,
+        source: 'css',
+        origins: Array.from(new Set(cluster.members.flatMap(member => [...member.data!.files]))).map(file => ({ file }))
+      };
+      if (category) color.category = category;
+      return { color, achromatic: isAchromatic(main.rgb), actionWeight: roles.get('action') || 0 };
+    });
+
+  // El color cromático más usado en botones y enlaces es el primario; el resto
+  // de cromáticos son secundario y acentos y los acromáticos, neutros
+  if (!palette.some(({ color }) => color.category === 'primary')) {
+    const primary = palette
+      .filter(entry => !entry.color.category && !entry.achromatic)
+      .sort((a, b) => b.actionWeight - a.actionWeight)[0];
+    if (primary) primary.color.category = 'primary';
+  }
+  let secondary = palette.some(({ color }) => color.category === 'secondary');
+  for (const { color, achromatic } of palette) {
+    if (color.category) continue;
+    if (achromatic) {
+      color.category = 'neutral';
+    } else {
+      color.category = secondary ? 'accent' : 'secondary';
+      secondary = true;
+    }
+  }
+
+  return palette.map(({ color }) => color);
+}
+
+/**
+ * Tipografías de la página ponderadas por el área de los elementos que las
+ * usan. El texto principal es la familia más usada en párrafos y cuerpo, los
+ * titulares la más usada en h1-h6 (si es otra) y @font-face aporta los pesos.
+ */
+function extractWebTypography(page: WebPage, variables: Map<string, string>, unmatched: Array<{ rule: CssRule; file: string }>): TypographyInfo[] {
+  const fonts = new Map<string, FontUse>();
+  const addUse = (value: string, file: string, weight: number, role?: FontRole, fontWeight?: string) => {
+    const resolved = resolveVariables(value, variables);
+    const { family, fallback } = parseFontStack(resolved.value);
+    if (!family || ICON_FONT.test(family)) return;
+
+    const key = family.toLowerCase();
+    const entry: FontUse = fonts.get(key) || { font: { family, source: 'css' }, weight: 0, roles: new Map(), files: new Set() };
+    const usedRole = (resolved.references.length > 0 ? fontRoleOf(resolved.references[0]) : undefined) || role;
+    entry.weight += weight;
+    if (usedRole) entry.roles.set(usedRole, (entry.roles.get(usedRole) || 0) + weight);
+    if (!entry.font.fallback && fallback) entry.font.fallback = fallback;
+    if (fontWeight) entry.font.weights = Array.from(new Set([...(entry.font.weights || []), fontWeight])).sort((a, b) => Number(a) - Number(b));
+    entry.files.add(file);
+    fonts.set(key, entry);
+  };
+
+  for (const element of page.elements) {
+    const family = element.computed.get('font-family');
+    if (!family) continue;
+    const role: FontRole = /^h[1-6]$/.test(element.tag) ? 'heading' : fontRoleOf(family.selector) || 'body';
+    addUse(family.value, family.file, elementWeight(element).weight, role, fontWeightOf(element.computed.get('font-weight')?.value));
+  }
+
+  for (const { rule, file } of unmatched) {
+    const family = rule.declarations.find(([property]) => property === 'font-family')?.[1];
+    if (family) addUse(family, file, UNMATCHED_WEIGHT, fontRoleOf(rule.selector));
+  }
+
+  // Las familias cargadas con @font-face aportan sus pesos y cursivas
+  for (const { file, rules } of page.stylesheets) {
+    for (const rule of rules.filter(entry => /^@font-face$/i.test(entry.selector))) {
+      const declared = new Map(rule.declarations);
+      const family = declared.get('font-family');
+      if (!family) continue;
+      const weights = declared.get('font-weight')?.match(/[1-9]00/g) || [fontWeightOf(declared.get('font-weight')) || '400'];
+      weights.forEach(weight => addUse(family, file, 0, undefined, weight));
+
+      const entry = fonts.get(parseFontStack(family).family?.toLowerCase() || '');
+      if (entry && /italic|oblique/i.test(declared.get('font-style') || '')) entry.font.italic = true;
+    }
+  }
+
+  const ranked = [...fonts.values()].sort((a, b) => b.weight - a.weight);
+  const strongest = (role: FontRole, exclude: typeof ranked) =>
+    ranked.filter(entry => !exclude.includes(entry) && (entry.roles.get(role) || 0) > 0)
+      .sort((a, b) => (b.roles.get(role) || 0) - (a.roles.get(role) || 0))[0];
+
+  const body = strongest('body', []) || ranked[0];
+  const heading = strongest('heading', body ? [body] : []);
+  const accent = strongest('accent', [body, heading].filter(Boolean));
+  for (const [role, entry] of [['body', body], ['heading', heading], ['accent', accent]] as const) {
+    if (!entry) continue;
+    entry.font.category = role;
+    entry.font.usage = TYPEFACE_USAGE[role];
+  }
+
+  return ranked.map(entry => ({ ...entry.font, origins: [...entry.files].map(file => ({ file })) }));
+}
+
+/**
+ * Elemento del logo: la imagen o el SVG con pistas de logo (en su nombre,
+ * clases o texto alternativo, o en los de su enlace) dentro de la cabecera;
+ * si no hay, el primero con pistas o la primera imagen de la cabecera
+ */
+function findLogoElement(page: WebPage): HtmlElement | undefined {
+  const lineage = (element: HtmlElement) => {
+    const chain: HtmlElement[] = [];
+    for (let current: HtmlElement | undefined = element; current; current = current.parent) chain.push(current);
+    return chain;
+  };
+  const hinted = (element: HtmlElement) => lineage(element).slice(0, 3).some(entry =>
+    LOGO_HINT.test([entry.attributes.id, entry.attributes.class, entry.attributes.alt, entry.attributes['aria-label'], path.basename(entry.attributes.src || '')].join(' '))
+  );
+  const inHeader = (element: HtmlElement) => lineage(element).some(entry =>
+    entry.tag === 'header' || /(^|[^a-z])(header|navbar|masthead)([^a-z]|$)/i.test(`${entry.attributes.id || ''} ${entry.attributes.class || ''}`)
+  );
+
+  const candidates = page.elements.filter(element => (element.tag === 'img' && (element.attributes.src || element.attributes['data-src'])) || element.svg);
+  return candidates.find(element => hinted(element) && inHeader(element)) ||
+    candidates.find(hinted) ||
+    candidates.find(inHeader);
+}
+
+/**
+ * Guarda en el directorio de salida la imagen de un logo si es PNG o SVG (los
+ * demás formatos no sirven para el tema) y devuelve sus datos
+ */
+function saveLogoImage(body: Buffer, outputDir: string, name: string): Pick<LogoInfo, 'width' | 'height' | 'colors' | 'files'> | undefined {
+  const isPng = body.length > 24 && body.readUInt32BE(0) === 0x89504e47;
+  const text = isPng ? '' : body.toString('utf-8');
+  if (!isPng && !/<svg[\s>]/i.test(text)) return undefined;
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  if (isPng) {
+    const file = path.join(outputDir, `${name}.png`);
+    fs.writeFileSync(file, body);
+    return { width: body.readUInt32BE(16), height: body.readUInt32BE(20), files: { png: file } };
+  }
+
+  // Los SVG en línea no siempre declaran el espacio de nombres
+  const svg = /xmlns=/.test(text) ? text : text.replace(/<svg\b/i, '<svg xmlns="http://www.w3.org/2000/svg"');
+  const file = path.join(outputDir, `${name}.svg`);
+  fs.writeFileSync(file, svg);
+  const colors = extractSvgColors(svg);
+  return { ...svgDimensions(svg), ...(colors.length > 0 ? { colors } : {}), files: { svg: file } };
+}
+
+/**
+ * Logo de la cabecera y favicon de la página, guardados como PNG o SVG
+ */
+async function extractWebLogos(page: WebPage, logoElement: HtmlElement | undefined, outputDir: string): Promise<LogoInfo[]> {
+  const logos: LogoInfo[] = [];
+
+  if (logoElement) {
+    const reference = logoElement.attributes.src || logoElement.attributes['data-src'];
+    const resource = logoElement.svg
+      ? { file: page.sources[0].file, body: Buffer.from(logoElement.svg) }
+      : await page.load(reference);
+    const image = resource && saveLogoImage(resource.body, outputDir, 'logo');
+
+    if (image) {
+      logos.push({ name: 'Logo', type: 'primary', variant: 'primary', description: 'Logo de la cabecera de la web', ...image, origins: [{ file: resource.file }] });
+    } else if (resource) {
+      logger.warn(`El logo de la web (${reference}) no es PNG ni SVG; no se exporta`);
+    }
+  }
+
+  // Iconos declarados: primero los SVG y después los PNG de mayor tamaño
+  const icons = page.elements
+    .filter(element => element.tag === 'link' && element.attributes.href && /(^|\s)(icon|apple-touch-icon)(\s|$)/i.test(element.attributes.rel || ''))
+    .map(element => ({
+      href: element.attributes.href,
+      svg: /svg/i.test(element.attributes.type || '') || /\.svg([?#]|$)/i.test(element.attributes.href),
+      size: Number((element.attributes.sizes || '').match(/^(\d+)/)?.[1]) || 0
+    }))
+    .filter(icon => !/\.ico([?#]|$)/i.test(icon.href))
+    .sort((a, b) => Number(b.svg) - Number(a.svg) || b.size - a.size);
+
+  for (const icon of icons) {
+    const resource = await page.load(icon.href);
+    const image = resource && saveLogoImage(resource.body, outputDir, 'favicon');
+    if (!image) continue;
+    logos.push({ name: 'Favicon', type: 'icon', variant: 'icon', description: 'Favicon de la web', ...image, origins: [{ file: resource.file }] });
+    break;
+  }
+
+  return logos;
+}
+
+/**
+ * Mediana de una lista de números
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Longitud CSS en píxeles ("8px", "0.5rem"); los porcentajes no se convierten
+ */
+function lengthInPixels(value: string): number | undefined {
+  const match = value.trim().match(/^(-?[\d.]+)([a-z]*)$/i);
+  if (!match) return undefined;
+  const unit = match[2].toLowerCase();
+  if (!unit) return parseDecimal(match[1]);
+  return isLengthUnit(unit) ? toPixels(parseDecimal(match[1]), unit) : undefined;
+}
+
+/**
+ * Personalidad visual de la web: la forma de las esquinas sale del radio de
+ * borde de botones, tarjetas y campos (los radios de píldora cuentan como
+ * redondeados) y la profundidad, del desenfoque de las sombras
+ */
+function extractWebPersonality(page: WebPage, variables: Map<string, string>): BrandPersonality | undefined {
+  const radii: number[] = [];
+  let pills = 0;
+  const blurs: number[] = [];
+  const evidence: string[] = [];
+  const note = (selector: string, property: string, value: string) => {
+    const quote = `${selector} { ${property}: ${value} }`;
+    if (evidence.length < MAX_EVIDENCE && !evidence.includes(quote)) evidence.push(quote);
+  };
+
+  const rules = page.stylesheets.flatMap(stylesheet => stylesheet.rules).filter(rule => !rule.selector.startsWith('@'));
+  for (const rule of rules) {
+    for (const [property, raw] of rule.declarations) {
+      const value = resolveVariables(raw, variables).value.trim();
+
+      if (property === 'border-radius' && (COMPONENT_SELECTOR.test(rule.selector) || /(^|[\s,>+~])(button|input)\b/i.test(rule.selector))) {
+        const first = value.split(/\s+/)[0];
+        const pixels = lengthInPixels(first);
+        if (first.endsWith('%') || (pixels !== undefined && pixels >= 100)) pills++;
+        else if (pixels !== undefined) radii.push(pixels);
+        else continue;
+        note(rule.selector, property, value);
+      } else if (property === 'box-shadow' && value && !/^none$/i.test(value)) {
+        const shadow = value.split(/,(?![^(]*\))/)[0].replace(/[a-z-]+\([^)]*\)|#[0-9a-f]+|\binset\b/gi, ' ');
+        const lengths = shadow.trim().split(/\s+/).map(lengthInPixels).filter((length): length is number => length !== undefined);
+        if (lengths.length < 2) continue;
+        blurs.push(lengths[2] || 0);
+        note(rule.selector, property, value);
+      }
+    }
+  }
+
+  const personality: BrandPersonality = {};
+  if (radii.length > 0) personality.radius = Math.round(median(radii));
+  if (pills > radii.length) personality.corners = 'rounded';
+  else if (personality.radius !== undefined) personality.corners = cornerStyleForRadius(personality.radius);
+
+  if (blurs.length > 0) personality.elevation = median(blurs) <= 8 ? 'subtle' : 'elevated';
+  else if (rules.length > 0) personality.elevation = 'flat';
+
+  if (!personality.corners && !personality.elevation) return undefined;
+  personality.evidence = evidence;
+  return personality;
+}
+
+/**
+ * Nombre de la marca: el del sitio (og:site_name o application-name), el
+ * texto alternativo del logo o la primera parte del título de la página que
+ * no sea un título genérico ("Inicio – Marca")
+ */
+function webBrandName(page: WebPage, logoElement: HtmlElement | undefined): string | undefined {
+  const meta = (key: string) => page.elements.find(element =>
+    element.tag === 'meta' && (element.attributes.property === key || element.attributes.name === key)
+  )?.attributes.content?.trim();
+  const alt = logoElement?.attributes.alt?.replace(/\b(logo(tipo)?|logotype)\b/gi, '').replace(/\s+/g, ' ').trim();
+  const title = page.html.match(/<title[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+
+  return meta('og:site_name') ||
+    meta('application-name') ||
+    alt ||
+    (title ? decodeEntities(title).split(/\s+[|–—·:-]\s+/).map(part => part.trim()).find(part => part && !HOME_TITLE.test(part)) : undefined);
+}
+
+/**
+ * Directorio donde se guardan los logos de la web: el indicado en las
+ * opciones o logos/<dominio> (logos/<nombre-del-html>, o el del directorio si
+ * es su index.html) en el workspace, nunca junto a los archivos del sitio
+ */
+function webLogoOutputDir(page: WebPage, options: ExtractOptions): string {
+  if (options.logoOutputDir) return path.resolve(options.logoOutputDir);
+  if (isUrl(page.location)) return workspacePath('logos', workspaceId(new URL(page.location).hostname, 'web'));
+  const parsed = path.parse(page.location);
+  const name = /^index$/i.test(parsed.name) ? path.basename(parsed.dir) : parsed.name;
+  return workspacePath('logos', workspaceId(name, 'web'));
+}
+
+/**
+ * Extrae la identidad de marca de una web (un archivo HTML, un directorio con
+ * su index.html o una URL): colores y tipografías de los estilos calculados
+ * de la página, el logo de la cabecera, el favicon y la personalidad de los
+ * radios y sombras. Las URL se descargan con el fetcher indicado.
+ */
+export async function extractWebBranding(source: string, options: ExtractOptions = {}, fetcher: WebFetcher = httpFetcher): Promise<BrandingData> {
+  const page = await loadPage(source, fetcher);
+
+  // Las variables CSS se resuelven con su última declaración
+  const variables = new Map<string, string>();
+  for (const rule of page.stylesheets.flatMap(stylesheet => stylesheet.rules)) {
+    for (const [property, value] of rule.declarations) {
+      if (property.startsWith('--')) variables.set(property, value);
+    }
+  }
+
+  const unmatched = computeStyles(page, variables);
+  const logoElement = findLogoElement(page);
+  const data: BrandingData = {
+    colors: options.extractColors !== false ? extractWebColors(page, variables, unmatched) : [],
+    typography: options.extractTypography !== false ? extractWebTypography(page, variables, unmatched) : [],
+    logos: options.extractLogos !== false ? await extractWebLogos(page, logoElement, webLogoOutputDir(page, options)) : [],
+    sources: page.sources
+  };
+
+  const personality = options.extractPersonality !== false ? extractWebPersonality(page, variables) : undefined;
+  if (personality) data.personality = personality;
+  const brandName = webBrandName(page, logoElement);
+  if (brandName) data.brandName = brandName;
+
+  logger.info(
+    `${page.location}: ${page.elements.length} elementos, ${page.stylesheets.length} hojas de estilos; ` +
+    `${data.colors.length} colores, ${data.typography.length} tipografías, ${data.logos.length} logos`
+  );
+  return data;
+}
+
+/**
+ * Registra la herramienta MCP para extraer la marca de una web
+ */
+export function registerWebBrandingTool(registry: ToolRegistry, fetcher: WebFetcher = httpFetcher): void {
+  registry.register({
+    name: 'extract_web_branding',
+    description: 'Extrae la identidad de marca de una web existente (archivo HTML, directorio o URL): colores ponderados por el área y el papel de los elementos, tipografías de font-family y @font-face, logo de la cabecera, favicon y personalidad de los radios y sombras',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        source: {
+          type: 'string',
+          minLength: 1,
+          description: 'URL de la página (http o https), ruta a un archivo HTML o a un directorio con su index.html'
+        },
+        extractOptions: {
+          ...extractOptionsSchema,
+          description: 'Opciones de extracción (por defecto, los logos se guardan en el workspace, en logos/<nombre-del-html> o, para una URL, en logos/<dominio>)'
+        },
+        brand: {
+          type: 'string',
+          minLength: 1,
+          description: 'Identificador de la marca en el workspace (por defecto, el nombre de la marca o, si no se detecta, el dominio o el nombre del archivo)'
+        }
+      },
+      required: ['source'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const { source, extractOptions, brand } = args as {
+        source: string;
+        extractOptions?: ExtractOptions;
+        brand?: string;
+      };
+
+      logger.info(`Extrayendo información de branding de la web: ${source}`);
+      const brandingData = await extractWebBranding(source, extractOptions, fetcher);
+      const text = JSON.stringify(brandingData, null, 2);
+
+      // Los datos se guardan en el workspace como recurso brand://<marca>/branding.json
+      const fallback = isUrl(source) ? new URL(source).hostname.replace(/^www\./, '') : path.basename(source, path.extname(source));
+      const brandId = workspaceId(brand || brandingData.brandName || fallback);
+      const saved = await saveQuietly('los datos de marca', () => writeBrandFile(brandId, 'branding.json', text));
+
+      return { text, resources: saved ? [`brand://${brandId}/branding.json`] : [] };
+    }
+  });
+}
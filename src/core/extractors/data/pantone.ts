@@ -0,0 +1,138 @@
+/**
+ * Tabla de referencia de colores Pantone habituales en manuales de marca.
+ * Los valores son las aproximaciones sRGB publicadas para cada muestra; sirven
+ * para convertir referencias Pantone cuando el manual no indica su valor de pantalla.
+ */
+
+// Acabado de la muestra: C (coated, papel estucado) o U (uncoated, papel no estucado)
+export type PantoneFinish = 'C' | 'U';
+
+// Muestras Pantone coated (PANTONE ... C)
+const PANTONE_COATED: Record<string, string> = {
+  'YELLOW': '#FEDD00',
+  'ORANGE 021': '#FE5000',
+  'WARM RED': '#F9423A',
+  'RED 032': '#EF3340',
+  'RUBINE RED': '#CE0058',
+  'RHODAMINE RED': '#E10098',
+  'PURPLE': '#BB29BB',
+  'VIOLET': '#440099',
+  'REFLEX BLUE': '#001489',
+  'PROCESS BLUE': '#0085CA',
+  'GREEN': '#00AB84',
+  'BLACK': '#2D2926',
+  'COOL GRAY 1': '#D9D9D6',
+  'COOL GRAY 5': '#B1B3B3',
+  'COOL GRAY 7': '#97999B',
+  'COOL GRAY 9': '#75787B',
+  'COOL GRAY 11': '#53565A',
+  'WARM GRAY 1': '#D7D2CB',
+  'WARM GRAY 11': '#6E6259',
+  '109': '#FFD100',
+  '116': '#FFCD00',
+  '123': '#FFC72C',
+  '130': '#F2A900',
+  '151': '#FF8200',
+  '165': '#FF671F',
+  '185': '#E4002B',
+  '186': '#C8102E',
+  '199': '#D50032',
+  '200': '#BA0C2F',
+  '201': '#9D2235',
+  '202': '#862633',
+  '208': '#861F41',
+  '259': '#6D2077',
+  '268': '#582C83',
+  '279': '#418FDE',
+  '280': '#012169',
+  '281': '#00205B',
+  '282': '#041E42',
+  '286': '#0033A0',
+  '287': '#003087',
+  '293': '#003DA5',
+  '294': '#002F6C',
+  '295': '#002855',
+  '299': '#00A3E0',
+  '300': '#005EB8',
+  '301': '#004B87',
+  '320': '#009CA6',
+  '326': '#00B2A9',
+  '340': '#00965E',
+  '347': '#009A44',
+  '355': '#009639',
+  '356': '#007A33',
+  '361': '#43B02A',
+  '362': '#509E2F',
+  '375': '#97D700',
+  '376': '#84BD00',
+  '425': '#54585A',
+  '432': '#333F48',
+  '433': '#1D252D',
+  '484': '#9A3324',
+  '485': '#DA291C',
+  '541': '#003C71',
+  '1235': '#FFB81C',
+  '1505': '#FF6900',
+  '1795': '#D22630',
+  '1797': '#CB333B',
+  '2685': '#330072',
+  '2925': '#009CDE',
+  '2935': '#0057B8',
+  '2945': '#004C97',
+  '3005': '#0077C8',
+  '3435': '#154734',
+  '7406': '#F1C400',
+  '7427': '#97233F',
+  '7455': '#3A5DAE',
+  '7462': '#00558C',
+  '7463': '#002B49',
+  '7548': '#FFC600',
+  '7621': '#AB2328',
+  '7739': '#319B42'
+};
+
+// Muestras Pantone uncoated (PANTONE ... U); la tinta sobre papel no estucado se ve más apagada
+const PANTONE_UNCOATED: Record<string, string> = {
+  'YELLOW': '#FFE552',
+  'WARM RED': '#FF6663',
+  'REFLEX BLUE': '#3E4DA0',
+  'PROCESS BLUE': '#3D8CC6',
+  'GREEN': '#00A27F',
+  'BLACK': '#5B5A5C',
+  'COOL GRAY 11': '#6E6F72',
+  '185': '#F0424F',
+  '186': '#D6404D',
+  '280': '#3C4B83',
+  '286': '#3D5DA7',
+  '300': '#3B79BD',
+  '347': '#2AA15F',
+  '485': '#EE4C3F',
+  '123': '#FFC843',
+  'ORANGE 021': '#FF7A3D'
+};
+
+/**
+ * Normaliza el identificador de una muestra: mayúsculas, espacios simples y
+ * nombres abreviados (Cool Grey, Process Blue...)
+ */
+export function normalizePantoneName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/\bGREY\b/g, 'GRAY')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Busca el valor sRGB de una muestra Pantone. Si no hay valor para el acabado
+ * uncoated se usa el coated, que es el que incluyen casi todas las guías
+ */
+export function lookupPantone(name: string, finish: PantoneFinish = 'C'): string | undefined {
+  const key = normalizePantoneName(name);
+
+  if (finish === 'U') {
+    return PANTONE_UNCOATED[key] || PANTONE_COATED[key];
+  }
+
+  return PANTONE_COATED[key];
+}
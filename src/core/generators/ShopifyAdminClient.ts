@@ -0,0 +1,126 @@
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { logger } from '../../utils/logger.js';
+import { ShopifyConfig } from '../../utils/config.js';
+
+// Tema tal como lo devuelve la Admin REST API
+export interface ShopifyTheme {
+  id: number;
+  name: string;
+  role: 'main' | 'unpublished' | 'demo' | 'development';
+  processing: boolean;
+  previewable?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Asset de un tema: texto en "value" o binario en base64 en "attachment"
+export interface ShopifyAsset {
+  key: string;
+  value?: string;
+  attachment?: string;
+}
+
+const MAX_RETRIES = 5;
+
+/**
+ * Espera el número de milisegundos indicado
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Cliente mínimo de los endpoints de temas de la Admin REST API de Shopify.
+ * La URL base sale de la configuración, por lo que puede apuntar a una tienda simulada.
+ */
+export class ShopifyAdminClient {
+  private http: AxiosInstance;
+
+  constructor(config: ShopifyConfig) {
+    this.http = axios.create({
+      baseURL: config.adminApiUrl,
+      headers: {
+        'X-Shopify-Access-Token': config.accessToken,
+        'Content-Type': 'application/json',
+        Accept: 'application/json'
+      },
+      timeout: 30000
+    });
+  }
+
+  async listThemes(): Promise<ShopifyTheme[]> {
+    const data = await this.request<{ themes: ShopifyTheme[] }>('get', '/themes.json');
+    return data.themes;
+  }
+
+  async getTheme(themeId: number | string): Promise<ShopifyTheme> {
+    const data = await this.request<{ theme: ShopifyTheme }>('get', `/themes/${themeId}.json`);
+    return data.theme;
+  }
+
+  async createTheme(name: string, src?: string): Promise<ShopifyTheme> {
+    const data = await this.request<{ theme: ShopifyTheme }>('post', '/themes.json', {
+      theme: { name, role: 'unpublished', ...(src ? { src } : {}) }
+    });
+    return data.theme;
+  }
+
+  async publishTheme(themeId: number | string): Promise<ShopifyTheme> {
+    const data = await this.request<{ theme: ShopifyTheme }>('put', `/themes/${themeId}.json`, {
+      theme: { id: Number(themeId), role: 'main' }
+    });
+    return data.theme;
+  }
+
+  async putAsset(themeId: number | string, asset: ShopifyAsset): Promise<void> {
+    await this.request('put', `/themes/${themeId}/assets.json`, { asset });
+  }
+
+  /**
+   * Consulta el tema hasta que Shopify termina de procesarlo
+   */
+  async waitForProcessing(themeId: number | string, intervalMs = 2000, timeoutMs = 120000): Promise<ShopifyTheme> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const theme = await this.getTheme(themeId);
+      if (!theme.processing) {
+        return theme;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`El tema ${themeId} sigue en procesamiento después de ${timeoutMs / 1000}s`);
+      }
+
+      await delay(intervalMs);
+    }
+  }
+
+  /**
+   * Ejecuta una petición reintentando cuando Shopify limita la tasa (HTTP 429)
+   */
+  private async request<T>(method: 'get' | 'post' | 'put', url: string, body?: unknown): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.http.request<T>({ method, url, data: body });
+        return response.data;
+      } catch (error) {
+        const axiosError = error as AxiosError<{ errors?: unknown }>;
+        const status = axiosError.response?.status;
+
+        if (status === 429 && attempt < MAX_RETRIES) {
+          const retryAfter = Number(axiosError.response?.headers['retry-after']) || 2;
+          logger.warn(`Límite de tasa de Shopify alcanzado, reintentando en ${retryAfter}s`);
+          await delay(retryAfter * 1000);
+          continue;
+        }
+
+        const details = axiosError.response?.data?.errors;
+        throw new Error(
+          `Shopify respondió ${status ?? 'sin respuesta'} en ${method.toUpperCase()} ${url}` +
+            (details ? `: ${JSON.stringify(details)}` : `: ${axiosError.message}`)
+        );
+      }
+    }
+  }
+}
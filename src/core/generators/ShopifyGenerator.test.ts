@@ -0,0 +1,44 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateDefaultDesignTokens } from '../context/DesignTokenExtractor.js';
+import { generateShopifyTheme } from './ShopifyGenerator.js';
+
+const LOGO = '<svg xmlns="http://www.w3.org/2000/svg" width="120" height="40"><rect width="120" height="40"/></svg>';
+
+describe('generateShopifyTheme', () => {
+  let directory: string;
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'generator-'));
+    fs.writeFileSync(path.join(directory, 'logo.svg'), LOGO);
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('escribe un tema Online Store 2.0 con los tokens y el logo de la marca', async () => {
+    const tokens = generateDefaultDesignTokens();
+    tokens.colors.primary['500'] = '#0033a0';
+    const themePath = path.join(directory, 'theme');
+
+    const result = await generateShopifyTheme(tokens, 'Acme Theme', themePath, [
+      { name: 'Logo', type: 'primary', description: 'Logo principal', width: 120, height: 40, files: { svg: path.join(directory, 'logo.svg') } }
+    ]);
+
+    assert.equal(result.path, themePath);
+    for (const file of ['layout/theme.liquid', 'templates/index.json', 'config/settings_schema.json', 'config/settings_data.json', 'assets/base.css', 'assets/logo.svg']) {
+      assert.ok(result.files.includes(file), file);
+      assert.ok(fs.existsSync(path.join(themePath, file)), file);
+    }
+    assert.ok(result.files.some(file => file.startsWith('sections/')));
+
+    const schema = JSON.parse(fs.readFileSync(path.join(themePath, 'config/settings_schema.json'), 'utf-8')) as Array<{ name: string; theme_name?: string }>;
+    assert.equal(schema.find(group => group.name === 'theme_info')?.theme_name, 'Acme Theme');
+    assert.match(fs.readFileSync(path.join(themePath, 'assets/base.css'), 'utf-8'), /--color-primary-500: #0033a0;/i);
+    assert.equal(fs.readFileSync(path.join(themePath, 'assets/logo.svg'), 'utf-8'), LOGO);
+  });
+});
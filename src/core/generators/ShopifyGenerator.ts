@@ -0,0 +1,328 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+import { isTextMimeType, listFiles, listThemes, mimeTypeOf, recordTheme, saveQuietly, workspaceId } from '../resources/Workspace.js';
+import { assertValid } from '../../utils/schema.js';
+import { DesignTokens, designTokensSchema, generateDefaultDesignTokens } from '../context/DesignTokenExtractor.js';
+import { applyDtcgTokens, isDtcgDocument, parseDtcgDocument } from '../context/DtcgFormat.js';
+import { generateOnColors } from '../context/ContrastAuditor.js';
+import { generateSemanticColors } from '../context/SemanticTokens.js';
+import { generateColorSchemes } from '../context/ColorSchemes.js';
+import { fontAssetName, fontPreloads, resolveFonts, uniqueFonts } from '../context/FontResolver.js';
+import { LogoInfo, logoInfoSchema } from '../extractors/PDFExtractor.js';
+import { generateThemeLayout } from './theme/layout.js';
+import { SectionLogos, ThemeLogo, generateSections } from './theme/sections.js';
+import { generateSnippets } from './theme/snippets.js';
+import { generateTemplates } from './theme/templates.js';
+import { FONT_SETTING_ROLES, generateSettingsData, generateSettingsSchema, usesFontPicker } from './theme/config.js';
+import { generateLocales } from './theme/locales.js';
+import { generateBaseCss } from './theme/assets.js';
+import fs from 'fs';
+import path from 'path';
+
+// Resultado de la generación de un tema
+export interface ThemeGenerationResult {
+  themeName: string;
+  path: string;
+  files: string[];
+}
+
+// Logos que se incluyen en el tema: archivos de assets/ y su uso en las plantillas
+interface ThemeLogoAssets extends SectionLogos {
+  files: Record<string, Buffer>;
+  favicon?: string;
+}
+
+/**
+ * Lee los archivos de los logos extraídos y decide cuál se usa en la cabecera
+ * (el principal), en el pie (el negativo) y como favicon (el isotipo o, si no
+ * hay, el principal)
+ */
+async function loadLogoAssets(logos: LogoInfo[]): Promise<ThemeLogoAssets> {
+  const assets: ThemeLogoAssets = { files: {} };
+  const main =
+    logos.find(logo => logo.type === 'primary') ||
+    logos.find(logo => logo.variant !== 'reversed' && logo.type !== 'icon') ||
+    logos[0];
+  const reversed = logos.find(logo => logo.variant === 'reversed');
+  const icon = logos.find(logo => logo.type === 'icon' || logo.variant === 'icon');
+
+  const readFile = async (filePath: string) => {
+    try {
+      return await fs.promises.readFile(filePath);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `No se pudo leer el archivo del logo: ${filePath}`);
+    }
+  };
+
+  const addLogo = async (logo: LogoInfo | undefined, assetName: string): Promise<ThemeLogo | undefined> => {
+    const source = logo?.files?.svg || logo?.files?.png;
+    if (!logo || !source) return undefined;
+
+    const asset = `${assetName}${path.extname(source).toLowerCase()}`;
+    assets.files[`assets/${asset}`] = await readFile(source);
+    return {
+      asset,
+      aspectRatio: logo.width && logo.height ? logo.width / logo.height : 3
+    };
+  };
+
+  assets.logo = await addLogo(main, 'logo');
+  assets.reversedLogo = await addLogo(reversed, 'logo-reversed');
+
+  const faviconSource = icon?.files?.png || main?.files?.png;
+  if (faviconSource) {
+    assets.files['assets/favicon.png'] = await readFile(faviconSource);
+    assets.favicon = 'favicon.png';
+  }
+
+  return assets;
+}
+
+/**
+ * Lee los archivos de las fuentes propias de la marca, que se copian en
+ * assets/ con el nombre que usan sus reglas @font-face
+ */
+async function loadFontAssets(tokens: DesignTokens): Promise<Record<string, Buffer>> {
+  const files: Record<string, Buffer> = {};
+
+  for (const font of uniqueFonts(tokens.typography.fonts)) {
+    if (font.source !== 'local') continue;
+
+    for (const face of font.faces || []) {
+      for (const file of face.files) {
+        try {
+          files[`assets/${fontAssetName(font, face, file)}`] = await fs.promises.readFile(file.path);
+        } catch {
+          throw new McpError(ErrorCode.InvalidParams, `No se pudo leer el archivo de fuente: ${file.path}`);
+        }
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Construye el mapa de archivos del tema (ruta relativa -> contenido)
+ */
+function buildThemeFiles(
+  tokens: DesignTokens,
+  themeName: string,
+  logos: ThemeLogoAssets = { files: {} },
+  fontFiles: Record<string, Buffer> = {}
+): Record<string, string | Buffer> {
+  const files: Record<string, string | Buffer> = {
+    'layout/theme.liquid': generateThemeLayout({
+      favicon: logos.favicon,
+      fontPickers: FONT_SETTING_ROLES.filter(role => usesFontPicker(tokens, role)),
+      fontPreloads: fontPreloads(tokens.typography.fonts || {})
+    }),
+    'config/settings_schema.json': generateSettingsSchema(tokens, themeName),
+    'config/settings_data.json': generateSettingsData(tokens),
+    'assets/base.css': generateBaseCss(tokens)
+  };
+
+  const groups: Array<[string, Record<string, string>]> = [
+    ['templates', generateTemplates(tokens.metadata.brandName)],
+    ['sections', generateSections(logos)],
+    ['snippets', generateSnippets(tokens)],
+    ['locales', generateLocales()]
+  ];
+
+  for (const [directory, groupFiles] of groups) {
+    for (const [fileName, content] of Object.entries(groupFiles)) {
+      files[`${directory}/${fileName}`] = content;
+    }
+  }
+
+  return { ...files, ...logos.files, ...fontFiles };
+}
+
+/**
+ * Genera un tema Online Store 2.0 completo a partir de design tokens. Los logos
+ * extraídos del manual, si se indican, se copian en assets/ y se usan como logo
+ * de la cabecera, del pie y como favicon por defecto. Las fuentes propias de
+ * la marca se copian también en assets/.
+ */
+export async function generateShopifyTheme(
+  tokens: DesignTokens,
+  themeName: string,
+  outputPath?: string,
+  logos: LogoInfo[] = []
+): Promise<ThemeGenerationResult> {
+  const themePath = path.resolve(outputPath || path.join(process.cwd(), 'themes', workspaceId(themeName, 'theme')));
+  const files = buildThemeFiles(tokens, themeName, await loadLogoAssets(logos), await loadFontAssets(tokens));
+
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(themePath, relativePath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content, typeof content === 'string' ? 'utf-8' : undefined);
+  }
+
+  logger.info(`Tema "${themeName}" generado en ${themePath} (${Object.keys(files).length} archivos)`);
+
+  return {
+    themeName,
+    path: themePath,
+    files: Object.keys(files).sort()
+  };
+}
+
+/**
+ * Normaliza los tokens recibidos, que pueden llegar como objeto, como JSON
+ * serializado (también la salida DTCG de generate_design_tokens) o como
+ * documento DTCG; las rutas DTCG que no se aplican se añaden a ignored
+ */
+function parseDesignTokens(designTokens: unknown, dtcgTokens?: unknown, ignored: string[] = []): DesignTokens {
+  let tokens = designTokens;
+
+  if (dtcgTokens !== undefined) {
+    tokens = applyDtcgTokens(generateDefaultDesignTokens(), parseDtcgDocument(dtcgTokens), ignored);
+  } else if (typeof designTokens === 'string') {
+    try {
+      tokens = JSON.parse(designTokens);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, 'Los tokens de diseño (designTokens) no son un JSON válido');
+    }
+
+    if (isDtcgDocument(tokens)) {
+      tokens = applyDtcgTokens(generateDefaultDesignTokens(), tokens, ignored);
+    } else {
+      assertValid(designTokensSchema, tokens, '$.designTokens');
+    }
+  } else if (designTokens === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, 'Se necesitan tokens de diseño (designTokens) o tokens DTCG (dtcgTokens)');
+  }
+
+  const parsed = tokens as DesignTokens;
+
+  // Los tokens anteriores a la capa semántica o a los esquemas de color los
+  // reciben generados desde su paleta
+  const colors = { ...parsed.colors };
+  colors.on = colors.on || generateOnColors(colors);
+  colors.semantic = colors.semantic || generateSemanticColors(colors);
+  colors.schemes = colors.schemes || generateColorSchemes(colors);
+
+  // Los anteriores a la resolución de fuentes las reciben de sus familias
+  const typography = {
+    ...parsed.typography,
+    fonts: parsed.typography.fonts || resolveFonts(parsed.typography.families)
+  };
+
+  return {
+    ...parsed,
+    colors,
+    typography,
+    metadata: {
+      brandName: parsed.metadata?.brandName || 'Marca sin nombre',
+      version: parsed.metadata?.version || '1.0.0',
+      description: parsed.metadata?.description,
+      createdAt: parsed.metadata?.createdAt || new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Registra la herramienta MCP para generación de temas de Shopify
+ */
+export function registerShopifyThemeGenerator(registry: ToolRegistry): void {
+  registry.register({
+    name: 'create_shopify_theme',
+    description: 'Genera un tema de Shopify basado en tokens de diseño',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        designTokens: {
+          ...designTokensSchema,
+          type: ['object', 'string'],
+          description: 'Tokens de diseño generados (objeto, JSON serializado o la URI del recurso brand://<marca>/tokens.json)'
+        },
+        dtcgTokens: {
+          type: ['object', 'string'],
+          description: 'Tokens en formato W3C Design Tokens (DTCG), como alternativa a designTokens (también la URI brand://<marca>/tokens.dtcg)'
+        },
+        themeName: {
+          type: 'string',
+          minLength: 1,
+          description: 'Nombre del tema a generar'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Ruta donde guardar los archivos del tema'
+        },
+        logos: {
+          type: 'array',
+          items: logoInfoSchema,
+          description: 'Logos extraídos con extract_pdf_branding; se incluyen en assets/ para la cabecera, el pie y el favicon'
+        }
+      },
+      required: ['themeName'],
+      additionalProperties: false
+    },
+    resourceArguments: ['designTokens', 'dtcgTokens'],
+    handler: async (args) => {
+      const { designTokens, dtcgTokens, themeName, outputPath, logos } = args as {
+        designTokens?: DesignTokens | string;
+        dtcgTokens?: object | string;
+        themeName: string;
+        outputPath?: string;
+        logos?: LogoInfo[];
+      };
+
+      logger.info(`Generando tema de Shopify: ${themeName}`);
+      const ignored: string[] = [];
+      const result = await generateShopifyTheme(parseDesignTokens(designTokens, dtcgTokens, ignored), themeName, outputPath, logos);
+
+      // El tema se registra en el workspace para leer sus archivos como recursos theme://
+      let themeId = '';
+      const saved = await saveQuietly('el tema', async () => {
+        themeId = (await recordTheme(themeName, result.path)).id;
+      });
+
+      return {
+        text: JSON.stringify(ignored.length > 0 ? { ...result, ignoredDtcgTokens: ignored } : result, null, 2),
+        resources: saved ? result.files.map(file => `theme://${themeId}/${file}`) : []
+      };
+    }
+  });
+}
+
+/**
+ * Registra los archivos de los temas generados como recursos MCP
+ * (theme://<tema>/<ruta>)
+ */
+export function registerThemeResources(resources: ResourceRegistry): void {
+  resources.register({
+    uriTemplate: 'theme://{name}/{+path}',
+    name: 'Archivo de tema',
+    description: 'Archivo de un tema de Shopify generado con create_shopify_theme (plantillas, secciones, ajustes, estilos y assets)',
+    list: async () => {
+      const entries = await Promise.all((await listThemes()).map(async theme =>
+        (await listFiles(theme.path)).map(file => ({
+          uri: `theme://${theme.id}/${file}`,
+          name: `${theme.name}: ${file}`,
+          mimeType: mimeTypeOf(file)
+        }))
+      ));
+      return entries.flat();
+    },
+    read: async ({ name, path: relativePath }, uri) => {
+      const theme = (await listThemes()).find(entry => entry.id === name);
+      if (!theme) return undefined;
+
+      // La ruta no puede salir del directorio del tema
+      const filePath = path.resolve(theme.path, relativePath);
+      if (!filePath.startsWith(theme.path + path.sep) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        return undefined;
+      }
+
+      const mimeType = mimeTypeOf(filePath);
+      const content = await fs.promises.readFile(filePath);
+      return isTextMimeType(mimeType)
+        ? { uri, mimeType, text: content.toString('utf-8') }
+        : { uri, mimeType, blob: content.toString('base64') };
+    }
+  });
+}
@@ -0,0 +1,78 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockStore, startMockShopifyStore } from '../../dev/MockShopifyStore.js';
+import { ShopifyAdminClient } from './ShopifyAdminClient.js';
+import { installShopifyTheme } from './ShopifyInstaller.js';
+
+// Tema mínimo: una plantilla que usa una sección, que debe subirse antes
+const THEME_FILES: Record<string, string> = {
+  'layout/theme.liquid': '<html>{{ content_for_layout }}</html>',
+  'sections/hero.liquid': '<section>Hero</section>',
+  'templates/index.json': JSON.stringify({ sections: { hero: { type: 'hero' } }, order: ['hero'] }),
+  'config/settings_schema.json': JSON.stringify([{ name: 'theme_info', theme_name: 'Acme Theme' }]),
+  'assets/logo.png': 'png'
+};
+
+describe('installShopifyTheme', () => {
+  let store: MockStore;
+  let client: ShopifyAdminClient;
+  let directory: string;
+  let themePath: string;
+  const workspace = process.env.BRAND_TO_THEME_WORKSPACE;
+
+  before(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'installer-'));
+    themePath = path.join(directory, 'theme');
+    for (const [file, content] of Object.entries(THEME_FILES)) {
+      fs.mkdirSync(path.dirname(path.join(themePath, file)), { recursive: true });
+      fs.writeFileSync(path.join(themePath, file), content);
+    }
+    process.env.BRAND_TO_THEME_WORKSPACE = path.join(directory, 'workspace');
+
+    store = await startMockShopifyStore(0, { processingPolls: 2 });
+    client = new ShopifyAdminClient({ storeDomain: 'local', accessToken: 'mock-token', apiVersion: '2024-01', adminApiUrl: store.url });
+  });
+
+  after(async () => {
+    await store.close();
+    if (workspace === undefined) delete process.env.BRAND_TO_THEME_WORKSPACE;
+    else process.env.BRAND_TO_THEME_WORKSPACE = workspace;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('crea el tema, sube los assets en orden y lo publica', async () => {
+    const result = await installShopifyTheme({ themePath, installationType: 'new', setAsMain: true, pollIntervalMs: 1 }, client);
+
+    const theme = store.themes.get(result.themeId);
+    assert.equal(result.themeName, 'Acme Theme');
+    assert.equal(result.role, 'main');
+    assert.equal(result.uploadedAssets, Object.keys(THEME_FILES).length);
+    assert.deepEqual(Array.from(theme!.assets.keys()).sort(), Object.keys(THEME_FILES).sort());
+    assert.equal(theme!.assets.get('assets/logo.png')?.attachment, Buffer.from('png').toString('base64'));
+  });
+
+  it('guarda el zip en el workspace y no junto al tema', async () => {
+    const result = await installShopifyTheme({ themePath, installationType: 'new', pollIntervalMs: 1 }, client);
+
+    assert.equal(result.archivePath, path.join(directory, 'workspace', 'archives', 'acme-theme.zip'));
+    assert.ok(fs.statSync(result.archivePath).size > 0);
+    assert.deepEqual(fs.readdirSync(directory).sort(), ['theme', 'workspace']);
+  });
+
+  it('actualiza un tema existente', async () => {
+    const created = await installShopifyTheme({ themePath, installationType: 'new', pollIntervalMs: 1 }, client);
+    const updated = await installShopifyTheme({
+      themePath,
+      installationType: 'update',
+      existingThemeId: String(created.themeId),
+      archivePath: path.join(directory, 'workspace', 'update.zip'),
+      pollIntervalMs: 1
+    }, client);
+
+    assert.equal(updated.themeId, created.themeId);
+    assert.equal(updated.archivePath, path.join(directory, 'workspace', 'update.zip'));
+  });
+});
@@ -0,0 +1,241 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { getShopifyConfig } from '../../utils/config.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { workspaceId, workspacePath } from '../resources/Workspace.js';
+import { ShopifyAdminClient, ShopifyTheme } from './ShopifyAdminClient.js';
+import archiver from 'archiver';
+import fs from 'fs';
+import path from 'path';
+
+// Opciones de instalación de un tema
+export interface InstallOptions {
+  themePath: string;
+  installationType: 'new' | 'update';
+  existingThemeId?: string;
+  setAsMain?: boolean;
+  // Zip del tema (por defecto, archives/<tema>.zip en el workspace)
+  archivePath?: string;
+  pollIntervalMs?: number;
+  pollTimeoutMs?: number;
+}
+
+// Resultado de la instalación
+export interface InstallResult {
+  themeId: number;
+  themeName: string;
+  role: ShopifyTheme['role'];
+  archivePath: string;
+  uploadedAssets: number;
+}
+
+// Directorios que Shopify acepta en un tema
+const THEME_DIRECTORIES = ['layout', 'templates', 'sections', 'snippets', 'config', 'locales', 'assets'];
+
+// Extensiones que se suben como texto ("value"); el resto va en base64 ("attachment")
+const TEXT_EXTENSIONS = new Set(['.liquid', '.json', '.css', '.js', '.svg', '.txt', '.scss', '.map']);
+
+/**
+ * Lista los archivos del tema como rutas relativas con separador "/"
+ */
+function collectThemeFiles(themePath: string): string[] {
+  const files: string[] = [];
+
+  const walk = (directory: string) => {
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else if (entry.isFile()) {
+        files.push(path.relative(themePath, fullPath).split(path.sep).join('/'));
+      }
+    }
+  };
+
+  for (const directory of THEME_DIRECTORIES) {
+    const fullPath = path.join(themePath, directory);
+    if (fs.existsSync(fullPath)) {
+      walk(fullPath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Prioridad de subida: Shopify valida las referencias entre archivos, así que
+ * las secciones deben existir antes que las plantillas que las usan y el
+ * esquema de ajustes antes que sus valores.
+ */
+function uploadPriority(key: string): number {
+  if (key === 'config/settings_data.json') return 7;
+  if (key.startsWith('templates/')) return 6;
+  if (key === 'config/settings_schema.json') return 5;
+  if (key.startsWith('sections/')) return 4;
+  if (key.startsWith('snippets/')) return 3;
+  if (key.startsWith('layout/')) return 2;
+  if (key.startsWith('locales/')) return 1;
+  return 0;
+}
+
+/**
+ * Comprime los archivos del tema en un zip en la ruta indicada
+ */
+export async function createThemeArchive(themePath: string, archivePath: string): Promise<string> {
+  await fs.promises.mkdir(path.dirname(archivePath), { recursive: true });
+  const output = fs.createWriteStream(archivePath);
+  const archive = archiver('zip', { zlib: { level: 9 } });
+
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('close', () => resolve());
+    archive.on('error', reject);
+  });
+
+  archive.pipe(output);
+  for (const file of collectThemeFiles(themePath)) {
+    archive.file(path.join(themePath, file), { name: file });
+  }
+  await archive.finalize();
+  await finished;
+
+  return archivePath;
+}
+
+/**
+ * Lee el nombre del tema desde theme_info en config/settings_schema.json
+ */
+function readThemeName(themePath: string): string {
+  const schemaPath = path.join(themePath, 'config', 'settings_schema.json');
+
+  if (fs.existsSync(schemaPath)) {
+    try {
+      const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8')) as Array<{ name?: string; theme_name?: string }>;
+      const themeInfo = schema.find(entry => entry.name === 'theme_info');
+      if (themeInfo?.theme_name) {
+        return themeInfo.theme_name;
+      }
+    } catch (error) {
+      logger.warn(`No se pudo leer el nombre del tema desde ${schemaPath}`);
+    }
+  }
+
+  return path.basename(path.resolve(themePath));
+}
+
+/**
+ * Instala un tema generado en la tienda: crea o actualiza el tema, sube los
+ * assets, espera a que termine el procesamiento y opcionalmente lo publica
+ */
+export async function installShopifyTheme(
+  options: InstallOptions,
+  client: ShopifyAdminClient = new ShopifyAdminClient(getShopifyConfig())
+): Promise<InstallResult> {
+  const { themePath, installationType, existingThemeId, setAsMain = false } = options;
+  const pollInterval = options.pollIntervalMs ?? 2000;
+  const pollTimeout = options.pollTimeoutMs ?? 120000;
+
+  if (!fs.existsSync(path.join(themePath, 'layout', 'theme.liquid'))) {
+    throw new Error(`No se encontró un tema válido en ${themePath} (falta layout/theme.liquid)`);
+  }
+
+  // El zip se guarda en el workspace (o donde se indique), nunca junto al tema
+  const archivePath = await createThemeArchive(
+    themePath,
+    path.resolve(options.archivePath || workspacePath('archives', `${workspaceId(readThemeName(themePath), 'theme')}.zip`))
+  );
+  logger.info(`Tema comprimido en ${archivePath}`);
+
+  let theme: ShopifyTheme;
+  if (installationType === 'update') {
+    theme = await client.getTheme(existingThemeId as string);
+    logger.info(`Actualizando el tema existente ${theme.id} (${theme.name})`);
+  } else {
+    theme = await client.createTheme(readThemeName(themePath));
+    logger.info(`Tema ${theme.id} creado en la tienda`);
+  }
+
+  theme = await client.waitForProcessing(theme.id, pollInterval, pollTimeout);
+
+  const files = collectThemeFiles(themePath).sort((a, b) => uploadPriority(a) - uploadPriority(b));
+  for (const key of files) {
+    const content = fs.readFileSync(path.join(themePath, key));
+    const isText = TEXT_EXTENSIONS.has(path.extname(key).toLowerCase());
+
+    await client.putAsset(
+      theme.id,
+      isText ? { key, value: content.toString('utf-8') } : { key, attachment: content.toString('base64') }
+    );
+  }
+  logger.info(`${files.length} assets subidos al tema ${theme.id}`);
+
+  theme = await client.waitForProcessing(theme.id, pollInterval, pollTimeout);
+
+  if (setAsMain && theme.role !== 'main') {
+    theme = await client.publishTheme(theme.id);
+    logger.info(`Tema ${theme.id} publicado como tema principal`);
+  }
+
+  return {
+    themeId: theme.id,
+    themeName: theme.name,
+    role: theme.role,
+    archivePath,
+    uploadedAssets: files.length
+  };
+}
+
+/**
+ * Registra la herramienta MCP para instalación de temas en Shopify
+ */
+export function registerShopifyThemeInstaller(registry: ToolRegistry): void {
+  registry.register({
+    name: 'install_shopify_theme',
+    description: 'Instala el tema generado en la tienda Shopify conectada',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        themePath: {
+          type: 'string',
+          minLength: 1,
+          description: 'Ruta a los archivos del tema'
+        },
+        installationType: {
+          type: 'string',
+          enum: ['new', 'update'],
+          description: 'Instalar como tema nuevo o actualizar un tema existente'
+        },
+        existingThemeId: {
+          type: 'string',
+          pattern: '^\\d+$',
+          description: 'ID del tema existente a actualizar (requerido si installationType es "update")'
+        },
+        setAsMain: {
+          type: 'boolean',
+          description: 'Establecer como tema principal de la tienda después de la instalación'
+        },
+        archivePath: {
+          type: 'string',
+          minLength: 1,
+          description: 'Ruta del zip del tema (por defecto, archives/<tema>.zip en el workspace)'
+        }
+      },
+      required: ['themePath', 'installationType'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const options = args as unknown as InstallOptions;
+
+      if (options.installationType === 'update' && !options.existingThemeId) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'Se requiere el ID del tema existente (existingThemeId) para actualizar un tema'
+        );
+      }
+
+      logger.info(`Instalando tema desde ${options.themePath} (${options.installationType})`);
+      const result = await installShopifyTheme(options);
+
+      return JSON.stringify(result, null, 2);
+    }
+  });
+}
@@ -0,0 +1,51 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateDefaultDesignTokens } from '../context/DesignTokenExtractor.js';
+import { generateShopifyTheme } from './ShopifyGenerator.js';
+import { previewShopifyTheme } from './ShopifyPreview.js';
+
+describe('previewShopifyTheme', () => {
+  let directory: string;
+  let themePath: string;
+  const workspace = process.env.BRAND_TO_THEME_WORKSPACE;
+
+  before(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-'));
+    process.env.BRAND_TO_THEME_WORKSPACE = path.join(directory, 'workspace');
+    themePath = (await generateShopifyTheme(generateDefaultDesignTokens(), 'Acme Theme', path.join(directory, 'Acme Theme'))).path;
+  });
+
+  after(() => {
+    if (workspace === undefined) delete process.env.BRAND_TO_THEME_WORKSPACE;
+    else process.env.BRAND_TO_THEME_WORKSPACE = workspace;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('genera la guía de estilo en el workspace y no junto al tema', async () => {
+    const result = await previewShopifyTheme(themePath);
+
+    assert.equal(result.outputPath, path.join(directory, 'workspace', 'previews', 'acme-theme'));
+    assert.deepEqual(result.pages, [{ title: 'Style guide', file: 'style-guide.html' }]);
+    assert.match(result.html!, /<html/i);
+    assert.ok(fs.existsSync(path.join(result.outputPath, 'style-guide.html')));
+    assert.deepEqual(fs.readdirSync(directory).sort(), ['Acme Theme', 'workspace']);
+  });
+
+  it('genera una página por plantilla en el directorio indicado', async () => {
+    const outputPath = path.join(directory, 'workspace', 'full');
+    const result = await previewShopifyTheme(themePath, 'full', outputPath);
+
+    assert.equal(result.outputPath, outputPath);
+    assert.ok(result.pages.length > 1);
+    for (const page of result.pages) {
+      assert.ok(fs.existsSync(path.join(outputPath, page.file)), page.file);
+    }
+  });
+
+  it('rechaza un directorio que no es un tema', async () => {
+    await assert.rejects(previewShopifyTheme(directory), /falta layout\/theme\.liquid/);
+  });
+});
@@ -0,0 +1,569 @@
+import { Liquid, Context, Emitter, ParseStream, Template, TagToken, TopLevelToken } from 'liquidjs';
+import { logger } from '../../utils/logger.js';
+import { ToolRegistry } from '../tools/ToolRegistry.js';
+import { workspaceId, workspacePath } from '../resources/Workspace.js';
+import { PREVIEW_PAGES, PreviewPage, buildFixtures } from './preview/fixtures.js';
+import { ShopifyFont, modifyShopifyFont, shopifyFontFromHandle, shopifyFontUrl } from '../context/FontResolver.js';
+import fs from 'fs';
+import path from 'path';
+
+// Ajuste declarado en un esquema de sección o en settings_schema.json
+interface SettingSchema {
+  id?: string;
+  type: string;
+  default?: unknown;
+}
+
+// Esquema ({% schema %}) de una sección
+interface SectionSchema {
+  name?: string;
+  settings?: SettingSchema[];
+  blocks?: Array<{ type: string; settings?: SettingSchema[] }>;
+}
+
+// Configuración de una sección dentro de una plantilla JSON
+interface TemplateSectionConfig {
+  type: string;
+  disabled?: boolean;
+  settings?: Record<string, unknown>;
+  blocks?: Record<string, { type: string; settings?: Record<string, unknown> }>;
+  block_order?: string[];
+}
+
+// Resultado de la vista previa
+export interface PreviewResult {
+  previewType: 'thumbnail' | 'full';
+  outputPath: string;
+  pages: Array<{ title: string; file: string }>;
+  html?: string;
+}
+
+const SCHEMA_PATTERN = /{%-?\s*schema\s*-?%}([\s\S]*?){%-?\s*endschema\s*-?%}/;
+
+// Archivos de imagen de assets/ que la vista previa copia junto a las páginas
+const IMAGE_ASSET_PATTERN = /\.(png|svg|jpe?g|gif|webp|ico)$/i;
+
+/**
+ * Lee un archivo JSON del tema, devolviendo el valor por defecto si no existe
+ */
+function readJson<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Escapa un valor para usarlo dentro de un atributo HTML
+ */
+function escapeAttribute(value: unknown): string {
+  return String(value ?? '').replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Convierte los argumentos con nombre de un filtro de liquidjs ([clave, valor]) en un objeto
+ */
+function keywordArgs(args: unknown[]): Record<string, unknown> {
+  return Object.fromEntries(
+    args.filter((arg): arg is [string, unknown] => Array.isArray(arg) && arg.length === 2 && typeof arg[0] === 'string')
+  );
+}
+
+/**
+ * Renderizador estático de temas: implementa con liquidjs el subconjunto de
+ * tags y filtros de Shopify que usan los temas generados
+ */
+export class ThemePreviewRenderer {
+  private engine: Liquid;
+  private translations: Record<string, unknown>;
+  private fixtures: ReturnType<typeof buildFixtures>;
+  private settings: Record<string, unknown>;
+
+  constructor(private themePath: string) {
+    this.translations = readJson(path.join(themePath, 'locales', 'en.default.json'), {});
+    this.settings = this.loadThemeSettings();
+    this.fixtures = buildFixtures(this.readThemeName());
+
+    this.engine = new Liquid({
+      root: themePath,
+      partials: path.join(themePath, 'snippets'),
+      extname: '.liquid',
+      cache: true,
+      globals: { ...this.fixtures, settings: this.settings }
+    });
+
+    this.registerFilters();
+    this.registerTags();
+  }
+
+  /**
+   * Renderiza una página completa: secciones de la plantilla JSON dentro del layout
+   */
+  async renderPage(page: PreviewPage): Promise<string> {
+    const template = readJson<{ sections: Record<string, TemplateSectionConfig>; order: string[] } | null>(
+      path.join(this.themePath, 'templates', `${page.template}.json`),
+      null
+    );
+
+    if (!template) {
+      throw new Error(`El tema no tiene la plantilla templates/${page.template}.json`);
+    }
+
+    const scope = {
+      template: { name: page.template },
+      page_title: page.title,
+      page_description: this.fixtures.shop.description
+    };
+
+    const sections: string[] = [];
+    for (const id of template.order) {
+      const config = template.sections[id];
+      if (config && !config.disabled) {
+        sections.push(await this.renderSection(config.type, id, scope, config));
+      }
+    }
+
+    const layout = fs.readFileSync(path.join(this.themePath, 'layout', 'theme.liquid'), 'utf-8');
+    return this.engine.parseAndRender(layout, { ...scope, content_for_layout: sections.join('\n') });
+  }
+
+  /**
+   * Renderiza la guía de estilo: paleta, tipografía, botones y una tarjeta de producto
+   */
+  async renderStyleGuide(): Promise<string> {
+    const css = fs.readFileSync(path.join(this.themePath, 'assets', 'base.css'), 'utf-8');
+    const variables = await this.engine.parseAndRender(`{% render 'css-variables' %}`);
+
+    // Solo las escalas de la marca definidas en el primer bloque :root (los tokens)
+    const tokenBlock = css.slice(0, css.indexOf('}') + 1);
+    const groups = new Map<string, Array<[string, string]>>();
+    for (const match of tokenBlock.matchAll(/--color-([a-z]+)(?:-([\w-]+))?:\s*([^;]+);/g)) {
+      const [, group, step, value] = match;
+      const key = step ? group : 'feedback';
+      groups.set(key, [...(groups.get(key) || []), [step || group, value.trim()]]);
+    }
+
+    const palette = Array.from(groups.entries())
+      .map(
+        ([group, swatches]) => `<section class="style-guide__group">
+  <h3 class="h4">${group}</h3>
+  <ul class="list-unstyled style-guide__swatches">
+    ${swatches
+      .map(
+        ([step, value]) =>
+          `<li><span class="style-guide__swatch" style="background:${escapeAttribute(value)}"></span><small>${step}<br>${value}</small></li>`
+      )
+      .join('\n    ')}
+  </ul>
+</section>`
+      )
+      .join('\n');
+
+    // Una muestra de cada esquema de color del tema
+    const schemes = ((this.settings.color_schemes as Array<{ id: string }> | undefined) || [])
+      .map(
+        scheme => `<div class="color-${escapeAttribute(scheme.id)} style-guide__scheme">
+  <p class="h4">${scheme.id}</p>
+  <p>Body text with <a href="#">a link</a></p>
+  <a class="button button--primary" href="#">Button</a>
+</div>`
+      )
+      .join('\n');
+
+    const productCard = await this.engine.parseAndRender(`{% render 'product-card', product: product %}`, {
+      product: this.fixtures.products[1]
+    });
+
+    return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>${this.fixtures.shop.name} — Style guide</title>
+    <style>
+${css}
+    </style>
+    ${variables}
+    <style>
+      .style-guide { padding: var(--spacing-xl) 0; }
+      .style-guide__swatches { display: flex; flex-wrap: wrap; gap: var(--spacing-sm); }
+      .style-guide__swatches li { width: 88px; }
+      .style-guide__swatch { display: block; height: 56px; border-radius: var(--radius); border: 1px solid var(--color-border); }
+      .style-guide__row { display: flex; flex-wrap: wrap; gap: var(--spacing-md); align-items: flex-start; }
+      .style-guide__scheme { padding: var(--spacing-lg); border-radius: var(--radius); }
+    </style>
+  </head>
+  <body>
+    <main class="style-guide page-width">
+      <h1 class="h0">${this.fixtures.shop.name}</h1>
+      <h2 class="h2">Palette</h2>
+      ${palette}
+      <h2 class="h2">Typography</h2>
+      <p class="h0">Heading 0</p>
+      <p class="h1">Heading 1</p>
+      <p class="h2">Heading 2</p>
+      <p class="h3">Heading 3</p>
+      <p class="h4">Heading 4</p>
+      <p>Body text — The quick brown fox jumps over the lazy dog. 0123456789</p>
+      <h2 class="h2">Components</h2>
+      <div class="style-guide__row">
+        <a class="button button--primary" href="#">Primary button</a>
+        <a class="button button--secondary" href="#">Secondary button</a>
+        <input class="field" placeholder="Input field">
+      </div>
+      <div class="style-guide__row" style="margin-top: var(--spacing-lg)">
+        <div style="width: 260px">${productCard}</div>
+        <div class="color-inverse" style="padding: var(--spacing-lg); border-radius: var(--radius)">
+          <p class="h3">Inverse scheme</p>
+          <p>Footer and banner text</p>
+        </div>
+      </div>
+      <h2 class="h2">Color schemes</h2>
+      <div class="style-guide__row">
+        ${schemes}
+      </div>
+    </main>
+  </body>
+</html>
+`;
+  }
+
+  /**
+   * Renderiza una sección con sus ajustes por defecto y los de la plantilla
+   */
+  private async renderSection(
+    type: string,
+    id: string,
+    scope: Record<string, unknown>,
+    config?: TemplateSectionConfig
+  ): Promise<string> {
+    const sectionPath = path.join(this.themePath, 'sections', `${type}.liquid`);
+    if (!fs.existsSync(sectionPath)) {
+      throw new Error(`La sección ${type} no existe en el tema`);
+    }
+
+    const source = fs.readFileSync(sectionPath, 'utf-8');
+    const schemaMatch = source.match(SCHEMA_PATTERN);
+    const schema: SectionSchema = schemaMatch ? JSON.parse(schemaMatch[1]) : {};
+
+    const blocks = (config?.block_order || Object.keys(config?.blocks || {})).map(blockId => {
+      const block = config?.blocks?.[blockId] || { type: 'unknown' };
+      const blockSchema = schema.blocks?.find(candidate => candidate.type === block.type);
+      return {
+        id: blockId,
+        type: block.type,
+        settings: this.resolveSettings(blockSchema?.settings || [], block.settings),
+        shopify_attributes: ''
+      };
+    });
+
+    const section = {
+      id,
+      settings: this.resolveSettings(schema.settings || [], config?.settings),
+      blocks
+    };
+
+    const html = await this.engine.parseAndRender(source.replace(SCHEMA_PATTERN, ''), { ...scope, section });
+    return `<div id="shopify-section-${id}" class="shopify-section">${html}</div>`;
+  }
+
+  /**
+   * Combina los valores por defecto del esquema con los valores configurados y
+   * sustituye las referencias (menús, colecciones) por los datos de ejemplo
+   */
+  private resolveSettings(schema: SettingSchema[], values: Record<string, unknown> = {}): Record<string, unknown> {
+    const settings: Record<string, unknown> = {};
+
+    for (const setting of schema) {
+      if (!setting.id) continue;
+      const value = values[setting.id] ?? setting.default;
+
+      switch (setting.type) {
+        case 'link_list':
+          settings[setting.id] = this.fixtures.linklists[value as keyof typeof this.fixtures.linklists];
+          break;
+        case 'collection':
+          settings[setting.id] = value ? this.fixtures.collection : undefined;
+          break;
+        case 'product':
+          settings[setting.id] = value ? this.fixtures.products[0] : undefined;
+          break;
+        default:
+          settings[setting.id] = value;
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Ajustes globales: valores por defecto de settings_schema.json y preset actual de settings_data.json
+   */
+  private loadThemeSettings(): Record<string, unknown> {
+    const schema = readJson<Array<{ settings?: SettingSchema[] }>>(
+      path.join(this.themePath, 'config', 'settings_schema.json'),
+      []
+    );
+    const data = readJson<{ current?: string | Record<string, unknown>; presets?: Record<string, Record<string, unknown>> }>(
+      path.join(this.themePath, 'config', 'settings_data.json'),
+      {}
+    );
+
+    const defaults: Record<string, unknown> = {};
+    const fontPickers: string[] = [];
+    for (const group of schema) {
+      for (const setting of group.settings || []) {
+        if (setting.id) defaults[setting.id] = setting.default;
+        if (setting.id && setting.type === 'font_picker') fontPickers.push(setting.id);
+      }
+    }
+
+    const current = typeof data.current === 'string' ? data.presets?.[data.current] : data.current;
+    const settings: Record<string, unknown> = { ...defaults, ...(current || {}) };
+
+    // Shopify expone los esquemas de color como una lista de objetos con id y ajustes
+    const schemes = settings.color_schemes as Record<string, { settings?: Record<string, unknown> }> | undefined;
+    if (schemes && !Array.isArray(schemes)) {
+      settings.color_schemes = Object.entries(schemes).map(([id, scheme]) => ({ id, settings: scheme.settings || {} }));
+    }
+
+    // Y los ajustes font_picker como objetos fuente a partir de su handle
+    for (const id of fontPickers) {
+      if (typeof settings[id] === 'string') settings[id] = shopifyFontFromHandle(settings[id] as string);
+    }
+
+    return settings;
+  }
+
+  /**
+   * Nombre del tema desde theme_info, usado como nombre de la tienda de ejemplo
+   */
+  private readThemeName(): string {
+    const schema = readJson<Array<{ name?: string; theme_author?: string }>>(
+      path.join(this.themePath, 'config', 'settings_schema.json'),
+      []
+    );
+    return schema.find(entry => entry.name === 'theme_info')?.theme_author || path.basename(this.themePath);
+  }
+
+  private translate(key: string, args: unknown[]): string {
+    const value = key
+      .split('.')
+      .reduce<unknown>((node, part) => (node as Record<string, unknown> | undefined)?.[part], this.translations);
+
+    if (typeof value !== 'string') {
+      return key;
+    }
+
+    const variables = keywordArgs(args);
+    return value.replace(/{{\s*(\w+)\s*}}/g, (_, name) => String(variables[name] ?? ''));
+  }
+
+  private registerFilters(): void {
+    const engine = this.engine;
+    const themePath = this.themePath;
+
+    engine.registerFilter('t', (key: string, ...args: unknown[]) => this.translate(key, args));
+    engine.registerFilter('asset_url', (name: string) => `assets/${name}`);
+    engine.registerFilter('stylesheet_tag', (url: string) => {
+      // Las hojas del tema se incrustan para que la vista previa sea autocontenida
+      const assetPath = path.join(themePath, url);
+      if (url.startsWith('assets/') && fs.existsSync(assetPath)) {
+        return `<style>\n${fs.readFileSync(assetPath, 'utf-8')}\n</style>`;
+      }
+      return `<link rel="stylesheet" href="${escapeAttribute(url)}">`;
+    });
+    engine.registerFilter('image_url', (image: unknown) => {
+      if (image && typeof image === 'object' && 'src' in image) {
+        return (image as { src: string }).src;
+      }
+      return typeof image === 'string' ? image : '';
+    });
+    engine.registerFilter('image_tag', (src: string, ...args: unknown[]) => {
+      const attributes = Object.entries(keywordArgs(args))
+        .map(([name, value]) => `${name}="${escapeAttribute(value)}"`)
+        .join(' ');
+      return `<img src="${escapeAttribute(src)}" ${attributes}>`;
+    });
+    engine.registerFilter('placeholder_svg_tag', (_name: string, className = '') =>
+      `<svg class="${escapeAttribute(className)}" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 525 525"><rect width="525" height="525"/></svg>`
+    );
+    engine.registerFilter('font_url', (font: ShopifyFont | undefined) => (font ? shopifyFontUrl(font) : ''));
+    engine.registerFilter('font_modify', (font: ShopifyFont | undefined, property: string, value: string) =>
+      font ? modifyShopifyFont(font, property, String(value)) : undefined
+    );
+    engine.registerFilter('font_face', (font: ShopifyFont | undefined, ...args: unknown[]) => {
+      const url = font ? shopifyFontUrl(font) : '';
+      if (!font || !url) return '';
+      const display = keywordArgs(args).font_display;
+      return `@font-face {
+  font-family: "${font.family}";
+  font-weight: ${font.weight};
+  font-style: ${font.style};
+  ${display ? `font-display: ${display};\n  ` : ''}src: url("${url}") format("woff2");
+}`;
+    });
+    engine.registerFilter('money', (cents: number) => `$${(Number(cents || 0) / 100).toFixed(2)}`);
+    engine.registerFilter('money_with_currency', (cents: number) => `$${(Number(cents || 0) / 100).toFixed(2)} USD`);
+    engine.registerFilter('handle', (value: string) =>
+      String(value ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+    );
+    engine.registerFilter('link_to', (text: string, url: string) => `<a href="${escapeAttribute(url)}">${text}</a>`);
+    engine.registerFilter('time_tag', (value: string) => {
+      const date = new Date(value);
+      return `<time datetime="${date.toISOString()}">${date.toLocaleDateString('en-US', { dateStyle: 'medium' })}</time>`;
+    });
+  }
+
+  private registerTags(): void {
+    const renderer = this;
+
+    // {% section 'nombre' %}: renderiza una sección estática con sus valores por defecto
+    this.engine.registerTag('section', {
+      parse(token: TagToken) {
+        this.sectionName = token.args.trim().replace(/^['"]|['"]$/g, '');
+      },
+      *render(ctx: Context, emitter: Emitter): Generator<unknown, void, string> {
+        const scope = { template: ctx.get(['template']), page_title: ctx.get(['page_title']) };
+        emitter.write(yield renderer.renderSection(this.sectionName, this.sectionName, scope));
+      }
+    });
+
+    // Tags de bloque que envuelven su contenido
+    const blockTag = (name: string, wrap: (html: string, args: string) => string) => {
+      this.engine.registerTag(name, {
+        parse(token: TagToken, remainTokens: TopLevelToken[]) {
+          this.args = token.args;
+          this.templates = [] as Template[];
+          this.liquid.parser
+            .parseStream(remainTokens)
+            .on(`tag:end${name}`, function (this: ParseStream) {
+              this.stop();
+            })
+            .on('template', (template: Template) => this.templates.push(template))
+            .on('end', () => {
+              throw new Error(`El tag {% ${name} %} no está cerrado`);
+            })
+            .start();
+        },
+        *render(ctx: Context, emitter: Emitter): Generator<unknown, void, string> {
+          if (name === 'paginate') {
+            ctx.push({ paginate: { pages: 1, current_page: 1, parts: [] } });
+          }
+          const html = yield this.liquid.renderer.renderTemplates(this.templates, ctx);
+          if (name === 'paginate') {
+            ctx.pop();
+          }
+          emitter.write(wrap(html, this.args));
+        }
+      });
+    };
+
+    blockTag('style', html => `<style>${html}</style>`);
+    blockTag('javascript', html => `<script>${html}</script>`);
+    blockTag('paginate', html => html);
+    blockTag('form', (html, args) => {
+      const className = args.match(/class:\s*['"]([^'"]+)['"]/)?.[1];
+      return `<form method="post" action="cart.html"${className ? ` class="${escapeAttribute(className)}"` : ''}>${html}</form>`;
+    });
+  }
+}
+
+/**
+ * Genera la vista previa de un tema: paquete multipágina ("full") o guía de
+ * estilo ("thumbnail"). Por defecto se guarda en previews/<tema> del
+ * workspace, no junto al tema.
+ */
+export async function previewShopifyTheme(
+  themePath: string,
+  previewType: 'thumbnail' | 'full' = 'thumbnail',
+  outputPath?: string
+): Promise<PreviewResult> {
+  const resolvedTheme = path.resolve(themePath);
+  if (!fs.existsSync(path.join(resolvedTheme, 'layout', 'theme.liquid'))) {
+    throw new Error(`No se encontró un tema válido en ${themePath} (falta layout/theme.liquid)`);
+  }
+
+  const target = path.resolve(outputPath || workspacePath('previews', workspaceId(path.basename(resolvedTheme), 'theme')));
+  await fs.promises.mkdir(target, { recursive: true });
+
+  const renderer = new ThemePreviewRenderer(resolvedTheme);
+
+  if (previewType === 'thumbnail') {
+    const html = await renderer.renderStyleGuide();
+    await fs.promises.writeFile(path.join(target, 'style-guide.html'), html, 'utf-8');
+
+    return {
+      previewType,
+      outputPath: target,
+      pages: [{ title: 'Style guide', file: 'style-guide.html' }],
+      html
+    };
+  }
+
+  // Las imágenes del tema (logos, favicon) se copian junto a las páginas para que asset_url las resuelva
+  const assetsPath = path.join(resolvedTheme, 'assets');
+  const images = fs.existsSync(assetsPath)
+    ? (await fs.promises.readdir(assetsPath)).filter(file => IMAGE_ASSET_PATTERN.test(file))
+    : [];
+  if (images.length > 0) {
+    await fs.promises.mkdir(path.join(target, 'assets'), { recursive: true });
+    for (const file of images) {
+      await fs.promises.copyFile(path.join(assetsPath, file), path.join(target, 'assets', file));
+    }
+  }
+
+  const pages: PreviewResult['pages'] = [];
+  for (const page of PREVIEW_PAGES) {
+    if (!fs.existsSync(path.join(resolvedTheme, 'templates', `${page.template}.json`))) {
+      continue;
+    }
+    const html = await renderer.renderPage(page);
+    await fs.promises.writeFile(path.join(target, page.file), html, 'utf-8');
+    pages.push({ title: page.title, file: page.file });
+  }
+
+  return { previewType, outputPath: target, pages };
+}
+
+/**
+ * Registra la herramienta MCP para vista previa de temas de Shopify
+ */
+export function registerShopifyThemePreview(registry: ToolRegistry): void {
+  registry.register({
+    name: 'preview_shopify_theme',
+    description: 'Genera una vista previa del tema de Shopify',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        themePath: {
+          type: 'string',
+          minLength: 1,
+          description: 'Ruta a los archivos del tema'
+        },
+        previewType: {
+          type: 'string',
+          enum: ['thumbnail', 'full'],
+          description: 'Tipo de vista previa a generar'
+        },
+        outputPath: {
+          type: 'string',
+          description: 'Directorio donde guardar el HTML de la vista previa (por defecto, previews/<nombre-del-tema> en el workspace)'
+        }
+      },
+      required: ['themePath'],
+      additionalProperties: false
+    },
+    handler: async (args) => {
+      const { themePath, previewType = 'thumbnail', outputPath } = args as {
+        themePath: string;
+        previewType?: 'thumbnail' | 'full';
+        outputPath?: string;
+      };
+
+      logger.info(`Generando vista previa (${previewType}) del tema: ${themePath}`);
+      const result = await previewShopifyTheme(themePath, previewType, outputPath);
+
+      return JSON.stringify(result, null, 2);
+    }
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Datos de ejemplo (tienda, productos, colecciones...) para la vista previa estática.
+ * Las URLs apuntan a las páginas HTML del paquete de vista previa para poder navegarlo sin servidor.
+ */
+
+// Página de la vista previa: plantilla JSON a renderizar y archivo HTML de salida
+export interface PreviewPage {
+  template: string;
+  file: string;
+  title: string;
+}
+
+export const PREVIEW_PAGES: PreviewPage[] = [
+  { template: 'index', file: 'index.html', title: 'Home' },
+  { template: 'collection', file: 'collection.html', title: 'Collection' },
+  { template: 'list-collections', file: 'collections.html', title: 'Collections' },
+  { template: 'product', file: 'product.html', title: 'Product' },
+  { template: 'cart', file: 'cart.html', title: 'Cart' },
+  { template: 'search', file: 'search.html', title: 'Search' },
+  { template: 'page', file: 'page.html', title: 'About us' },
+  { template: 'blog', file: 'blog.html', title: 'Blog' },
+  { template: 'article', file: 'article.html', title: 'Article' },
+  { template: '404', file: '404.html', title: 'Page not found' }
+];
+
+/**
+ * Imagen de ejemplo como SVG en data URI (la vista previa no depende de la red)
+ */
+function sampleImage(label: string, hue: number) {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="800" viewBox="0 0 800 800">` +
+    `<rect width="800" height="800" fill="hsl(${hue}, 35%, 85%)"/>` +
+    `<text x="400" y="410" font-family="sans-serif" font-size="48" text-anchor="middle" fill="hsl(${hue}, 35%, 35%)">${label}</text>` +
+    `</svg>`;
+
+  return {
+    src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    alt: label,
+    width: 800,
+    height: 800,
+    aspect_ratio: 1
+  };
+}
+
+/**
+ * Crea un producto de ejemplo con sus variantes
+ */
+function sampleProduct(id: number, title: string, price: number, compareAtPrice: number | null, hue: number) {
+  const image = sampleImage(title, hue);
+  const variants = ['S', 'M', 'L'].map((size, index) => ({
+    id: id * 10 + index,
+    title: size,
+    price,
+    compare_at_price: compareAtPrice,
+    available: index < 2
+  }));
+
+  return {
+    id,
+    title,
+    handle: title.toLowerCase().replace(/\s+/g, '-'),
+    url: 'product.html',
+    object_type: 'product',
+    description: `<p>${title} is a sample product used to preview how the theme presents real catalog content.</p>`,
+    price,
+    available: true,
+    has_only_default_variant: false,
+    featured_media: image,
+    media: [image],
+    variants,
+    selected_or_first_available_variant: variants[0]
+  };
+}
+
+/**
+ * Construye el conjunto de datos global de la vista previa
+ */
+export function buildFixtures(shopName: string) {
+  const products = [
+    sampleProduct(1, 'Classic Tee', 2500, null, 210),
+    sampleProduct(2, 'Canvas Tote', 1800, 2400, 30),
+    sampleProduct(3, 'Wool Beanie', 2200, null, 120),
+    sampleProduct(4, 'Denim Jacket', 8900, 11000, 260)
+  ];
+
+  const collection = {
+    id: 1,
+    title: 'All products',
+    handle: 'all',
+    url: 'collection.html',
+    description: '<p>Every product in the store.</p>',
+    featured_image: products[0].featured_media,
+    products,
+    products_count: products.length
+  };
+
+  const collections = Object.assign(
+    [
+      collection,
+      { ...collection, id: 2, title: 'New arrivals', handle: 'new-arrivals', products: products.slice(2) }
+    ],
+    { all: collection }
+  );
+
+  const article = {
+    id: 1,
+    title: 'Behind the brand',
+    url: 'article.html',
+    image: sampleImage('Article', 340),
+    published_at: '2024-03-01T10:00:00Z',
+    content: '<p>The story behind our brand, told in a few paragraphs of sample copy.</p>',
+    excerpt_or_content: '<p>The story behind our brand, told in a few paragraphs of sample copy.</p>'
+  };
+
+  const cartItems = [
+    { product: products[0], url: products[0].url, quantity: 2, final_line_price: 5000 },
+    { product: products[1], url: products[1].url, quantity: 1, final_line_price: 1800 }
+  ];
+
+  return {
+    shop: {
+      name: shopName,
+      description: `${shopName} online store`,
+      url: 'index.html'
+    },
+    request: { locale: { iso_code: 'en' } },
+    routes: {
+      root_url: 'index.html',
+      cart_url: 'cart.html',
+      search_url: 'search.html',
+      all_products_collection_url: 'collection.html',
+      collections_url: 'collections.html'
+    },
+    linklists: {
+      'main-menu': {
+        links: [
+          { title: 'Home', url: 'index.html' },
+          { title: 'Catalog', url: 'collection.html' },
+          { title: 'Collections', url: 'collections.html' },
+          { title: 'Blog', url: 'blog.html' },
+          { title: 'About us', url: 'page.html' }
+        ]
+      },
+      footer: {
+        links: [
+          { title: 'Search', url: 'search.html' },
+          { title: 'About us', url: 'page.html' }
+        ]
+      }
+    },
+    products,
+    collection,
+    collections,
+    product: products[1],
+    cart: {
+      item_count: cartItems.reduce((total, item) => total + item.quantity, 0),
+      items: cartItems,
+      total_price: cartItems.reduce((total, item) => total + item.final_line_price, 0)
+    },
+    search: {
+      performed: true,
+      terms: 'tee',
+      results: [products[0]]
+    },
+    page: {
+      title: 'About us',
+      content: '<p>This page tells customers who you are and what your brand stands for.</p>'
+    },
+    blog: {
+      title: 'News',
+      url: 'blog.html',
+      articles: [article, { ...article, id: 2, title: 'Care guide' }]
+    },
+    article,
+    content_for_header: '',
+    canonical_url: 'index.html',
+    current_page: 1
+  };
+}
@@ -0,0 +1,398 @@
+/**
+ * Hojas de estilo del directorio assets/ del tema
+ */
+import { DesignTokens, generateCSSVariables } from '../../context/DesignTokenExtractor.js';
+import { generateFontFaceRules } from '../../context/FontResolver.js';
+
+/**
+ * Estilos base del tema. Solo consumen propiedades personalizadas y, en el
+ * caso de los colores, solo los semánticos (--color-background, --color-link,
+ * --color-button-primary-bg...), de modo que cambiar la marca no requiere
+ * tocar esta hoja.
+ */
+const BASE_STYLES = `:root {
+  --font-heading: var(--font-family-heading);
+  --font-body: var(--font-family-body);
+  --font-size-root: var(--font-size-base);
+
+  --page-width: 1200px;
+  --radius: var(--border-radius-md, 4px);
+}
+
+*,
+*::before,
+*::after {
+  box-sizing: border-box;
+}
+
+html {
+  font-size: var(--font-size-root);
+}
+
+body {
+  margin: 0;
+  background-color: var(--color-background);
+  color: var(--color-text);
+  font-family: var(--font-body);
+  font-weight: var(--font-body-weight, var(--font-weight-regular));
+  line-height: var(--line-height-normal);
+}
+
+h1, h2, h3, h4, h5, h6,
+.h0, .h1, .h2, .h3, .h4 {
+  font-family: var(--font-heading);
+  font-weight: var(--font-heading-weight, var(--font-weight-bold));
+  line-height: var(--line-height-tight);
+  margin: 0 0 var(--spacing-md);
+}
+
+.h0 { font-size: var(--font-size-xxxl); }
+h1, .h1 { font-size: var(--font-size-xxl); }
+h2, .h2 { font-size: var(--font-size-xl); }
+h3, .h3 { font-size: var(--font-size-lg); }
+h4, .h4 { font-size: var(--font-size-md); }
+
+a {
+  color: var(--color-link);
+}
+
+a:hover {
+  color: var(--color-link-hover);
+}
+
+:focus-visible {
+  outline: 2px solid var(--color-focus-ring);
+  outline-offset: 2px;
+}
+
+img {
+  max-width: 100%;
+  height: auto;
+}
+
+.page-width {
+  max-width: var(--page-width);
+  margin: 0 auto;
+  padding: 0 var(--spacing-md);
+}
+
+.page-width--narrow {
+  max-width: calc(var(--page-width) * 0.6);
+}
+
+.list-unstyled {
+  list-style: none;
+  margin: 0;
+  padding: 0;
+}
+
+.visually-hidden {
+  position: absolute !important;
+  width: 1px;
+  height: 1px;
+  overflow: hidden;
+  clip: rect(0 0 0 0);
+  white-space: nowrap;
+}
+
+.skip-to-content-link:focus {
+  position: fixed !important;
+  width: auto;
+  height: auto;
+  clip: auto;
+  z-index: 10;
+  padding: var(--spacing-sm) var(--spacing-md);
+  background: var(--color-background);
+}
+
+.rte > *:first-child { margin-top: 0; }
+
+/* Botones y formularios */
+.button {
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  padding: var(--spacing-sm) var(--spacing-lg);
+  border: var(--border-width-thin, 1px) solid transparent;
+  border-radius: var(--radius);
+  font-family: var(--font-body);
+  font-weight: var(--font-weight-bold);
+  font-size: var(--font-size-md);
+  text-decoration: none;
+  cursor: pointer;
+}
+
+.button--primary {
+  background-color: var(--color-button-primary-bg);
+  color: var(--color-button-primary-fg);
+  box-shadow: var(--shadow-sm, none);
+}
+
+.button--primary:hover {
+  background-color: var(--color-button-primary-hover);
+  box-shadow: var(--shadow-md, none);
+}
+
+.button--secondary {
+  background-color: transparent;
+  border-color: var(--color-link);
+  color: var(--color-link);
+}
+
+.button[disabled] {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.field {
+  padding: var(--spacing-sm);
+  border: var(--border-width-thin, 1px) solid var(--color-border);
+  border-radius: var(--border-radius-sm, var(--radius));
+  font: inherit;
+}
+
+/* Esquemas de color: cada clase .color-scheme-* redefine los colores semánticos */
+[class*='color-scheme-'] {
+  background: var(--gradient-background, var(--color-background));
+  color: var(--color-text);
+}
+
+/* Cabecera y pie */
+.site-header {
+  border-bottom: 1px solid var(--color-border);
+}
+
+.site-header__inner {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: var(--spacing-lg);
+  padding-top: var(--spacing-md);
+  padding-bottom: var(--spacing-md);
+}
+
+.site-header__logo {
+  color: var(--color-text);
+  text-decoration: none;
+}
+
+.site-header__menu,
+.site-footer__menu {
+  display: flex;
+  flex-wrap: wrap;
+  gap: var(--spacing-md);
+}
+
+.site-header__menu a,
+.site-header__icon {
+  color: var(--color-text);
+  text-decoration: none;
+}
+
+.cart-count {
+  display: inline-block;
+  min-width: 1.5em;
+  margin-left: var(--spacing-xs);
+  border-radius: var(--border-radius-round, 999px);
+  background: var(--color-badge-bg);
+  color: var(--color-badge-fg);
+  text-align: center;
+  font-size: var(--font-size-xs);
+}
+
+.color-inverse {
+  background-color: var(--color-inverse-bg);
+  color: var(--color-inverse-fg);
+}
+
+.color-inverse a {
+  color: inherit;
+}
+
+.site-footer__inner {
+  padding-top: var(--spacing-xl);
+  padding-bottom: var(--spacing-xl);
+}
+
+.site-header__logo img,
+.site-footer__logo img {
+  display: block;
+  max-width: 100%;
+  height: auto;
+}
+
+.site-footer__logo {
+  display: inline-block;
+  margin-bottom: var(--spacing-lg);
+}
+
+/* Secciones */
+.image-banner {
+  position: relative;
+}
+
+.image-banner__media img {
+  display: block;
+  width: 100%;
+  max-height: 600px;
+  object-fit: cover;
+}
+
+.image-banner__content {
+  padding-top: var(--spacing-xxl);
+  padding-bottom: var(--spacing-xxl);
+}
+
+.featured-collection,
+.rich-text,
+.main-product,
+.main-collection,
+.main-list-collections,
+.main-page,
+.main-cart,
+.main-search,
+.main-404,
+.main-blog,
+.main-article {
+  padding-top: var(--spacing-xl);
+  padding-bottom: var(--spacing-xl);
+}
+
+.product-grid,
+.article-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+  gap: var(--spacing-lg);
+  margin-bottom: var(--spacing-lg);
+}
+
+.card {
+  padding: var(--spacing-sm);
+  border-radius: var(--border-radius-lg, var(--radius));
+  background-color: var(--color-surface);
+  box-shadow: var(--shadow-sm, none);
+  transition: box-shadow 0.2s ease;
+}
+
+.card:hover {
+  box-shadow: var(--shadow-md, none);
+}
+
+.card__link {
+  color: inherit;
+  text-decoration: none;
+}
+
+.card__image {
+  display: block;
+  width: 100%;
+  border-radius: var(--radius);
+}
+
+.card__title {
+  margin-top: var(--spacing-sm);
+}
+
+.card__meta {
+  color: var(--color-text-muted);
+  font-size: var(--font-size-sm);
+}
+
+.price--on-sale .price__sale {
+  color: var(--color-sale);
+}
+
+.price__compare {
+  color: var(--color-text-muted);
+}
+
+.main-product__grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
+  gap: var(--spacing-xl);
+}
+
+.product-form {
+  display: grid;
+  gap: var(--spacing-sm);
+  margin: var(--spacing-lg) 0;
+}
+
+.cart-table {
+  width: 100%;
+  border-collapse: collapse;
+}
+
+.cart-table th,
+.cart-table td {
+  padding: var(--spacing-sm);
+  border-bottom: 1px solid var(--color-border);
+  text-align: left;
+}
+
+.search-form {
+  display: flex;
+  gap: var(--spacing-sm);
+  margin-bottom: var(--spacing-lg);
+}
+
+.pagination {
+  display: flex;
+  justify-content: center;
+  gap: var(--spacing-sm);
+}
+
+.pagination__item--current {
+  font-weight: var(--font-weight-bold);
+}
+
+.placeholder-svg {
+  background-color: var(--color-surface);
+  fill: var(--color-border);
+}
+`;
+
+/**
+ * Ajustes para pantallas estrechas. Las propiedades personalizadas no valen
+ * en las media queries, así que el punto de ruptura se escribe con su valor.
+ */
+function responsiveStyles(breakpoint: string): string {
+  return `
+/* Pantallas estrechas (hasta el punto de ruptura md) */
+@media screen and (max-width: ${breakpoint}) {
+  .site-header__inner {
+    flex-wrap: wrap;
+    gap: var(--spacing-md);
+  }
+
+  .image-banner__content {
+    padding-top: var(--spacing-xl);
+    padding-bottom: var(--spacing-xl);
+  }
+
+  .main-product__grid {
+    grid-template-columns: 1fr;
+  }
+
+  .product-grid,
+  .article-grid {
+    grid-template-columns: repeat(auto-fill, minmax(160px, 1fr));
+    gap: var(--spacing-md);
+  }
+}
+`;
+}
+
+/**
+ * Genera assets/base.css: los tokens de la marca en :root seguidos de los estilos base
+ */
+export function generateBaseCss(tokens: DesignTokens): string {
+  let css = `/* Design tokens de ${tokens.metadata.brandName} (v${tokens.metadata.version}) */\n`;
+  // Las fuentes propias se sirven desde assets/, junto a esta hoja
+  const fontFaces = generateFontFaceRules(tokens.typography.fonts || {}, asset => asset);
+  if (fontFaces) css += `${fontFaces}\n`;
+  css += generateCSSVariables(tokens);
+  css += `\n${BASE_STYLES}`;
+  css += responsiveStyles(tokens.breakpoints?.md || '750px');
+  return css;
+}
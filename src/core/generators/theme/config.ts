@@ -0,0 +1,238 @@
+/**
+ * Archivos del directorio config/ del tema: esquema y valores de ajustes
+ */
+import { DesignTokens } from '../../context/DesignTokenExtractor.js';
+import { resolveColorSchemes } from '../../context/ColorSchemes.js';
+import { SEMANTIC_COLORS, SemanticColor } from '../../context/SemanticTokens.js';
+import { FontRole } from '../../extractors/FontExtractor.js';
+
+type SettingValue = string | number | boolean | Record<string, unknown>;
+
+// Etiqueta de cada color semántico en los esquemas de color del editor de temas
+const SCHEME_COLOR_LABELS: Record<SemanticColor, string> = {
+  background: 'Background',
+  surface: 'Surface',
+  text: 'Text',
+  'text-muted': 'Muted text',
+  border: 'Border',
+  link: 'Links',
+  'link-hover': 'Links hover',
+  'focus-ring': 'Focus ring',
+  'button-primary-bg': 'Button',
+  'button-primary-fg': 'Button label',
+  'button-primary-hover': 'Button hover',
+  sale: 'Sale price',
+  'badge-bg': 'Badge',
+  'badge-fg': 'Badge label',
+  'inverse-bg': 'Inverse background',
+  'inverse-fg': 'Inverse text'
+};
+
+// Papeles tipográficos que tienen ajuste propio en el editor de temas
+export const FONT_SETTING_ROLES: Array<Extract<FontRole, 'heading' | 'body'>> = ['heading', 'body'];
+
+// Etiqueta del ajuste de fuente de cada papel
+const FONT_SETTING_LABELS: Record<(typeof FONT_SETTING_ROLES)[number], string> = {
+  heading: 'Heading',
+  body: 'Body'
+};
+
+/**
+ * Indica si la fuente de un papel está en la biblioteca de Shopify y se elige
+ * con un ajuste font_picker ("type_heading_font") en lugar de con un campo de
+ * texto con la pila de fuentes ("type_heading_family")
+ */
+export function usesFontPicker(tokens: DesignTokens, role: FontRole): boolean {
+  const font = tokens.typography.fonts?.[role];
+  return font?.source === 'shopify' && Boolean(font.shopifyHandle);
+}
+
+/**
+ * Identificador del ajuste de un color semántico dentro de un esquema de color
+ * (los ids de Shopify no admiten guiones)
+ */
+export function schemeSettingId(color: string): string {
+  return color.replace(/-/g, '_');
+}
+
+/**
+ * Extrae el valor numérico en píxeles de un tamaño de fuente, con límites
+ */
+function toPixels(value: string, fallback: number, min: number, max: number): number {
+  const numeric = parseFloat(value);
+  if (Number.isNaN(numeric)) {
+    return fallback;
+  }
+
+  // Los tamaños en rem se calculan sobre una raíz de 16px
+  const pixels = value.trim().endsWith('rem') ? numeric * 16 : numeric;
+  return Math.min(max, Math.max(min, Math.round(pixels)));
+}
+
+/**
+ * Calcula los valores por defecto de los ajustes del tema a partir de los tokens
+ */
+export function buildSettingsDefaults(tokens: DesignTokens): Record<string, SettingValue> {
+  const { colors, typography } = tokens;
+
+  // Cada esquema de los tokens es un esquema del grupo color_schemes ("scheme-dark")
+  const colorSchemes = Object.fromEntries(
+    Object.entries(resolveColorSchemes(colors)).map(([name, scheme]) => [
+      `scheme-${name}`,
+      { settings: Object.fromEntries(Object.entries(scheme).map(([key, value]) => [schemeSettingId(key), value])) }
+    ])
+  );
+
+  // Las fuentes de la biblioteca de Shopify se guardan por su handle
+  const fontSettings = Object.fromEntries(
+    FONT_SETTING_ROLES.map(role => usesFontPicker(tokens, role)
+      ? [`type_${role}_font`, typography.fonts![role]!.shopifyHandle!]
+      : [`type_${role}_family`, typography.families[role]])
+  );
+
+  return {
+    color_primary: colors.primary.base || colors.primary['500'],
+    color_secondary: colors.secondary.base || colors.secondary['500'],
+    color_accent: colors.accent.base || colors.accent['500'],
+    color_schemes: colorSchemes,
+    ...fontSettings,
+    type_base_size: toPixels(typography.sizes.base, 16, 12, 24),
+    page_width: 1200,
+    logo_width: 120
+  };
+}
+
+/**
+ * Genera config/settings_schema.json con los valores por defecto de la marca
+ */
+export function generateSettingsSchema(tokens: DesignTokens, themeName: string): string {
+  const defaults = buildSettingsDefaults(tokens);
+  const firstScheme = Object.values(defaults.color_schemes as Record<string, { settings: Record<string, string> }>)[0];
+
+  const schema = [
+    {
+      name: 'theme_info',
+      theme_name: themeName,
+      theme_version: tokens.metadata.version,
+      theme_author: tokens.metadata.brandName,
+      theme_documentation_url: 'https://shopify.dev/docs/themes',
+      theme_support_url: 'https://help.shopify.com'
+    },
+    {
+      name: 'Logo',
+      settings: [
+        { type: 'image_picker', id: 'logo', label: 'Logo' },
+        {
+          type: 'range',
+          id: 'logo_width',
+          min: 50,
+          max: 300,
+          step: 10,
+          unit: 'px',
+          default: defaults.logo_width,
+          label: 'Logo width'
+        },
+        { type: 'image_picker', id: 'favicon', label: 'Favicon', info: '32 x 32px .png recommended' }
+      ]
+    },
+    {
+      name: 'Colors',
+      settings: [
+        { type: 'header', content: 'Brand' },
+        { type: 'color', id: 'color_primary', default: defaults.color_primary, label: 'Primary' },
+        { type: 'color', id: 'color_secondary', default: defaults.color_secondary, label: 'Secondary' },
+        { type: 'color', id: 'color_accent', default: defaults.color_accent, label: 'Accent' },
+        { type: 'header', content: 'Schemes' },
+        {
+          type: 'color_scheme_group',
+          id: 'color_schemes',
+          definition: [
+            ...SEMANTIC_COLORS.map(color => ({
+              type: 'color',
+              id: schemeSettingId(color),
+              label: SCHEME_COLOR_LABELS[color],
+              default: firstScheme?.settings[schemeSettingId(color)]
+            })),
+            { type: 'color_background', id: 'background_gradient', label: 'Background gradient' }
+          ],
+          role: {
+            text: 'text',
+            background: { solid: 'background', gradient: 'background_gradient' },
+            links: 'link',
+            icons: 'text',
+            primary_button: 'button_primary_bg',
+            on_primary_button: 'button_primary_fg',
+            primary_button_border: 'button_primary_bg',
+            secondary_button: 'background',
+            on_secondary_button: 'link',
+            secondary_button_border: 'link'
+          }
+        }
+      ]
+    },
+    {
+      name: 'Typography',
+      settings: [
+        ...FONT_SETTING_ROLES.map(role => usesFontPicker(tokens, role)
+          ? {
+              type: 'font_picker',
+              id: `type_${role}_font`,
+              default: defaults[`type_${role}_font`],
+              label: `${FONT_SETTING_LABELS[role]} font`
+            }
+          : {
+              type: 'text',
+              id: `type_${role}_family`,
+              default: defaults[`type_${role}_family`],
+              label: `${FONT_SETTING_LABELS[role]} font stack`
+            }),
+        {
+          type: 'range',
+          id: 'type_base_size',
+          min: 12,
+          max: 24,
+          step: 1,
+          unit: 'px',
+          default: defaults.type_base_size,
+          label: 'Base font size'
+        }
+      ]
+    },
+    {
+      name: 'Layout',
+      settings: [
+        {
+          type: 'range',
+          id: 'page_width',
+          min: 1000,
+          max: 1600,
+          step: 100,
+          unit: 'px',
+          default: defaults.page_width,
+          label: 'Page width'
+        }
+      ]
+    }
+  ];
+
+  return JSON.stringify(schema, null, 2);
+}
+
+/**
+ * Genera config/settings_data.json con el preset de la marca como valores actuales
+ */
+export function generateSettingsData(tokens: DesignTokens): string {
+  const defaults = buildSettingsDefaults(tokens);
+  const presetName = tokens.metadata.brandName;
+
+  return JSON.stringify(
+    {
+      current: presetName,
+      presets: {
+        [presetName]: defaults
+      }
+    },
+    null,
+    2
+  );
+}
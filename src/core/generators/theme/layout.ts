@@ -0,0 +1,105 @@
+/**
+ * Plantillas del directorio layout/ del tema
+ */
+import { FontFileFormat } from '../../context/FontResolver.js';
+import { FontRole } from '../../extractors/FontExtractor.js';
+
+// Opciones del layout
+export interface ThemeLayoutOptions {
+  // Favicon incluido en assets/, usado mientras el comerciante no elija otro
+  favicon?: string;
+  // Papeles cuya fuente se elige con un ajuste font_picker
+  fontPickers?: FontRole[];
+  // Archivos de fuentes propias de assets/ que se precargan
+  fontPreloads?: Array<{ asset: string; format: FontFileFormat }>;
+}
+
+// Tipo MIME de cada formato de archivo de fuente
+const FONT_MIME_TYPES: Record<FontFileFormat, string> = {
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  truetype: 'font/ttf',
+  opentype: 'font/otf'
+};
+
+/**
+ * Indicaciones de precarga de las fuentes: conexión anticipada con el CDN de
+ * fuentes de Shopify y precarga de las fuentes de la biblioteca y de los
+ * archivos propios principales
+ */
+function fontHints(options: ThemeLayoutOptions): string {
+  const pickers = options.fontPickers || [];
+  const hints: string[] = [];
+
+  if (pickers.length > 0) {
+    hints.push('<link rel="preconnect" href="https://fonts.shopifycdn.com" crossorigin>');
+  }
+
+  for (const role of pickers) {
+    hints.push(`{%- assign ${role}_font_url = settings.type_${role}_font | font_url -%}
+    {%- if ${role}_font_url != blank -%}
+      <link rel="preload" as="font" href="{{ ${role}_font_url }}" type="font/woff2" crossorigin>
+    {%- endif -%}`);
+  }
+
+  for (const preload of options.fontPreloads || []) {
+    hints.push(`<link rel="preload" as="font" href="{{ '${preload.asset}' | asset_url }}" type="${FONT_MIME_TYPES[preload.format]}" crossorigin>`);
+  }
+
+  return hints.length > 0 ? `\n    ${hints.join('\n    ')}\n` : '';
+}
+
+/**
+ * Genera layout/theme.liquid, el layout principal del tema
+ */
+export function generateThemeLayout(options: ThemeLayoutOptions = {}): string {
+  const faviconFallback = options.favicon
+    ? `
+    {%- else -%}
+      <link rel="icon" type="image/png" href="{{ '${options.favicon}' | asset_url }}">`
+    : '';
+
+  return `<!doctype html>
+<html class="no-js" lang="{{ request.locale.iso_code }}">
+  <head>
+    <meta charset="utf-8">
+    <meta http-equiv="X-UA-Compatible" content="IE=edge">
+    <meta name="viewport" content="width=device-width,initial-scale=1">
+    <meta name="theme-color" content="{{ settings.color_primary }}">
+    <link rel="canonical" href="{{ canonical_url }}">
+
+    {%- if settings.favicon != blank -%}
+      <link rel="icon" type="image/png" href="{{ settings.favicon | image_url: width: 32, height: 32 }}">${faviconFallback}
+    {%- endif -%}
+
+    <title>
+      {{ page_title }}
+      {%- if current_tags %}{% assign meta_tags = current_tags | join: ', ' %} &ndash; {{ 'general.meta.tags' | t: tags: meta_tags }}{% endif -%}
+      {%- if current_page != 1 %} &ndash; {{ 'general.meta.page' | t: page: current_page }}{% endif -%}
+      {%- unless page_title contains shop.name %} &ndash; {{ shop.name }}{% endunless -%}
+    </title>
+
+    {% render 'meta-tags' %}
+
+    {{ content_for_header }}
+${fontHints(options)}
+    {{ 'base.css' | asset_url | stylesheet_tag }}
+    {% render 'css-variables' %}
+  </head>
+
+  <body class="template-{{ template.name | handle }}">
+    <a class="skip-to-content-link visually-hidden" href="#MainContent">
+      {{ 'accessibility.skip_to_content' | t }}
+    </a>
+
+    {% section 'header' %}
+
+    <main id="MainContent" class="content-for-layout" role="main" tabindex="-1">
+      {{ content_for_layout }}
+    </main>
+
+    {% section 'footer' %}
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,137 @@
+/**
+ * Archivos de traducción del directorio locales/ del tema
+ */
+
+const en = {
+  general: {
+    meta: {
+      tags: 'Tagged "{{ tags }}"',
+      page: 'Page {{ page }}'
+    },
+    search: {
+      search: 'Search',
+      submit: 'Search',
+      no_results: 'No results found for "{{ terms }}".'
+    },
+    pagination: {
+      label: 'Pagination',
+      previous: 'Previous',
+      next: 'Next'
+    },
+    continue_shopping: 'Continue shopping'
+  },
+  accessibility: {
+    skip_to_content: 'Skip to content'
+  },
+  sections: {
+    header: {
+      menu: 'Menu'
+    },
+    'featured-collection': {
+      empty: 'This collection has no products yet.',
+      view_all: 'View all'
+    },
+    collection: {
+      empty: 'No products found.'
+    },
+    'list-collections': {
+      title: 'Collections'
+    }
+  },
+  products: {
+    product: {
+      variant: 'Variant',
+      add_to_cart: 'Add to cart',
+      sold_out: 'Sold out',
+      sale_price: 'Sale price',
+      regular_price: 'Regular price'
+    }
+  },
+  templates: {
+    cart: {
+      cart: 'Cart',
+      product: 'Product',
+      quantity: 'Quantity',
+      total: 'Total',
+      subtotal: 'Subtotal',
+      checkout: 'Check out',
+      empty: 'Your cart is empty'
+    },
+    '404': {
+      title: 'Page not found',
+      subtext: 'The page you were looking for does not exist.'
+    }
+  }
+};
+
+const es: typeof en = {
+  general: {
+    meta: {
+      tags: 'Etiquetado "{{ tags }}"',
+      page: 'Página {{ page }}'
+    },
+    search: {
+      search: 'Buscar',
+      submit: 'Buscar',
+      no_results: 'No se encontraron resultados para "{{ terms }}".'
+    },
+    pagination: {
+      label: 'Paginación',
+      previous: 'Anterior',
+      next: 'Siguiente'
+    },
+    continue_shopping: 'Seguir comprando'
+  },
+  accessibility: {
+    skip_to_content: 'Ir al contenido'
+  },
+  sections: {
+    header: {
+      menu: 'Menú'
+    },
+    'featured-collection': {
+      empty: 'Esta colección todavía no tiene productos.',
+      view_all: 'Ver todo'
+    },
+    collection: {
+      empty: 'No se encontraron productos.'
+    },
+    'list-collections': {
+      title: 'Colecciones'
+    }
+  },
+  products: {
+    product: {
+      variant: 'Variante',
+      add_to_cart: 'Agregar al carrito',
+      sold_out: 'Agotado',
+      sale_price: 'Precio de oferta',
+      regular_price: 'Precio habitual'
+    }
+  },
+  templates: {
+    cart: {
+      cart: 'Carrito',
+      product: 'Producto',
+      quantity: 'Cantidad',
+      total: 'Total',
+      subtotal: 'Subtotal',
+      checkout: 'Pagar pedido',
+      empty: 'Tu carrito está vacío'
+    },
+    '404': {
+      title: 'Página no encontrada',
+      subtext: 'La página que buscabas no existe.'
+    }
+  }
+};
+
+/**
+ * Genera los archivos de traducción indexados por nombre de archivo
+ */
+export function generateLocales(): Record<string, string> {
+  return {
+    'en.default.json': JSON.stringify(en, null, 2),
+    'es.json': JSON.stringify(es, null, 2)
+  };
+}
@@ -0,0 +1,679 @@
+/**
+ * Plantillas del directorio sections/ del tema
+ */
+
+// Logo incluido en assets/ y su proporción (ancho / alto)
+export interface ThemeLogo {
+  asset: string;
+  aspectRatio: number;
+}
+
+// Logos extraídos del manual que el tema usa por defecto
+export interface SectionLogos {
+  // Logo de la cabecera mientras el comerciante no suba otro
+  logo?: ThemeLogo;
+  // Logo en negativo para el pie, que usa el esquema de color invertido
+  reversedLogo?: ThemeLogo;
+}
+
+/**
+ * Genera todas las secciones del tema indexadas por nombre de archivo
+ */
+export function generateSections(logos: SectionLogos = {}): Record<string, string> {
+  return {
+    'header.liquid': headerSection(logos.logo),
+    'footer.liquid': footerSection(logos.reversedLogo),
+    'image-banner.liquid': imageBannerSection(),
+    'featured-collection.liquid': featuredCollectionSection(),
+    'rich-text.liquid': richTextSection(),
+    'main-product.liquid': mainProductSection(),
+    'main-collection.liquid': mainCollectionSection(),
+    'main-list-collections.liquid': mainListCollectionsSection(),
+    'main-page.liquid': mainPageSection(),
+    'main-cart.liquid': mainCartSection(),
+    'main-search.liquid': mainSearchSection(),
+    'main-404.liquid': main404Section(),
+    'main-blog.liquid': mainBlogSection(),
+    'main-article.liquid': mainArticleSection()
+  };
+}
+
+/**
+ * Etiqueta <img> de un logo de assets/ con el ancho configurado en el tema
+ */
+function assetLogoTag(logo: ThemeLogo, indent: string): string {
+  return [
+    '<img',
+    `  src="{{ '${logo.asset}' | asset_url }}"`,
+    '  alt="{{ shop.name | escape }}"',
+    '  width="{{ settings.logo_width }}"',
+    `  height="{{ settings.logo_width | divided_by: ${Math.round(logo.aspectRatio * 1000) / 1000} | round }}"`,
+    '>'
+  ].join(`\n${indent}`);
+}
+
+function headerSection(logo?: ThemeLogo): string {
+  const fallback = logo
+    ? assetLogoTag(logo, '        ')
+    : '<span class="h2">{{ shop.name }}</span>';
+
+  return `<header class="site-header color-{{ section.settings.color_scheme }}">
+  <div class="page-width site-header__inner">
+    <a href="{{ routes.root_url }}" class="site-header__logo">
+      {%- if settings.logo != blank -%}
+        <img
+          src="{{ settings.logo | image_url: width: 600 }}"
+          alt="{{ settings.logo.alt | default: shop.name | escape }}"
+          width="{{ settings.logo_width }}"
+          height="{{ settings.logo_width | divided_by: settings.logo.aspect_ratio | round }}"
+        >
+      {%- else -%}
+        ${fallback}
+      {%- endif -%}
+    </a>
+
+    <nav class="site-header__nav" aria-label="{{ 'sections.header.menu' | t }}">
+      <ul class="list-unstyled site-header__menu">
+        {%- for link in section.settings.menu.links -%}
+          <li>
+            <a href="{{ link.url }}"{% if link.current %} aria-current="page"{% endif %}>{{ link.title | escape }}</a>
+          </li>
+        {%- endfor -%}
+      </ul>
+    </nav>
+
+    <div class="site-header__icons">
+      <a href="{{ routes.search_url }}" class="site-header__icon">{{ 'general.search.search' | t }}</a>
+      <a href="{{ routes.cart_url }}" class="site-header__icon" id="cart-icon-bubble">
+        {{ 'templates.cart.cart' | t }}
+        {%- if cart.item_count > 0 -%}
+          <span class="cart-count">{{ cart.item_count }}</span>
+        {%- endif -%}
+      </a>
+    </div>
+  </div>
+</header>
+
+{% schema %}
+{
+  "name": "Header",
+  "class": "section-header",
+  "settings": [
+    {
+      "type": "link_list",
+      "id": "menu",
+      "default": "main-menu",
+      "label": "Menu"
+    },
+    {
+      "type": "color_scheme",
+      "id": "color_scheme",
+      "default": "scheme-light",
+      "label": "Color scheme"
+    }
+  ]
+}
+{% endschema %}
+`;
+}
+
+function footerSection(reversedLogo?: ThemeLogo): string {
+  const logo = reversedLogo
+    ? `
+    <a href="{{ routes.root_url }}" class="site-footer__logo">
+      ${assetLogoTag(reversedLogo, '      ')}
+    </a>
+`
+    : '';
+
+  return `<footer class="site-footer color-{{ section.settings.color_scheme }}">
+  <div class="page-width site-footer__inner">${logo}
+    {%- if section.settings.menu != blank -%}
+      <ul class="list-unstyled site-footer__menu">
+        {%- for link in section.settings.menu.links -%}
+          <li><a href="{{ link.url }}">{{ link.title | escape }}</a></li>
+        {%- endfor -%}
+      </ul>
+    {%- endif -%}
+
+    {%- if section.settings.text != blank -%}
+      <div class="site-footer__text rte">{{ section.settings.text }}</div>
+    {%- endif -%}
+
+    <p class="site-footer__copyright">
+      &copy; {{ 'now' | date: '%Y' }}, {{ shop.name | link_to: routes.root_url }}
+    </p>
+  </div>
+</footer>
+
+{% schema %}
+{
+  "name": "Footer",
+  "settings": [
+    {
+      "type": "link_list",
+      "id": "menu",
+      "default": "footer",
+      "label": "Menu"
+    },
+    {
+      "type": "richtext",
+      "id": "text",
+      "label": "Text"
+    },
+    {
+      "type": "color_scheme",
+      "id": "color_scheme",
+      "default": "scheme-secondary",
+      "label": "Color scheme"
+    }
+  ]
+}
+{% endschema %}
+`;
+}
+
+function imageBannerSection(): string {
+  return `<section class="image-banner color-{{ section.settings.color_scheme }}">
+  {%- if section.settings.image != blank -%}
+    <div class="image-banner__media">
+      {{ section.settings.image | image_url: width: 1920 | image_tag: loading: 'eager', sizes: '100vw' }}
+    </div>
+  {%- endif -%}
+
+  <div class="page-width image-banner__content">
+    {%- if section.settings.heading != blank -%}
+      <h1 class="h0">{{ section.settings.heading | escape }}</h1>
+    {%- endif -%}
+    {%- if section.settings.text != blank -%}
+      <div class="rte">{{ section.settings.text }}</div>
+    {%- endif -%}
+    {%- if section.settings.button_label != blank -%}
+      <a href="{{ section.settings.button_link | default: routes.all_products_collection_url }}" class="button button--primary">
+        {{ section.settings.button_label | escape }}
+      </a>
+    {%- endif -%}
+  </div>
+</section>
+
+{% schema %}
+{
+  "name": "Image banner",
+  "settings": [
+    {
+      "type": "image_picker",
+      "id": "image",
+      "label": "Image"
+    },
+    {
+      "type": "text",
+      "id": "heading",
+      "default": "Image banner",
+      "label": "Heading"
+    },
+    {
+      "type": "richtext",
+      "id": "text",
+      "label": "Text"
+    },
+    {
+      "type": "text",
+      "id": "button_label",
+      "default": "Shop all",
+      "label": "Button label"
+    },
+    {
+      "type": "url",
+      "id": "button_link",
+      "label": "Button link"
+    },
+    {
+      "type": "color_scheme",
+      "id": "color_scheme",
+      "default": "scheme-primary",
+      "label": "Color scheme"
+    }
+  ],
+  "presets": [
+    {
+      "name": "Image banner"
+    }
+  ]
+}
+{% endschema %}
+`;
+}
+
+function featuredCollectionSection(): string {
+  return `<section class="featured-collection page-width">
+  {%- if section.settings.title != blank -%}
+    <h2 class="h1">{{ section.settings.title | escape }}</h2>
+  {%- endif -%}
+
+  <ul class="list-unstyled product-grid">
+    {%- for product in section.settings.collection.products limit: section.settings.products_to_show -%}
+      <li class="product-grid__item">
+        {% render 'product-card', product: product %}
+      </li>
+    {%- else -%}
+      <li class="product-grid__item">
+        <p>{{ 'sections.featured-collection.empty' | t }}</p>
+      </li>
+    {%- endfor -%}
+  </ul>
+
+  {%- if section.settings.collection != blank -%}
+    <a href="{{ section.settings.collection.url }}" class="button button--secondary">
+      {{ 'sections.featured-collection.view_all' | t }}
+    </a>
+  {%- endif -%}
+</section>
+
+{% schema %}
+{
+  "name": "Featured collection",
+  "settings": [
+    {
+      "type": "text",
+      "id": "title",
+      "default": "Featured collection",
+      "label": "Title"
+    },
+    {
+      "type": "collection",
+      "id": "collection",
+      "label": "Collection"
+    },
+    {
+      "type": "range",
+      "id": "products_to_show",
+      "min": 2,
+      "max": 12,
+      "step": 1,
+      "default": 4,
+      "label": "Products to show"
+    }
+  ],
+  "presets": [
+    {
+      "name": "Featured collection"
+    }
+  ]
+}
+{% endschema %}
+`;
+}
+
+function richTextSection(): string {
+  return `<section class="rich-text color-{{ section.settings.color_scheme }}">
+  <div class="page-width rich-text__inner">
+    {%- for block in section.blocks -%}
+      {%- case block.type -%}
+        {%- when 'heading' -%}
+          <h2 class="h1" {{ block.shopify_attributes }}>{{ block.settings.heading | escape }}</h2>
+        {%- when 'text' -%}
+          <div class="rte" {{ block.shopify_attributes }}>{{ block.settings.text }}</div>
+        {%- when 'button' -%}
+          <a href="{{ block.settings.link }}" class="button button--primary" {{ block.shopify_attributes }}>
+            {{ block.settings.label | escape }}
+          </a>
+      {%- endcase -%}
+    {%- endfor -%}
+  </div>
+</section>
+
+{% schema %}
+{
+  "name": "Rich text",
+  "settings": [
+    {
+      "type": "color_scheme",
+      "id": "color_scheme",
+      "default": "scheme-light",
+      "label": "Color scheme"
+    }
+  ],
+  "blocks": [
+    {
+      "type": "heading",
+      "name": "Heading",
+      "limit": 1,
+      "settings": [
+        {
+          "type": "text",
+          "id": "heading",
+          "default": "Talk about your brand",
+          "label": "Heading"
+        }
+      ]
+    },
+    {
+      "type": "text",
+      "name": "Text",
+      "settings": [
+        {
+          "type": "richtext",
+          "id": "text",
+          "default": "<p>Share information about your brand with your customers.</p>",
+          "label": "Text"
+        }
+      ]
+    },
+    {
+      "type": "button",
+      "name": "Button",
+      "settings": [
+        {
+          "type": "text",
+          "id": "label",
+          "default": "Button label",
+          "label": "Label"
+        },
+        {
+          "type": "url",
+          "id": "link",
+          "label": "Link"
+        }
+      ]
+    }
+  ],
+  "presets": [
+    {
+      "name": "Rich text",
+      "blocks": [
+        { "type": "heading" },
+        { "type": "text" }
+      ]
+    }
+  ]
+}
+{% endschema %}
+`;
+}
+
+function mainProductSection(): string {
+  return `<section class="main-product page-width">
+  <div class="main-product__grid">
+    <div class="main-product__media">
+      {%- for media in product.media -%}
+        {{ media | image_url: width: 1200 | image_tag: loading: 'lazy' }}
+      {%- else -%}
+        {{ 'product-1' | placeholder_svg_tag: 'placeholder-svg' }}
+      {%- endfor -%}
+    </div>
+
+    <div class="main-product__info">
+      <h1 class="h1">{{ product.title | escape }}</h1>
+      {% render 'price', product: product %}
+
+      {%- form 'product', product, class: 'product-form' -%}
+        <input type="hidden" name="id" value="{{ product.selected_or_first_available_variant.id }}">
+        {%- unless product.has_only_default_variant -%}
+          <label for="ProductVariant-{{ section.id }}">{{ 'products.product.variant' | t }}</label>
+          <select id="ProductVariant-{{ section.id }}" name="id" class="field">
+            {%- for variant in product.variants -%}
+              <option value="{{ variant.id }}"{% if variant == product.selected_or_first_available_variant %} selected{% endif %}{% unless variant.available %} disabled{% endunless %}>
+                {{ variant.title | escape }}
+              </option>
+            {%- endfor -%}
+          </select>
+        {%- endunless -%}
+        <button type="submit" class="button button--primary"{% unless product.available %} disabled{% endunless %}>
+          {%- if product.available -%}
+            {{ 'products.product.add_to_cart' | t }}
+          {%- else -%}
+            {{ 'products.product.sold_out' | t }}
+          {%- endif -%}
+        </button>
+      {%- endform -%}
+
+      <div class="rte">{{ product.description }}</div>
+    </div>
+  </div>
+</section>
+
+{% schema %}
+{
+  "name": "Main product",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function mainCollectionSection(): string {
+  return `<section class="main-collection page-width">
+  <h1 class="h1">{{ collection.title | escape }}</h1>
+  {%- if collection.description != blank -%}
+    <div class="rte">{{ collection.description }}</div>
+  {%- endif -%}
+
+  {%- paginate collection.products by section.settings.products_per_page -%}
+    <ul class="list-unstyled product-grid">
+      {%- for product in collection.products -%}
+        <li class="product-grid__item">
+          {% render 'product-card', product: product %}
+        </li>
+      {%- else -%}
+        <li class="product-grid__item">
+          <p>{{ 'sections.collection.empty' | t }}</p>
+        </li>
+      {%- endfor -%}
+    </ul>
+
+    {%- if paginate.pages > 1 -%}
+      {% render 'pagination', paginate: paginate %}
+    {%- endif -%}
+  {%- endpaginate -%}
+</section>
+
+{% schema %}
+{
+  "name": "Main collection",
+  "settings": [
+    {
+      "type": "range",
+      "id": "products_per_page",
+      "min": 8,
+      "max": 24,
+      "step": 4,
+      "default": 16,
+      "label": "Products per page"
+    }
+  ]
+}
+{% endschema %}
+`;
+}
+
+function mainListCollectionsSection(): string {
+  return `<section class="main-list-collections page-width">
+  <h1 class="h1">{{ 'sections.list-collections.title' | t }}</h1>
+
+  <ul class="list-unstyled product-grid">
+    {%- for collection in collections -%}
+      <li class="product-grid__item card">
+        <a href="{{ collection.url }}" class="card__link">
+          {%- if collection.featured_image != blank -%}
+            {{ collection.featured_image | image_url: width: 600 | image_tag: loading: 'lazy', class: 'card__image' }}
+          {%- endif -%}
+          <h2 class="h3 card__title">{{ collection.title | escape }}</h2>
+        </a>
+      </li>
+    {%- endfor -%}
+  </ul>
+</section>
+
+{% schema %}
+{
+  "name": "Main list collections",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function mainPageSection(): string {
+  return `<section class="main-page page-width page-width--narrow">
+  <h1 class="h1">{{ page.title | escape }}</h1>
+  <div class="rte">{{ page.content }}</div>
+</section>
+
+{% schema %}
+{
+  "name": "Main page",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function mainCartSection(): string {
+  return `<section class="main-cart page-width">
+  <h1 class="h1">{{ 'templates.cart.cart' | t }}</h1>
+
+  {%- if cart.item_count > 0 -%}
+    <form action="{{ routes.cart_url }}" method="post" class="cart-form">
+      <table class="cart-table">
+        <thead>
+          <tr>
+            <th>{{ 'templates.cart.product' | t }}</th>
+            <th>{{ 'templates.cart.quantity' | t }}</th>
+            <th>{{ 'templates.cart.total' | t }}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {%- for item in cart.items -%}
+            <tr>
+              <td><a href="{{ item.url }}">{{ item.product.title | escape }}</a></td>
+              <td>
+                <input type="number" class="field" name="updates[]" value="{{ item.quantity }}" min="0" aria-label="{{ 'templates.cart.quantity' | t }}">
+              </td>
+              <td>{{ item.final_line_price | money }}</td>
+            </tr>
+          {%- endfor -%}
+        </tbody>
+      </table>
+
+      <p class="cart-subtotal">{{ 'templates.cart.subtotal' | t }}: {{ cart.total_price | money_with_currency }}</p>
+      <button type="submit" name="checkout" class="button button--primary">{{ 'templates.cart.checkout' | t }}</button>
+    </form>
+  {%- else -%}
+    <p>{{ 'templates.cart.empty' | t }}</p>
+    <a href="{{ routes.all_products_collection_url }}" class="button button--secondary">{{ 'general.continue_shopping' | t }}</a>
+  {%- endif -%}
+</section>
+
+{% schema %}
+{
+  "name": "Main cart",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function mainSearchSection(): string {
+  return `<section class="main-search page-width">
+  <h1 class="h1">{{ 'general.search.search' | t }}</h1>
+
+  <form action="{{ routes.search_url }}" method="get" role="search" class="search-form">
+    <input type="search" class="field" name="q" value="{{ search.terms | escape }}" placeholder="{{ 'general.search.search' | t }}">
+    <button type="submit" class="button button--primary">{{ 'general.search.submit' | t }}</button>
+  </form>
+
+  {%- if search.performed -%}
+    <ul class="list-unstyled product-grid">
+      {%- for item in search.results -%}
+        <li class="product-grid__item">
+          {%- if item.object_type == 'product' -%}
+            {% render 'product-card', product: item %}
+          {%- else -%}
+            <a href="{{ item.url }}" class="h3">{{ item.title | escape }}</a>
+          {%- endif -%}
+        </li>
+      {%- else -%}
+        <li><p>{{ 'general.search.no_results' | t: terms: search.terms }}</p></li>
+      {%- endfor -%}
+    </ul>
+  {%- endif -%}
+</section>
+
+{% schema %}
+{
+  "name": "Main search",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function main404Section(): string {
+  return `<section class="main-404 page-width page-width--narrow">
+  <h1 class="h1">{{ 'templates.404.title' | t }}</h1>
+  <p>{{ 'templates.404.subtext' | t }}</p>
+  <a href="{{ routes.all_products_collection_url }}" class="button button--primary">{{ 'general.continue_shopping' | t }}</a>
+</section>
+
+{% schema %}
+{
+  "name": "404 page",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function mainBlogSection(): string {
+  return `<section class="main-blog page-width">
+  <h1 class="h1">{{ blog.title | escape }}</h1>
+
+  {%- paginate blog.articles by 6 -%}
+    <ul class="list-unstyled article-grid">
+      {%- for article in blog.articles -%}
+        <li class="card">
+          <a href="{{ article.url }}" class="card__link">
+            {%- if article.image != blank -%}
+              {{ article.image | image_url: width: 600 | image_tag: loading: 'lazy', class: 'card__image' }}
+            {%- endif -%}
+            <h2 class="h3 card__title">{{ article.title | escape }}</h2>
+          </a>
+          <p class="card__meta">{{ article.published_at | time_tag: format: 'date' }}</p>
+          <div class="rte">{{ article.excerpt_or_content | strip_html | truncatewords: 30 }}</div>
+        </li>
+      {%- endfor -%}
+    </ul>
+
+    {%- if paginate.pages > 1 -%}
+      {% render 'pagination', paginate: paginate %}
+    {%- endif -%}
+  {%- endpaginate -%}
+</section>
+
+{% schema %}
+{
+  "name": "Main blog",
+  "settings": []
+}
+{% endschema %}
+`;
+}
+
+function mainArticleSection(): string {
+  return `<article class="main-article page-width page-width--narrow">
+  {%- if article.image != blank -%}
+    {{ article.image | image_url: width: 1200 | image_tag: loading: 'eager' }}
+  {%- endif -%}
+  <h1 class="h1">{{ article.title | escape }}</h1>
+  <p class="card__meta">{{ article.published_at | time_tag: format: 'date' }}</p>
+  <div class="rte">{{ article.content }}</div>
+</article>
+
+{% schema %}
+{
+  "name": "Main article",
+  "settings": []
+}
+{% endschema %}
+`;
+}
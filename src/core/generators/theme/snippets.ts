@@ -0,0 +1,159 @@
+/**
+ * Plantillas del directorio snippets/ del tema
+ */
+import { DesignTokens } from '../../context/DesignTokenExtractor.js';
+import { FONT_DISPLAY } from '../../context/FontResolver.js';
+import { SEMANTIC_COLORS } from '../../context/SemanticTokens.js';
+import { FONT_SETTING_ROLES, schemeSettingId, usesFontPicker } from './config.js';
+
+/**
+ * Genera todos los snippets del tema indexados por nombre de archivo
+ */
+export function generateSnippets(tokens: DesignTokens): Record<string, string> {
+  return {
+    'css-variables.liquid': cssVariablesSnippet(tokens),
+    'meta-tags.liquid': metaTagsSnippet(),
+    'product-card.liquid': productCardSnippet(),
+    'price.liquid': priceSnippet(),
+    'pagination.liquid': paginationSnippet()
+  };
+}
+
+/**
+ * Expone los ajustes del tema como propiedades CSS personalizadas.
+ * Se renderiza después de base.css para que lo elegido por el comerciante
+ * tenga prioridad sobre los valores por defecto de los tokens. Los colores de
+ * marca sustituyen al color base de su escala y cada esquema de color define
+ * los colores semánticos de su clase (.color-scheme-dark...); el primero es
+ * además el de la página. Las fuentes de la biblioteca de Shopify declaran
+ * aquí sus @font-face (la del texto también en negrita y cursiva).
+ */
+function cssVariablesSnippet(tokens: DesignTokens): string {
+  const schemeColors = SEMANTIC_COLORS
+    .map(color => `      --color-${color}: {{ scheme.settings.${schemeSettingId(color)} }};`)
+    .join('\n');
+
+  const pickerRoles = FONT_SETTING_ROLES.filter(role => usesFontPicker(tokens, role));
+  const fontFaces = pickerRoles.map(role => {
+    const setting = `settings.type_${role}_font`;
+    const variants = role === 'body'
+      ? `
+  {%- assign ${role}_font_bold = ${setting} | font_modify: 'weight', 'bold' %}
+  {%- assign ${role}_font_italic = ${setting} | font_modify: 'style', 'italic' %}
+  {%- assign ${role}_font_bold_italic = ${role}_font_bold | font_modify: 'style', 'italic' %}
+  {{ ${role}_font_bold | font_face: font_display: '${FONT_DISPLAY}' }}
+  {{ ${role}_font_italic | font_face: font_display: '${FONT_DISPLAY}' }}
+  {{ ${role}_font_bold_italic | font_face: font_display: '${FONT_DISPLAY}' }}`
+      : '';
+    return `  {{ ${setting} | font_face: font_display: '${FONT_DISPLAY}' }}${variants}
+`;
+  }).join('');
+
+  const fontVariables = FONT_SETTING_ROLES.map(role => usesFontPicker(tokens, role)
+    ? `    --font-${role}: {{ settings.type_${role}_font.family }}, {{ settings.type_${role}_font.fallback_families }};
+    --font-${role}-weight: {{ settings.type_${role}_font.weight }};`
+    : `    --font-${role}: {{ settings.type_${role}_family }};`
+  ).join('\n');
+
+  return `{%- style -%}
+${fontFaces}  {%- for scheme in settings.color_schemes %}
+    {% if forloop.first %}:root, {% endif %}.color-{{ scheme.id }} {
+${schemeColors}
+      --gradient-background: {% if scheme.settings.background_gradient != blank %}{{ scheme.settings.background_gradient }}{% else %}{{ scheme.settings.background }}{% endif %};
+    }
+  {%- endfor %}
+
+  :root {
+    --color-primary-base: {{ settings.color_primary }};
+    --color-secondary-base: {{ settings.color_secondary }};
+    --color-accent-base: {{ settings.color_accent }};
+
+${fontVariables}
+    --font-size-root: {{ settings.type_base_size }}px;
+
+    --page-width: {{ settings.page_width }}px;
+  }
+{%- endstyle -%}
+`;
+}
+
+function metaTagsSnippet(): string {
+  return `<meta property="og:site_name" content="{{ shop.name }}">
+<meta property="og:url" content="{{ canonical_url }}">
+<meta property="og:title" content="{{ page_title | escape }}">
+<meta property="og:type" content="website">
+<meta property="og:description" content="{{ page_description | default: shop.description | default: shop.name | escape }}">
+{%- if page_description -%}
+  <meta name="description" content="{{ page_description | escape }}">
+{%- endif -%}
+<meta name="twitter:card" content="summary_large_image">
+<meta name="twitter:title" content="{{ page_title | escape }}">
+`;
+}
+
+function productCardSnippet(): string {
+  return `{%- comment -%}
+  Tarjeta de producto reutilizable.
+
+  Acepta:
+  - product: {Object} objeto producto de Shopify
+{%- endcomment -%}
+<div class="card product-card">
+  <a href="{{ product.url }}" class="card__link">
+    {%- if product.featured_media -%}
+      {{ product.featured_media | image_url: width: 600 | image_tag: loading: 'lazy', class: 'card__image', alt: product.featured_media.alt }}
+    {%- else -%}
+      {{ 'product-1' | placeholder_svg_tag: 'card__image placeholder-svg' }}
+    {%- endif -%}
+    <h3 class="h4 card__title">{{ product.title | escape }}</h3>
+  </a>
+  {% render 'price', product: product %}
+</div>
+`;
+}
+
+function priceSnippet(): string {
+  return `{%- comment -%}
+  Precio de un producto, con precio de comparación si está en oferta.
+
+  Acepta:
+  - product: {Object} objeto producto de Shopify
+{%- endcomment -%}
+{%- assign variant = product.selected_or_first_available_variant -%}
+<div class="price{% if variant.compare_at_price > variant.price %} price--on-sale{% endif %}">
+  {%- if variant.compare_at_price > variant.price -%}
+    <span class="visually-hidden">{{ 'products.product.sale_price' | t }}</span>
+    <span class="price__sale">{{ variant.price | money }}</span>
+    <span class="visually-hidden">{{ 'products.product.regular_price' | t }}</span>
+    <s class="price__compare">{{ variant.compare_at_price | money }}</s>
+  {%- else -%}
+    <span class="price__regular">{{ variant.price | money }}</span>
+  {%- endif -%}
+</div>
+`;
+}
+
+function paginationSnippet(): string {
+  return `{%- comment -%}
+  Navegación de paginación.
+
+  Acepta:
+  - paginate: {Object} objeto paginate de Shopify
+{%- endcomment -%}
+<nav class="pagination" role="navigation" aria-label="{{ 'general.pagination.label' | t }}">
+  {%- if paginate.previous -%}
+    <a href="{{ paginate.previous.url }}" class="pagination__item">{{ 'general.pagination.previous' | t }}</a>
+  {%- endif -%}
+  {%- for part in paginate.parts -%}
+    {%- if part.is_link -%}
+      <a href="{{ part.url }}" class="pagination__item">{{ part.title }}</a>
+    {%- else -%}
+      <span class="pagination__item{% if part.title == paginate.current_page %} pagination__item--current" aria-current="page{% endif %}">{{ part.title }}</span>
+    {%- endif -%}
+  {%- endfor -%}
+  {%- if paginate.next -%}
+    <a href="{{ paginate.next.url }}" class="pagination__item">{{ 'general.pagination.next' | t }}</a>
+  {%- endif -%}
+</nav>
+`;
+}
@@ -0,0 +1,89 @@
+/**
+ * Plantillas JSON del directorio templates/ del tema (Online Store 2.0)
+ */
+
+interface TemplateSection {
+  type: string;
+  settings?: Record<string, unknown>;
+  blocks?: Record<string, { type: string; settings?: Record<string, unknown> }>;
+  block_order?: string[];
+}
+
+interface JsonTemplate {
+  sections: Record<string, TemplateSection>;
+  order: string[];
+}
+
+/**
+ * Crea una plantilla JSON con una única sección principal
+ */
+function singleSectionTemplate(type: string): JsonTemplate {
+  return {
+    sections: {
+      main: { type }
+    },
+    order: ['main']
+  };
+}
+
+/**
+ * Genera la plantilla de la página de inicio con el nombre de la marca
+ */
+function indexTemplate(brandName: string): JsonTemplate {
+  return {
+    sections: {
+      image_banner: {
+        type: 'image-banner',
+        settings: {
+          heading: brandName,
+          button_label: 'Shop all'
+        }
+      },
+      featured_collection: {
+        type: 'featured-collection',
+        settings: {
+          title: 'Featured collection',
+          collection: 'all',
+          products_to_show: 4
+        }
+      },
+      rich_text: {
+        type: 'rich-text',
+        blocks: {
+          heading: {
+            type: 'heading',
+            settings: { heading: `Welcome to ${brandName}` }
+          },
+          text: {
+            type: 'text',
+            settings: { text: '<p>Share information about your brand with your customers.</p>' }
+          }
+        },
+        block_order: ['heading', 'text']
+      }
+    },
+    order: ['image_banner', 'featured_collection', 'rich_text']
+  };
+}
+
+/**
+ * Genera todas las plantillas JSON del tema indexadas por nombre de archivo
+ */
+export function generateTemplates(brandName: string): Record<string, string> {
+  const templates: Record<string, JsonTemplate> = {
+    'index.json': indexTemplate(brandName),
+    'product.json': singleSectionTemplate('main-product'),
+    'collection.json': singleSectionTemplate('main-collection'),
+    'list-collections.json': singleSectionTemplate('main-list-collections'),
+    'page.json': singleSectionTemplate('main-page'),
+    'cart.json': singleSectionTemplate('main-cart'),
+    'search.json': singleSectionTemplate('main-search'),
+    '404.json': singleSectionTemplate('main-404'),
+    'blog.json': singleSectionTemplate('main-blog'),
+    'article.json': singleSectionTemplate('main-article')
+  };
+
+  return Object.fromEntries(
+    Object.entries(templates).map(([file, template]) => [file, JSON.stringify(template, null, 2)])
+  );
+}
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { RESOURCE_NOT_FOUND, ResourceRegistry } from './ResourceRegistry.js';
+
+// Registro con un recurso JSON por marca y los archivos de cada tema
+function registry(): ResourceRegistry {
+  const resources = new ResourceRegistry();
+  resources.register({
+    uriTemplate: 'brand://{brand}/tokens.json',
+    name: 'Tokens',
+    description: 'Tokens de la marca',
+    mimeType: 'application/json',
+    list: async () => [{ uri: 'brand://acme/tokens.json', name: 'Tokens de acme' }],
+    read: async ({ brand }, uri) => (brand === 'acme' ? { uri, mimeType: 'application/json', text: JSON.stringify({ brand }) } : undefined)
+  });
+  resources.register({
+    uriTemplate: 'theme://{theme}/{+path}',
+    name: 'Archivo del tema',
+    description: 'Archivos de los temas generados',
+    list: async () => [],
+    read: async ({ theme, path }, uri) => ({ uri, mimeType: 'text/plain', text: `${theme}:${path}` })
+  });
+  return resources;
+}
+
+const notFound = (error: unknown) => error instanceof McpError && error.code === RESOURCE_NOT_FOUND;
+
+describe('ResourceRegistry', () => {
+  it('despacha la lectura a la plantilla cuya URI coincide', async () => {
+    const resources = registry();
+
+    assert.deepEqual(await resources.readValue('brand://acme/tokens.json'), { brand: 'acme' });
+    assert.equal((await resources.read('theme://acme-theme/sections/hero%20banner.liquid')).text, 'acme-theme:sections/hero banner.liquid');
+    assert.deepEqual((await resources.list()).map(entry => entry.uri), ['brand://acme/tokens.json']);
+    assert.deepEqual(resources.listTemplates().map(template => template.uriTemplate), ['brand://{brand}/tokens.json', 'theme://{theme}/{+path}']);
+  });
+
+  it('informa de los recursos que no existen', async () => {
+    const resources = registry();
+
+    await assert.rejects(resources.read('brand://otra/tokens.json'), notFound);
+    await assert.rejects(resources.read('brand://acme/sub/tokens.json'), notFound);
+    await assert.rejects(resources.read('theme://acme-theme/assets/100%.css'), notFound);
+  });
+
+  it('rechaza registrar dos veces la misma plantilla', () => {
+    const resources = registry();
+    assert.throws(() => resources.register({ uriTemplate: 'brand://{brand}/tokens.json', name: 'Otra', description: 'Otra', list: async () => [], read: async () => undefined }), /ya está registrada/);
+  });
+});
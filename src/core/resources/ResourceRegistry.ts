@@ -0,0 +1,145 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+// Código de error de MCP para un recurso que no existe (el SDK no lo declara)
+export const RESOURCE_NOT_FOUND = -32002 as ErrorCode;
+
+// Recurso concreto que aparece en ListResources
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Contenido de un recurso: texto o binario en base64
+export interface ResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+// Definición de una plantilla de recursos: metadatos, listado y lectura en un solo lugar
+export interface ResourceTemplateDefinition {
+  // Plantilla URI (RFC 6570): {var} no admite barras y {+var} sí
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType?: string;
+  list: () => Promise<ResourceEntry[]>;
+  // Devuelve undefined si el recurso no existe
+  read: (variables: Record<string, string>, uri: string) => Promise<ResourceContents | undefined>;
+}
+
+/**
+ * Convierte una plantilla URI en una expresión regular con un grupo por variable
+ */
+function templatePattern(uriTemplate: string): { pattern: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = uriTemplate
+    .split(/(\{\+?\w+\})/)
+    .map(part => {
+      const variable = part.match(/^\{(\+?)(\w+)\}$/);
+      if (!variable) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      names.push(variable[2]);
+      return variable[1] ? '(.+)' : '([^/]+)';
+    })
+    .join('');
+
+  return { pattern: new RegExp(`^${source}$`), names };
+}
+
+/**
+ * Registro central de recursos MCP.
+ * Construye las respuestas de ListResources y ListResourceTemplates y despacha
+ * ReadResource a la plantilla cuya URI coincide.
+ */
+export class ResourceRegistry {
+  private templates: Array<ResourceTemplateDefinition & ReturnType<typeof templatePattern>> = [];
+
+  register(template: ResourceTemplateDefinition): void {
+    if (this.templates.some(registered => registered.uriTemplate === template.uriTemplate)) {
+      throw new Error(`La plantilla de recursos ${template.uriTemplate} ya está registrada`);
+    }
+
+    this.templates.push({ ...template, ...templatePattern(template.uriTemplate) });
+  }
+
+  listTemplates() {
+    return this.templates.map(({ uriTemplate, name, description, mimeType }) => ({
+      uriTemplate,
+      name,
+      description,
+      mimeType,
+    }));
+  }
+
+  async list(): Promise<ResourceEntry[]> {
+    const lists = await Promise.all(this.templates.map(template => template.list()));
+    return lists.flat();
+  }
+
+  /**
+   * Indica si una URI corresponde a alguna plantilla registrada
+   */
+  matches(uri: string): boolean {
+    return this.templates.some(template => template.pattern.test(uri));
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    for (const template of this.templates) {
+      const match = uri.match(template.pattern);
+      if (!match) continue;
+
+      // Una URI con escapes "%" mal formados no corresponde a ningún recurso
+      let variables: Record<string, string>;
+      try {
+        variables = Object.fromEntries(template.names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+      } catch {
+        continue;
+      }
+      const contents = await template.read(variables, uri);
+      if (contents) return contents;
+    }
+
+    throw new McpError(RESOURCE_NOT_FOUND, `Recurso no encontrado: ${uri}`);
+  }
+
+  /**
+   * Lee un recurso como valor de un argumento: los recursos JSON se devuelven
+   * ya interpretados y el resto como texto
+   */
+  async readValue(uri: string): Promise<unknown> {
+    const contents = await this.read(uri);
+
+    if (contents.text === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `El recurso ${uri} es binario y no se puede usar como argumento`);
+    }
+
+    return contents.mimeType === 'application/json' ? JSON.parse(contents.text) : contents.text;
+  }
+
+  /**
+   * Conecta el registro a los handlers de recursos del servidor
+   */
+  attach(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.list(),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.listTemplates(),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: [await this.read(request.params.uri)],
+    }));
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Workspace del proyecto: guarda en disco los resultados de las herramientas
+ * (datos de marca, tokens y temas generados) para exponerlos como recursos MCP.
+ *
+ * Estructura:
+ * - brands/<marca>/branding.json: datos extraídos del manual
+ * - brands/<marca>/tokens.json: design tokens generados (la última versión)
+ * - brands/<marca>/history/<versión>.json: historial de versiones de los tokens
+ * - brands/<marca>/overrides.json: correcciones manuales de la marca
+ * - themes.json: índice de los temas generados y su directorio
+ * - archives/, previews/, logos/: archivos que generan las herramientas
+ *   (zips de los temas instalados, vistas previas y logos extraídos)
+ */
+import { logger } from '../../utils/logger.js';
+import fs from 'fs';
+import path from 'path';
+
+// Tema generado registrado en el workspace
+export interface WorkspaceTheme {
+  // Identificador del tema en las URIs theme://
+  id: string;
+  name: string;
+  path: string;
+  createdAt: string;
+}
+
+// Tipos MIME de los archivos que se sirven como recurso, por extensión
+const MIME_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.liquid': 'text/x-liquid',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.html': 'text/html',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown'
+};
+
+// Tipos MIME que se sirven como texto (el resto, en base64)
+const TEXT_MIME_TYPES = /^text\/|^application\/json$|^image\/svg\+xml$/;
+
+/**
+ * Directorio raíz del workspace: BRAND_TO_THEME_WORKSPACE o .brand-to-theme
+ * en el directorio de trabajo
+ */
+export function workspaceRoot(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.BRAND_TO_THEME_WORKSPACE?.trim() || path.join(process.cwd(), '.brand-to-theme'));
+}
+
+/**
+ * Ruta dentro del workspace
+ */
+export function workspacePath(...segments: string[]): string {
+  return path.join(workspaceRoot(), ...segments);
+}
+
+/**
+ * Convierte un nombre (de marca o de tema) en un identificador seguro para URIs y rutas
+ */
+export function workspaceId(value: string, fallback = 'brand'): string {
+  const id = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return id || fallback;
+}
+
+/**
+ * Tipo MIME de un archivo por su extensión
+ */
+export function mimeTypeOf(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Indica si un tipo MIME se sirve como texto
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return TEXT_MIME_TYPES.test(mimeType);
+}
+
+function brandPath(brand: string, fileName?: string): string {
+  const directory = path.join(workspaceRoot(), 'brands', workspaceId(brand));
+  return fileName ? path.join(directory, fileName) : directory;
+}
+
+/**
+ * Guarda un archivo de una marca en el workspace
+ */
+export async function writeBrandFile(brand: string, fileName: string, content: string): Promise<void> {
+  const filePath = brandPath(brand, fileName);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, content, 'utf-8');
+  logger.info(`Guardado en el workspace: ${filePath}`);
+}
+
+/**
+ * Lee un archivo de una marca del workspace (undefined si no existe)
+ */
+export async function readBrandFile(brand: string, fileName: string): Promise<string | undefined> {
+  try {
+    return await fs.promises.readFile(brandPath(brand, fileName), 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Nombres de los archivos de un subdirectorio de una marca
+ */
+export async function listBrandFiles(brand: string, directory: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(brandPath(brand, directory)).catch(() => [] as string[]);
+  return entries.sort();
+}
+
+/**
+ * Marcas del workspace que tienen un archivo dado
+ */
+export async function listBrandsWith(fileName: string): Promise<string[]> {
+  const directory = path.join(workspaceRoot(), 'brands');
+  const brands = await fs.promises.readdir(directory).catch(() => [] as string[]);
+  return brands.filter(brand => fs.existsSync(path.join(directory, brand, fileName))).sort();
+}
+
+async function readThemeIndex(): Promise<WorkspaceTheme[]> {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(workspaceRoot(), 'themes.json'), 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Registra en el índice del workspace un tema generado; un tema con el mismo
+ * identificador se sustituye
+ */
+export async function recordTheme(name: string, themePath: string): Promise<WorkspaceTheme> {
+  const theme: WorkspaceTheme = {
+    id: workspaceId(name, 'theme'),
+    name,
+    path: path.resolve(themePath),
+    createdAt: new Date().toISOString()
+  };
+  const themes = (await readThemeIndex()).filter(entry => entry.id !== theme.id);
+
+  await fs.promises.mkdir(workspaceRoot(), { recursive: true });
+  await fs.promises.writeFile(path.join(workspaceRoot(), 'themes.json'), JSON.stringify([...themes, theme], null, 2), 'utf-8');
+  return theme;
+}
+
+/**
+ * Temas registrados cuyo directorio sigue existiendo
+ */
+export async function listThemes(): Promise<WorkspaceTheme[]> {
+  return (await readThemeIndex()).filter(theme => fs.existsSync(theme.path));
+}
+
+/**
+ * Rutas relativas de todos los archivos de un directorio, ordenadas
+ */
+export async function listFiles(directory: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(directory, prefix), { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) files.push(...await listFiles(directory, relativePath));
+    else if (entry.isFile()) files.push(relativePath);
+  }
+
+  return files.sort();
+}
+
+/**
+ * Guarda un resultado en el workspace sin interrumpir la herramienta si falla
+ * (p. ej. por un directorio de solo lectura); devuelve si se guardó
+ */
+export async function saveQuietly(description: string, save: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await save();
+    return true;
+  } catch (error) {
+    logger.warn(`No se pudo guardar ${description} en el workspace: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+import { ToolRegistry } from './ToolRegistry.js';
+
+// Registro con un único recurso de tokens en memoria
+function toolsWithResources(): ToolRegistry {
+  const resources = new ResourceRegistry();
+  resources.register({
+    uriTemplate: 'brand://{brand}/tokens.json',
+    name: 'Tokens',
+    description: 'Tokens de la marca',
+    list: async () => [],
+    read: async ({ brand }, uri) => ({ uri, mimeType: 'application/json', text: JSON.stringify({ brand }) })
+  });
+
+  const tools = new ToolRegistry();
+  tools.useResources(resources);
+  tools.register({
+    name: 'echo',
+    description: 'Devuelve los argumentos',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        designTokens: { type: ['object', 'string'] },
+        themeName: { type: 'string' }
+      }
+    },
+    resourceArguments: ['designTokens'],
+    handler: async (args) => JSON.stringify(args)
+  });
+  return tools;
+}
+
+describe('ToolRegistry', () => {
+  it('sustituye por su contenido solo los argumentos que aceptan recursos', async () => {
+    const result = await toolsWithResources().call('echo', {
+      designTokens: 'brand://acme/tokens.json',
+      themeName: 'brand://acme/tokens.json'
+    });
+
+    assert.deepEqual(JSON.parse(result.content[0].text), {
+      designTokens: { brand: 'acme' },
+      themeName: 'brand://acme/tokens.json'
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { JsonSchema, assertValid } from '../../utils/schema.js';
+import { ResourceRegistry } from '../resources/ResourceRegistry.js';
+
+// Esquema de entrada de una herramienta MCP (JSON Schema de tipo objeto)
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
+
+// Resultado de una herramienta que además guarda recursos en el workspace
+export interface ToolOutput {
+  text: string;
+  // URIs de los recursos guardados (brand://..., theme://...)
+  resources?: string[];
+}
+
+// Definición completa de una herramienta: metadatos y handler en un solo lugar
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  // Argumentos que aceptan la URI de un recurso en lugar de su contenido
+  resourceArguments?: string[];
+  handler: (args: Record<string, unknown>) => Promise<string | ToolOutput>;
+}
+
+/**
+ * Registro central de herramientas MCP.
+ * Construye la respuesta de ListTools y despacha CallTool a la herramienta
+ * correspondiente, ya que el SDK solo admite un handler por esquema.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private resources?: ResourceRegistry;
+
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`La herramienta ${tool.name} ya está registrada`);
+    }
+
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Permite pasar la URI de un recurso del servidor en lugar de su contenido
+   * en los argumentos que lo declaran (p. ej. brandingData: "brand://acme/branding.json")
+   */
+  useResources(resources: ResourceRegistry): void {
+    this.resources = resources;
+  }
+
+  list() {
+    return Array.from(this.tools.values()).map(({ name, description, inputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+    }));
+  }
+
+  async call(name: string, args: Record<string, unknown> = {}) {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Herramienta desconocida: ${name}`);
+    }
+
+    // Los argumentos se validan contra el esquema antes de llegar al handler
+    args = await this.resolveResourceArguments(tool, args);
+    assertValid(tool.inputSchema, args);
+
+    try {
+      const output = await tool.handler(args);
+      const { text, resources = [] } = typeof output === 'string' ? { text: output } : output;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text
+          },
+          ...(resources.length > 0
+            ? [{ type: 'text', text: `Recursos guardados en el workspace:\n${resources.map(uri => `- ${uri}`).join('\n')}` }]
+            : [])
+        ]
+      };
+    } catch (error) {
+      // Los errores de protocolo (p. ej. parámetros inválidos) se propagan tal cual
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      logger.error(`Error en la herramienta ${name}:`, error);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Sustituye por su contenido los argumentos declarados en resourceArguments
+   * que son la URI de un recurso registrado; el resto (nombres, rutas...) se
+   * pasan tal cual aunque lo parezcan
+   */
+  private async resolveResourceArguments(tool: ToolDefinition, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const resources = this.resources;
+    const accepted = tool.resourceArguments || [];
+    if (!resources || accepted.length === 0) return args;
+
+    const entries = await Promise.all(Object.entries(args).map(async ([key, value]) =>
+      [key, accepted.includes(key) && typeof value === 'string' && resources.matches(value) ? await resources.readValue(value) : value]
+    ));
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Conecta el registro a los handlers de ListTools y CallTool del servidor
+   */
+  attach(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: this.list(),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.call(request.params.name, request.params.arguments)
+    );
+  }
+}
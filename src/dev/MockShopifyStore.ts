@@ -0,0 +1,193 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { logger } from '../utils/logger.js';
+import { ShopifyAsset, ShopifyTheme } from '../core/generators/ShopifyAdminClient.js';
+
+// Opciones de la tienda simulada
+export interface MockStoreOptions {
+  accessToken?: string;
+  // Número de consultas en las que un tema recién creado o modificado sigue "processing"
+  processingPolls?: number;
+}
+
+// Estado en memoria de un tema de la tienda simulada
+interface MockTheme extends ShopifyTheme {
+  assets: Map<string, ShopifyAsset>;
+  pendingPolls: number;
+}
+
+// Tienda simulada en ejecución
+export interface MockStore {
+  url: string;
+  themes: Map<number, MockTheme>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serializa un tema sin su estado interno
+ */
+function toThemeResponse(theme: MockTheme): ShopifyTheme {
+  const { assets, pendingPolls, ...publicTheme } = theme;
+  return publicTheme;
+}
+
+/**
+ * Crea una aplicación Express que imita los endpoints de temas de la Admin REST API
+ */
+export function createMockShopifyApp(themes: Map<number, MockTheme>, options: MockStoreOptions = {}) {
+  const { accessToken = 'mock-token', processingPolls = 1 } = options;
+  const app = express();
+  let nextId = 1000;
+
+  app.use(express.json({ limit: '50mb' }));
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.header('X-Shopify-Access-Token') !== accessToken) {
+      res.status(401).json({ errors: '[API] Invalid API key or access token' });
+      return;
+    }
+    next();
+  });
+
+  const findTheme = (req: Request, res: Response): MockTheme | undefined => {
+    const theme = themes.get(Number(req.params.id));
+    if (!theme) {
+      res.status(404).json({ errors: 'Not Found' });
+    }
+    return theme;
+  };
+
+  const touch = (theme: MockTheme) => {
+    theme.processing = processingPolls > 0;
+    theme.pendingPolls = processingPolls;
+    theme.updated_at = new Date().toISOString();
+  };
+
+  app.get('/themes.json', (_req, res) => {
+    res.json({ themes: Array.from(themes.values()).map(toThemeResponse) });
+  });
+
+  app.post('/themes.json', (req, res) => {
+    const name = req.body?.theme?.name;
+    if (!name) {
+      res.status(422).json({ errors: { name: ["can't be blank"] } });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const theme: MockTheme = {
+      id: nextId++,
+      name,
+      role: 'unpublished',
+      processing: false,
+      previewable: true,
+      created_at: now,
+      updated_at: now,
+      assets: new Map(),
+      pendingPolls: 0
+    };
+    touch(theme);
+    themes.set(theme.id, theme);
+
+    res.status(201).json({ theme: toThemeResponse(theme) });
+  });
+
+  app.get('/themes/:id.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    if (theme.pendingPolls > 0) {
+      theme.pendingPolls--;
+    } else {
+      theme.processing = false;
+    }
+
+    res.json({ theme: toThemeResponse(theme) });
+  });
+
+  app.put('/themes/:id.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    const { name, role } = req.body?.theme || {};
+    if (name) {
+      theme.name = name;
+    }
+    if (role === 'main') {
+      // Solo puede haber un tema principal
+      for (const other of themes.values()) {
+        if (other.role === 'main') other.role = 'unpublished';
+      }
+      theme.role = 'main';
+    }
+    theme.updated_at = new Date().toISOString();
+
+    res.json({ theme: toThemeResponse(theme) });
+  });
+
+  app.get('/themes/:id/assets.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    res.json({ assets: Array.from(theme.assets.keys()).map(key => ({ key, theme_id: theme.id })) });
+  });
+
+  app.put('/themes/:id/assets.json', (req, res) => {
+    const theme = findTheme(req, res);
+    if (!theme) return;
+
+    const asset = req.body?.asset as ShopifyAsset | undefined;
+    if (!asset?.key || (asset.value === undefined && asset.attachment === undefined)) {
+      res.status(422).json({ errors: { asset: ['key and value or attachment are required'] } });
+      return;
+    }
+
+    // Igual que Shopify, una plantilla JSON no puede referenciar secciones inexistentes
+    if (asset.key.startsWith('templates/') && asset.key.endsWith('.json') && asset.value) {
+      const template = JSON.parse(asset.value) as { sections?: Record<string, { type: string }> };
+      const missing = Object.values(template.sections || {})
+        .map(section => `sections/${section.type}.liquid`)
+        .filter(key => !theme.assets.has(key));
+      if (missing.length > 0) {
+        res.status(422).json({ errors: { asset: [`Missing sections: ${missing.join(', ')}`] } });
+        return;
+      }
+    }
+
+    theme.assets.set(asset.key, asset);
+    touch(theme);
+    res.json({ asset: { key: asset.key, theme_id: theme.id } });
+  });
+
+  return app;
+}
+
+/**
+ * Arranca la tienda simulada en el puerto indicado (0 para uno libre)
+ */
+export async function startMockShopifyStore(port = 0, options: MockStoreOptions = {}): Promise<MockStore> {
+  const themes = new Map<number, MockTheme>();
+  const app = createMockShopifyApp(themes, options);
+
+  const server = await new Promise<HttpServer>(resolve => {
+    const listener = app.listen(port, () => resolve(listener));
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    themes,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
+
+// Permite ejecutar la tienda simulada directamente: node build/dev/MockShopifyStore.js
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT) || 4010;
+  startMockShopifyStore(port, { accessToken: process.env.SHOPIFY_ACCESS_TOKEN || 'mock-token' }).then(store => {
+    logger.info(`Tienda Shopify simulada escuchando en ${store.url}`);
+    logger.info(`Usa SHOPIFY_ADMIN_API_URL=${store.url} para apuntar el instalador a ella`);
+  });
+}
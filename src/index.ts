@@ -1,23 +1,24 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ErrorCode,
-  ListResourcesRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ListToolsRequestSchema,
-  McpError,
-  ReadResourceRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
-import { registerPdfExtractorTool } from './core/extractors/PDFExtractor.js';
-import { registerDesignTokenTool } from './core/context/DesignTokenExtractor.js';
-import { registerShopifyThemeGenerator } from './core/generators/ShopifyGenerator.js';
+import { registerBrandingResources, registerPdfExtractorTool } from './core/extractors/PDFExtractor.js';
+import { registerBrandSourcesTool } from './core/extractors/BrandSources.js';
+import { registerWebBrandingTool } from './core/extractors/WebExtractor.js';
+import { registerDesignTokenResources, registerDesignTokenTool } from './core/context/DesignTokenExtractor.js';
+import { registerContrastAuditTool } from './core/context/ContrastAuditor.js';
+import { registerTokenDiffTool, registerTokenHistoryResources } from './core/context/TokenHistory.js';
+import { registerBrandOverridesResources } from './core/context/BrandOverrides.js';
+import { registerShopifyThemeGenerator, registerThemeResources } from './core/generators/ShopifyGenerator.js';
 import { registerShopifyThemeInstaller } from './core/generators/ShopifyInstaller.js';
+import { registerShopifyThemePreview } from './core/generators/ShopifyPreview.js';
+import { ToolRegistry } from './core/tools/ToolRegistry.js';
+import { ResourceRegistry } from './core/resources/ResourceRegistry.js';
 import { logger } from './utils/logger.js';
 
 class BrandToThemeServer {
   private server: Server;
+  private tools = new ToolRegistry();
+  private resources = new ResourceRegistry();
 
   constructor() {
     this.server = new Server(
@@ -40,166 +41,40 @@ class BrandToThemeServer {
       process.exit(0);
     });
 
-    // Registrar herramientas MCP
+    // Registrar recursos y herramientas MCP
+    this.setupResources();
     this.setupTools();
-    
-    // No implementamos recursos por ahora, nos enfocamos en herramientas (tools)
-    this.setupResourceHandlers();
   }
 
-  private setupTools() {
-    // Registrar las herramientas MCP
-    registerPdfExtractorTool(this.server);
-    registerDesignTokenTool(this.server);
-    registerShopifyThemeGenerator(this.server);
-    registerShopifyThemeInstaller(this.server);
+  private setupResources() {
+    // Los resultados guardados en el workspace se exponen como recursos
+    registerBrandingResources(this.resources);
+    registerDesignTokenResources(this.resources);
+    registerTokenHistoryResources(this.resources);
+    registerBrandOverridesResources(this.resources);
+    registerThemeResources(this.resources);
 
-    // Configurar el manejador de lista de herramientas
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: 'extract_pdf_branding',
-          description: 'Extrae elementos visuales e identidad de marca desde un archivo PDF',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              pdfPath: {
-                type: 'string',
-                description: 'Ruta al archivo PDF del manual de identidad corporativa'
-              },
-              extractOptions: {
-                type: 'object',
-                properties: {
-                  extractColors: {
-                    type: 'boolean',
-                    description: 'Extraer paleta de colores'
-                  },
-                  extractTypography: {
-                    type: 'boolean',
-                    description: 'Extraer información tipográfica'
-                  },
-                  extractLogos: {
-                    type: 'boolean',
-                    description: 'Extraer logos y variantes'
-                  }
-                }
-              }
-            },
-            required: ['pdfPath']
-          }
-        },
-        {
-          name: 'generate_design_tokens',
-          description: 'Genera tokens de diseño a partir de la identidad de marca extraída',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              brandingData: {
-                type: 'object',
-                description: 'Datos de identidad de marca extraídos'
-              },
-              figmaData: {
-                type: 'object',
-                description: 'Datos opcionalmente extraídos de Figma'
-              },
-              format: {
-                type: 'string',
-                enum: ['json', 'css', 'scss'],
-                description: 'Formato de salida para los tokens'
-              }
-            },
-            required: ['brandingData']
-          }
-        },
-        {
-          name: 'create_shopify_theme',
-          description: 'Genera un tema de Shopify basado en tokens de diseño',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              designTokens: {
-                type: 'object',
-                description: 'Tokens de diseño generados'
-              },
-              themeName: {
-                type: 'string',
-                description: 'Nombre del tema a generar'
-              },
-              outputPath: {
-                type: 'string',
-                description: 'Ruta donde guardar los archivos del tema'
-              }
-            },
-            required: ['designTokens', 'themeName']
-          }
-        },
-        {
-          name: 'preview_shopify_theme',
-          description: 'Genera una vista previa del tema de Shopify',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              themePath: {
-                type: 'string',
-                description: 'Ruta a los archivos del tema'
-              },
-              previewType: {
-                type: 'string',
-                enum: ['thumbnail', 'full'],
-                description: 'Tipo de vista previa a generar'
-              }
-            },
-            required: ['themePath']
-          }
-        },
-        {
-          name: 'install_shopify_theme',
-          description: 'Instala el tema generado en la tienda Shopify conectada',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              themePath: {
-                type: 'string',
-                description: 'Ruta a los archivos del tema'
-              },
-              installationType: {
-                type: 'string',
-                enum: ['new', 'update'],
-                description: 'Instalar como tema nuevo o actualizar un tema existente'
-              },
-              existingThemeId: {
-                type: 'string',
-                description: 'ID del tema existente a actualizar (requerido si installationType es "update")'
-              },
-              setAsMain: {
-                type: 'boolean',
-                description: 'Establecer como tema principal de la tienda después de la instalación'
-              }
-            },
-            required: ['themePath', 'installationType']
-          }
-        }
-      ],
-    }));
+    // El registro construye ListResources y ListResourceTemplates y despacha ReadResource
+    this.resources.attach(this.server);
   }
 
-  private setupResourceHandlers() {
-    // Por simplicidad, no implementamos recursos por ahora
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [],
-    }));
+  private setupTools() {
+    // Cada módulo declara sus herramientas en el registro central
+    registerPdfExtractorTool(this.tools);
+    registerBrandSourcesTool(this.tools);
+    registerWebBrandingTool(this.tools);
+    registerDesignTokenTool(this.tools);
+    registerContrastAuditTool(this.tools);
+    registerTokenDiffTool(this.tools);
+    registerShopifyThemeGenerator(this.tools);
+    registerShopifyThemePreview(this.tools);
+    registerShopifyThemeInstaller(this.tools);
 
-    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
-      resourceTemplates: [],
-    }));
+    // Las herramientas aceptan URIs de recursos en lugar de su contenido
+    this.tools.useResources(this.resources);
 
-    // Si en el futuro añadimos recursos, implementaremos este handler
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      throw new McpError(
-        ErrorCode.NotFound,
-        `Recurso no encontrado: ${request.params.uri}`
-      );
-    });
+    // El registro construye ListTools y despacha CallTool
+    this.tools.attach(this.server);
   }
 
   async run() {
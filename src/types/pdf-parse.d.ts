@@ -0,0 +1,33 @@
+// Declaraciones mínimas de pdf-parse y de la versión de pdf.js que incluye
+
+declare module 'pdf-parse' {
+  interface PDFParseOptions {
+    pagerender?: (pageData: any) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  interface PDFParseResult {
+    numpages: number;
+    numrender: number;
+    info: any;
+    metadata: any;
+    text: string;
+    version: string;
+  }
+
+  function pdfParse(dataBuffer: Buffer | Uint8Array, options?: PDFParseOptions): Promise<PDFParseResult>;
+
+  export default pdfParse;
+}
+
+declare module 'pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js' {
+  const pdfjs: {
+    OPS: Record<string, number>;
+    version: string;
+    // Ajustes globales de pdf.js
+    PDFJS: { disableFontFace?: boolean };
+  };
+
+  export default pdfjs;
+}
@@ -0,0 +1,363 @@
+// Color RGB con canales de 0 a 255
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Color CIELAB (iluminante D65)
+export interface Lab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+// Color CMYK con componentes de 0 a 1
+export interface CMYK {
+  c: number;
+  m: number;
+  y: number;
+  k: number;
+}
+
+// Color OKLCH: luminosidad de 0 a 1, croma (0 a ~0.37) y tono en grados
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+// Color HSL con tono en grados y saturación/luminosidad de 0 a 1
+export interface HSL {
+  h: number;
+  s: number;
+  l: number;
+}
+
+/**
+ * Limita un canal al rango 0-255 y lo redondea
+ */
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+/**
+ * Convierte un color hexadecimal (#rgb o #rrggbb) a RGB
+ */
+export function hexToRgb(hex: string): RGB {
+  let value = hex.replace(/^#/, '');
+  if (value.length === 3) {
+    value = value.split('').map(char => char + char).join('');
+  }
+
+  const numeric = parseInt(value, 16);
+  return {
+    r: (numeric >> 16) & 255,
+    g: (numeric >> 8) & 255,
+    b: numeric & 255
+  };
+}
+
+/**
+ * Convierte un color RGB a hexadecimal en minúsculas (#rrggbb)
+ */
+export function rgbToHex({ r, g, b }: RGB): string {
+  return '#' + [r, g, b].map(channel => clampChannel(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Representación CSS de un color RGB
+ */
+export function rgbToString({ r, g, b }: RGB): string {
+  return `rgb(${clampChannel(r)}, ${clampChannel(g)}, ${clampChannel(b)})`;
+}
+
+/**
+ * Convierte CMYK a RGB con la misma aproximación polinómica que usa pdf.js,
+ * de modo que los valores coinciden con los colores que reporta el renderizador
+ */
+export function cmykToRgb({ c, m, y, k }: CMYK): RGB {
+  const r =
+    c * (-4.387332384609988 * c + 54.48615194189176 * m + 18.82290502165302 * y + 212.25662451639585 * k - 285.2331026137004) +
+    m * (1.7149763477362134 * m - 5.6096736904047315 * y - 17.873870861415444 * k - 5.497006427196366) +
+    y * (-2.5217340131683033 * y - 21.248923337353073 * k + 17.5119270841813) +
+    k * (-21.86122147463605 * k - 189.48180835922747) +
+    255;
+  const g =
+    c * (8.841041422036149 * c + 60.118027045597366 * m + 6.871425592049007 * y + 31.159100130055922 * k - 79.2970844816548) +
+    m * (-15.310361306967817 * m + 17.575251261109482 * y + 131.35250912493976 * k - 190.9453302588951) +
+    y * (4.444339102852739 * y + 9.8632861493405 * k - 24.86741582555878) +
+    k * (-20.737325471181034 * k - 187.80453709719578) +
+    255;
+  const b =
+    c * (0.8842522430003296 * c + 8.078677503112928 * m + 30.89978309703729 * y - 0.23883238689178934 * k - 14.183576799673286) +
+    m * (10.49593273432072 * m + 63.02378494754052 * y + 50.606957656360734 * k - 112.23884253719248) +
+    y * (0.03296041114873217 * y + 115.60384449646641 * k - 193.58209356861505) +
+    k * (-22.33816807309886 * k - 180.12613974708367) +
+    255;
+
+  return {
+    r: Math.max(0, Math.min(255, Math.trunc(r))),
+    g: Math.max(0, Math.min(255, Math.trunc(g))),
+    b: Math.max(0, Math.min(255, Math.trunc(b)))
+  };
+}
+
+/**
+ * Representación textual de un color CMYK en porcentajes
+ */
+export function cmykToString({ c, m, y, k }: CMYK): string {
+  const percent = (value: number) => Math.round(value * 100);
+  return `C:${percent(c)} M:${percent(m)} Y:${percent(y)} K:${percent(k)}`;
+}
+
+/**
+ * Convierte HSL a RGB
+ */
+export function hslToRgb({ h, s, l }: HSL): RGB {
+  const hue = ((h % 360) + 360) % 360;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = l - chroma / 2;
+
+  const [r, g, b] =
+    hue < 60 ? [chroma, x, 0] :
+    hue < 120 ? [x, chroma, 0] :
+    hue < 180 ? [0, chroma, x] :
+    hue < 240 ? [0, x, chroma] :
+    hue < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+
+  return {
+    r: clampChannel((r + m) * 255),
+    g: clampChannel((g + m) * 255),
+    b: clampChannel((b + m) * 255)
+  };
+}
+
+/**
+ * Convierte un canal sRGB a lineal
+ */
+function srgbToLinear(channel: number): number {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convierte RGB a CIELAB (D65)
+ */
+export function rgbToLab({ r, g, b }: RGB): Lab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+}
+
+/**
+ * Convierte un canal lineal a sRGB (0-255)
+ */
+function linearToSrgb(value: number): number {
+  const encoded = value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+  return clampChannel(encoded * 255);
+}
+
+/**
+ * Convierte CIELAB (D65) a RGB; los colores fuera de gama se recortan
+ */
+export function labToRgb({ l, a, b }: Lab): RGB {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+
+  const finv = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+  const x = finv(fx) * 0.95047;
+  const y = finv(fy);
+  const z = finv(fz) * 1.08883;
+
+  return {
+    r: linearToSrgb(x * 3.2404542 - y * 1.5371385 - z * 0.4985314),
+    g: linearToSrgb(-x * 0.969266 + y * 1.8760108 + z * 0.041556),
+    b: linearToSrgb(x * 0.0556434 - y * 0.2040259 + z * 1.0572252)
+  };
+}
+
+/**
+ * Convierte RGB a OKLCH (Oklab en coordenadas polares)
+ */
+export function rgbToOklch({ r, g, b }: RGB): OKLCH {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  const okL = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const okA = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const okB = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  const hue = (Math.atan2(okB, okA) * 180) / Math.PI;
+  return { l: okL, c: Math.sqrt(okA * okA + okB * okB), h: hue < 0 ? hue + 360 : hue };
+}
+
+/**
+ * Convierte OKLCH a RGB lineal sin recortar (puede quedar fuera de 0-1)
+ */
+function oklchToLinear({ l, c, h }: OKLCH): [number, number, number] {
+  const radians = (h * Math.PI) / 180;
+  const a = c * Math.cos(radians);
+  const b = c * Math.sin(radians);
+
+  const lCube = (l + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const mCube = (l - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const sCube = (l - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * lCube - 3.3077115913 * mCube + 0.2309699292 * sCube,
+    -1.2684380046 * lCube + 2.6097574011 * mCube - 0.3413193965 * sCube,
+    -0.0041960863 * lCube - 0.7034186147 * mCube + 1.707614701 * sCube
+  ];
+}
+
+/**
+ * Convierte OKLCH a RGB. Los colores fuera de la gama sRGB se llevan a ella
+ * reduciendo el croma, con lo que conservan la luminosidad y el tono.
+ */
+export function oklchToRgb(color: OKLCH): RGB {
+  const inGamut = (candidate: OKLCH) => oklchToLinear(candidate).every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+  const l = Math.max(0, Math.min(1, color.l));
+
+  let mapped: OKLCH = { ...color, l };
+  if (!inGamut(mapped)) {
+    let low = 0;
+    let high = color.c;
+    for (let i = 0; i < 20; i++) {
+      const middle = (low + high) / 2;
+      if (inGamut({ ...mapped, c: middle })) low = middle;
+      else high = middle;
+    }
+    mapped = { ...mapped, c: low };
+  }
+
+  const [r, g, b] = oklchToLinear(mapped);
+  return { r: linearToSrgb(r), g: linearToSrgb(g), b: linearToSrgb(b) };
+}
+
+/**
+ * Diferencia perceptual entre dos colores (CIE76)
+ */
+export function deltaE(first: RGB, second: RGB): number {
+  const a = rgbToLab(first);
+  const b = rgbToLab(second);
+  return Math.sqrt((a.l - b.l) ** 2 + (a.a - b.a) ** 2 + (a.b - b.b) ** 2);
+}
+
+/**
+ * Luminancia relativa de un color según WCAG 2.x (0 para el negro, 1 para el blanco)
+ */
+export function relativeLuminance({ r, g, b }: RGB): number {
+  return 0.2126 * srgbToLinear(r) + 0.7152 * srgbToLinear(g) + 0.0722 * srgbToLinear(b);
+}
+
+/**
+ * Relación de contraste WCAG 2.x entre dos colores (de 1 a 21)
+ */
+export function contrastRatio(first: RGB, second: RGB): number {
+  const a = relativeLuminance(first);
+  const b = relativeLuminance(second);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Contraste APCA (Lc) de un texto sobre un fondo, según APCA-W3 0.0.98G.
+ * Es positivo para texto oscuro sobre fondo claro y negativo en el caso inverso.
+ */
+export function apcaContrast(text: RGB, background: RGB): number {
+  const luminance = ({ r, g, b }: RGB) => {
+    const y = 0.2126729 * (r / 255) ** 2.4 + 0.7151522 * (g / 255) ** 2.4 + 0.072175 * (b / 255) ** 2.4;
+    // Los tonos casi negros se aclaran ligeramente para compensar el destello de la pantalla
+    return y < 0.022 ? y + (0.022 - y) ** 1.414 : y;
+  };
+
+  const textY = luminance(text);
+  const backgroundY = luminance(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+
+  if (backgroundY > textY) {
+    const contrast = (backgroundY ** 0.56 - textY ** 0.57) * 1.14;
+    return contrast < 0.1 ? 0 : (contrast - 0.027) * 100;
+  }
+
+  const contrast = (backgroundY ** 0.65 - textY ** 0.62) * 1.14;
+  return contrast > -0.1 ? 0 : (contrast + 0.027) * 100;
+}
+
+/**
+ * Indica si un color es prácticamente acromático (blancos, grises y negros)
+ */
+export function isAchromatic(rgb: RGB, threshold = 10): boolean {
+  const { a, b } = rgbToLab(rgb);
+  return Math.sqrt(a * a + b * b) < threshold;
+}
+
+// Muestra de color ponderada (p. ej. por área cubierta)
+export interface WeightedColor<T = unknown> {
+  rgb: RGB;
+  weight: number;
+  data?: T;
+}
+
+// Grupo de colores perceptualmente similares
+export interface ColorCluster<T = unknown> {
+  rgb: RGB;
+  weight: number;
+  members: WeightedColor<T>[];
+}
+
+/**
+ * Agrupa colores similares (distancia CIE76 menor que el umbral) empezando por
+ * los de mayor peso; el color representativo es la media ponderada del grupo
+ */
+export function clusterColors<T>(samples: WeightedColor<T>[], threshold = 8): ColorCluster<T>[] {
+  const clusters: ColorCluster<T>[] = [];
+  const sorted = [...samples].sort((a, b) => b.weight - a.weight);
+
+  for (const sample of sorted) {
+    const cluster = clusters.find(candidate => deltaE(candidate.rgb, sample.rgb) < threshold);
+
+    if (!cluster) {
+      clusters.push({ rgb: { ...sample.rgb }, weight: sample.weight, members: [sample] });
+      continue;
+    }
+
+    const total = cluster.weight + sample.weight;
+    if (total > 0) {
+      cluster.rgb = {
+        r: (cluster.rgb.r * cluster.weight + sample.rgb.r * sample.weight) / total,
+        g: (cluster.rgb.g * cluster.weight + sample.rgb.g * sample.weight) / total,
+        b: (cluster.rgb.b * cluster.weight + sample.rgb.b * sample.weight) / total
+      };
+    }
+    cluster.weight = total;
+    cluster.members.push(sample);
+  }
+
+  return clusters
+    .map(cluster => ({ ...cluster, rgb: { r: clampChannel(cluster.rgb.r), g: clampChannel(cluster.rgb.g), b: clampChannel(cluster.rgb.b) } }))
+    .sort((a, b) => b.weight - a.weight);
+}
@@ -0,0 +1,39 @@
+// Configuración de acceso a la API de administración de Shopify
+export interface ShopifyConfig {
+  storeDomain: string;
+  accessToken: string;
+  apiVersion: string;
+  adminApiUrl: string;
+}
+
+const DEFAULT_API_VERSION = '2024-01';
+
+/**
+ * Lee la configuración de Shopify desde variables de entorno.
+ *
+ * - SHOPIFY_STORE_DOMAIN: dominio de la tienda (mi-tienda.myshopify.com)
+ * - SHOPIFY_ACCESS_TOKEN: token de acceso de la app con permisos write_themes
+ * - SHOPIFY_API_VERSION: versión de la Admin API (por defecto 2024-01)
+ * - SHOPIFY_ADMIN_API_URL: URL base alternativa, p. ej. una tienda simulada local
+ */
+export function getShopifyConfig(env: NodeJS.ProcessEnv = process.env): ShopifyConfig {
+  const storeDomain = env.SHOPIFY_STORE_DOMAIN?.trim();
+  const accessToken = env.SHOPIFY_ACCESS_TOKEN?.trim();
+  const apiVersion = env.SHOPIFY_API_VERSION?.trim() || DEFAULT_API_VERSION;
+  const adminApiUrl = env.SHOPIFY_ADMIN_API_URL?.trim();
+
+  if (!accessToken) {
+    throw new Error('Falta la variable de entorno SHOPIFY_ACCESS_TOKEN');
+  }
+
+  if (!storeDomain && !adminApiUrl) {
+    throw new Error('Falta la variable de entorno SHOPIFY_STORE_DOMAIN (o SHOPIFY_ADMIN_API_URL)');
+  }
+
+  return {
+    storeDomain: storeDomain || 'local',
+    accessToken,
+    apiVersion,
+    adminApiUrl: (adminApiUrl || `https://${storeDomain}/admin/api/${apiVersion}`).replace(/\/+$/, '')
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { brandingDataSchema } from '../core/extractors/PDFExtractor.js';
+import { JsonSchema, assertValid, validateSchema } from './schema.js';
+
+// Argumentos de una herramienta de ejemplo
+const toolSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    themeName: { type: 'string', minLength: 1 },
+    previewType: { type: 'string', enum: ['thumbnail', 'full'] },
+    sizes: { type: 'array', items: { type: 'integer', minimum: 1 } }
+  },
+  required: ['themeName'],
+  additionalProperties: false
+};
+
+describe('validateSchema', () => {
+  it('enumera cada problema con su ruta', () => {
+    assert.deepEqual(validateSchema(toolSchema, { previewType: 'grande', sizes: [1, 0, 'x'], extra: true }), [
+      { path: '$.themeName', message: 'es obligatorio' },
+      { path: '$.previewType', message: 'debe ser uno de "thumbnail", "full"' },
+      { path: '$.sizes[1]', message: 'debe ser mayor o igual que 1' },
+      { path: '$.sizes[2]', message: 'se esperaba integer, se recibió string' },
+      { path: '$.extra', message: 'propiedad no permitida' }
+    ]);
+    assert.deepEqual(validateSchema(toolSchema, { themeName: 'Acme', sizes: [2] }), []);
+  });
+
+  it('comprueba el mínimo exclusivo', () => {
+    const schema = { type: 'number' as const, exclusiveMinimum: 0 };
+
+    assert.deepEqual(validateSchema(schema, 0), [{ path: '$', message: 'debe ser mayor que 0' }]);
+    assert.deepEqual(validateSchema(schema, 0.5), []);
+  });
+
+  it('rechaza un tamaño nulo en la escala tipográfica de los datos de marca', () => {
+    const branding = (size: number) => ({
+      colors: [],
+      typography: [],
+      logos: [],
+      spacing: { typeScale: [{ level: 'body', size }] }
+    });
+
+    assert.deepEqual(validateSchema(brandingDataSchema, branding(0)), [
+      { path: '$.spacing.typeScale[0].size', message: 'debe ser mayor que 0' }
+    ]);
+    assert.deepEqual(validateSchema(brandingDataSchema, branding(16)), []);
+  });
+});
+
+describe('assertValid', () => {
+  it('lanza un error InvalidParams con las rutas inválidas', () => {
+    assert.throws(() => assertValid(toolSchema, { themeName: '' }, '$.args'), (error: unknown) =>
+      error instanceof McpError && error.code === ErrorCode.InvalidParams && error.message.includes('- $.args.themeName: debe tener al menos 1 caracteres'));
+  });
+});
@@ -0,0 +1,147 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// Subconjunto de JSON Schema usado por los esquemas de entrada de las herramientas
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+}
+
+// Problema de validación localizado por su ruta JSON
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Determina el tipo JSON de un valor
+ */
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+/**
+ * Comprueba si el tipo de un valor cumple el tipo esperado ("integer" también es "number")
+ */
+function matchesType(actual: JsonType, expected: JsonType): boolean {
+  return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+/**
+ * Construye la ruta JSON de una propiedad hija
+ */
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Valida un valor contra un esquema y devuelve todos los problemas encontrados
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = '$'): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!expected.some(type => matchesType(actual, type))) {
+      issues.push({ path, message: `se esperaba ${expected.join(' o ')}, se recibió ${actual}` });
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `debe ser uno de ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`
+    });
+  }
+
+  if (actual === 'string') {
+    const text = value as string;
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+      issues.push({ path, message: `debe tener al menos ${schema.minLength} caracteres` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+      issues.push({ path, message: `"${text}" no cumple el formato ${schema.pattern}` });
+    }
+  }
+
+  if (actual === 'number' || actual === 'integer') {
+    const numeric = value as number;
+    if (schema.minimum !== undefined && numeric < schema.minimum) {
+      issues.push({ path, message: `debe ser mayor o igual que ${schema.minimum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && numeric <= schema.exclusiveMinimum) {
+      issues.push({ path, message: `debe ser mayor que ${schema.exclusiveMinimum}` });
+    }
+    if (schema.maximum !== undefined && numeric > schema.maximum) {
+      issues.push({ path, message: `debe ser menor o igual que ${schema.maximum}` });
+    }
+  }
+
+  if (actual === 'array') {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      issues.push({ path, message: `debe tener al menos ${schema.minItems} elementos` });
+    }
+    if (schema.items) {
+      items.forEach((item, index) => {
+        issues.push(...validateSchema(schema.items as JsonSchema, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({ path: childPath(path, key), message: 'es obligatorio' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (propertyValue === undefined) continue;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(...validateSchema(propertySchema, propertyValue, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: 'propiedad no permitida' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateSchema(schema.additionalProperties, propertyValue, childPath(path, key)));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Valida un valor y lanza un error InvalidParams que enumera cada ruta inválida
+ */
+export function assertValid(schema: JsonSchema, value: unknown, path = '$'): void {
+  const issues = validateSchema(schema, value, path);
+
+  if (issues.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Parámetros inválidos:\n${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}`
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// Unidades de longitud que aparecen en los manuales de marca
+export type LengthUnit = 'px' | 'pt' | 'pc' | 'mm' | 'cm' | 'in' | 'rem' | 'em';
+
+// Tamaño de fuente raíz del navegador, en píxeles
+export const ROOT_FONT_SIZE = 16;
+
+// Píxeles CSS por unidad (1in = 96px = 72pt = 25.4mm)
+const PIXELS_PER_UNIT: Record<LengthUnit, number> = {
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  mm: 96 / 25.4,
+  cm: 96 / 2.54,
+  in: 96,
+  rem: ROOT_FONT_SIZE,
+  em: ROOT_FONT_SIZE
+};
+
+// Unidad de longitud al final de una medida ("48pt", "12 mm")
+export const LENGTH_UNIT_PATTERN = 'px|pt|pc|mm|cm|in|rem|em';
+
+/**
+ * Indica si un texto es una unidad de longitud reconocida
+ */
+export function isLengthUnit(unit: string): unit is LengthUnit {
+  return unit in PIXELS_PER_UNIT;
+}
+
+/**
+ * Convierte una medida a píxeles CSS
+ */
+export function toPixels(value: number, unit: LengthUnit): number {
+  return value * PIXELS_PER_UNIT[unit];
+}
+
+/**
+ * Lee un número con coma o punto decimal ("1,5" -> 1.5)
+ */
+export function parseDecimal(value: string): number {
+  return Number(value.replace(',', '.'));
+}
+
+/**
+ * Convierte píxeles a rem sobre la raíz de 16px, con tres decimales como máximo
+ */
+export function pxToRem(pixels: number): string {
+  return `${Math.round((pixels / ROOT_FONT_SIZE) * 1000) / 1000}rem`;
+}